@@ -21,6 +21,8 @@ import TherapistSettingsPage from "@/pages/TherapistSettingsPage";
 import AdminSettingsPage from "@/pages/AdminSettingsPage";
 import PatientSessionPage from "@/pages/PatientSessionPage";
 import TherapistSessionPage from "@/pages/TherapistSessionPage";
+import CrisisReportPage from "@/pages/CrisisReportPage";
+import PatientIntakePage from "@/pages/PatientIntakePage";
 import AnalyticsPage from "@/pages/AnalyticsPage";
 import NotFound from "@/pages/not-found";
 
@@ -73,6 +75,16 @@ function Router() {
           <TherapistSessionPage />
         </TherapistRoute>
       </Route>
+      <Route path="/therapist/crisis">
+        <TherapistRoute>
+          <CrisisReportPage />
+        </TherapistRoute>
+      </Route>
+      <Route path="/therapist/intake">
+        <TherapistRoute>
+          <PatientIntakePage />
+        </TherapistRoute>
+      </Route>
       
       {/* Admin routes - PROTECTED: Only accessible by admin users */}
       <Route path="/admin">
@@ -5,6 +5,7 @@
  */
 
 import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
@@ -34,10 +35,18 @@ import {
 } from "lucide-react";
 import type { 
   BLSConfiguration, 
+  BLSAuditoryConfig,
   EmotionData, 
   BLSPattern,
   DeviceCapabilities,
-  EMDRPhase 
+  EMDRPhase,
+  EffectiveAdaptiveRuleSet
+} from '@/../../shared/types';
+import {
+  BLS_RATE_HZ_MAX,
+  BLS_RATE_HZ_MIN,
+  createDefaultBLSAuditoryConfig,
+  createDefaultBLSSetSequenceConfig
 } from '@/../../shared/types';
 
 // Revolutionary 3D BLS System Imports
@@ -47,6 +56,21 @@ import { HapticsEngine } from '@/services/bls/hapticsEngine';
 import { Renderer3D, Pattern3DPosition } from '@/services/bls/renderer3D';
 import { AdaptiveController } from '@/services/bls/adaptiveController';
 import { TransitionManager } from '@/services/bls/transitionManager';
+import { BLSSetSequencer, type BLSSetSequencerState } from '@/services/bls/setSequencer';
+import { BLSTimingCore } from '@/services/bls/timingCore';
+import { AuditoryTapper } from '@/services/bls/auditoryTapper';
+import BLSPresetPicker from '@/components/bls/BLSPresetPicker';
+import TactileDevicePanel from '@/components/bls/TactileDevicePanel';
+import type { TactileDevice } from '@/services/bls/tactileDevice';
+
+type BLSAuditoryWaveform = BLSAuditoryConfig['waveform'];
+
+const AUDITORY_WAVEFORMS: { value: BLSAuditoryWaveform; label: string }[] = [
+  { value: 'click', label: 'Щелчок' },
+  { value: 'sine', label: 'Мягкий тон' },
+  { value: 'triangle', label: 'Треугольный тон' },
+  { value: 'square', label: 'Резкий тон' }
+];
 
 export interface BilateralStimulationProps {
   onSessionComplete?: () => void;
@@ -61,7 +85,7 @@ export interface BilateralStimulationProps {
 export interface BLSMetrics {
   cyclesCompleted: number;
   totalDuration: number;
-  averageSpeed: number;
+  averageRateHz: number;
   patternChanges: number;
   attentionScore: number;
 }
@@ -72,6 +96,8 @@ export interface BilateralStimulationRef {
   reset: () => void;
   updateConfig: (config: Partial<BLSConfiguration>) => void;
   getMetrics: () => BLSMetrics;
+  getConfig: () => BLSConfiguration;
+  getSetSequencer: () => BLSSetSequencer;
 }
 
 const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimulationProps>(
@@ -94,7 +120,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     // Revolutionary 3D BLS Configuration with backward compatibility
     const [config, setConfig] = useState<BLSConfiguration>({
       // Core settings (backward compatible)
-      speed: initialConfig?.speed || 5,
+      rateHz: initialConfig?.rateHz || 1,
       pattern: initialConfig?.pattern || 'horizontal',
       color: initialConfig?.color || '#3b82f6',
       size: initialConfig?.size || 20,
@@ -150,6 +176,9 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       therapeuticMode: 'standard',
       sessionPhase: 'preparation',
       
+      sets: createDefaultBLSSetSequenceConfig(initialConfig?.sets),
+      auditory: createDefaultBLSAuditoryConfig(initialConfig?.auditory),
+      
       // Additional properties for enhanced config
       secondaryColor: undefined
     });
@@ -158,7 +187,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     const [metrics, setMetrics] = useState<BLSMetrics>({
       cyclesCompleted: 0,
       totalDuration: 0,
-      averageSpeed: config.speed,
+      averageRateHz: config.rateHz,
       patternChanges: 0,
       attentionScore: 1
     });
@@ -178,6 +207,16 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     const hapticsEngineRef = useRef<HapticsEngine | null>(null);
     const adaptiveControllerRef = useRef<AdaptiveController | null>(null);
     const transitionManagerRef = useRef<TransitionManager | null>(null);
+    const [setSequencer] = useState(() => new BLSSetSequencer(config.sets));
+    const [timingCore] = useState(() => new BLSTimingCore(config.rateHz));
+    const auditoryTapperRef = useRef<AuditoryTapper | null>(null);
+    const [auditorySide, setAuditorySide] = useState<'left' | 'right' | null>(null);
+    const [tactileDevice, setTactileDevice] = useState<TactileDevice | null>(null);
+    const [setProgress, setSetProgress] = useState<{ state: BLSSetSequencerState; currentSet: number; passesInSet: number }>({
+      state: 'idle',
+      currentSet: 0,
+      passesInSet: 0
+    });
     
     // Legacy 2D Animation Refs (for fallback)
     const animationRef = useRef<number>();
@@ -185,6 +224,47 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     const audioContextRef = useRef<AudioContext | null>(null);
     const oscillatorRef = useRef<OscillatorNode | null>(null);
     
+    // Therapist- or clinic-defined adaptive rules; the built-in ones apply until they load
+    const { data: effectiveRuleSet } = useQuery<EffectiveAdaptiveRuleSet>({
+      queryKey: ['/api/bls/rule-sets/effective'],
+      enabled: config.adaptiveMode,
+    });
+    
+    useEffect(() => {
+      if (effectiveRuleSet && adaptiveControllerRef.current) {
+        adaptiveControllerRef.current.loadRuleSet(effectiveRuleSet.ruleSet);
+      }
+    }, [effectiveRuleSet, systemStatus]);
+    
+    useEffect(() => {
+      timingCore.setFrequency(config.rateHz);
+    }, [timingCore, config.rateHz]);
+    
+    // Sets count passes on the shared clock, whichever renderer drives it
+    useEffect(() => timingCore.subscribe(sample => {
+      for (let i = 0; i < sample.sweeps; i++) {
+        setSequencer.registerSweep();
+      }
+      if (sample.sweeps > 0) {
+        setAuditorySide(sample.direction === 1 ? 'left' : 'right');
+      }
+    }), [timingCore, setSequencer]);
+    
+    // The haptics engine pulses the device on the shared clock; it exists once the systems are initialised
+    useEffect(() => {
+      hapticsEngineRef.current?.setTactileDevice(tactileDevice);
+    }, [tactileDevice, systemStatus]);
+    
+    useEffect(() => () => {
+      tactileDevice?.disconnect();
+    }, [tactileDevice]);
+    
+    useEffect(() => {
+      if (config.auditory) {
+        auditoryTapperRef.current?.updateConfig(config.auditory);
+      }
+    }, [config.auditory]);
+    
     // Initialize Revolutionary 3D Systems
     useEffect(() => {
       initializeRevolutionary3DSystems();
@@ -208,7 +288,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
         
         if (use3D && canvas3DRef.current) {
           // 3. Initialize 3D Renderer
-          renderer3DRef.current = new Renderer3D(canvas3DRef.current, config.rendering3D);
+          renderer3DRef.current = new Renderer3D(canvas3DRef.current, config.rendering3D, timingCore);
           renderer3DRef.current.setCallbacks({
             onDirectionChange: handleDirectionChange,
             onPatternComplete: handlePatternComplete,
@@ -223,16 +303,18 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
           if (!audioInitialized) {
             console.warn('Advanced audio initialization failed, using fallback');
           }
+          audioEngineRef.current.syncToTiming(timingCore);
         }
         
-        // 5. Initialize Haptics Engine
+        // 5. Initialize Haptics Engine; a tactile pulser works without vibration support
+        hapticsEngineRef.current = new HapticsEngine();
         if (caps.vibration) {
-          hapticsEngineRef.current = new HapticsEngine();
           hapticsEngineRef.current.initialize();
         }
+        hapticsEngineRef.current.syncToTiming(timingCore);
         
         // 6. Initialize Adaptive Controller with 98 emotional states
-        adaptiveControllerRef.current = new AdaptiveController(config);
+        adaptiveControllerRef.current = new AdaptiveController(config, effectiveRuleSet?.ruleSet);
         
         // 7. Initialize Transition Manager
         transitionManagerRef.current = new TransitionManager();
@@ -266,17 +348,22 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       audioEngineRef.current?.dispose();
       hapticsEngineRef.current?.dispose();
       transitionManagerRef.current?.dispose();
+      auditoryTapperRef.current?.dispose();
+      setSequencer.dispose();
+      timingCore.dispose();
     };
     
     // Expose methods to parent component (Enhanced API)
     useImperativeHandle(ref, () => ({
-      start: () => startBLS(),
-      pause: () => pauseBLS(),
+      start: () => beginBLS(),
+      pause: () => stopBLS(),
       reset: () => resetBLS(),
       updateConfig: (newConfig: Partial<BLSConfiguration>) => {
         updateConfigurationWithTransition(newConfig);
       },
       getMetrics: () => metrics,
+      getConfig: () => config,
+      getSetSequencer: () => setSequencer,
       
       // Revolutionary 3D API Extensions
       get3DCapabilities: () => deviceCaps,
@@ -286,6 +373,27 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       getCurrentPosition: () => currentPosition
     }));
     
+    // With set sequencing on, the sequencer starts and stops the stimulation set by set
+    const beginBLS = () => {
+      if (!config.sets?.enabled) {
+        startBLS();
+        return;
+      }
+      
+      setSequencer.updateConfig(config.sets);
+      if (setSequencer.getState() === 'check-in') {
+        setSequencer.nextSet();
+      } else if (setSequencer.getState() !== 'running') {
+        setSequencer.start();
+      }
+    };
+    
+    // Stopping by hand ends the sequence; the set in progress is logged with the passes it reached
+    const stopBLS = () => {
+      pauseBLS();
+      setSequencer.stop();
+    };
+    
     // Revolutionary Start BLS - 3D + 2D Fallback
     const startBLS = async () => {
       if (isActive) return;
@@ -294,11 +402,18 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
         setIsActive(true);
         startTimeRef.current = Date.now();
         
-        // Enhanced error handling for 3D/2D transitions
-        if (is3DMode && renderer3DRef.current) {
+        // Auditory-only mode runs on the tapper alone, without any renderer
+        if (config.auditory?.enabled) {
+          if (!auditoryTapperRef.current) {
+            auditoryTapperRef.current = new AuditoryTapper(timingCore);
+          }
+          await auditoryTapperRef.current.start(config.auditory);
+          console.log(`🎯 BLS Started in auditory-only mode`);
+        } else if (is3DMode && renderer3DRef.current) {
+          // Enhanced error handling for 3D/2D transitions
           try {
             // Start 3D Animation
-            renderer3DRef.current.start(config.pattern, config.speed);
+            renderer3DRef.current.start(config.pattern, config.rateHz);
             
             // Start Advanced Audio
             if (audioEngineRef.current && config.audio.enabled) {
@@ -373,6 +488,8 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     // Revolutionary Pause BLS - All Systems
     const pauseBLS = () => {
       setIsActive(false);
+      timingCore.stop();
+      auditoryTapperRef.current?.stop();
       
       // Stop 3D Systems
       if (renderer3DRef.current) {
@@ -408,6 +525,9 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     // Revolutionary Reset BLS - All Systems
     const resetBLS = () => {
       setIsActive(false);
+      timingCore.stop();
+      auditoryTapperRef.current?.stop();
+      setAuditorySide(null);
       setBallPosition(getInitialPosition());
       setBallDirection(1);
       
@@ -428,6 +548,9 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
         adaptiveControllerRef.current.reset();
       }
       
+      setSequencer.reset();
+      setSetProgress({ state: 'idle', currentSet: 0, passesInSet: 0 });
+      
       // Reset legacy systems
       if (oscillatorRef.current) {
         oscillatorRef.current.stop();
@@ -438,7 +561,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       setMetrics({
         cyclesCompleted: 0,
         totalDuration: 0,
-        averageSpeed: config.speed,
+        averageRateHz: config.rateHz,
         patternChanges: 0,
         attentionScore: 1
       });
@@ -479,7 +602,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
           // Update 3D systems
           if (renderer3DRef.current && isActive) {
             renderer3DRef.current.updatePattern(adaptiveResult.config.pattern);
-            renderer3DRef.current.updateSpeed(adaptiveResult.config.speed);
+            renderer3DRef.current.updateRate(adaptiveResult.config.rateHz);
           }
         }
         
@@ -510,6 +633,26 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       }
     }, [emotionData, config.adaptiveMode]);
     
+    // Sets start and stop the stimulation; the pause between them is the check-in
+    useEffect(() => setSequencer.subscribe({
+      onSetStart: (setNumber) => {
+        setSetProgress({ state: 'running', currentSet: setNumber, passesInSet: 0 });
+        startBLS();
+      },
+      onPass: (setNumber, passInSet) => {
+        setSetProgress(prev => ({ ...prev, currentSet: setNumber, passesInSet: passInSet }));
+      },
+      onSetEnd: () => {
+        setSetProgress(prev => ({ ...prev, state: 'check-in' }));
+        pauseBLS();
+      },
+      onSequenceComplete: () => {
+        setSetProgress(prev => ({ ...prev, state: 'complete' }));
+        pauseBLS();
+        onSessionComplete?.();
+      }
+    }), [setSequencer, isActive, is3DMode, config]);
+    
     // Revolutionary 3D Event Handlers
     const handleDirectionChange = (direction: number) => {
       setBallDirection(direction);
@@ -520,11 +663,6 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
         cyclesCompleted: prev.cyclesCompleted + (direction === 1 ? 0 : 0.5)
       }));
       
-      // Trigger haptic feedback
-      if (hapticsEngineRef.current) {
-        hapticsEngineRef.current.triggerDirectionChange();
-      }
-      
       // Legacy sound for fallback
       playLegacySound();
     };
@@ -541,25 +679,8 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     };
     
     const handlePositionUpdate = (position: Pattern3DPosition) => {
+      // Audio panning and haptics follow the timing core directly
       setCurrentPosition(position);
-      
-      // Update spatial audio
-      if (audioEngineRef.current && config.audio.spatialAudio) {
-        audioEngineRef.current.updateSpatialPosition({
-          x: position.position.x,
-          y: position.position.y,
-          z: position.position.z
-        });
-      }
-      
-      // Update haptic feedback based on movement
-      if (hapticsEngineRef.current && config.haptics.syncWithMovement) {
-        hapticsEngineRef.current.triggerMovementSync({
-          x: position.position.x,
-          y: position.position.y,
-          z: position.position.z
-        });
-      }
     };
     
     const handleTransitionComplete = (finalConfig: BLSConfiguration) => {
@@ -585,6 +706,31 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       }
     };
     
+    // Apply a saved preset through the transition manager so the switch is smooth
+    const applyPreset = async (presetConfig: Partial<BLSConfiguration>) => {
+      const targetConfig: BLSConfiguration = {
+        ...config,
+        ...presetConfig,
+        // Keep the live session context - presets only carry stimulation settings
+        sessionPhase: config.sessionPhase
+      };
+      
+      if (config.transitions.enabled && transitionManagerRef.current) {
+        await transitionManagerRef.current.startTransition(
+          config,
+          targetConfig,
+          config.transitions
+        );
+      }
+      
+      setConfig(targetConfig);
+      
+      if (renderer3DRef.current && isActive) {
+        renderer3DRef.current.updatePattern(targetConfig.pattern);
+        renderer3DRef.current.updateRate(targetConfig.rateHz);
+      }
+    };
+    
     // Legacy Audio Support (for fallback)
     const initLegacyAudio = () => {
       if (!audioContextRef.current) {
@@ -612,13 +758,8 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     const playSound = () => {
       if (!config.soundEnabled && !config.audio.enabled) return;
       
-      // Use AudioEngine if available, otherwise fallback to legacy audio
-      if (audioEngineRef.current && config.audio.enabled) {
-        // Update stereo panning based on ball position
-        const normalizedX = ballPosition / (containerRef.current?.offsetWidth || 400);
-        audioEngineRef.current.updatePanning(normalizedX);
-      } else {
-        // Fallback to legacy sound
+      // The AudioEngine pans with the timing core; only the legacy beep needs a trigger
+      if (!audioEngineRef.current || !config.audio.enabled) {
         playLegacySound();
       }
     };
@@ -633,6 +774,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
       
       // Set start time for metrics
       startTimeRef.current = Date.now();
+      timingCore.start();
       
       // Start the animation by setting isActive to true
       // This will trigger the existing useEffect animation loop
@@ -707,38 +849,30 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     
     // Animation loop
     useEffect(() => {
-      if (isActive) {
-        let progress = 0;
-        let direction = 1;
-        let lastTimestamp = performance.now();
+      if (isActive && !config.auditory?.enabled) {
+        let lastPasses = timingCore.getSample().passes;
         
         const animate = (timestamp: number) => {
-          const deltaTime = timestamp - lastTimestamp;
-          lastTimestamp = timestamp;
-          
-          // Update progress based on speed
-          const speedFactor = config.speed / 500;
-          progress += direction * speedFactor * (deltaTime / 16);
+          // Position comes from elapsed real time, so dropped frames never slow the stimulus
+          const sample = timingCore.tick(timestamp);
           
-          // Handle bounds and direction change
-          if (progress >= 1 || progress <= 0) {
-            direction *= -1;
-            progress = Math.max(0, Math.min(1, progress));
-            
+          if (sample.sweeps > 0) {
             // Play sound on bounce
             playSound();
-            
-            // Count cycles
-            if (progress === 0) {
-              setMetrics(prev => ({
-                ...prev,
-                cyclesCompleted: prev.cyclesCompleted + 1
-              }));
-            }
+          }
+          
+          // Count cycles
+          if (sample.passes > lastPasses) {
+            const completed = sample.passes - lastPasses;
+            lastPasses = sample.passes;
+            setMetrics(prev => ({
+              ...prev,
+              cyclesCompleted: prev.cyclesCompleted + completed
+            }));
           }
           
           // Calculate position
-          const position = calculatePosition(Math.abs(progress));
+          const position = calculatePosition(sample.position);
           setBallPosition(position.x);
           
           // Continue animation
@@ -762,12 +896,12 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
     // Adaptive mode - adjust based on emotion data
     useEffect(() => {
       if (config.adaptiveMode && emotionData) {
-        // Adjust speed based on arousal
-        const targetSpeed = emotionData.arousal > 0.7 
-          ? 3 // Slow for high arousal
+        // Adjust rate based on arousal
+        const targetRateHz = emotionData.arousal > 0.7 
+          ? 0.6 // Slow for high arousal
           : emotionData.arousal < 0.3 
-          ? 7 // Moderate for low arousal
-          : 5; // Normal speed
+          ? 1.4 // Moderate for low arousal
+          : 1; // Normal rate
         
         // Adjust color based on valence
         const targetColor = emotionData.valence < 0.3 
@@ -777,10 +911,10 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
           : '#3b82f6'; // Blue for neutral
         
         // Apply gradual changes
-        if (targetSpeed !== config.speed || targetColor !== config.color) {
+        if (targetRateHz !== config.rateHz || targetColor !== config.color) {
           setConfig(prev => ({
             ...prev,
-            speed: targetSpeed,
+            rateHz: targetRateHz,
             color: targetColor
           }));
           
@@ -828,7 +962,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
             <div className="flex items-center space-x-2">
               <Button
                 variant={isActive ? "default" : "outline"}
-                onClick={() => isActive ? pauseBLS() : startBLS()}
+                onClick={() => isActive ? stopBLS() : beginBLS()}
                 data-testid="button-toggle-bls"
               >
                 {isActive ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
@@ -862,32 +996,75 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
             className={`${containerClass} w-full h-96 flex items-center justify-center`}
             style={{ backgroundColor: fullscreen ? '#000' : config.pattern === '3d-wave' ? '#1a1a2e' : '#f8fafc' }}
           >
-            {/* Stimulation Ball */}
-            <div
-              className="absolute transition-all duration-100 rounded-full flex items-center justify-center"
-              style={{
-                width: config.size + 'px',
-                height: config.size + 'px',
-                backgroundColor: config.color,
-                left: ballPosition + 'px',
-                top: '50%',
-                transform: 'translateY(-50%)',
-                boxShadow: isActive ? `0 0 20px ${config.color}80` : 'none'
-              }}
-              data-testid="bls-ball"
-            />
+            {config.auditory?.enabled ? (
+              /* Ear indicator for the therapist; the patient listens with eyes closed */
+              <div className="flex items-center space-x-12" data-testid="bls-auditory">
+                {(['left', 'right'] as const).map(side => (
+                  <div
+                    key={side}
+                    className="w-16 h-16 rounded-full border-2 flex items-center justify-center font-medium transition-colors duration-100"
+                    style={{
+                      borderColor: config.color,
+                      backgroundColor: isActive && auditorySide === side ? config.color : 'transparent',
+                      order: side === 'left' ? 0 : 2
+                    }}
+                    data-testid={`bls-auditory-${side}`}
+                  >
+                    {side === 'left' ? 'Л' : 'П'}
+                  </div>
+                ))}
+                <Headphones className="w-10 h-10 text-muted-foreground" style={{ order: 1 }} />
+              </div>
+            ) : (
+              /* Stimulation Ball */
+              <div
+                className="absolute transition-all duration-100 rounded-full flex items-center justify-center"
+                style={{
+                  width: config.size + 'px',
+                  height: config.size + 'px',
+                  backgroundColor: config.color,
+                  left: ballPosition + 'px',
+                  top: '50%',
+                  transform: 'translateY(-50%)',
+                  boxShadow: isActive ? `0 0 20px ${config.color}80` : 'none'
+                }}
+                data-testid="bls-ball"
+              />
+            )}
             
             {/* Center guideline */}
-            {config.pattern === 'horizontal' && (
+            {config.pattern === 'horizontal' && !config.auditory?.enabled && (
               <div className="absolute top-0 bottom-0 left-1/2 w-px bg-border opacity-30 transform -translate-x-1/2" />
             )}
             
+            {/* Check-in between sets */}
+            {!isActive && setProgress.state === 'check-in' && (
+              <div className="absolute inset-0 bg-black/5 flex items-center justify-center" data-testid="bls-set-check-in">
+                <div className="text-center space-y-2">
+                  <p className="font-medium">Сет {setProgress.currentSet} завершён</p>
+                  <p className="text-muted-foreground">Сделайте вдох. Что вы замечаете сейчас?</p>
+                  <Button variant="outline" size="sm" onClick={() => setSequencer.nextSet()} data-testid="button-next-set">
+                    Следующий сет
+                  </Button>
+                </div>
+              </div>
+            )}
+            
             {/* Instructions overlay */}
-            {!isActive && (
+            {!isActive && setProgress.state !== 'check-in' && (
               <div className="absolute inset-0 bg-black/5 flex items-center justify-center pointer-events-none">
                 <div className="text-center">
-                  <Eye className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
-                  <p className="text-muted-foreground font-medium">Следите глазами за движущимся объектом</p>
+                  {config.auditory?.enabled ? (
+                    <>
+                      <Headphones className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
+                      <p className="text-muted-foreground font-medium">Наденьте наушники, закройте глаза и следите за звуком</p>
+                    </>
+                  ) : (
+                    <>
+                      <Eye className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
+                      <p className="text-muted-foreground font-medium">Следите глазами за движущимся объектом</p>
+                    </>
+                  )}
                   <p className="text-sm text-muted-foreground mt-1">Нажмите "Начать" для запуска стимуляции</p>
                 </div>
               </div>
@@ -902,16 +1079,16 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
                 <div className="flex items-center space-x-2">
                   <span className="text-sm font-medium w-20">Скорость:</span>
                   <Slider
-                    value={[config.speed]}
-                    onValueChange={(value) => setConfig(prev => ({ ...prev, speed: value[0] }))}
-                    max={10}
-                    min={1}
-                    step={1}
+                    value={[config.rateHz]}
+                    onValueChange={(value) => setConfig(prev => ({ ...prev, rateHz: value[0] }))}
+                    max={BLS_RATE_HZ_MAX}
+                    min={BLS_RATE_HZ_MIN}
+                    step={0.05}
                     className="flex-1"
                     disabled={isActive}
                     data-testid="slider-speed"
                   />
-                  <span className="text-xs text-muted-foreground w-8">{config.speed}</span>
+                  <span className="text-xs text-muted-foreground w-14">{config.rateHz.toFixed(2)} Гц</span>
                 </div>
                 
                 {/* Size control */}
@@ -947,6 +1124,12 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
               {/* Pattern selection */}
               {showSettings && (
                 <div className="mt-4 space-y-4">
+                  <BLSPresetPicker
+                    currentConfig={config}
+                    onApply={applyPreset}
+                    disabled={isActive && !config.transitions.enabled}
+                  />
+                  
                   <div>
                     <p className="text-sm font-medium mb-2">Паттерн движения:</p>
                     <div className="flex space-x-2">
@@ -988,6 +1171,152 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
                     </div>
                   </div>
                   
+                  {/* Auditory-only mode */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Только звук:</span>
+                      <Switch
+                        checked={!!config.auditory?.enabled}
+                        onCheckedChange={(enabled) => setConfig(prev => ({
+                          ...prev,
+                          auditory: createDefaultBLSAuditoryConfig({ ...prev.auditory, enabled })
+                        }))}
+                        disabled={isActive}
+                        data-testid="switch-bls-auditory"
+                      />
+                    </div>
+                    {config.auditory?.enabled && (
+                      <>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Звук:</span>
+                          <Select
+                            value={config.auditory.waveform}
+                            onValueChange={(waveform) => setConfig(prev => ({
+                              ...prev,
+                              auditory: createDefaultBLSAuditoryConfig({ ...prev.auditory, waveform: waveform as BLSAuditoryWaveform })
+                            }))}
+                          >
+                            <SelectTrigger className="flex-1" data-testid="select-auditory-waveform">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {AUDITORY_WAVEFORMS.map(({ value, label }) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Баланс Л/П:</span>
+                          <Slider
+                            value={[config.auditory.balance]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, auditory: createDefaultBLSAuditoryConfig({ ...prev.auditory, balance: value[0] }) }))}
+                            min={-1}
+                            max={1}
+                            step={0.1}
+                            className="flex-1"
+                            data-testid="slider-auditory-balance"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{config.auditory.balance.toFixed(1)}</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Длительность:</span>
+                          <Slider
+                            value={[config.auditory.clickDuration]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, auditory: createDefaultBLSAuditoryConfig({ ...prev.auditory, clickDuration: value[0] }) }))}
+                            min={10}
+                            max={300}
+                            step={10}
+                            className="flex-1"
+                            data-testid="slider-auditory-duration"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{config.auditory.clickDuration}мс</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Громкость:</span>
+                          <Slider
+                            value={[config.auditory.volume]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, auditory: createDefaultBLSAuditoryConfig({ ...prev.auditory, volume: value[0] }) }))}
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            className="flex-1"
+                            data-testid="slider-auditory-volume"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{Math.round(config.auditory.volume * 100)}%</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  
+                  <TactileDevicePanel
+                    device={tactileDevice}
+                    onDeviceChange={setTactileDevice}
+                    disabled={isActive}
+                  />
+                  
+                  {/* Set sequencing */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Сеты с паузами:</span>
+                      <Switch
+                        checked={!!config.sets?.enabled}
+                        onCheckedChange={(enabled) => setConfig(prev => ({
+                          ...prev,
+                          sets: createDefaultBLSSetSequenceConfig({ ...prev.sets, enabled })
+                        }))}
+                        disabled={isActive}
+                        data-testid="switch-bls-sets"
+                      />
+                    </div>
+                    {config.sets?.enabled && (
+                      <>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Проходов в сете:</span>
+                          <Slider
+                            value={[config.sets.passesPerSet]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, sets: createDefaultBLSSetSequenceConfig({ ...prev.sets, passesPerSet: value[0] }) }))}
+                            min={4}
+                            max={60}
+                            step={2}
+                            className="flex-1"
+                            disabled={isActive}
+                            data-testid="slider-passes-per-set"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{config.sets.passesPerSet}</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Пауза:</span>
+                          <Slider
+                            value={[config.sets.pauseDuration / 1000]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, sets: createDefaultBLSSetSequenceConfig({ ...prev.sets, pauseDuration: value[0] * 1000 }) }))}
+                            min={5}
+                            max={120}
+                            step={5}
+                            className="flex-1"
+                            disabled={isActive}
+                            data-testid="slider-set-pause"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{config.sets.pauseDuration / 1000}с</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm w-32">Стоп после:</span>
+                          <Slider
+                            value={[config.sets.maxPasses]}
+                            onValueChange={(value) => setConfig(prev => ({ ...prev, sets: createDefaultBLSSetSequenceConfig({ ...prev.sets, maxPasses: value[0] }) }))}
+                            min={0}
+                            max={600}
+                            step={12}
+                            className="flex-1"
+                            disabled={isActive}
+                            data-testid="slider-max-passes"
+                          />
+                          <span className="text-xs text-muted-foreground w-8">{config.sets.maxPasses || '∞'}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  
                   {/* Adaptive mode toggle */}
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">Адаптивный режим:</span>
@@ -1006,6 +1335,14 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
               {/* Metrics display */}
               <div className="mt-4 pt-4 border-t border-border">
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  {config.sets?.enabled && (
+                    <div>
+                      <span className="text-muted-foreground">Сет:</span>
+                      <span className="ml-2 font-medium" data-testid="metric-set">
+                        {setProgress.currentSet} ({setProgress.passesInSet}/{config.sets.passesPerSet})
+                      </span>
+                    </div>
+                  )}
                   <div>
                     <span className="text-muted-foreground">Циклов:</span>
                     <span className="ml-2 font-medium" data-testid="metric-cycles">
@@ -1021,7 +1358,7 @@ const BilateralStimulation = forwardRef<BilateralStimulationRef, BilateralStimul
                   <div>
                     <span className="text-muted-foreground">Ср. скорость:</span>
                     <span className="ml-2 font-medium" data-testid="metric-avg-speed">
-                      {metrics.averageSpeed.toFixed(1)}
+                      {metrics.averageRateHz.toFixed(2)} Гц
                     </span>
                   </div>
                   <div>
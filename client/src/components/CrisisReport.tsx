@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import type { CrisisAuditEntry, CrisisReport as CrisisReportData, CrisisStatus } from "@shared/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, CheckCircle, Clock, ShieldAlert } from "lucide-react";
+import Header from "./Header";
+
+export const CRISIS_RISK_LABELS: Record<string, string> = {
+  low: "низкий",
+  moderate: "умеренный",
+  high: "высокий",
+  severe: "критический"
+};
+
+export const CRISIS_STATUS_LABELS: Record<CrisisStatus, string> = {
+  open: "Ожидает реакции",
+  acknowledged: "Принято",
+  escalated: "Эскалировано",
+  resolved: "Разрешено"
+};
+
+const AUDIT_ACTION_LABELS: Record<CrisisAuditEntry['action'], string> = {
+  detected: "Кризис обнаружен",
+  redetected: "Повторное срабатывание",
+  session_paused: "Сессия приостановлена",
+  therapist_alerted: "Терапевт оповещён",
+  escalated: "Эскалация",
+  acknowledged: "Оповещение принято",
+  resolved: "Кризис разрешён",
+  session_resumed: "Сессия возобновлена"
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  ai_analysis: "AI-анализ эмоций",
+  voice_ai: "Голосовой AI-терапевт",
+  conductor: "Дирижёр сессии",
+  manual: "Вручную (SOS)"
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes} мин ${seconds} с` : `${seconds} с`;
+}
+
+interface CrisisReportProps {
+  crisisId: string;
+}
+
+// Post-incident report for one crisis event, with acknowledge/resolve actions while it is active
+export default function CrisisReport({ crisisId }: CrisisReportProps) {
+  const queryClient = useQueryClient();
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const reportKey = ['/api/crisis/events', crisisId, 'report'];
+
+  const { data: report, isLoading, error } = useQuery<CrisisReportData>({
+    queryKey: reportKey,
+    enabled: !!crisisId,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/crisis/events/${crisisId}/acknowledge`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportKey }),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/crisis/events/${crisisId}/resolve`, {
+      notes: resolutionNotes.trim() || undefined
+    }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportKey }),
+  });
+
+  if (isLoading) {
+    return <div className="p-8 text-center text-muted-foreground">Загрузка отчёта...</div>;
+  }
+  if (error || !report) {
+    return <div className="p-8 text-center text-destructive">Не удалось загрузить отчёт по кризисной ситуации</div>;
+  }
+
+  const { crisis, patient, session, timeline, metrics, emotionalContext } = report;
+  const status = crisis.status as CrisisStatus;
+  const patientName = patient
+    ? [patient.firstName, patient.lastName].filter(Boolean).join(" ") || patient.username || patient.id
+    : crisis.patientId;
+  const detection = crisis.detection as { interventions?: { immediate?: string[] } };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <ShieldAlert className="w-6 h-6 text-destructive" />
+              Отчёт о кризисной ситуации
+            </h1>
+            <p className="text-muted-foreground">
+              {patientName} · {format(new Date(crisis.createdAt), 'dd.MM.yyyy HH:mm')}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="destructive" data-testid="badge-crisis-risk">
+              Риск: {CRISIS_RISK_LABELS[crisis.riskLevel] ?? crisis.riskLevel}
+            </Badge>
+            <Badge variant={status === 'resolved' ? 'secondary' : 'outline'} data-testid="badge-crisis-status">
+              {CRISIS_STATUS_LABELS[status]}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Время до реакции терапевта</CardDescription>
+              <CardTitle data-testid="text-time-to-acknowledge">{formatDuration(metrics.timeToAcknowledgeMs)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Время до разрешения</CardDescription>
+              <CardTitle data-testid="text-time-to-resolve">{formatDuration(metrics.timeToResolveMs)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Уровень эскалации</CardDescription>
+              <CardTitle data-testid="text-escalation-level">{metrics.escalationLevel}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Обнаружение</CardTitle>
+            <CardDescription>
+              Источник: {SOURCE_LABELS[crisis.source] ?? crisis.source}
+              {session && ` · фаза сессии: ${session.phase}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(crisis.triggers ?? []).map(trigger => (
+                <Badge key={trigger} variant="outline">{trigger}</Badge>
+              ))}
+            </div>
+            {!!detection.interventions?.immediate?.length && (
+              <div>
+                <p className="text-sm font-medium mb-1">Рекомендованные немедленные меры</p>
+                <ul className="list-disc list-inside text-sm text-muted-foreground">
+                  {detection.interventions.immediate.map(item => <li key={item}>{item}</li>)}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Хронология</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3" data-testid="list-crisis-timeline">
+              {timeline.map((entry, index) => (
+                <div key={`${entry.at}-${index}`} className="flex items-start gap-3 text-sm">
+                  {entry.action === 'resolved' || entry.action === 'acknowledged'
+                    ? <CheckCircle className="w-4 h-4 mt-0.5 text-green-600" />
+                    : entry.action === 'escalated'
+                      ? <AlertTriangle className="w-4 h-4 mt-0.5 text-red-600" />
+                      : <Clock className="w-4 h-4 mt-0.5 text-muted-foreground" />}
+                  <div className="flex-1">
+                    <p className="font-medium">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</p>
+                    {entry.details && <p className="text-muted-foreground">{entry.details}</p>}
+                  </div>
+                  <span className="text-muted-foreground">{format(new Date(entry.at), 'HH:mm:ss')}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {emotionalContext.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Эмоциональный контекст</CardTitle>
+              <CardDescription>Снимки состояния за 10 минут до и после обнаружения</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-4 gap-2 text-sm">
+                <span className="font-medium">Время</span>
+                <span className="font-medium">Возбуждение</span>
+                <span className="font-medium">Валентность</span>
+                <span className="font-medium">Стресс</span>
+                {emotionalContext.map(point => (
+                  <div key={String(point.timestamp)} className="contents">
+                    <span>{format(new Date(point.timestamp), 'HH:mm:ss')}</span>
+                    <span>{point.arousal.toFixed(2)}</span>
+                    <span>{point.valence.toFixed(2)}</span>
+                    <span>{point.stressLevel !== null ? point.stressLevel.toFixed(2) : '—'}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Разрешение</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {status === 'resolved' ? (
+              <p className="text-sm" data-testid="text-resolution-notes">
+                {crisis.resolutionNotes || "Заметки о разрешении не оставлены"}
+              </p>
+            ) : (
+              <>
+                <Textarea
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  placeholder="Что было сделано, состояние пациента, план дальнейших действий"
+                  data-testid="textarea-resolution-notes"
+                />
+                <div className="flex gap-2">
+                  {status !== 'acknowledged' && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => acknowledgeMutation.mutate()}
+                      disabled={acknowledgeMutation.isPending}
+                      data-testid="button-acknowledge-crisis"
+                    >
+                      Принять оповещение
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => resolveMutation.mutate()}
+                    disabled={resolveMutation.isPending}
+                    data-testid="button-resolve-crisis"
+                  >
+                    Отметить как разрешённый
+                  </Button>
+                </div>
+              </>
+            )}
+            <Separator />
+            <p className="text-xs text-muted-foreground">
+              Приостановленная сессия возобновляется только из окна сессии.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
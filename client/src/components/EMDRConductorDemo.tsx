@@ -44,6 +44,7 @@ interface SessionStatus {
 }
 
 const PHASE_DESCRIPTIONS = {
+  'history-taking': "Сбор анамнеза и план лечения",
   preparation: "Подготовка к сессии",
   assessment: "Оценка и выбор цели", 
   desensitization: "Десенсибилизация",
@@ -241,7 +242,7 @@ export default function EMDRConductorDemo() {
   const nextPhase = async () => {
     if (!sessionStatus) return;
 
-    const phases: EMDRPhase[] = ['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'];
+    const phases: EMDRPhase[] = ['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'];
     const currentIndex = phases.indexOf(sessionStatus.phase);
     const nextPhase = phases[currentIndex + 1];
 
@@ -254,7 +254,7 @@ export default function EMDRSession() {
               switch (newState) {
                 case 'stressed':
                   blsRef.current.updateConfig({
-                    speed: 2, // Slow speed for calming
+                    rateHz: 0.4, // Slow rate for calming
                     color: '#60a5fa', // Calming blue
                     pattern: 'horizontal'
                   });
@@ -262,7 +262,7 @@ export default function EMDRSession() {
                   
                 case 'low-engagement':
                   blsRef.current.updateConfig({
-                    speed: 7, // Fast speed for stimulation
+                    rateHz: 1.4, // Fast rate for stimulation
                     color: '#fbbf24', // Bright yellow
                     pattern: 'diagonal'
                   });
@@ -271,7 +271,7 @@ export default function EMDRSession() {
                 case 'normal':
                 default:
                   blsRef.current.updateConfig({
-                    speed: 5, // Medium speed
+                    rateHz: 1, // Medium rate
                     color: '#34d399', // Balanced green
                     pattern: 'horizontal'
                   });
@@ -517,7 +517,7 @@ export default function EMDRSession() {
           case 'stressed':
             // При высоком стрессе замедлять БЛС
             blsRef.current.updateConfig({
-              speed: 2, // Медленная скорость для успокоения
+              rateHz: 0.4, // Медленная частота для успокоения
               color: '#60a5fa', // Успокаивающий синий
               pattern: 'horizontal' // Простой паттерн
             });
@@ -526,7 +526,7 @@ export default function EMDRSession() {
           case 'low-engagement':
             // При низком вовлечении усиливать стимуляцию
             blsRef.current.updateConfig({
-              speed: 7, // Быстрая скорость для стимуляции
+              rateHz: 1.4, // Быстрая частота для стимуляции
               color: '#fbbf24', // Яркий желтый
               pattern: 'diagonal' // Более активный паттерн
             });
@@ -536,7 +536,7 @@ export default function EMDRSession() {
           default:
             // Нормальное состояние
             blsRef.current.updateConfig({
-              speed: 5, // Средняя скорость
+              rateHz: 1, // Средняя частота
               color: '#34d399', // Сбалансированный зеленый
               pattern: 'horizontal'
             });
@@ -552,13 +552,7 @@ export default function EMDRSession() {
   // Save emotion snapshot to database with error throttling
   const saveEmotionSnapshot = async (emotions: EmotionData) => {
     try {
-      // Get or create session ID (temporary demo implementation)
-      const sessionId = sessionStorage.getItem('currentSessionId') || 'demo-session-' + Date.now();
-      if (!sessionStorage.getItem('currentSessionId')) {
-        sessionStorage.setItem('currentSessionId', sessionId);
-      }
-      
-      // Save emotion data to backend
+      // Save emotion data to backend; the server resolves the patient from the session
       const response = await fetch('/api/emotions/capture', {
         method: 'POST',
         headers: { 
@@ -569,7 +563,6 @@ export default function EMDRSession() {
           sessionId: sessionId,
           emotionData: emotions,
           phase: phase,
-          patientId: 'demo-patient', // TODO: Get from auth context
           blsConfig: blsRef.current?.getConfig ? blsRef.current.getConfig() : null
         })
       });
@@ -616,9 +609,9 @@ export default function EMDRSession() {
     // Apply BLS adjustments if recommended
     if (recommendation.type === 'bls-adjustment' && blsRef.current) {
       if (recommendation.message.includes('замедлить')) {
-        blsRef.current.updateConfig({ speed: 2, color: '#60a5fa' });
+        blsRef.current.updateConfig({ rateHz: 0.4, color: '#60a5fa' });
       } else if (recommendation.message.includes('ускорить')) {
-        blsRef.current.updateConfig({ speed: 7, color: '#fbbf24' });
+        blsRef.current.updateConfig({ rateHz: 1.4, color: '#fbbf24' });
       }
     }
 
@@ -645,7 +638,7 @@ export default function EMDRSession() {
       // Force calming BLS settings
       if (blsRef.current) {
         blsRef.current.updateConfig({
-          speed: 1, // Very slow
+          rateHz: 0.2, // Very slow
           color: '#10b981', // Calming green
           pattern: 'horizontal' // Simple pattern
         });
@@ -693,6 +686,7 @@ export default function EMDRSession() {
 
   const getPhaseLabel = (phase: string) => {
     switch (phase) {
+      case 'history-taking': return 'Сбор анамнеза';
       case 'preparation': return 'Подготовка';
       case 'desensitization': return 'Десенсибилизация';
       case 'installation': return 'Инсталляция';
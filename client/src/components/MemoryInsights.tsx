@@ -8,7 +8,10 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import type { MemoryInsight as StoredMemoryInsight } from '@shared/schema';
 import { 
   Brain, 
   Lightbulb, 
@@ -307,7 +310,39 @@ const RiskAssessment = ({ insights }: { insights: MemoryInsight[] }) => (
   </div>
 );
 
+// Pushed insights arrive as stored rows; title and description live in insightData
+const toDisplayInsight = (insight: StoredMemoryInsight): MemoryInsight => {
+  const data = (insight.insightData ?? {}) as { title?: string; description?: string };
+  return {
+    id: insight.id,
+    title: data.title ?? insight.insightType.replace(/_/g, ' '),
+    description: data.description ?? insight.recommendations?.[0] ?? '',
+    priority: (insight.priority ?? 'medium') as MemoryInsight['priority'],
+    actionable: insight.actionable,
+    insightType: insight.insightType as MemoryInsight['insightType'],
+    confidence: insight.confidence,
+    generatedAt: new Date(insight.calculatedAt).toISOString()
+  };
+};
+
+// Same insight generated twice (e.g. by our own request and pushed back live) is shown once
+const insightKey = (insight: MemoryInsight) => `${insight.insightType}:${insight.title}:${insight.description}`;
+
 export function MemoryInsights({ patientId, className }: MemoryInsightsProps) {
+  const queryClient = useQueryClient();
+  const [liveInsights, setLiveInsights] = useState<MemoryInsight[]>([]);
+
+  // Pushed insights are prepended; breakthroughs and risk alerts refresh patterns and predictions
+  const { isConnected: isLive } = useLiveUpdates((event) => {
+    if (event.type === 'insight') {
+      const insight = toDisplayInsight(event.insight);
+      setLiveInsights(prev => [insight, ...prev.filter(i => insightKey(i) !== insightKey(insight))].slice(0, 50));
+    } else if (event.type === 'memory_update' && event.update.updateType !== 'emotion_change') {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions/progress/patterns', patientId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions/progress/predictions', patientId] });
+    }
+  }, { patientId, enabled: !!patientId });
+
   // Fetch insights
   const { data: insightsResponse, isLoading: insightsLoading } = useQuery({
     queryKey: ['/api/sessions/insights/generate'],
@@ -335,7 +370,9 @@ export function MemoryInsights({ patientId, className }: MemoryInsightsProps) {
     return <MemoryInsightsSkeleton />;
   }
 
-  const insights = insightsResponse?.insights || [];
+  const fetchedInsights: MemoryInsight[] = insightsResponse?.insights || [];
+  const liveKeys = new Set(liveInsights.map(insightKey));
+  const insights = [...liveInsights, ...fetchedInsights.filter(i => !liveKeys.has(insightKey(i)))];
   const patterns = (patternsResponse as any)?.patterns || [];
   const predictions = (predictionsResponse as any)?.predictions || { challenges: [], opportunities: [], confidence: 0.5 };
 
@@ -356,10 +393,18 @@ export function MemoryInsights({ patientId, className }: MemoryInsightsProps) {
             AI-powered insights from historical therapy data
           </p>
         </div>
-        <Badge variant="outline" className="flex items-center gap-2">
-          <Brain className="w-4 h-4" />
-          {insights.length} Active Insights
-        </Badge>
+        <div className="flex items-center gap-2">
+          {isLive && (
+            <Badge variant="default" className="flex items-center gap-1" data-testid="badge-live-insights">
+              <Zap className="w-3 h-3" />
+              Live
+            </Badge>
+          )}
+          <Badge variant="outline" className="flex items-center gap-2">
+            <Brain className="w-4 h-4" />
+            {insights.length} Active Insights
+          </Badge>
+        </div>
       </div>
 
       {/* Critical Alerts */}
@@ -0,0 +1,425 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { PatientIntake as PatientIntakeRecord } from "@shared/schema";
+import type {
+  EMDRPhase,
+  IntakeResource,
+  IntakeResourceType,
+  IntakeTargetTimeframe,
+  IntakeTraumaTarget,
+  ReadinessBlocker,
+  StabilisationReadiness,
+  TreatmentTargetSelection
+} from "@shared/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, ClipboardList, Plus, Save, Target, Trash2 } from "lucide-react";
+import Header from "./Header";
+import TreatmentPlan from "./TreatmentPlan";
+
+const TIMEFRAME_LABELS: Record<IntakeTargetTimeframe, string> = {
+  past: "Прошлое",
+  present: "Настоящее",
+  future: "Будущее"
+};
+
+const RESOURCE_TYPE_LABELS: Record<IntakeResourceType, string> = {
+  safe_place: "Безопасное место",
+  support_person: "Поддерживающий человек",
+  coping_skill: "Навык совладания",
+  resource_figure: "Ресурсная фигура",
+  other: "Другое"
+};
+
+const BLOCKER_LABELS: Record<ReadinessBlocker, string> = {
+  not_assessed: "Готовность к стабилизации не оценена",
+  low_affect_tolerance: "Низкая толерантность к аффекту",
+  dissociation_risk: "Высокий риск диссоциации",
+  not_safe: "Клиент сейчас не в безопасности",
+  no_clinician_approval: "Нет решения терапевта о готовности"
+};
+
+const RECOMMENDED_PHASE_LABELS: Partial<Record<EMDRPhase, string>> = {
+  'history-taking': "Сбор анамнеза",
+  preparation: "Подготовка и стабилизация",
+  assessment: "Оценка цели",
+  reevaluation: "Переоценка"
+};
+
+const DEFAULT_READINESS: StabilisationReadiness = {
+  affectTolerance: 5,
+  dissociationRisk: 'low',
+  currentlySafe: true,
+  supportSystem: false,
+  clinicianApproved: false
+};
+
+type TargetDraft = Omit<IntakeTraumaTarget, 'id' | 'priority'> & { id?: string };
+type ResourceDraft = Omit<IntakeResource, 'id'> & { id?: string };
+
+function newTarget(): TargetDraft {
+  return { description: '', timeframe: 'past', status: 'pending' };
+}
+
+function newResource(): ResourceDraft {
+  return { type: 'safe_place', description: '' };
+}
+
+// Empty until history taking has started, rather than an error
+async function fetchIntake(patientId: string): Promise<PatientIntakeRecord | null> {
+  const res = await fetch(`/api/patients/${patientId}/intake`, { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return await res.json();
+}
+
+interface PatientIntakeProps {
+  patientId: string;
+}
+
+// Structured history taking (EMDR phase 1): trauma targets, resources and stabilisation readiness
+export default function PatientIntake({ patientId }: PatientIntakeProps) {
+  const queryClient = useQueryClient();
+  const intakeKey = ['/api/patients', patientId, 'intake'];
+  const nextTargetKey = ['/api/patients', patientId, 'treatment-plan', 'next-target'];
+
+  const [presentingProblem, setPresentingProblem] = useState('');
+  const [treatmentGoals, setTreatmentGoals] = useState('');
+  const [targets, setTargets] = useState<TargetDraft[]>([]);
+  const [resources, setResources] = useState<ResourceDraft[]>([]);
+  const [readiness, setReadiness] = useState<StabilisationReadiness>(DEFAULT_READINESS);
+
+  const { data: intake, isLoading, error } = useQuery<PatientIntakeRecord | null>({
+    queryKey: intakeKey,
+    queryFn: () => fetchIntake(patientId),
+    enabled: !!patientId,
+  });
+
+  const { data: selection } = useQuery<TreatmentTargetSelection>({
+    queryKey: nextTargetKey,
+    enabled: !!patientId,
+  });
+
+  useEffect(() => {
+    if (!intake) return;
+    setPresentingProblem(intake.presentingProblem ?? '');
+    setTreatmentGoals((intake.treatmentGoals ?? []).join('\n'));
+    setTargets(intake.traumaTargets as IntakeTraumaTarget[]);
+    setResources(intake.resources as IntakeResource[]);
+    setReadiness((intake.stabilisationReadiness as StabilisationReadiness | null) ?? DEFAULT_READINESS);
+  }, [intake]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (complete?: boolean) => {
+      const res = await apiRequest('PUT', `/api/patients/${patientId}/intake`, {
+        presentingProblem: presentingProblem.trim() || null,
+        treatmentGoals: treatmentGoals.split('\n').map(goal => goal.trim()).filter(Boolean),
+        // List order is the priority within each timeframe
+        traumaTargets: targets
+          .filter(target => target.description.trim())
+          .map((target, index) => ({ ...target, description: target.description.trim(), priority: index + 1 })),
+        resources: resources
+          .filter(resource => resource.description.trim())
+          .map(resource => ({ ...resource, description: resource.description.trim() })),
+        stabilisationReadiness: readiness,
+        complete
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'intake'] });
+      // Completing the intake adds its targets to the treatment plan
+      queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'treatment-plan'] });
+    }
+  });
+
+  const updateTarget = (index: number, changes: Partial<TargetDraft>) => {
+    setTargets(prev => prev.map((target, i) => i === index ? { ...target, ...changes } : target));
+  };
+
+  const updateResource = (index: number, changes: Partial<ResourceDraft>) => {
+    setResources(prev => prev.map((resource, i) => i === index ? { ...resource, ...changes } : resource));
+  };
+
+  if (!patientId) {
+    return <div className="p-8 text-center text-muted-foreground">Пациент не выбран</div>;
+  }
+  if (isLoading) {
+    return <div className="p-8 text-center text-muted-foreground">Загрузка анамнеза...</div>;
+  }
+  if (error) {
+    return <div className="p-8 text-center text-destructive">Не удалось загрузить анамнез пациента</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <ClipboardList className="w-6 h-6" />
+              Сбор анамнеза и план лечения
+            </h1>
+            <p className="text-muted-foreground">Фаза 1 протокола EMDR</p>
+          </div>
+          <Badge variant={intake?.completedAt ? 'secondary' : 'outline'} data-testid="badge-intake-status">
+            {intake?.completedAt ? 'Анамнез собран' : 'В процессе'}
+          </Badge>
+        </div>
+
+        {selection && (
+          <Card data-testid="card-next-target">
+            <CardHeader className="pb-2">
+              <CardDescription>Следующая сессия</CardDescription>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="w-5 h-5" />
+                {RECOMMENDED_PHASE_LABELS[selection.recommendedPhase] ?? selection.recommendedPhase}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {selection.target && (
+                <p>
+                  {selection.reason === 'target_incomplete' ? 'Продолжить цель' : 'Цель'}: {selection.target.description}
+                  {selection.targetMemory && ` (SUD ${selection.targetMemory.currentSUD})`}
+                </p>
+              )}
+              {selection.reason === 'all_targets_resolved' && <p>Все цели переработаны</p>}
+              {selection.blockers.map(blocker => (
+                <p key={blocker} className="text-destructive">{BLOCKER_LABELS[blocker]}</p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <TreatmentPlan patientId={patientId} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Запрос клиента</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="presentingProblem">С чем обратился клиент</Label>
+              <Textarea
+                id="presentingProblem"
+                value={presentingProblem}
+                onChange={(e) => setPresentingProblem(e.target.value)}
+                data-testid="textarea-presenting-problem"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatmentGoals">Цели терапии (по одной в строке)</Label>
+              <Textarea
+                id="treatmentGoals"
+                value={treatmentGoals}
+                onChange={(e) => setTreatmentGoals(e.target.value)}
+                data-testid="textarea-treatment-goals"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Цели для переработки</CardTitle>
+            <CardDescription>Воспоминания прошлого, текущие триггеры и будущие ситуации, в порядке работы</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {targets.map((target, index) => (
+              <div key={target.id ?? index} className="p-3 border rounded-lg space-y-3" data-testid={`intake-target-${index}`}>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Событие одной фразой..."
+                    value={target.description}
+                    onChange={(e) => updateTarget(index, { description: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-target-${index}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <Select value={target.timeframe} onValueChange={(value) => updateTarget(index, { timeframe: value as IntakeTargetTimeframe })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TIMEFRAME_LABELS) as IntakeTargetTimeframe[]).map(timeframe => (
+                        <SelectItem key={timeframe} value={timeframe}>{TIMEFRAME_LABELS[timeframe]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={10}
+                    placeholder="SUD 0-10"
+                    value={target.sudEstimate ?? ''}
+                    onChange={(e) => updateTarget(index, { sudEstimate: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Возраст"
+                    value={target.ageAtEvent ?? ''}
+                    onChange={(e) => updateTarget(index, { ageAtEvent: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                  <Select value={target.status} onValueChange={(value) => updateTarget(index, { status: value as IntakeTraumaTarget['status'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pending">Ожидает</SelectItem>
+                      <SelectItem value="processed">Переработана</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <Input
+                    placeholder="Негативное убеждение"
+                    value={target.negativeCognition ?? ''}
+                    onChange={(e) => updateTarget(index, { negativeCognition: e.target.value || undefined })}
+                  />
+                  <Input
+                    placeholder="Позитивное убеждение"
+                    value={target.positiveCognition ?? ''}
+                    onChange={(e) => updateTarget(index, { positiveCognition: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" onClick={() => setTargets(prev => [...prev, newTarget()])} data-testid="button-add-target">
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить цель
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Ресурсы</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {resources.map((resource, index) => (
+              <div key={resource.id ?? index} className="grid grid-cols-1 md:grid-cols-[200px_1fr_100px_auto] gap-2" data-testid={`intake-resource-${index}`}>
+                <Select value={resource.type} onValueChange={(value) => updateResource(index, { type: value as IntakeResourceType })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESOURCE_TYPE_LABELS) as IntakeResourceType[]).map(type => (
+                      <SelectItem key={type} value={type}>{RESOURCE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Описание ресурса..."
+                  value={resource.description}
+                  onChange={(e) => updateResource(index, { description: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={10}
+                  placeholder="Сила"
+                  value={resource.strength ?? ''}
+                  onChange={(e) => updateResource(index, { strength: e.target.value === '' ? undefined : Number(e.target.value) })}
+                />
+                <Button variant="ghost" size="icon" onClick={() => setResources(prev => prev.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" onClick={() => setResources(prev => [...prev, newResource()])} data-testid="button-add-resource">
+              <Plus className="w-4 h-4 mr-2" />
+              Добавить ресурс
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Готовность к стабилизации и переработке</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Толерантность к аффекту: {readiness.affectTolerance}/10</Label>
+              <Slider
+                value={[readiness.affectTolerance]}
+                onValueChange={([value]) => setReadiness(prev => ({ ...prev, affectTolerance: value }))}
+                min={0}
+                max={10}
+                step={1}
+                data-testid="slider-affect-tolerance"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Риск диссоциации</Label>
+              <Select
+                value={readiness.dissociationRisk}
+                onValueChange={(value) => setReadiness(prev => ({ ...prev, dissociationRisk: value as StabilisationReadiness['dissociationRisk'] }))}
+              >
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Низкий</SelectItem>
+                  <SelectItem value="moderate">Умеренный</SelectItem>
+                  <SelectItem value="high">Высокий</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {([
+              ['currentlySafe', 'Клиент сейчас в безопасности'],
+              ['supportSystem', 'Есть поддерживающее окружение'],
+              ['clinicianApproved', 'Терапевт считает клиента готовым к переработке']
+            ] as const).map(([field, label]) => (
+              <div key={field} className="flex items-center justify-between">
+                <Label htmlFor={field}>{label}</Label>
+                <Switch
+                  id={field}
+                  checked={readiness[field]}
+                  onCheckedChange={(checked) => setReadiness(prev => ({ ...prev, [field]: checked }))}
+                  data-testid={`switch-${field}`}
+                />
+              </div>
+            ))}
+            <Textarea
+              placeholder="Заметки о готовности..."
+              value={readiness.notes ?? ''}
+              onChange={(e) => setReadiness(prev => ({ ...prev, notes: e.target.value || undefined }))}
+            />
+          </CardContent>
+        </Card>
+
+        {saveMutation.isError && (
+          <p className="text-sm text-destructive">Не удалось сохранить анамнез</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate(undefined)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-intake"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Сохранить
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate(true)}
+            disabled={saveMutation.isPending || targets.every(target => !target.description.trim())}
+            data-testid="button-complete-intake"
+          >
+            <CheckCircle2 className="w-4 h-4 mr-2" />
+            Завершить сбор анамнеза
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
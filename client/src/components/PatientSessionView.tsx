@@ -1,11 +1,16 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { UnifiedEmotionService } from '@/services/emotion/emotionService';
 import { AITherapistService } from '@/services/ai/therapist';
 import { TextToSpeechService } from '@/services/voice/textToSpeechService';
 import { AudioStreamMultiplexer, getAudioStreamMultiplexer } from '@/services/audio/audioStreamMultiplexer';
 import { AdaptiveController } from '@/services/bls/adaptiveController';
 import { Renderer3D } from '@/services/bls/renderer3D';
-import type { EmotionData, AITherapistMessage, BLSConfiguration } from '@/../../shared/types';
+import type { EmotionData, AITherapistMessage, BLSConfiguration, SessionRoomPhase, EffectiveAdaptiveRuleSet } from '@/../../shared/types';
+import { useSessionRoom } from '@/hooks/useSessionRoom';
+import { useVideoCall } from '@/hooks/useVideoCall';
+import { StreamVideo } from './session/StreamVideo';
+import { CrisisSupportPanel } from './session/CrisisSupportPanel';
+import { apiRequest } from '@/lib/queryClient';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -41,7 +46,14 @@ import {
 } from "lucide-react";
 import Header from "./Header";
 
-export default function PatientSessionView() {
+// Emotion summaries sent to the therapist while a live session is open
+const EMOTION_SUMMARY_INTERVAL_MS = 5000;
+
+interface PatientSessionViewProps {
+  sessionId?: string;
+}
+
+export default function PatientSessionView({ sessionId }: PatientSessionViewProps = {}) {
   const [isDark, setIsDark] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [videoEnabled, setVideoEnabled] = useState(true);
@@ -62,7 +74,7 @@ export default function PatientSessionView() {
   // Real BLS State
   const [isEMDRActive, setIsEMDRActive] = useState(false);
   const [blsConfig, setBlsConfig] = useState<BLSConfiguration>({
-    speed: 5,
+    rateHz: 1,
     pattern: 'horizontal',
     color: '#3b82f6',
     intensity: 0.7,
@@ -86,7 +98,7 @@ export default function PatientSessionView() {
   });
   
   // Session State
-  const [sessionPhase, setSessionPhase] = useState<'waiting' | 'preparation' | 'desensitization' | 'installation' | 'body-scan' | 'closure'>('waiting');
+  const [sessionPhase, setSessionPhase] = useState<SessionRoomPhase>('waiting');
   const [sessionDuration, setSessionDuration] = useState(0);
   const [currentInstruction, setCurrentInstruction] = useState('Ожидание подключения психолога...');
   const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
@@ -148,7 +160,7 @@ export default function PatientSessionView() {
   
   // AI Therapist as virtual therapist
   const therapist = {
-    name: "AI Терапевт EMDR42",
+    name: sessionId ? "Психолог" : "AI Терапевт EMDR42",
     status: isAiSpeaking ? "Говорит" : hasMediaPermission ? "Готов" : "Ожидание",
     avatar: ""
   };
@@ -157,6 +169,97 @@ export default function PatientSessionView() {
   const blsContainerRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>();
 
+  // Live channel to the therapist: BLS, phase and instructions are driven from the therapist's view
+  const room = useSessionRoom(sessionId);
+  const [answeredInstructionAt, setAnsweredInstructionAt] = useState<number | null>(null);
+  const latestEmotionRef = useRef<EmotionData | null>(null);
+  latestEmotionRef.current = currentEmotionData;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setIsConnected(room.isConnected);
+  }, [sessionId, room.isConnected]);
+
+  useEffect(() => {
+    if (!room.state) return;
+    const { blsActive, blsConfig: remoteConfig, phase, instruction } = room.state;
+    setIsEMDRActive(blsActive);
+    setBlsConfig(prev => ({ ...prev, ...remoteConfig }));
+    setSessionPhase(phase);
+    if (instruction) setCurrentInstruction(instruction.text);
+  }, [room.state]);
+
+  useEffect(() => {
+    if (room.role !== 'patient') return;
+    const timer = setInterval(() => {
+      const emotion = latestEmotionRef.current;
+      if (!emotion) return;
+      const dominant = Object.entries(emotion.basicEmotions || {}).sort((a, b) => b[1] - a[1])[0];
+      room.sendEmotionSummary({
+        arousal: emotion.arousal,
+        valence: emotion.valence,
+        dominantEmotion: dominant?.[0]
+      });
+    }, EMOTION_SUMMARY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [room.role, room.sendEmotionSummary]);
+
+  // Video call with the therapist reuses the camera stream that feeds emotion recognition
+  const call = useVideoCall(room, sessionId ? mediaStream : null);
+
+  useEffect(() => {
+    mediaStream?.getVideoTracks().forEach(track => { track.enabled = videoEnabled; });
+    mediaStream?.getAudioTracks().forEach(track => { track.enabled = audioEnabled; });
+  }, [mediaStream, videoEnabled, audioEnabled]);
+
+  const pendingQuestion = room.state?.instruction?.expects && room.state.instruction.sentAt !== answeredInstructionAt
+    ? room.state.instruction
+    : null;
+
+  // SOS shows the emergency contacts right away; the room confirms once the therapist is alerted
+  const [sosRequested, setSosRequested] = useState(false);
+  const crisis = room.state?.crisis ?? null;
+  const showCrisisSupport = !!crisis || sosRequested;
+
+  useEffect(() => {
+    if (crisis) setSosRequested(false);
+  }, [crisis?.id]);
+
+  const requestHelp = async () => {
+    setSosRequested(true);
+    setIsEMDRActive(false);
+    try {
+      await apiRequest('POST', '/api/crisis/events', {
+        sessionId,
+        source: 'manual',
+        detection: {
+          isCrisis: true,
+          riskLevel: 'high',
+          triggers: ['SOS'],
+          interventions: { immediate: [], escalation: [], contacts: [] },
+          monitoring: { increaseFrequency: true, alertTherapist: true, requireSupervision: true }
+        }
+      });
+    } catch (error) {
+      console.error('Failed to report SOS:', error);
+    }
+  };
+
+  const answerQuestion = (value: number) => {
+    if (!pendingQuestion) return;
+    const sent = pendingQuestion.expects === 'suds' ? room.sendSuds(value) : room.sendVoc(value);
+    if (sent) setAnsweredInstructionAt(pendingQuestion.sentAt);
+  };
+
+  // Settings for the 2D canvas used when BLS is driven by the therapist
+  const emdrSettings = useMemo(() => ({
+    rateHz: blsConfig.rateHz,
+    ballSize: blsConfig.size ?? 20,
+    shape: 'circle',
+    ballColor: blsConfig.color,
+    backgroundColor: '#000000'
+  }), [blsConfig.rateHz, blsConfig.size, blsConfig.color]);
+
   // Initialize all real services when connecting
   useEffect(() => {
     if (isConnected && hasMediaPermission) {
@@ -185,20 +288,15 @@ export default function PatientSessionView() {
         console.log('✅ Audio multiplexer initialized with media stream');
       }
 
-      // 2. Initialize Emotion Service
+      // 2. Initialize Emotion Service on the same camera stream the video call sends
       const videoElement = document.createElement('video');
+      videoElement.muted = true;
       if (mediaStream) {
         videoElement.srcObject = mediaStream;
         await videoElement.play();
       }
       
-      await emotionService.initialize({
-        face: { enabled: true, smoothingWindow: 5, processEveryNFrames: 10, minConfidence: 0.7 },
-        voice: { enabled: true, provider: 'assemblyai', language: 'en-US', sampleRate: 16000 },
-        fusion: { enabled: true, strategy: 'weighted-average' },
-        multimodal: { enabled: true, preferredMode: 'multimodal', fallbackStrategy: 'face', qualityThreshold: 0.6 },
-        audio: { useMultiplexer: true, consumerPriority: 8, consumerName: 'EmotionAnalysis' }
-      }, videoElement);
+      await emotionService.initialize(videoElement, mediaStream ?? undefined);
       
       // Set emotion callback for real-time updates
       emotionService.onEmotion((emotionData) => {
@@ -264,7 +362,7 @@ export default function PatientSessionView() {
         if (aiResponse.blsAdjustments && isEMDRActive && blsController) {
           const newConfig = {
             ...blsConfig,
-            speed: aiResponse.blsAdjustments.speed || blsConfig.speed,
+            rateHz: aiResponse.blsAdjustments.rateHz || blsConfig.rateHz,
             color: aiResponse.blsAdjustments.color || blsConfig.color,
             intensity: aiResponse.blsAdjustments.intensity || blsConfig.intensity
           };
@@ -363,8 +461,8 @@ export default function PatientSessionView() {
         ctx.fillStyle = emdrSettings.backgroundColor;
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-        // Move ball
-        position += direction * emdrSettings.speed;
+        // Move ball, one full pass per 1/rateHz seconds at 60 fps
+        position += direction * (2 * maxPosition * emdrSettings.rateHz) / 60;
         if (position <= 0 || position >= maxPosition) {
           direction *= -1;
         }
@@ -418,6 +516,7 @@ export default function PatientSessionView() {
   const getPhaseLabel = (phase: string) => {
     switch (phase) {
       case 'waiting': return 'Ожидание';
+      case 'history-taking': return 'Сбор анамнеза';
       case 'preparation': return 'Подготовка';
       case 'desensitization': return 'Десенсибилизация';
       case 'installation': return 'Инсталляция';
@@ -430,6 +529,7 @@ export default function PatientSessionView() {
   const getPhaseColor = (phase: string) => {
     switch (phase) {
       case 'waiting': return 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300';
+      case 'history-taking': return 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200';
       case 'preparation': return 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200';
       case 'desensitization': return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200';
       case 'installation': return 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200';
@@ -498,16 +598,25 @@ export default function PatientSessionView() {
         {isConnected ? (
           <div className="w-full h-full bg-gradient-to-br from-blue-900 to-purple-900 flex items-center justify-center text-white relative">
             {/* Main therapist video */}
-            <div className="text-center">
-              <div className="w-32 h-32 bg-green-500 rounded-full mx-auto mb-6 flex items-center justify-center">
-                <span className="text-4xl font-bold">{therapist.name?.charAt(0) || '?'}</span>
+            {call.remoteStream ? (
+              <StreamVideo stream={call.remoteStream} className="absolute inset-0 w-full h-full" data-testid="video-remote" />
+            ) : (
+              <div className="text-center">
+                <div className="w-32 h-32 bg-green-500 rounded-full mx-auto mb-6 flex items-center justify-center">
+                  <span className="text-4xl font-bold">{therapist.name?.charAt(0) || '?'}</span>
+                </div>
+                <p className="text-2xl font-medium">{therapist.name}</p>
+                {sessionId && call.callState !== 'idle' && call.callState !== 'connected' && (
+                  <p className="text-sm opacity-75" data-testid="text-call-state">Подключение видео...</p>
+                )}
               </div>
-              <p className="text-2xl font-medium">{therapist.name}</p>
-            </div>
+            )}
             
             {/* Patient video in corner */}
             <div className="absolute bottom-4 right-4 w-48 h-36 bg-gray-800 rounded-lg overflow-hidden border-2 border-white/20">
-              {videoEnabled ? (
+              {videoEnabled && mediaStream ? (
+                <StreamVideo stream={mediaStream} muted mirrored className="w-full h-full" data-testid="video-local" />
+              ) : videoEnabled ? (
                 <div className="w-full h-full bg-gradient-to-br from-gray-700 to-gray-900 flex items-center justify-center text-white">
                   <div className="text-center">
                     <div className="w-12 h-12 bg-blue-500 rounded-full mx-auto mb-2 flex items-center justify-center">
@@ -523,8 +632,21 @@ export default function PatientSessionView() {
               )}
             </div>
 
+            {/* Therapist-driven BLS on the 2D canvas */}
+            {isEMDRActive && room.role === 'patient' && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <canvas
+                  ref={gameCanvasRef}
+                  width={800}
+                  height={300}
+                  style={{ backgroundColor: emdrSettings.backgroundColor }}
+                  data-testid="canvas-bls"
+                />
+              </div>
+            )}
+
             {/* Real BLS 3D Renderer overlay */}
-            {isEMDRActive && (
+            {isEMDRActive && room.role !== 'patient' && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div 
                   ref={blsContainerRef}
@@ -666,7 +788,11 @@ export default function PatientSessionView() {
                     try {
                       // Initialize BLS services if not already done
                       if (!blsController) {
-                        const controller = new AdaptiveController(blsConfig);
+                        // Therapist's adaptive rules; the built-in ones apply if they cannot be loaded
+                        const effective: EffectiveAdaptiveRuleSet | null = await apiRequest('GET', '/api/bls/rule-sets/effective')
+                          .then(res => res.json())
+                          .catch(() => null);
+                        const controller = new AdaptiveController(blsConfig, effective?.ruleSet);
                         setBlsController(controller);
                         console.log('✅ BLS Controller initialized');
                       }
@@ -689,7 +815,7 @@ export default function PatientSessionView() {
                       console.error('❌ Failed to start BLS:', error);
                     }
                   }}
-                  disabled={!isConnected}
+                  disabled={!isConnected || !!sessionId}
                   data-testid="button-start-emdr"
                 >
                   <Play className="w-4 h-4 mr-2" />
@@ -708,6 +834,7 @@ export default function PatientSessionView() {
                       console.error('❌ Failed to stop BLS:', error);
                     }
                   }}
+                  disabled={!!sessionId}
                   data-testid="button-pause-emdr"
                 >
                   <Pause className="w-4 h-4 mr-2" />
@@ -726,7 +853,7 @@ export default function PatientSessionView() {
               </p>
               {isEMDRActive && (
                 <div className="text-xs text-gray-300">
-                  <div>Скорость: {blsConfig.speed}</div>
+                  <div>Скорость: {blsConfig.rateHz.toFixed(2)} Гц</div>
                   <div>Паттерн: {blsConfig.pattern}</div>
                   <div>Интенсивность: {Math.round(blsConfig.intensity * 100)}%</div>
                 </div>
@@ -832,6 +959,37 @@ export default function PatientSessionView() {
         )}
       </div>
 
+      {/* Rating requested by the therapist */}
+      {pendingQuestion && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur-sm border border-white/20 rounded-lg p-4 text-white space-y-3" data-testid="panel-rating-request">
+          <p className="text-sm">
+            {pendingQuestion.expects === 'suds'
+              ? 'Насколько сильно беспокойство сейчас? (0 — нет, 10 — максимум)'
+              : 'Насколько верным ощущается позитивное убеждение? (1 — совсем не верно, 7 — полностью верно)'}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {(pendingQuestion.expects === 'suds' ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10] : [1, 2, 3, 4, 5, 6, 7]).map(value => (
+              <Button
+                key={value}
+                variant="outline"
+                size="sm"
+                className="w-9 text-white border-white/20 bg-transparent hover:bg-white/20"
+                onClick={() => answerQuestion(value)}
+                data-testid={`button-rating-${value}`}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showCrisisSupport && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 w-full max-w-md px-4 z-50">
+          <CrisisSupportPanel acknowledged={crisis?.status === 'acknowledged'} />
+        </div>
+      )}
+
       {/* Emergency buttons in top-right */}
       <div className="absolute top-4 right-4 space-x-2">
         <Button 
@@ -847,6 +1005,8 @@ export default function PatientSessionView() {
           variant="destructive" 
           size="sm"
           className="bg-red-900/80 hover:bg-red-900"
+          onClick={requestHelp}
+          disabled={showCrisisSupport}
           data-testid="button-emergency-stop"
         >
           <AlertCircle className="w-4 h-4 mr-2" />
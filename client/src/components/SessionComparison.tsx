@@ -227,7 +227,7 @@ export function SessionComparison({ patientId, className }: SessionComparisonPro
   // Compare sessions mutation
   const compareSessionsMutation = useMutation({
     mutationFn: (request: CompareSessionsRequest) =>
-      apiRequest('/api/sessions/memory/compare', 'POST', request),
+      apiRequest('POST', '/api/sessions/memory/compare', request),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/sessions/memory/comparisons', patientId] });
     }
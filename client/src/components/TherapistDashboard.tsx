@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +9,10 @@ import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import type { CrisisStatus, LiveStreamEvent } from "@shared/types";
+import type { CrisisEvent } from "@shared/schema";
+import { CRISIS_RISK_LABELS, CRISIS_STATUS_LABELS } from "./CrisisReport";
 import { 
   Calendar, 
   Clock, 
@@ -22,7 +28,11 @@ import {
   Plus,
   Send,
   Copy,
-  Link2
+  Link2,
+  Lightbulb,
+  Radio,
+  ShieldAlert,
+  ClipboardList
 } from "lucide-react";
 
 interface Patient {
@@ -50,9 +60,74 @@ interface Session {
   sessionType: 'assessment' | 'therapy' | 'follow-up';
 }
 
+interface LiveAlert {
+  id: string;
+  kind: 'risk' | 'breakthrough' | 'pattern' | 'insight';
+  text: string;
+  timestamp: Date;
+}
+
+// Emotion snapshots arrive every few seconds; only the rarer clinical signals are shown
+const MAX_LIVE_ALERTS = 10;
+
+const ACTIVE_CRISES_KEY = ['/api/crisis/events?status=active'];
+
+function toLiveAlert(event: LiveStreamEvent): LiveAlert | null {
+  // Crises have their own card
+  if (event.type === 'crisis_alert') return null;
+
+  if (event.type === 'insight') {
+    const data = (event.insight.insightData ?? {}) as { title?: string };
+    return {
+      id: `insight-${event.insight.id}`,
+      kind: 'insight',
+      text: `Новый инсайт: ${data.title || event.insight.insightType}`,
+      timestamp: new Date(event.insight.calculatedAt)
+    };
+  }
+
+  const { update } = event;
+  const timestamp = new Date(update.timestamp);
+  const id = `${update.updateType}-${update.sessionId}-${timestamp.getTime()}`;
+  switch (update.updateType) {
+    case 'risk_alert':
+      return { id, kind: 'risk', text: 'Сигнал риска в сессии', timestamp };
+    case 'breakthrough_detected':
+      return { id, kind: 'breakthrough', text: 'Обнаружен прорыв в сессии', timestamp };
+    case 'pattern_matched':
+      return { id, kind: 'pattern', text: 'Распознан повторяющийся паттерн', timestamp };
+    default:
+      return update.priority === 'high' || update.priority === 'critical'
+        ? { id, kind: 'risk', text: 'Резкое изменение эмоционального состояния', timestamp }
+        : null;
+  }
+}
+
 export default function TherapistDashboard() {
   const [activeTab, setActiveTab] = useState<'overview' | 'patients' | 'sessions' | 'invitations'>('overview');
   const [invitationLink, setInvitationLink] = useState("");
+  const [liveAlerts, setLiveAlerts] = useState<LiveAlert[]>([]);
+  const queryClient = useQueryClient();
+
+  const { data: activeCrises } = useQuery<{ events: CrisisEvent[] }>({
+    queryKey: ACTIVE_CRISES_KEY,
+  });
+
+  const acknowledgeCrisisMutation = useMutation({
+    mutationFn: (crisisId: string) => apiRequest('POST', `/api/crisis/events/${crisisId}/acknowledge`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ACTIVE_CRISES_KEY }),
+  });
+
+  // Events for every patient on the caseload
+  const { isConnected: isLiveConnected } = useLiveUpdates((event) => {
+    if (event.type === 'crisis_alert') {
+      queryClient.invalidateQueries({ queryKey: ACTIVE_CRISES_KEY });
+    }
+    const alert = toLiveAlert(event);
+    if (alert) {
+      setLiveAlerts(prev => [alert, ...prev.filter(item => item.id !== alert.id)].slice(0, MAX_LIVE_ALERTS));
+    }
+  });
   
   //todo: remove mock functionality
   const mockTherapist = {
@@ -352,6 +427,82 @@ export default function TherapistDashboard() {
                 </CardContent>
               </Card>
 
+              {/* Active Crises */}
+              {!!activeCrises?.events.length && (
+                <Card className="border-destructive/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-destructive">
+                      <ShieldAlert className="w-5 h-5" />
+                      Кризисные ситуации
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4" data-testid="list-active-crises">
+                      {activeCrises.events.map(crisis => (
+                        <div key={crisis.id} className="flex items-center space-x-3 text-sm">
+                          <AlertCircle className="w-4 h-4 text-red-600" />
+                          <span>
+                            Риск: {CRISIS_RISK_LABELS[crisis.riskLevel] ?? crisis.riskLevel} · {CRISIS_STATUS_LABELS[crisis.status as CrisisStatus]}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {new Date(crisis.createdAt).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                          <div className="ml-auto flex gap-2">
+                            {crisis.status !== 'acknowledged' && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => acknowledgeCrisisMutation.mutate(crisis.id)}
+                                disabled={acknowledgeCrisisMutation.isPending}
+                                data-testid={`button-acknowledge-crisis-${crisis.id}`}
+                              >
+                                Принять
+                              </Button>
+                            )}
+                            <Button size="sm" variant="outline" asChild data-testid={`link-crisis-report-${crisis.id}`}>
+                              <a href={`/therapist/crisis?id=${crisis.id}`}>Отчёт</a>
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Live Alerts */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Оповещения в реальном времени
+                    <Badge variant={isLiveConnected ? "default" : "outline"} className="flex items-center gap-1">
+                      <Radio className="w-3 h-3" />
+                      {isLiveConnected ? "Онлайн" : "Нет связи"}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {liveAlerts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Новых событий нет</p>
+                  ) : (
+                    <div className="space-y-4" data-testid="list-live-alerts">
+                      {liveAlerts.map(alert => (
+                        <div key={alert.id} className="flex items-center space-x-3 text-sm">
+                          {alert.kind === 'risk' && <AlertCircle className="w-4 h-4 text-red-600" />}
+                          {alert.kind === 'breakthrough' && <Star className="w-4 h-4 text-yellow-500" />}
+                          {alert.kind === 'pattern' && <TrendingUp className="w-4 h-4 text-blue-600" />}
+                          {alert.kind === 'insight' && <Lightbulb className="w-4 h-4 text-purple-600" />}
+                          <span>{alert.text}</span>
+                          <span className="text-muted-foreground ml-auto">
+                            {alert.timestamp.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Recent Activity */}
               <Card>
                 <CardHeader>
@@ -502,6 +653,12 @@ export default function TherapistDashboard() {
                         <FileText className="w-4 h-4 mr-1" />
                         Профиль
                       </Button>
+                      <Button size="sm" variant="outline" asChild data-testid={`button-intake-patient-${patient.id}`}>
+                        <a href={`/therapist/intake?patientId=${patient.id}`}>
+                          <ClipboardList className="w-4 h-4 mr-1" />
+                          Анамнез
+                        </a>
+                      </Button>
                       {patient.status === 'active' && (
                         <Button size="sm" variant="outline" data-testid={`button-session-patient-${patient.id}`}>
                           <Video className="w-4 h-4 mr-1" />
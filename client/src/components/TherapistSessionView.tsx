@@ -1,4 +1,13 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { SessionNote } from "@shared/schema";
+import type { SessionRoomPhase } from "@shared/types";
+import { BLS_RATE_HZ_MAX, BLS_RATE_HZ_MIN, SESSION_ROOM_PHASES } from "@shared/types";
+import { useSessionRoom } from "@/hooks/useSessionRoom";
+import { useVideoCall } from "@/hooks/useVideoCall";
+import { StreamVideo } from "./session/StreamVideo";
+import { CRISIS_RISK_LABELS } from "./CrisisReport";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -46,11 +55,23 @@ import {
   ChevronUp,
   ChevronDown,
   Move,
-  X
+  X,
+  Lock,
+  Pencil,
+  Trash2
 } from "lucide-react";
 import Header from "./Header";
 
-export default function TherapistSessionView() {
+interface TherapistSessionViewProps {
+  sessionId?: string;
+}
+
+// Maps the local canvas settings onto the BLS fields the patient screen understands
+function toRoomBLSConfig(settings: { rateHz: number; ballSize: number; ballColor: string; soundOn: boolean }) {
+  return { rateHz: settings.rateHz, size: settings.ballSize, color: settings.ballColor, soundEnabled: settings.soundOn };
+}
+
+export default function TherapistSessionView({ sessionId }: TherapistSessionViewProps = {}) {
   const [isDark, setIsDark] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [videoEnabled, setVideoEnabled] = useState(true);
@@ -72,7 +93,7 @@ export default function TherapistSessionView() {
   // EMDR Game State
   const [isEMDRActive, setIsEMDRActive] = useState(false);
   const [emdrSettings, setEmdrSettings] = useState({
-    speed: 5,
+    rateHz: 1,
     ballSize: 20,
     shape: 'circle',
     ballColor: '#3b82f6',
@@ -81,13 +102,17 @@ export default function TherapistSessionView() {
   });
   
   // Session State
-  const [sessionPhase, setSessionPhase] = useState<'waiting' | 'preparation' | 'desensitization' | 'installation' | 'body-scan' | 'closure'>('waiting');
+  const [sessionPhase, setSessionPhase] = useState<SessionRoomPhase>('waiting');
   const [sessionDuration, setSessionDuration] = useState(0);
   const [currentInstruction, setCurrentInstruction] = useState('');
+  const [instructionExpects, setInstructionExpects] = useState<'' | 'suds' | 'voc'>('');
   
   // Session Notes and Protocol
   const [sessionNotes, setSessionNotes] = useState('');
   const [targetMemory, setTargetMemory] = useState('');
+  const [noteIsPrivate, setNoteIsPrivate] = useState(false);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [notesPhaseFilter, setNotesPhaseFilter] = useState('all');
   
   // Assessment states
   const [sudsLevel, setSudsLevel] = useState(5);
@@ -99,6 +124,44 @@ export default function TherapistSessionView() {
   const [validityRating, setValidityRating] = useState([4]);
   const [currentSet, setCurrentSet] = useState(1);
   const [totalSets, setTotalSets] = useState(0);
+
+  // Live channel to the patient's screen; without a session id the view works locally
+  const room = useSessionRoom(sessionId);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const call = useVideoCall(room, localStream);
+
+  // Camera and microphone for the video call, only inside a real session
+  useEffect(() => {
+    if (!sessionId) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: true, audio: true })
+      .then(acquired => {
+        if (cancelled) {
+          acquired.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = acquired;
+        setLocalStream(acquired);
+      })
+      .catch(error => {
+        console.error('❌ Camera/microphone access failed:', error);
+        setMediaError(error instanceof Error ? error.message : 'Нет доступа к камере/микрофону');
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      setLocalStream(null);
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    localStream?.getVideoTracks().forEach(track => { track.enabled = videoEnabled; });
+    localStream?.getAudioTracks().forEach(track => { track.enabled = audioEnabled; });
+  }, [localStream, videoEnabled, audioEnabled]);
   
   // TODO: Get user data from authentication context
   const user = {
@@ -120,6 +183,105 @@ export default function TherapistSessionView() {
   const gameCanvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
 
+  // Session notes persisted on the server
+  const queryClient = useQueryClient();
+  const notesQueryKey = notesPhaseFilter === 'all'
+    ? ['/api/sessions', sessionId, 'notes']
+    : ['/api/sessions', sessionId, `notes?phase=${encodeURIComponent(notesPhaseFilter)}`];
+  
+  const { data: notesResponse } = useQuery<{ notes: SessionNote[]; count: number }>({
+    queryKey: notesQueryKey,
+    enabled: !!sessionId,
+  });
+  const savedNotes = notesResponse?.notes ?? [];
+  
+  const saveNoteMutation = useMutation({
+    mutationFn: async () => {
+      // An edit changes only the text and privacy; phase and ratings stay as they were when the note was taken
+      const editable = { content: sessionNotes.trim(), isPrivate: noteIsPrivate };
+      const res = editingNoteId
+        ? await apiRequest('PATCH', `/api/sessions/${sessionId}/notes/${editingNoteId}`, editable)
+        : await apiRequest('POST', `/api/sessions/${sessionId}/notes`, {
+            ...editable,
+            phase: sessionPhase,
+            sudsLevel: emotionRating[0],
+            vocLevel: validityRating[0]
+          });
+      return res.json();
+    },
+    onSuccess: () => {
+      setSessionNotes('');
+      setNoteIsPrivate(false);
+      setEditingNoteId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+    }
+  });
+  
+  const deleteNoteMutation = useMutation({
+    mutationFn: (noteId: string) => apiRequest('DELETE', `/api/sessions/${sessionId}/notes/${noteId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions', sessionId] });
+    }
+  });
+  
+  const canSaveNote = !!sessionId && sessionNotes.trim().length > 0 && !saveNoteMutation.isPending;
+  
+  const saveNote = () => {
+    if (canSaveNote) {
+      saveNoteMutation.mutate();
+    }
+  };
+  
+  const editNote = (note: SessionNote) => {
+    setEditingNoteId(note.id);
+    setSessionNotes(note.content);
+    setNoteIsPrivate(note.isPrivate);
+  };
+  
+  const cancelEditNote = () => {
+    setEditingNoteId(null);
+    setSessionNotes('');
+    setNoteIsPrivate(false);
+  };
+
+  // A crisis pauses the room until it is resolved here or from the dashboard
+  const crisis = room.state?.crisis ?? null;
+
+  const acknowledgeCrisisMutation = useMutation({
+    mutationFn: (crisisId: string) => apiRequest('POST', `/api/crisis/events/${crisisId}/acknowledge`),
+  });
+
+  const resolveCrisisMutation = useMutation({
+    mutationFn: (crisisId: string) => apiRequest('POST', `/api/crisis/events/${crisisId}/resolve`, { resumeSession: true }),
+  });
+
+  // The room state on the server is authoritative while the live channel is open
+  useEffect(() => {
+    if (!sessionId) return;
+    setIsConnected(room.isConnected);
+  }, [sessionId, room.isConnected]);
+
+  useEffect(() => {
+    if (!room.state) return;
+    setIsEMDRActive(room.state.blsActive);
+    setSessionPhase(room.state.phase);
+    setCurrentSet(Math.max(room.state.currentSet, 1));
+  }, [room.state]);
+
+  // Patient answers overwrite the sliders only when a new answer arrives
+  useEffect(() => {
+    if (room.state?.lastSuds) setSudsLevel(room.state.lastSuds.value);
+  }, [room.state?.lastSuds?.at]);
+
+  useEffect(() => {
+    if (room.state?.lastVoc) setVocLevel(room.state.lastVoc.value);
+  }, [room.state?.lastVoc?.at]);
+
+  useEffect(() => {
+    if (room.role !== 'therapist') return;
+    room.updateBLSConfig(toRoomBLSConfig(emdrSettings));
+  }, [room.role, emdrSettings]);
+
   // Session timer
   useEffect(() => {
     if (isConnected) {
@@ -145,8 +307,8 @@ export default function TherapistSessionView() {
         ctx.fillStyle = emdrSettings.backgroundColor;
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-        // Move ball
-        position += direction * emdrSettings.speed;
+        // Move ball, one full pass per 1/rateHz seconds at 60 fps
+        position += direction * (2 * maxPosition * emdrSettings.rateHz) / 60;
         if (position <= 0 || position >= maxPosition) {
           direction *= -1;
           if (isEMDRActive) {
@@ -201,11 +363,15 @@ export default function TherapistSessionView() {
   const getPhaseLabel = (phase: string) => {
     switch (phase) {
       case 'waiting': return 'Ожидание';
+      case 'history-taking': return 'Сбор анамнеза';
       case 'preparation': return 'Подготовка';
+      case 'assessment': return 'Оценка';
       case 'desensitization': return 'Десенсибилизация';
       case 'installation': return 'Инсталляция';
       case 'body-scan': return 'Сканирование тела';
       case 'closure': return 'Завершение';
+      case 'reevaluation': return 'Переоценка';
+      case 'integration': return 'Интеграция';
       default: return phase;
     }
   };
@@ -213,26 +379,53 @@ export default function TherapistSessionView() {
   const getPhaseColor = (phase: string) => {
     switch (phase) {
       case 'waiting': return 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300';
+      case 'history-taking': return 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200';
       case 'preparation': return 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200';
+      case 'assessment': return 'bg-cyan-100 text-cyan-700 dark:bg-cyan-900 dark:text-cyan-200';
       case 'desensitization': return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200';
       case 'installation': return 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200';
       case 'body-scan': return 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-200';
       case 'closure': return 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200';
+      case 'reevaluation': return 'bg-teal-100 text-teal-700 dark:bg-teal-900 dark:text-teal-200';
+      case 'integration': return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-200';
       default: return 'bg-gray-100 text-gray-700';
     }
   };
 
   const nextPhase = () => {
-    const phases: typeof sessionPhase[] = ['waiting', 'preparation', 'desensitization', 'installation', 'body-scan', 'closure'];
-    const currentIndex = phases.indexOf(sessionPhase);
-    if (currentIndex < phases.length - 1) {
-      setSessionPhase(phases[currentIndex + 1]);
+    const currentIndex = SESSION_ROOM_PHASES.indexOf(sessionPhase);
+    if (currentIndex < SESSION_ROOM_PHASES.length - 1) {
+      const next = SESSION_ROOM_PHASES[currentIndex + 1];
+      if (room.role === 'therapist') {
+        room.changePhase(next);
+      } else {
+        setSessionPhase(next);
+      }
     }
   };
 
   const sendInstruction = () => {
-    // In real app, this would send instruction to patient's interface
-    console.log('Sending instruction:', currentInstruction);
+    if (room.role !== 'therapist') return;
+    if (room.sendInstruction(currentInstruction.trim(), instructionExpects || undefined)) {
+      setCurrentInstruction('');
+      setInstructionExpects('');
+    }
+  };
+
+  const startEMDR = () => {
+    if (room.role === 'therapist') {
+      room.startBLS(toRoomBLSConfig(emdrSettings));
+    } else {
+      setIsEMDRActive(true);
+    }
+  };
+
+  const stopEMDR = () => {
+    if (room.role === 'therapist') {
+      room.stopBLS();
+    } else {
+      setIsEMDRActive(false);
+    }
   };
 
   // Drag and drop functions
@@ -295,17 +488,32 @@ export default function TherapistSessionView() {
         {isConnected ? (
           <div className="w-full h-full bg-gradient-to-br from-blue-900 to-purple-900 flex items-center justify-center text-white relative">
             {/* Main patient video */}
-            <div className="text-center">
-              <div className="w-32 h-32 bg-blue-500 rounded-full mx-auto mb-6 flex items-center justify-center">
-                <span className="text-4xl font-bold">{patient.name?.charAt(0) || '?'}</span>
+            {call.remoteStream ? (
+              <StreamVideo stream={call.remoteStream} className="absolute inset-0 w-full h-full" data-testid="video-remote" />
+            ) : (
+              <div className="text-center">
+                <div className="w-32 h-32 bg-blue-500 rounded-full mx-auto mb-6 flex items-center justify-center">
+                  <span className="text-4xl font-bold">{patient.name?.charAt(0) || '?'}</span>
+                </div>
+                <p className="text-2xl font-medium">{patient.name}</p>
+                <p className="text-lg opacity-75">{patient.diagnosis}</p>
+                {sessionId && (
+                  <p className="text-sm opacity-75 mt-2" data-testid="text-call-state">
+                    {mediaError
+                      ? `Камера недоступна: ${mediaError}`
+                      : !call.peerPresent
+                        ? 'Пациент еще не подключился'
+                        : 'Подключение видео...'}
+                  </p>
+                )}
               </div>
-              <p className="text-2xl font-medium">{patient.name}</p>
-              <p className="text-lg opacity-75">{patient.diagnosis}</p>
-            </div>
+            )}
             
             {/* Therapist video in corner */}
             <div className="absolute bottom-4 right-4 w-48 h-36 bg-gray-800 rounded-lg overflow-hidden border-2 border-white/20">
-              {videoEnabled ? (
+              {videoEnabled && localStream ? (
+                <StreamVideo stream={localStream} muted mirrored className="w-full h-full" data-testid="video-local" />
+              ) : videoEnabled ? (
                 <div className="w-full h-full bg-gradient-to-br from-gray-700 to-gray-900 flex items-center justify-center text-white">
                   <div className="text-center">
                     <div className="w-12 h-12 bg-green-500 rounded-full mx-auto mb-2 flex items-center justify-center">
@@ -375,6 +583,7 @@ export default function TherapistSessionView() {
                 <Button 
                   size="sm"
                   onClick={() => setIsConnected(true)}
+                  disabled={!!sessionId}
                   data-testid="button-connect"
                 >
                   <Phone className="w-4 h-4 mr-2" />
@@ -444,7 +653,7 @@ export default function TherapistSessionView() {
               {!isEMDRActive ? (
                 <Button 
                   size="sm"
-                  onClick={() => setIsEMDRActive(true)}
+                  onClick={startEMDR}
                   disabled={!isConnected}
                   data-testid="button-start-emdr"
                 >
@@ -455,7 +664,7 @@ export default function TherapistSessionView() {
                 <Button 
                   variant="outline" 
                   size="sm"
-                  onClick={() => setIsEMDRActive(false)}
+                  onClick={stopEMDR}
                   data-testid="button-stop-emdr"
                 >
                   <Pause className="w-4 h-4 mr-2" />
@@ -470,13 +679,14 @@ export default function TherapistSessionView() {
           <div className="px-4 pb-4 text-white space-y-2">
             <div className="grid grid-cols-2 gap-2">
               <div>
-                <p className="text-xs">Скорость: {emdrSettings.speed}</p>
+                <p className="text-xs">Скорость: {emdrSettings.rateHz.toFixed(2)} Гц</p>
                 <input 
                   type="range" 
-                  min="1" 
-                  max="10" 
-                  value={emdrSettings.speed}
-                  onChange={(e) => setEmdrSettings(prev => ({ ...prev, speed: Number(e.target.value) }))}
+                  min={BLS_RATE_HZ_MIN} 
+                  max={BLS_RATE_HZ_MAX} 
+                  step="0.05"
+                  value={emdrSettings.rateHz}
+                  onChange={(e) => setEmdrSettings(prev => ({ ...prev, rateHz: Number(e.target.value) }))}
                   className="w-full h-1 bg-gray-600 rounded"
                   disabled={isEMDRActive}
                   data-testid="slider-speed"
@@ -567,10 +777,20 @@ export default function TherapistSessionView() {
               className="w-full h-16 px-2 py-1 text-black text-sm rounded"
               data-testid="textarea-instruction"
             />
+            <select
+              value={instructionExpects}
+              onChange={(e) => setInstructionExpects(e.target.value as typeof instructionExpects)}
+              className="w-full px-2 py-1 text-black text-sm rounded"
+              data-testid="select-instruction-expects"
+            >
+              <option value="">Без оценки</option>
+              <option value="suds">Запросить SUDS</option>
+              <option value="voc">Запросить VOC</option>
+            </select>
             <Button 
               size="sm" 
               onClick={sendInstruction}
-              disabled={!currentInstruction.trim() || !isConnected}
+              disabled={!currentInstruction.trim() || room.role !== 'therapist'}
               className="w-full"
               data-testid="button-send-instruction"
             >
@@ -639,6 +859,8 @@ export default function TherapistSessionView() {
               variant="outline" 
               size="sm" 
               className="w-full text-white border-white/20"
+              onClick={saveNote}
+              disabled={!canSaveNote}
               data-testid="button-save-notes"
             >
               <Save className="w-4 h-4 mr-2" />
@@ -682,6 +904,22 @@ export default function TherapistSessionView() {
         
         {panelStates.assessment.isExpanded && (
           <div className="px-4 pb-4 text-white space-y-3">
+            {room.state && (
+              <div className="text-xs space-y-1 border-b border-white/20 pb-2" data-testid="text-patient-live-state">
+                <p>
+                  Пациент: {room.state.participants.patient ? 'на связи' : 'не подключен'}
+                  {room.latency !== null && ` · ${room.latency} мс`}
+                </p>
+                {room.state.lastSuds && <p>SUDS от пациента: {room.state.lastSuds.value}</p>}
+                {room.state.lastVoc && <p>VOC от пациента: {room.state.lastVoc.value}</p>}
+                {room.state.lastEmotion && (
+                  <p>
+                    Эмоции: возбуждение {room.state.lastEmotion.arousal.toFixed(2)}, валентность {room.state.lastEmotion.valence.toFixed(2)}
+                    {room.state.lastEmotion.dominantEmotion && ` (${room.state.lastEmotion.dominantEmotion})`}
+                  </p>
+                )}
+              </div>
+            )}
             <div>
               <p className="text-xs mb-1">SUDS уровень: {sudsLevel}</p>
               <input 
@@ -727,6 +965,42 @@ export default function TherapistSessionView() {
         )}
       </div>
 
+      {/* Crisis alert for this session */}
+      {crisis && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-950/90 border border-red-500 rounded-lg p-4 text-white space-y-2 z-50" data-testid="panel-crisis-alert">
+          <p className="font-medium flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2 text-red-400" />
+            Кризисная ситуация (риск: {CRISIS_RISK_LABELS[crisis.riskLevel] ?? crisis.riskLevel}) — сессия приостановлена
+          </p>
+          <div className="flex gap-2">
+            {crisis.status !== 'acknowledged' && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => acknowledgeCrisisMutation.mutate(crisis.id)}
+                disabled={acknowledgeCrisisMutation.isPending}
+                data-testid="button-acknowledge-crisis"
+              >
+                Принять
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              className="bg-transparent text-white border-white/30 hover:bg-white/20"
+              onClick={() => resolveCrisisMutation.mutate(crisis.id)}
+              disabled={resolveCrisisMutation.isPending}
+              data-testid="button-resolve-crisis"
+            >
+              Состояние стабилизировано, продолжить
+            </Button>
+            <Button size="sm" variant="ghost" className="text-white hover:bg-white/20" asChild>
+              <a href={`/therapist/crisis?id=${crisis.id}`} target="_blank" rel="noreferrer">Отчёт</a>
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Emergency buttons in top-right */}
       <div className="absolute top-4 right-4 space-x-2">
         <Button 
@@ -751,8 +1025,8 @@ export default function TherapistSessionView() {
     </div>
   );
 
-  // Use new floating UI
-  if (true) return <NewTherapistFloatingUI />;
+  // Use new floating UI - called rather than mounted so the video elements survive re-renders
+  if (true) return NewTherapistFloatingUI();
 
   return (
     <div 
@@ -865,13 +1139,13 @@ export default function TherapistSessionView() {
                   {/* EMDR Controls */}
                   <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div className="space-y-2">
-                      <Label>Скорость: {emdrSettings.speed}</Label>
+                      <Label>Скорость: {emdrSettings.rateHz.toFixed(2)} Гц</Label>
                       <Slider
-                        value={[emdrSettings.speed]}
-                        onValueChange={([value]) => setEmdrSettings(prev => ({ ...prev, speed: value }))}
-                        max={10}
-                        min={1}
-                        step={1}
+                        value={[emdrSettings.rateHz]}
+                        onValueChange={([value]) => setEmdrSettings(prev => ({ ...prev, rateHz: value }))}
+                        max={BLS_RATE_HZ_MAX}
+                        min={BLS_RATE_HZ_MIN}
+                        step={0.05}
                         disabled={isEMDRActive}
                         data-testid="slider-speed"
                       />
@@ -928,7 +1202,7 @@ export default function TherapistSessionView() {
                   <div className="flex justify-center space-x-4">
                     {!isEMDRActive ? (
                       <Button 
-                        onClick={() => setIsEMDRActive(true)}
+                        onClick={startEMDR}
                         disabled={!isConnected}
                         data-testid="button-start-emdr"
                       >
@@ -939,7 +1213,7 @@ export default function TherapistSessionView() {
                       <>
                         <Button 
                           variant="outline"
-                          onClick={() => setIsEMDRActive(false)}
+                          onClick={stopEMDR}
                           data-testid="button-pause-emdr"
                         >
                           <Pause className="w-4 h-4 mr-2" />
@@ -948,7 +1222,7 @@ export default function TherapistSessionView() {
                         <Button 
                           variant="outline"
                           onClick={() => {
-                            setIsEMDRActive(false);
+                            stopEMDR();
                             setTotalSets(0);
                           }}
                           data-testid="button-reset-emdr"
@@ -1121,10 +1395,90 @@ export default function TherapistSessionView() {
                         className="min-h-[200px]"
                         data-testid="textarea-session-notes"
                       />
-                      <Button data-testid="button-save-notes">
-                        <Save className="w-4 h-4 mr-2" />
-                        Сохранить заметки
-                      </Button>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id="notePrivate"
+                            checked={noteIsPrivate}
+                            onCheckedChange={setNoteIsPrivate}
+                            data-testid="switch-note-private"
+                          />
+                          <Label htmlFor="notePrivate">Скрыть от пациента</Label>
+                        </div>
+                        <div className="flex space-x-2">
+                          {editingNoteId && (
+                            <Button variant="outline" onClick={cancelEditNote} data-testid="button-cancel-edit-note">
+                              Отмена
+                            </Button>
+                          )}
+                          <Button onClick={saveNote} disabled={!canSaveNote} data-testid="button-save-notes">
+                            <Save className="w-4 h-4 mr-2" />
+                            {editingNoteId ? 'Обновить заметку' : 'Сохранить заметки'}
+                          </Button>
+                        </div>
+                      </div>
+                      {!sessionId && (
+                        <p className="text-sm text-muted-foreground">
+                          Заметки можно сохранить только в рамках активной сессии.
+                        </p>
+                      )}
+                      {saveNoteMutation.isError && (
+                        <p className="text-sm text-destructive" data-testid="text-notes-error">
+                          Не удалось сохранить заметку
+                        </p>
+                      )}
+                      
+                      <Separator />
+                      
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium">Сохранённые заметки ({savedNotes.length})</p>
+                        <Select value={notesPhaseFilter} onValueChange={setNotesPhaseFilter}>
+                          <SelectTrigger className="w-48" data-testid="select-notes-phase">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Все фазы</SelectItem>
+                            {SESSION_ROOM_PHASES.map(phase => (
+                              <SelectItem key={phase} value={phase}>{getPhaseLabel(phase)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        {savedNotes.map(note => (
+                          <div key={note.id} className="p-3 border rounded-lg space-y-2" data-testid={`note-${note.id}`}>
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center space-x-2">
+                                <Badge className={getPhaseColor(note.phase)}>{getPhaseLabel(note.phase)}</Badge>
+                                {note.isPrivate && <Lock className="w-4 h-4 text-muted-foreground" />}
+                                <span className="text-xs text-muted-foreground">
+                                  {new Date(note.timestamp).toLocaleTimeString()}
+                                </span>
+                              </div>
+                              <div className="flex space-x-1">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => editNote(note)}
+                                  data-testid={`button-edit-note-${note.id}`}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => deleteNoteMutation.mutate(note.id)}
+                                  disabled={deleteNoteMutation.isPending}
+                                  data-testid={`button-delete-note-${note.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </div>
+                            <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -1304,11 +1658,7 @@ export default function TherapistSessionView() {
                     <span>Фаза сессии</span>
                     <span>{getPhaseLabel(sessionPhase)}</span>
                   </div>
-                  <Progress value={sessionPhase === 'waiting' ? 0 : 
-                                  sessionPhase === 'preparation' ? 16 :
-                                  sessionPhase === 'desensitization' ? 33 :
-                                  sessionPhase === 'installation' ? 50 :
-                                  sessionPhase === 'body-scan' ? 75 : 100} />
+                  <Progress value={Math.round(SESSION_ROOM_PHASES.indexOf(sessionPhase) / (SESSION_ROOM_PHASES.length - 1) * 100)} />
                 </div>
                 
                 <div className="space-y-1 text-sm">
@@ -27,9 +27,11 @@ import {
   EyeOff,
   Trash2,
   Plus,
-  X
+  X,
+  Brain
 } from "lucide-react";
 import Header from "./Header";
+import AdaptiveRuleEditor from "./bls/AdaptiveRuleEditor";
 
 export default function TherapistSettings() {
   const [showPassword, setShowPassword] = useState(false);
@@ -133,7 +135,7 @@ export default function TherapistSettings() {
         </div>
 
         <Tabs defaultValue="profile" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="profile" className="flex items-center space-x-2" data-testid="tab-profile">
               <User className="w-4 h-4" />
               <span>Профиль</span>
@@ -150,6 +152,10 @@ export default function TherapistSettings() {
               <Bell className="w-4 h-4" />
               <span>Уведомления</span>
             </TabsTrigger>
+            <TabsTrigger value="bls-rules" className="flex items-center space-x-2" data-testid="tab-bls-rules">
+              <Brain className="w-4 h-4" />
+              <span>BLS-правила</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Profile Tab */}
@@ -698,6 +704,11 @@ export default function TherapistSettings() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Adaptive BLS Rules Tab */}
+          <TabsContent value="bls-rules" className="space-y-6">
+            <AdaptiveRuleEditor />
+          </TabsContent>
         </Tabs>
 
         {/* Action Buttons */}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TreatmentTarget } from "@shared/schema";
+import type { IntakeTargetTimeframe, TreatmentTargetStatus } from "@shared/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ListOrdered, Plus, Trash2 } from "lucide-react";
+
+const TIMEFRAME_LABELS: Record<IntakeTargetTimeframe, string> = {
+  past: "Прошлое",
+  present: "Настоящее",
+  future: "Будущее"
+};
+
+const STATUS_LABELS: Record<TreatmentTargetStatus, string> = {
+  pending: "Ожидает",
+  'in-process': "В работе",
+  incomplete: "Не завершена",
+  resolved: "Переработана"
+};
+
+const STATUS_VARIANTS: Record<TreatmentTargetStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  'in-process': "default",
+  incomplete: "destructive",
+  resolved: "secondary"
+};
+
+const NO_TOUCHSTONE = "none";
+
+function formatRating(baseline: number | null, latest: number | null): string {
+  if (baseline === null && latest === null) return "—";
+  return latest === null ? `${baseline}` : `${baseline ?? "—"} → ${latest}`;
+}
+
+interface TreatmentPlanProps {
+  patientId: string;
+}
+
+// Ordered target queue the patient works through across sessions
+export default function TreatmentPlan({ patientId }: TreatmentPlanProps) {
+  const queryClient = useQueryClient();
+  const [description, setDescription] = useState('');
+  const [timeframe, setTimeframe] = useState<IntakeTargetTimeframe>('past');
+
+  const { data: targets = [], isLoading } = useQuery<TreatmentTarget[]>({
+    queryKey: ['/api/patients', patientId, 'treatment-plan'],
+  });
+
+  const invalidatePlan = () => {
+    // Also refreshes the next-target recommendation
+    queryClient.invalidateQueries({ queryKey: ['/api/patients', patientId, 'treatment-plan'] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/patients/${patientId}/treatment-plan/targets`, {
+        description: description.trim(),
+        timeframe
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDescription('');
+      invalidatePlan();
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<TreatmentTarget> }) => {
+      const res = await apiRequest('PATCH', `/api/patients/${patientId}/treatment-plan/targets/${id}`, changes);
+      return res.json();
+    },
+    onSuccess: invalidatePlan
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/patients/${patientId}/treatment-plan/targets/${id}`),
+    onSuccess: invalidatePlan
+  });
+
+  const orderMutation = useMutation({
+    mutationFn: async (targetIds: string[]) => {
+      const res = await apiRequest('PUT', `/api/patients/${patientId}/treatment-plan/order`, { targetIds });
+      return res.json();
+    },
+    onSuccess: invalidatePlan
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = targets.map(target => target.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    orderMutation.mutate(ids);
+  };
+
+  const isSaving = updateMutation.isPending || deleteMutation.isPending || orderMutation.isPending;
+
+  return (
+    <Card data-testid="card-treatment-plan">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5" />
+          План лечения
+        </CardTitle>
+        <CardDescription>Цели переработки по порядку; незавершённые цели продолжаются в следующей сессии</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground">Загрузка плана...</p>}
+        {!isLoading && targets.length === 0 && (
+          <p className="text-sm text-muted-foreground">Цели появятся в плане после завершения сбора анамнеза</p>
+        )}
+
+        {targets.map((target, index) => {
+          const touchstones = targets.filter(candidate => candidate.id !== target.id && candidate.timeframe === 'past');
+          const status = target.status as TreatmentTargetStatus;
+          return (
+            <div key={target.id} className="p-3 border rounded-lg space-y-2" data-testid={`treatment-target-${index}`}>
+              <div className="flex items-start gap-2">
+                <span className="text-sm font-medium text-muted-foreground w-6">{index + 1}.</span>
+                <div className="flex-1 space-y-1">
+                  <p className="font-medium">{target.description}</p>
+                  <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    <span>{TIMEFRAME_LABELS[target.timeframe as IntakeTargetTimeframe]}</span>
+                    <span>SUD: {formatRating(target.baselineSud, target.latestSud)}</span>
+                    <span>VOC: {formatRating(target.baselineVoc, target.latestVoc)}</span>
+                    <span>Сессий: {target.sessionCount}</span>
+                  </div>
+                  {(target.negativeCognition || target.positiveCognition) && (
+                    <p className="text-xs">
+                      {target.negativeCognition ?? '—'} → {target.positiveCognition ?? '—'}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+                <Button variant="ghost" size="icon" disabled={index === 0 || isSaving} onClick={() => move(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" disabled={index === targets.length - 1 || isSaving} onClick={() => move(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isSaving}
+                  onClick={() => deleteMutation.mutate(target.id)}
+                  data-testid={`button-remove-treatment-target-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pl-8">
+                <Select
+                  value={target.touchstoneId ?? NO_TOUCHSTONE}
+                  onValueChange={(value) => updateMutation.mutate({
+                    id: target.id,
+                    changes: { touchstoneId: value === NO_TOUCHSTONE ? null : value }
+                  })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TOUCHSTONE}>Без связи с тачстоуном</SelectItem>
+                    {touchstones.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>Тачстоун: {candidate.description}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={status}
+                  onValueChange={(value) => updateMutation.mutate({ id: target.id, changes: { status: value } })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STATUS_LABELS) as TreatmentTargetStatus[]).map(option => (
+                      <SelectItem key={option} value={option}>{STATUS_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex gap-2">
+          <Select value={timeframe} onValueChange={(value) => setTimeframe(value as IntakeTargetTimeframe)}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TIMEFRAME_LABELS) as IntakeTargetTimeframe[]).map(option => (
+                <SelectItem key={option} value={option}>{TIMEFRAME_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Новая цель одной фразой..."
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={() => addMutation.mutate()}
+            disabled={!description.trim() || addMutation.isPending}
+            data-testid="button-add-treatment-target"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Добавить
+          </Button>
+        </div>
+        {(addMutation.isError || updateMutation.isError || deleteMutation.isError || orderMutation.isError) && (
+          <p className="text-sm text-destructive">Не удалось обновить план лечения</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
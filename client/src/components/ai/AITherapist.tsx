@@ -680,6 +680,7 @@ export function AITherapist({
 
   const getPhaseDisplayName = (phase: EMDRPhase): string => {
     const phaseNames: Record<EMDRPhase, string> = {
+      'history-taking': 'Сбор анамнеза',
       'preparation': 'Подготовка',
       'assessment': 'Оценка', 
       'desensitization': 'Десенсибилизация',
@@ -694,7 +695,7 @@ export function AITherapist({
 
   const getNextPhase = (current: EMDRPhase): EMDRPhase | null => {
     const phases: EMDRPhase[] = [
-      'preparation', 'assessment', 'desensitization', 'installation', 
+      'history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 
       'body-scan', 'closure', 'reevaluation', 'integration'
     ];
     const currentIndex = phases.indexOf(current);
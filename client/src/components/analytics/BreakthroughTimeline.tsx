@@ -44,7 +44,7 @@ interface BreakthroughMoment {
   id: string;
   timestamp: Date;
   sessionId: string;
-  type: 'emotional_release' | 'insight' | 'memory_integration' | 'anxiety_reduction' | 'cognitive_shift';
+  type: 'emotional_release' | 'insight' | 'memory_integration' | 'anxiety_reduction' | 'cognitive_shift' | 'resistance_breakthrough';
   severity: 'minor' | 'moderate' | 'major' | 'transformational';
   title: string;
   description: string;
@@ -87,7 +87,8 @@ const BREAKTHROUGH_COLORS = {
   insight: '#3b82f6',
   memory_integration: '#10b981',
   anxiety_reduction: '#f59e0b',
-  cognitive_shift: '#8b5cf6'
+  cognitive_shift: '#8b5cf6',
+  resistance_breakthrough: '#ec4899'
 };
 
 const SEVERITY_COLORS = {
@@ -97,6 +98,16 @@ const SEVERITY_COLORS = {
   transformational: '#8b5cf6'
 };
 
+// Stable vertical offset in [0, 1) so events keep their position between renders
+const scatterOffset = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = ((hash << 5) - hash) + id.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return (Math.abs(hash) % 10000) / 10000;
+};
+
 // Interactive Timeline Visualization
 const TimelineVisualization = ({ 
   events, 
@@ -123,7 +134,7 @@ const TimelineVisualization = ({
     return events.map(event => ({
       ...event,
       x: ((event.timestamp.getTime() - timeRange.start.getTime()) / timeSpan) * (width - 100) + 50,
-      y: height / 2 + (deterministicValue(`${event.id}_scatter`) - 0.5) * 100 // Deterministic vertical scatter
+      y: height / 2 + (scatterOffset(event.id) - 0.5) * 100
     }));
   }, [events, timeRange, width, height]);
   
@@ -566,11 +577,12 @@ const TimelineStatsPanel = ({ breakthroughs }: { breakthroughs: BreakthroughMome
       return acc;
     }, {} as Record<string, number>);
     
-    const avgDuration = breakthroughs.reduce((acc, bt) => acc + bt.duration, 0) / breakthroughs.length / 60;
+    const count = Math.max(breakthroughs.length, 1);
+    const avgDuration = breakthroughs.reduce((acc, bt) => acc + bt.duration, 0) / count / 60;
     
     const totalImpact = breakthroughs.reduce((acc, bt) => {
       return acc + Math.abs(bt.metrics.sudsChange) + bt.metrics.vocChange + bt.metrics.stabilityImprovement;
-    }, 0) / breakthroughs.length;
+    }, 0) / count;
     
     return {
       total: breakthroughs.length,
@@ -635,84 +647,21 @@ export function BreakthroughTimeline({ patientId, sessionId, className, showPred
   const [timeRange, setTimeRange] = useState<'session' | 'day' | 'week' | 'month'>('session');
   const [viewMode, setViewMode] = useState<'timeline' | 'patterns' | 'analysis'>('timeline');
   
-  // Deterministic helper functions for clinical safety (moved up for proper scope)
-  const deterministicValue = (seed: string, min: number = 0, max: number = 1): number => {
-    const baseString = `${patientId}_${sessionId}_${seed}`;
-    let hash = 0;
-    for (let i = 0; i < baseString.length; i++) {
-      const char = baseString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    const normalized = (Math.abs(hash) % 10000) / 10000;
-    return min + normalized * (max - min);
-  };
-
-  const deterministicArraySelect = function<T>(array: T[], seed: string): T {
-    const value = deterministicValue(seed, 0, array.length);
-    return array[Math.floor(value)];
-  };
-
-  const deterministicBoolean = (seed: string, threshold: number = 0.5): boolean => {
-    return deterministicValue(seed) > threshold;
-  };
+  // Fetch detected breakthroughs
+  const breakthroughParams = new URLSearchParams({ timeRange });
+  if (sessionId) breakthroughParams.set('sessionId', sessionId);
   
-  // Fetch breakthrough data
-  const { data: breakthroughData, isLoading } = useQuery({
-    queryKey: ['/api/sessions/breakthroughs', patientId, sessionId, timeRange],
+  const { data: breakthroughData, isLoading } = useQuery<{ breakthroughs: Array<Omit<BreakthroughMoment, 'timestamp'> & { timestamp: string }> }>({
+    queryKey: ['/api/sessions/breakthroughs', `${patientId}?${breakthroughParams}`],
     enabled: !!patientId
   });
   
-  // Generate deterministic breakthrough data based on patient/session context
-  const mockBreakthroughs: BreakthroughMoment[] = useMemo(() => {
-    const types: Array<BreakthroughMoment['type']> = ['emotional_release', 'insight', 'memory_integration', 'anxiety_reduction', 'cognitive_shift'];
-    const severities: Array<BreakthroughMoment['severity']> = ['minor', 'moderate', 'major', 'transformational'];
-    
-    return Array.from({ length: 12 }, (_, i) => {
-      const breakthroughSeed = `breakthrough_${i}`;
-      return {
-        id: `breakthrough_${i}`,
-        timestamp: new Date(Date.now() - (12 - i) * 5 * 60 * 1000), // Every 5 minutes
-        sessionId: sessionId || 'session_1',
-        type: deterministicArraySelect(types, `${breakthroughSeed}_type`),
-        severity: deterministicArraySelect(severities, `${breakthroughSeed}_severity`),
-        title: `Breakthrough Moment ${i + 1}`,
-        description: `Significant therapeutic breakthrough occurred during processing.`,
-        duration: 30 + deterministicValue(`${breakthroughSeed}_duration`) * 300, // 30 seconds to 5 minutes
-        triggers: ['Memory recall', 'Bilateral stimulation', 'Emotional processing'],
-        outcomes: ['Reduced anxiety', 'Increased clarity', 'Emotional integration'],
-        emotionalState: {
-          before: {
-            arousal: deterministicValue(`${breakthroughSeed}_before_arousal`),
-            valence: deterministicValue(`${breakthroughSeed}_before_valence`) * 0.5,
-            stress: 0.5 + deterministicValue(`${breakthroughSeed}_before_stress`) * 0.5
-          },
-          after: {
-            arousal: deterministicValue(`${breakthroughSeed}_after_arousal`) * 0.7,
-            valence: 0.5 + deterministicValue(`${breakthroughSeed}_after_valence`) * 0.5,
-            stress: deterministicValue(`${breakthroughSeed}_after_stress`) * 0.5
-          }
-        },
-        metrics: {
-          sudsChange: -1 - deterministicValue(`${breakthroughSeed}_suds_change`) * 3,
-          vocChange: 1 + deterministicValue(`${breakthroughSeed}_voc_change`) * 2,
-          stabilityImprovement: deterministicValue(`${breakthroughSeed}_stability`) * 0.3
-        },
-        aiAnalysis: {
-          significance: 0.3 + deterministicValue(`${breakthroughSeed}_significance`) * 0.7,
-          patterns: ['Emotional regulation improvement', 'Memory processing enhancement'],
-          recommendations: ['Continue current approach', 'Monitor for sustained progress']
-        },
-        precursors: {
-          emotionalBuild: deterministicBoolean(`${breakthroughSeed}_emotional_build`, 0.5),
-          physiologicalMarkers: deterministicBoolean(`${breakthroughSeed}_physiological`, 0.6),
-          verbalCues: deterministicBoolean(`${breakthroughSeed}_verbal`, 0.7)
-        }
-      };
-    });
-  }, [patientId, sessionId]);
-  
-  const processedBreakthroughs = breakthroughData?.breakthroughs || mockBreakthroughs;
+  const processedBreakthroughs: BreakthroughMoment[] = useMemo(() => {
+    return (breakthroughData?.breakthroughs ?? []).map(breakthrough => ({
+      ...breakthrough,
+      timestamp: new Date(breakthrough.timestamp)
+    }));
+  }, [breakthroughData]);
   
   // Create timeline events
   const timelineEvents: TimelineEvent[] = useMemo(() => {
@@ -748,7 +697,7 @@ export function BreakthroughTimeline({ patientId, sessionId, className, showPred
     }
   }, [processedBreakthroughs, selectedEventId]);
   
-  if (isLoading && !mockBreakthroughs.length) {
+  if (isLoading) {
     return (
       <Card className={className}>
         <CardContent className="p-6">
@@ -852,9 +801,13 @@ export function BreakthroughTimeline({ patientId, sessionId, className, showPred
             <Card>
               <CardContent className="p-8 text-center">
                 <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-medium mb-2">Select a Breakthrough</h3>
+                <h3 className="text-lg font-medium mb-2">
+                  {processedBreakthroughs.length === 0 ? 'No Breakthroughs Detected' : 'Select a Breakthrough'}
+                </h3>
                 <p className="text-muted-foreground">
-                  Click on any breakthrough moment in the timeline to view detailed analysis.
+                  {processedBreakthroughs.length === 0
+                    ? 'Breakthrough moments will appear here once they are detected in live session data.'
+                    : 'Click on any breakthrough moment in the timeline to view detailed analysis.'}
                 </p>
               </CardContent>
             </Card>
@@ -23,6 +23,8 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { generateDeterministicEmotionData } from '@/lib/deterministicUtils';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+import type { SessionMemorySnapshot } from '@shared/schema';
 
 interface EmotionHeatmapProps {
   patientId: string;
@@ -50,6 +52,22 @@ interface HeatmapCell {
   color: string;
 }
 
+// Points kept from the live stream
+const MAX_LIVE_POINTS = 300;
+
+const snapshotToDataPoint = (snapshot: SessionMemorySnapshot): EmotionDataPoint => {
+  const emotion = (snapshot.emotionalSnapshot ?? {}) as Partial<EmotionDataPoint>;
+  return {
+    timestamp: new Date(snapshot.timestamp),
+    arousal: emotion.arousal ?? 0,
+    valence: emotion.valence ?? 0,
+    basicEmotions: emotion.basicEmotions ?? {},
+    affects: emotion.affects ?? {},
+    stressLevel: snapshot.stressLevel ?? 0,
+    stabilityScore: snapshot.stabilityScore ?? 0
+  };
+};
+
 // Color intensity mapping for emotions
 const EMOTION_COLORS = {
   anger: '#ef4444',
@@ -312,11 +330,22 @@ export function EmotionHeatmap({ patientId, sessionId, realTime = false, classNa
   const [timeRange, setTimeRange] = useState('session');
   const [selectedEmotion, setSelectedEmotion] = useState('all');
   
+  const [livePoints, setLivePoints] = useState<EmotionDataPoint[]>([]);
+
   // Fetch emotion data
-  const { data: emotionData, isLoading } = useQuery({
+  const { data: emotionData, isLoading } = useQuery<{ data?: EmotionDataPoint[] }>({
     queryKey: ['/api/sessions/emotions/heatmap', patientId, sessionId, timeRange],
-    refetchInterval: realTime ? 1000 : false // Refresh every second if real-time
   });
+
+  // In real-time mode new snapshots are pushed by the server instead of polled
+  useEffect(() => setLivePoints([]), [patientId, sessionId]);
+
+  useLiveUpdates((event) => {
+    if (event.type !== 'memory_update' || event.update.updateType !== 'emotion_change') return;
+    if (sessionId && event.update.sessionId !== sessionId) return;
+    const point = snapshotToDataPoint(event.update.data as SessionMemorySnapshot);
+    setLivePoints(prev => [...prev, point].slice(-MAX_LIVE_POINTS));
+  }, { patientId, enabled: realTime && !!patientId });
   
   // Generate mock data for demonstration
   const mockEmotionData: EmotionDataPoint[] = useMemo(() => {
@@ -340,7 +369,10 @@ export function EmotionHeatmap({ patientId, sessionId, realTime = false, classNa
     return data;
   }, []);
   
-  const processedData = emotionData?.data || mockEmotionData;
+  const fetchedData = emotionData?.data?.map(point => ({ ...point, timestamp: new Date(point.timestamp) }));
+  const processedData = (fetchedData || livePoints.length > 0)
+    ? [...(fetchedData ?? []), ...livePoints]
+    : mockEmotionData;
   const heatmapData = generateHeatmapData(processedData);
   
   if (isLoading && !mockEmotionData.length) {
@@ -1,6 +1,6 @@
 /**
  * Revolutionary Neural Network Patterns Visualization
- * Advanced visualization of neural patterns and brain activity correlations during EMDR therapy
+ * Correlation graphs and spectral bands of affect signals recorded during EMDR therapy
  */
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -26,7 +26,7 @@ import {
   Layers
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { deterministicValue, generateDeterministicNeuralActivity } from '@/lib/deterministicUtils';
+import type { AffectBand, AffectPattern, AffectSpectrumPoint, AnalyticsProvenance } from '@/../../shared/types';
 
 interface NeuralPatternsProps {
   patientId: string;
@@ -35,52 +35,21 @@ interface NeuralPatternsProps {
   className?: string;
 }
 
-interface NeuralNode {
-  id: string;
-  x: number;
-  y: number;
-  region: string;
-  activity: number;
-  connections: string[];
-  size: number;
-  color: string;
-}
-
-interface NeuralConnection {
-  from: string;
-  to: string;
-  strength: number;
-  type: 'excitatory' | 'inhibitory' | 'modulatory';
-  active: boolean;
-}
+// API payloads arrive with ISO timestamps
+type NeuralPattern = Omit<AffectPattern, 'timestamp'> & { timestamp: Date };
+type SpectrumPoint = Omit<AffectSpectrumPoint, 'timestamp'> & { timestamp: Date };
 
-interface BrainWave {
-  frequency: number;
-  amplitude: number;
-  type: 'alpha' | 'beta' | 'theta' | 'delta' | 'gamma';
-  timestamp: Date;
+interface NeuralPatternsResponse {
+  patterns: Array<Omit<AffectPattern, 'timestamp'> & { timestamp: string }>;
+  spectrum: Array<Omit<AffectSpectrumPoint, 'timestamp'> & { timestamp: string }>;
+  provenance: AnalyticsProvenance;
 }
 
-interface NeuralPattern {
-  id: string;
-  name: string;
-  nodes: NeuralNode[];
-  connections: NeuralConnection[];
-  activity: number;
-  coherence: number;
-  timestamp: Date;
-}
-
-// Brain regions configuration
-const BRAIN_REGIONS = {
-  prefrontal: { name: 'Prefrontal Cortex', color: '#3b82f6', x: 300, y: 150 },
-  amygdala: { name: 'Amygdala', color: '#ef4444', x: 250, y: 300 },
-  hippocampus: { name: 'Hippocampus', color: '#10b981', x: 350, y: 320 },
-  insula: { name: 'Insula', color: '#f59e0b', x: 200, y: 250 },
-  cingulate: { name: 'Anterior Cingulate', color: '#8b5cf6', x: 300, y: 200 },
-  thalamus: { name: 'Thalamus', color: '#06b6d4', x: 300, y: 280 },
-  brainstem: { name: 'Brainstem', color: '#84cc16', x: 300, y: 380 },
-  cerebellum: { name: 'Cerebellum', color: '#f97316', x: 400, y: 350 }
+const BAND_LABELS: Record<AffectBand, string> = {
+  ultra_slow: 'Ultra slow (>2 min)',
+  slow: 'Slow (30 s - 2 min)',
+  moderate: 'Moderate (10-30 s)',
+  fast: 'Fast (<10 s)'
 };
 
 // Neural Network Visualization Component
@@ -148,57 +117,28 @@ const NeuralNetworkVisualization = ({
   }, [pattern, showConnections, animated, pulsePhase, width, height]);
   
   const drawConnections = (ctx: CanvasRenderingContext2D, pattern: NeuralPattern) => {
-    pattern.connections.forEach(connection => {
-      const fromNode = pattern.nodes.find(n => n.id === connection.from);
-      const toNode = pattern.nodes.find(n => n.id === connection.to);
+    pattern.links.forEach(link => {
+      const fromNode = pattern.nodes.find(n => n.id === link.from);
+      const toNode = pattern.nodes.find(n => n.id === link.to);
       
       if (!fromNode || !toNode) return;
       
-      const opacity = connection.active ? connection.strength : connection.strength * 0.3;
-      
-      // Set connection style
-      ctx.strokeStyle = connection.type === 'excitatory' ? '#10b981' : 
-                       connection.type === 'inhibitory' ? '#ef4444' : '#f59e0b';
-      ctx.globalAlpha = opacity;
-      ctx.lineWidth = Math.max(1, connection.strength * 5);
+      // Correlations are undirected: green for positive, red for negative
+      ctx.strokeStyle = link.type === 'positive' ? '#10b981' : '#ef4444';
+      ctx.globalAlpha = link.significant ? link.strength : link.strength * 0.3;
+      ctx.lineWidth = Math.max(1, link.strength * 5);
+      ctx.setLineDash(link.significant ? [] : [4, 4]);
       
-      // Draw connection line
       ctx.beginPath();
       ctx.moveTo(fromNode.x, fromNode.y);
       ctx.lineTo(toNode.x, toNode.y);
       ctx.stroke();
-      
-      // Draw arrow head for active connections
-      if (connection.active) {
-        drawArrowHead(ctx, fromNode, toNode);
-      }
     });
     
+    ctx.setLineDash([]);
     ctx.globalAlpha = 1;
   };
   
-  const drawArrowHead = (ctx: CanvasRenderingContext2D, from: NeuralNode, to: NeuralNode) => {
-    const angle = Math.atan2(to.y - from.y, to.x - from.x);
-    const arrowLength = 10;
-    const arrowAngle = Math.PI / 6;
-    
-    const arrowX = to.x - Math.cos(angle) * to.size;
-    const arrowY = to.y - Math.sin(angle) * to.size;
-    
-    ctx.beginPath();
-    ctx.moveTo(arrowX, arrowY);
-    ctx.lineTo(
-      arrowX - arrowLength * Math.cos(angle - arrowAngle),
-      arrowY - arrowLength * Math.sin(angle - arrowAngle)
-    );
-    ctx.moveTo(arrowX, arrowY);
-    ctx.lineTo(
-      arrowX - arrowLength * Math.cos(angle + arrowAngle),
-      arrowY - arrowLength * Math.sin(angle + arrowAngle)
-    );
-    ctx.stroke();
-  };
-  
   const drawNodes = (ctx: CanvasRenderingContext2D, pattern: NeuralPattern) => {
     pattern.nodes.forEach(node => {
       const radius = node.size + (animated ? Math.sin(pulsePhase) * 3 : 0);
@@ -254,7 +194,7 @@ const NeuralNetworkVisualization = ({
     ctx.textAlign = 'center';
     
     pattern.nodes.forEach(node => {
-      ctx.fillText(node.region, node.x, node.y + node.size + 15);
+      ctx.fillText(node.label, node.x, node.y + node.size + 15);
     });
   };
   
@@ -273,20 +213,21 @@ const NeuralNetworkVisualization = ({
         <div className="font-medium mb-1">Network Stats</div>
         <div>Activity: {(pattern.activity * 100).toFixed(1)}%</div>
         <div>Coherence: {(pattern.coherence * 100).toFixed(1)}%</div>
-        <div>Nodes: {pattern.nodes.length}</div>
-        <div>Connections: {pattern.connections.length}</div>
+        <div>Signals: {pattern.nodes.length}</div>
+        <div>Correlations: {pattern.links.length}</div>
+        <div>Samples: {pattern.sampleCount}</div>
       </div>
     </div>
   );
 };
 
-// Brainwave Visualization Component
+// Affect Spectrum Visualization Component
 const BrainwaveVisualization = ({ 
-  waves, 
+  spectrum, 
   width = 600, 
   height = 200 
 }: {
-  waves: BrainWave[];
+  spectrum: SpectrumPoint[];
   width?: number;
   height?: number;
 }) => {
@@ -302,40 +243,46 @@ const BrainwaveVisualization = ({
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
     
-    // Draw brainwave types
-    const waveTypes = ['alpha', 'beta', 'theta', 'delta', 'gamma'];
-    const colors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
+    // One row per band: arousal solid, valence dashed, relative power over time
+    const bands = Object.keys(BAND_LABELS) as AffectBand[];
+    const colors = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444'];
+    const rowHeight = height / bands.length;
+    const labelWidth = 130;
     
-    waveTypes.forEach((type, index) => {
-      const typeWaves = waves.filter(w => w.type === type);
-      if (typeWaves.length === 0) return;
-      
-      const y = (height / waveTypes.length) * (index + 0.5);
-      
-      ctx.strokeStyle = colors[index];
-      ctx.lineWidth = 2;
-      ctx.beginPath();
+    bands.forEach((band, index) => {
+      const top = rowHeight * index;
       
-      typeWaves.forEach((wave, waveIndex) => {
-        const x = (width / typeWaves.length) * waveIndex;
-        const amplitude = wave.amplitude * 30;
-        const frequency = wave.frequency * 0.1;
+      (['arousal', 'valence'] as const).forEach(signal => {
+        const points = spectrum.filter(p => p.band === band && p.signal === signal);
+        if (points.length === 0) return;
+        
+        ctx.strokeStyle = colors[index];
+        ctx.lineWidth = 2;
+        ctx.setLineDash(signal === 'valence' ? [4, 4] : []);
+        ctx.beginPath();
+        
+        points.forEach((point, pointIndex) => {
+          const x = labelWidth + ((width - labelWidth - 10) / Math.max(1, points.length - 1)) * pointIndex;
+          const y = top + rowHeight - 6 - point.amplitude * (rowHeight - 12);
+          
+          if (pointIndex === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        });
         
-        if (waveIndex === 0) {
-          ctx.moveTo(x, y);
-        } else {
-          ctx.lineTo(x, y + Math.sin(frequency) * amplitude);
-        }
+        ctx.stroke();
       });
       
-      ctx.stroke();
+      ctx.setLineDash([]);
       
-      // Draw wave type label
+      // Draw band label
       ctx.fillStyle = colors[index];
       ctx.font = '12px sans-serif';
-      ctx.fillText(type.toUpperCase(), 10, y - 20);
+      ctx.fillText(BAND_LABELS[band], 10, top + rowHeight / 2 + 4);
     });
-  }, [waves, width, height]);
+  }, [spectrum, width, height]);
   
   return (
     <div className="relative" data-testid="brainwave-visualization">
@@ -345,6 +292,11 @@ const BrainwaveVisualization = ({
         height={height}
         className="border rounded"
       />
+      {spectrum.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+          Not enough emotion captures for spectral analysis
+        </div>
+      )}
     </div>
   );
 };
@@ -376,7 +328,7 @@ const NeuralActivityTimeline = ({
             <div className="flex-1 min-w-0">
               <div className="text-sm font-medium truncate">{pattern.name}</div>
               <div className="text-xs text-muted-foreground">
-                {format(pattern.timestamp, 'HH:mm:ss')} - Activity: {(pattern.activity * 100).toFixed(0)}%
+                {format(pattern.timestamp, 'HH:mm:ss')} - Arousal: {(pattern.activity * 100).toFixed(0)}% - n={pattern.sampleCount}
               </div>
             </div>
             <div className="text-xs text-muted-foreground">
@@ -393,10 +345,10 @@ const NeuralActivityTimeline = ({
 const PatternAnalysisPanel = ({ pattern }: { pattern: NeuralPattern }) => {
   const analysis = useMemo(() => {
     const highActivityNodes = pattern.nodes.filter(n => n.activity > 0.7);
-    const activeConnections = pattern.connections.filter(c => c.active);
-    const strongConnections = pattern.connections.filter(c => c.strength > 0.7);
+    const activeConnections = pattern.links.filter(l => l.significant);
+    const strongConnections = pattern.links.filter(l => l.strength > 0.7);
     
-    const dominantRegions = highActivityNodes.map(n => n.region);
+    const dominantRegions = highActivityNodes.map(n => n.label);
     const networkEfficiency = pattern.coherence * pattern.activity;
     
     return {
@@ -431,7 +383,7 @@ const PatternAnalysisPanel = ({ pattern }: { pattern: NeuralPattern }) => {
       </div>
       
       <div className="space-y-2">
-        <div className="text-sm font-medium">Dominant Regions</div>
+        <div className="text-sm font-medium">Dominant Signals</div>
         <div className="flex flex-wrap gap-1">
           {analysis.dominantRegions.map((region, index) => (
             <Badge key={index} variant="outline" className="text-xs">
@@ -443,12 +395,12 @@ const PatternAnalysisPanel = ({ pattern }: { pattern: NeuralPattern }) => {
       
       <div className="grid grid-cols-2 gap-4 text-sm">
         <div>
-          <div className="text-muted-foreground">Active Nodes</div>
+          <div className="text-muted-foreground">High Signals</div>
           <div className="font-medium">{analysis.highActivityCount}/{pattern.nodes.length}</div>
         </div>
         <div>
-          <div className="text-muted-foreground">Strong Connections</div>
-          <div className="font-medium">{analysis.strongConnectionCount}/{pattern.connections.length}</div>
+          <div className="text-muted-foreground">Strong Correlations</div>
+          <div className="font-medium">{analysis.strongConnectionCount}/{pattern.links.length}</div>
         </div>
       </div>
     </div>
@@ -461,82 +413,20 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
   const [animated, setAnimated] = useState(realTime);
   const [viewMode, setViewMode] = useState<'network' | 'waves' | 'both'>('network');
   
-  // Fetch neural pattern data
-  const { data: neuralData, isLoading } = useQuery({
-    queryKey: ['/api/sessions/neural/patterns', patientId, sessionId],
-    refetchInterval: realTime ? 2000 : false
+  // Fetch affect patterns derived from emotion captures
+  const { data: neuralData, isLoading } = useQuery<NeuralPatternsResponse>({
+    queryKey: ['/api/sessions/neural/patterns', sessionId ? `${patientId}?sessionId=${sessionId}` : patientId],
+    refetchInterval: realTime ? 2000 : false,
+    enabled: !!patientId
   });
   
-  // Generate mock neural patterns for demonstration
-  const mockNeuralPatterns: NeuralPattern[] = useMemo(() => {
-    const patterns: NeuralPattern[] = [];
-    
-    for (let i = 0; i < 10; i++) {
-      const timestamp = new Date(Date.now() - (10 - i) * 10000);
-      
-      // Create nodes for each brain region
-      const nodes: NeuralNode[] = Object.entries(BRAIN_REGIONS).map(([key, region]) => ({
-        id: key,
-        x: region.x,
-        y: region.y,
-        region: region.name,
-        activity: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `neural_${key}_activity`),
-        connections: [],
-        size: 15 + deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `neural_${key}_size`, 0, 10),
-        color: region.color
-      }));
-      
-      // Create connections between nodes
-      const connections: NeuralConnection[] = [];
-      nodes.forEach(fromNode => {
-        nodes.forEach(toNode => {
-          if (fromNode.id !== toNode.id && deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `connection_${fromNode.id}_${toNode.id}`) > 0.7) {
-            connections.push({
-              from: fromNode.id,
-              to: toNode.id,
-              strength: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `strength_${fromNode.id}_${toNode.id}`),
-              type: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `type_${fromNode.id}_${toNode.id}`) > 0.5 ? 'excitatory' : 'inhibitory',
-              active: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `active_${fromNode.id}_${toNode.id}`) > 0.4
-            });
-          }
-        });
-      });
-      
-      patterns.push({
-        id: `pattern_${i}`,
-        name: `Neural Pattern ${i + 1}`,
-        nodes,
-        connections,
-        activity: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `pattern_${i}_activity`),
-        coherence: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `pattern_${i}_coherence`),
-        timestamp
-      });
-    }
-    
-    return patterns;
-  }, []);
-  
-  // Generate mock brainwave data
-  const mockBrainwaves: BrainWave[] = useMemo(() => {
-    const waves: BrainWave[] = [];
-    const waveTypes: Array<'alpha' | 'beta' | 'theta' | 'delta' | 'gamma'> = ['alpha', 'beta', 'theta', 'delta', 'gamma'];
-    
-    for (let i = 0; i < 50; i++) {
-      waveTypes.forEach(type => {
-        waves.push({
-          frequency: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `wave_${type}_${i}_freq`, 1, 51),
-          amplitude: deterministicValue(patientId || 'patient_demo', sessionId || 'session_1', `wave_${type}_${i}_amp`),
-          type,
-          timestamp: new Date(Date.now() - (50 - i) * 1000)
-        });
-      });
-    }
-    
-    return waves;
-  }, []);
-  
-  const processedPatterns = neuralData?.patterns || mockNeuralPatterns;
-  const processedWaves = neuralData?.brainwaves || mockBrainwaves;
+  const processedPatterns: NeuralPattern[] = useMemo(() => (
+    (neuralData?.patterns ?? []).map(pattern => ({ ...pattern, timestamp: new Date(pattern.timestamp) }))
+  ), [neuralData]);
+  const processedWaves: SpectrumPoint[] = useMemo(() => (
+    (neuralData?.spectrum ?? []).map(point => ({ ...point, timestamp: new Date(point.timestamp) }))
+  ), [neuralData]);
+  const provenance = neuralData?.provenance;
   const currentPattern = processedPatterns.find(p => p.id === selectedPatternId) || processedPatterns[0];
   
   useEffect(() => {
@@ -545,7 +435,7 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
     }
   }, [processedPatterns, selectedPatternId]);
   
-  if (isLoading && !mockNeuralPatterns.length) {
+  if (isLoading) {
     return (
       <Card className={className}>
         <CardContent className="p-6">
@@ -567,10 +457,10 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
             <div>
               <CardTitle className="flex items-center gap-2">
                 <Brain className="w-5 h-5 text-purple-500" />
-                Neural Network Patterns
+                Affect Correlation Patterns
               </CardTitle>
               <p className="text-muted-foreground mt-1">
-                Advanced visualization of brain activity and neural correlations during EMDR therapy
+                Correlations and spectral bands computed from recorded emotion captures
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -597,8 +487,8 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="network">Neural Network</SelectItem>
-                    <SelectItem value="waves">Brainwaves</SelectItem>
+                    <SelectItem value="network">Correlations</SelectItem>
+                    <SelectItem value="waves">Spectral Bands</SelectItem>
                     <SelectItem value="both">Combined</SelectItem>
                   </SelectContent>
                 </Select>
@@ -629,6 +519,19 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
               )}
             </div>
           </div>
+          
+          {provenance && (
+            <div className="text-xs text-muted-foreground space-y-1" data-testid="neural-provenance">
+              <div>Method: {provenance.method}</div>
+              <div>
+                Source: {provenance.sources.map(source => `${source.table} (${source.records})`).join(', ')}
+                {provenance.window.from && provenance.window.to && (
+                  <> · {format(new Date(provenance.window.from), 'dd.MM HH:mm')} - {format(new Date(provenance.window.to), 'dd.MM HH:mm')}</>
+                )}
+              </div>
+              {provenance.notes.map((note, index) => <div key={index}>{note}</div>)}
+            </div>
+          )}
         </CardContent>
       </Card>
       
@@ -640,12 +543,16 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Zap className="w-5 h-5 text-blue-500" />
-                {viewMode === 'waves' ? 'Brainwave Activity' : 'Neural Network Activity'}
+                {viewMode === 'waves' ? 'Affect Spectral Bands' : 'Affect Correlation Graph'}
               </CardTitle>
             </CardHeader>
             <CardContent>
               {viewMode === 'waves' ? (
-                <BrainwaveVisualization waves={processedWaves} />
+                <BrainwaveVisualization spectrum={processedWaves} />
+              ) : !currentPattern ? (
+                <div className="h-64 flex items-center justify-center text-sm text-muted-foreground" data-testid="neural-empty">
+                  Not enough emotion captures to compute correlations
+                </div>
               ) : viewMode === 'both' ? (
                 <div className="space-y-4">
                   <NeuralNetworkVisualization 
@@ -655,7 +562,7 @@ export function NeuralPatterns({ patientId, sessionId, realTime = false, classNa
                     width={600}
                     height={300}
                   />
-                  <BrainwaveVisualization waves={processedWaves} width={600} height={150} />
+                  <BrainwaveVisualization spectrum={processedWaves} width={600} height={150} />
                 </div>
               ) : (
                 <NeuralNetworkVisualization 
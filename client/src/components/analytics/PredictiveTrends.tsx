@@ -32,7 +32,7 @@ import {
 } from 'lucide-react';
 import { LineChart as RechartsLineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar, ScatterChart, Scatter, ComposedChart, ReferenceLine } from 'recharts';
 import { format, addDays, addWeeks, addMonths } from 'date-fns';
-import { deterministicValue } from '@/lib/deterministicUtils';
+import type { AnalyticsProvenance } from '@/../../shared/types';
 
 interface PredictiveTrendsProps {
   patientId: string;
@@ -43,6 +43,7 @@ interface PredictiveTrendsProps {
 interface TrendPrediction {
   metric: string;
   currentValue: number;
+  history: Array<{ date: Date; value: number }>;
   predictedValues: Array<{
     date: Date;
     value: number;
@@ -80,7 +81,7 @@ interface OpportunityPrediction {
 interface PredictiveModel {
   name: string;
   accuracy: number;
-  lastUpdated: Date;
+  lastUpdated: Date | null;
   dataPoints: number;
   confidence: number;
 }
@@ -96,29 +97,20 @@ const PredictiveTrendChart = ({
   height?: number;
 }) => {
   const chartData = useMemo(() => {
-    const historicalData = [];
-    const now = new Date();
-    
-    // Generate historical data (last 30 days)
-    for (let i = 30; i >= 0; i--) {
-      const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-      const baseValue = prediction.currentValue;
-      const variation = (deterministicValue('patient_demo', 'session_1', `variation_${i}`) - 0.5) * 0.2 * baseValue;
-      
-      historicalData.push({
-        date: format(date, 'MMM dd'),
-        actual: baseValue + variation,
-        predicted: null,
-        confidence: null,
-        minRange: null,
-        maxRange: null,
-        isHistorical: true
-      });
-    }
+    // Recorded snapshot values the regression was fitted on
+    const historicalData = prediction.history.map(point => ({
+      date: format(new Date(point.date), 'MMM dd'),
+      actual: point.value,
+      predicted: null,
+      confidence: null,
+      minRange: null,
+      maxRange: null,
+      isHistorical: true
+    }));
     
     // Add predicted data
     const predictedData = prediction.predictedValues.map((pred, index) => ({
-      date: format(pred.date, 'MMM dd'),
+      date: format(new Date(pred.date), 'MMM dd'),
       actual: null,
       predicted: pred.value,
       confidence: pred.confidence,
@@ -442,7 +434,7 @@ const ModelPerformancePanel = ({ models }: { models: PredictiveModel[] }) => {
             <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground">
               <div>
                 <div>Last Updated</div>
-                <div className="font-medium">{format(model.lastUpdated, 'MMM dd, HH:mm')}</div>
+                <div className="font-medium">{model.lastUpdated ? format(new Date(model.lastUpdated), 'MMM dd, HH:mm') : '—'}</div>
               </div>
               <div>
                 <div>Data Points</div>
@@ -475,133 +467,28 @@ export function PredictiveTrends({ patientId, className, predictionHorizon = 30
   const [timeHorizon, setTimeHorizon] = useState(predictionHorizon);
   const [updateInterval, setUpdateInterval] = useState(300); // seconds
   
-  // Fetch predictive analytics data
-  const { data: predictiveData, isLoading } = useQuery({
-    queryKey: ['/api/sessions/analytics/predictions', patientId, timeHorizon],
+  // Fetch regression forecasts derived from session snapshots
+  const { data: predictiveData, isLoading } = useQuery<{
+    predictions: TrendPrediction[];
+    risks: RiskPrediction[];
+    opportunities: OpportunityPrediction[];
+    models: PredictiveModel[];
+    provenance: AnalyticsProvenance;
+  }>({
+    queryKey: ['/api/sessions/analytics/predictions', `${patientId}?timeHorizon=${timeHorizon}`],
     refetchInterval: updateInterval * 1000,
     enabled: !!patientId
   });
   
-  // Generate mock predictive data
-  const mockPredictions: TrendPrediction[] = useMemo(() => {
-    const metrics = ['suds', 'voc', 'stability', 'stress', 'engagement'];
-    
-    return metrics.map(metric => {
-      const currentValue = metric === 'suds' ? 6 : 
-                          metric === 'voc' ? 5 : 
-                          Math.random() * 0.8 + 0.2;
-      
-      const predictedValues = [];
-      for (let i = 1; i <= timeHorizon; i++) {
-        const baseChange = metric === 'suds' ? -0.05 : metric === 'voc' ? 0.03 : 0.02;
-        const trend = baseChange * i + (Math.random() - 0.5) * 0.1;
-        const value = Math.max(0, Math.min(metric === 'suds' ? 10 : metric === 'voc' ? 10 : 1, 
-                                          currentValue + trend));
-        
-        predictedValues.push({
-          date: addDays(new Date(), i),
-          value,
-          confidence: Math.max(0.3, 0.9 - i * 0.02),
-          range: {
-            min: value * 0.8,
-            max: value * 1.2
-          }
-        });
-      }
-      
-      return {
-        metric,
-        currentValue,
-        predictedValues,
-        trend: (metric === 'suds' ? 'improving' : 
-                metric === 'voc' ? 'improving' : 
-                Math.random() > 0.3 ? 'improving' : 'stable') as 'improving' | 'stable' | 'declining',
-        confidence: 0.7 + Math.random() * 0.25,
-        factors: ['Treatment consistency', 'Patient engagement', 'Session frequency', 'Emotional processing']
-      };
-    });
-  }, [timeHorizon]);
-  
-  const mockRisks: RiskPrediction[] = useMemo(() => [
-    {
-      id: 'risk_1',
-      type: 'regression',
-      probability: 0.3,
-      timeframe: 'Next 2 weeks',
-      severity: 'medium',
-      description: 'Potential therapeutic regression based on recent patterns',
-      indicators: ['Declining session engagement', 'Increased avoidance behaviors'],
-      mitigationStrategies: ['Adjust treatment pace', 'Focus on stabilization', 'Increase session frequency'],
-      earlyWarnings: ['Missed appointments', 'Emotional withdrawal', 'Increased SUDS ratings']
-    },
-    {
-      id: 'risk_2',
-      type: 'stagnation',
-      probability: 0.4,
-      timeframe: 'Next 3 weeks',
-      severity: 'low',
-      description: 'Treatment progress may plateau without intervention',
-      indicators: ['Stable but non-improving metrics', 'Routine session patterns'],
-      mitigationStrategies: ['Introduce new techniques', 'Target different memories', 'Modify BLS approach'],
-      earlyWarnings: ['Unchanged SUDS/VOC scores', 'Repetitive processing', 'Patient boredom']
-    }
-  ], []);
-  
-  const mockOpportunities: OpportunityPrediction[] = useMemo(() => [
-    {
-      id: 'opp_1',
-      type: 'breakthrough',
-      probability: 0.75,
-      timeframe: 'Next 1-2 sessions',
-      description: 'High likelihood of significant therapeutic breakthrough',
-      requirements: ['Continued engagement', 'Focus on target memory', 'Maintain current pace'],
-      actionSteps: ['Prepare for emotional processing', 'Ready integration techniques', 'Monitor closely'],
-      expectedOutcome: 'Significant reduction in trauma symptoms and increased emotional stability'
-    },
-    {
-      id: 'opp_2',
-      type: 'phase_advancement',
-      probability: 0.85,
-      timeframe: 'Current session',
-      description: 'Patient ready for advancement to installation phase',
-      requirements: ['SUDS below 2', 'Stable emotional state', 'Completed desensitization'],
-      actionSteps: ['Validate phase completion', 'Introduce positive cognition', 'Begin installation'],
-      expectedOutcome: 'Successful integration of positive beliefs and enhanced self-efficacy'
-    }
-  ], []);
-  
-  const mockModels: PredictiveModel[] = useMemo(() => [
-    {
-      name: 'EMDR Progress Predictor',
-      accuracy: 0.87,
-      lastUpdated: new Date(),
-      dataPoints: 15420,
-      confidence: 0.9
-    },
-    {
-      name: 'Risk Assessment Model',
-      accuracy: 0.82,
-      lastUpdated: new Date(Date.now() - 2 * 60 * 60 * 1000),
-      dataPoints: 8930,
-      confidence: 0.85
-    },
-    {
-      name: 'Breakthrough Predictor',
-      accuracy: 0.79,
-      lastUpdated: new Date(Date.now() - 1 * 60 * 60 * 1000),
-      dataPoints: 6750,
-      confidence: 0.8
-    }
-  ], []);
-  
-  const processedPredictions = predictiveData?.predictions || mockPredictions;
-  const processedRisks = predictiveData?.risks || mockRisks;
-  const processedOpportunities = predictiveData?.opportunities || mockOpportunities;
-  const processedModels = predictiveData?.models || mockModels;
+  const processedPredictions = predictiveData?.predictions ?? [];
+  const processedRisks = predictiveData?.risks ?? [];
+  const processedOpportunities = predictiveData?.opportunities ?? [];
+  const processedModels = predictiveData?.models ?? [];
+  const provenance = predictiveData?.provenance;
   
   const filteredPredictions = processedPredictions.filter(p => selectedMetrics.includes(p.metric));
   
-  if (isLoading && !mockPredictions.length) {
+  if (isLoading) {
     return (
       <Card className={className}>
         <CardContent className="p-6">
@@ -628,11 +515,17 @@ export function PredictiveTrends({ patientId, className, predictionHorizon = 30
               <p className="text-muted-foreground mt-1">
                 Advanced predictive analytics and trend forecasting for therapy optimization
               </p>
+              {provenance && (
+                <p className="text-xs text-muted-foreground mt-1" data-testid="predictions-provenance">
+                  {provenance.method} · {provenance.sources.map(source => `${source.table} (${source.records})`).join(', ')}
+                  {provenance.notes.length > 0 && ` · ${provenance.notes.join('; ')}`}
+                </p>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <Badge variant="outline" className="flex items-center gap-1">
                 <Brain className="w-3 h-3" />
-                AI-Powered
+                Regression
               </Badge>
               <Button variant="outline" size="sm" data-testid="button-export-predictions">
                 <Download className="w-4 h-4 mr-1" />
@@ -712,6 +605,13 @@ export function PredictiveTrends({ patientId, className, predictionHorizon = 30
       
       {/* Prediction Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {filteredPredictions.length === 0 && (
+          <Card className="lg:col-span-2">
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Not enough snapshot data to fit a forecast for the selected metrics
+            </CardContent>
+          </Card>
+        )}
         {filteredPredictions.map(prediction => (
           <Card key={prediction.metric}>
             <CardContent className="p-6">
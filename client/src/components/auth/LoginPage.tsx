@@ -1,12 +1,71 @@
-import { Shield, ArrowRight, Lock } from 'lucide-react';
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Shield, ArrowRight, Lock, UserPlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { User } from '@shared/schema';
+
+type AuthMode = 'login' | 'register';
+
+// apiRequest errors look like "401: {"error":"..."}"
+function getErrorMessage(error: Error, mode: AuthMode): string {
+  const status = parseInt(error.message, 10);
+  if (status === 401) return 'Неверное имя пользователя или пароль';
+  if (status === 409) return 'Пользователь с таким именем или email уже существует';
+  if (status === 429) return 'Слишком много попыток входа. Попробуйте позже';
+  if (status === 400) {
+    return mode === 'register'
+      ? 'Проверьте данные: имя от 3 символов, пароль от 8 символов'
+      : 'Введите имя пользователя и пароль';
+  }
+  return 'Не удалось выполнить вход. Попробуйте ещё раз';
+}
 
 export function LoginPage() {
-  const handleLogin = () => {
+  const [location, setLocation] = useLocation();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const { data: providers } = useQuery<{ local: boolean; oidc: boolean }>({
+    queryKey: ['/api/auth/providers'],
+  });
+
+  const authMutation = useMutation({
+    mutationFn: async () => {
+      const res = mode === 'login'
+        ? await apiRequest('POST', '/api/auth/login', { username, password })
+        : await apiRequest('POST', '/api/auth/register', { username, password, email: email || undefined });
+      return await res.json() as User;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['/api/auth/user'], user);
+      if (location === '/login') {
+        setLocation('/');
+      }
+    }
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    authMutation.mutate();
+  };
+
+  const handleOidcLogin = () => {
     window.location.href = '/api/login';
   };
 
+  const toggleMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    authMutation.reset();
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
       <Card className="w-full max-w-md">
@@ -15,42 +74,100 @@ export function LoginPage() {
             <Shield className="h-8 w-8 text-primary" data-testid="icon-shield" />
           </div>
           <CardTitle className="text-2xl font-bold">
-            Требуется авторизация
+            {mode === 'login' ? 'Требуется авторизация' : 'Регистрация'}
           </CardTitle>
           <CardDescription>
-            Для доступа к этой части системы необходимо войти в свою учетную запись
+            {mode === 'login'
+              ? 'Для доступа к этой части системы необходимо войти в свою учетную запись'
+              : 'Создайте учетную запись пациента для доступа к EMDR платформе'}
           </CardDescription>
         </CardHeader>
-        
+
         <CardContent className="space-y-6">
-          <div className="space-y-3">
-            <div className="flex items-center space-x-3 text-sm text-muted-foreground">
-              <Lock className="h-4 w-4" />
-              <span>Безопасная аутентификация через Replit</span>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="auth-username">Имя пользователя{mode === 'login' ? ' или email' : ''}</Label>
+              <Input
+                id="auth-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+                data-testid="input-username"
+              />
             </div>
-            <div className="flex items-center space-x-3 text-sm text-muted-foreground">
-              <Shield className="h-4 w-4" />
-              <span>Защищенный доступ к EMDR платформе</span>
+
+            {mode === 'register' && (
+              <div className="space-y-2">
+                <Label htmlFor="auth-email">Email (необязательно)</Label>
+                <Input
+                  id="auth-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-email"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="auth-password">Пароль</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                data-testid="input-password"
+              />
             </div>
-          </div>
 
-          <Button 
-            onClick={handleLogin}
-            className="w-full"
-            size="lg"
-            data-testid="button-login"
-          >
-            Войти через Replit
-            <ArrowRight className="ml-2 h-4 w-4" />
-          </Button>
+            {authMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription data-testid="text-auth-error">
+                  {getErrorMessage(authMutation.error, mode)}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={authMutation.isPending}
+              data-testid="button-login"
+            >
+              {mode === 'login' ? 'Войти' : 'Зарегистрироваться'}
+              {mode === 'login' ? <ArrowRight className="ml-2 h-4 w-4" /> : <UserPlus className="ml-2 h-4 w-4" />}
+            </Button>
+          </form>
+
+          {providers?.oidc && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleOidcLogin}
+              data-testid="button-login-oidc"
+            >
+              <Lock className="mr-2 h-4 w-4" />
+              Войти через единый вход (SSO)
+            </Button>
+          )}
 
           <div className="text-center">
-            <p className="text-xs text-muted-foreground">
-              После входа вы будете перенаправлены обратно в приложение
-            </p>
+            <button
+              type="button"
+              className="text-sm text-primary hover:underline"
+              onClick={toggleMode}
+              data-testid="button-toggle-auth-mode"
+            >
+              {mode === 'login' ? 'Нет учетной записи? Зарегистрироваться' : 'Уже есть учетная запись? Войти'}
+            </button>
           </div>
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
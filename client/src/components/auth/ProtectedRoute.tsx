@@ -16,7 +16,21 @@ export function ProtectedRoute({
   requiredRoles = [], 
   fallback 
 }: ProtectedRouteProps) {
-  // TEMPORARILY DISABLED - Allow access without authentication
+  const { isLoading, isAuthenticated, user, hasAnyRole } = useAuth();
+
+  if (isLoading) {
+    return <LoadingScreen />;
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  const allowedRoles = requiredRole ? [requiredRole, ...requiredRoles] : requiredRoles;
+  if (allowedRoles.length > 0 && !hasAnyRole(allowedRoles)) {
+    return fallback ? <>{fallback}</> : <AccessDenied requiredRoles={allowedRoles} userRole={user?.role} />;
+  }
+
   return <>{children}</>;
 }
 
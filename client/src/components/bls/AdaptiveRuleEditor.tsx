@@ -0,0 +1,302 @@
+/**
+ * Adaptive Rule Editor
+ * Edit, import and export the rules the AdaptiveController maps emotion readings with
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Brain, Download, Plus, RotateCcw, Save, Trash2, Upload } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { loadAdaptiveRuleSet, validateAdaptiveRuleSet } from '@/../../shared/adaptiveRules';
+import type {
+  AdaptiveRuleDefinition,
+  AdaptiveRuleSetDefinition,
+  AdaptiveRuleSetScope,
+  EffectiveAdaptiveRuleSet
+} from '@/../../shared/types';
+
+const SOURCE_LABELS: Record<EffectiveAdaptiveRuleSet['source'], string> = {
+  therapist: "Личный набор",
+  clinic: "Набор клиники",
+  default: "Встроенный набор"
+};
+
+// Condition and adaptations are edited as JSON text so half-typed input survives re-renders
+interface RuleDraft {
+  id: string;
+  priority: number;
+  therapeutic: string;
+  enabled: boolean;
+  condition: string;
+  adaptations: string;
+}
+
+function toDraft(rule: AdaptiveRuleDefinition): RuleDraft {
+  return {
+    id: rule.id,
+    priority: rule.priority,
+    therapeutic: rule.therapeutic,
+    enabled: rule.enabled,
+    condition: JSON.stringify(rule.condition, null, 2),
+    adaptations: JSON.stringify(rule.adaptations, null, 2)
+  };
+}
+
+function buildRuleSet(name: string, drafts: RuleDraft[]): { ruleSet: AdaptiveRuleSetDefinition | null; errors: string[] } {
+  const errors: string[] = [];
+  const rules = drafts.map((draft, index) => {
+    const parse = (field: 'condition' | 'adaptations') => {
+      try {
+        return JSON.parse(draft[field]);
+      } catch {
+        errors.push(`rules.${index}.${field}: Invalid JSON`);
+        return null;
+      }
+    };
+    const { condition, adaptations, ...rest } = draft;
+    return { ...rest, condition: parse('condition'), adaptations: parse('adaptations') };
+  });
+  if (errors.length > 0) return { ruleSet: null, errors };
+  return validateAdaptiveRuleSet({ name, rules });
+}
+
+export default function AdaptiveRuleEditor() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Admins maintain the clinic-wide set, therapists their own
+  const scope: AdaptiveRuleSetScope = user?.role === 'admin' ? 'clinic' : 'therapist';
+
+  const [name, setName] = useState('');
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const { data: current, isLoading } = useQuery<EffectiveAdaptiveRuleSet>({
+    queryKey: ['/api/bls/rule-sets', scope],
+  });
+
+  const resetDraft = (effective: EffectiveAdaptiveRuleSet) => {
+    setName(effective.ruleSet.name);
+    setDrafts(effective.ruleSet.rules.map(toDraft));
+    setImportErrors([]);
+  };
+
+  useEffect(() => {
+    if (current) resetDraft(current);
+  }, [current]);
+
+  const { ruleSet, errors } = useMemo(() => buildRuleSet(name, drafts), [name, drafts]);
+
+  const onSaved = (effective: EffectiveAdaptiveRuleSet) => {
+    queryClient.setQueryData(['/api/bls/rule-sets', scope], effective);
+    queryClient.invalidateQueries({ queryKey: ['/api/bls/rule-sets/effective'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (definition: AdaptiveRuleSetDefinition) => {
+      const res = await apiRequest('PUT', `/api/bls/rule-sets/${scope}`, definition);
+      return res.json() as Promise<EffectiveAdaptiveRuleSet>;
+    },
+    onSuccess: onSaved
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/bls/rule-sets/${scope}`);
+      return res.json() as Promise<EffectiveAdaptiveRuleSet>;
+    },
+    onSuccess: onSaved
+  });
+
+  const updateDraft = (index: number, changes: Partial<RuleDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const addRule = () => {
+    setDrafts(prev => [...prev, {
+      id: `rule-${prev.length + 1}`,
+      priority: 50,
+      therapeutic: '',
+      enabled: true,
+      condition: JSON.stringify({ type: 'affect', affects: ['Anxious'], above: 15 }, null, 2),
+      adaptations: JSON.stringify({ rateHz: 0.6 }, null, 2)
+    }]);
+  };
+
+  const exportRuleSet = () => {
+    if (!ruleSet) return;
+    const blob = new Blob([JSON.stringify(ruleSet, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${ruleSet.name.replace(/[^\wа-яА-Я-]+/g, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importRuleSet = async (file: File) => {
+    const loaded = loadAdaptiveRuleSet(await file.text());
+    setImportErrors(loaded.errors);
+    if (loaded.ruleSet) {
+      setName(loaded.ruleSet.name);
+      setDrafts(loaded.ruleSet.rules.map(toDraft));
+    }
+  };
+
+  const isBusy = saveMutation.isPending || resetMutation.isPending;
+
+  return (
+    <Card data-testid="card-adaptive-rules">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Brain className="w-5 h-5" />
+          <span>Адаптивные правила BLS</span>
+        </CardTitle>
+        <CardDescription>
+          {scope === 'clinic'
+            ? "Правила клиники применяются у терапевтов без личного набора"
+            : "Ваши правила применяются в сессиях ваших пациентов"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Загрузка правил...</p>}
+
+        {current && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px] space-y-1">
+              <Label htmlFor="rule-set-name">Название набора</Label>
+              <Input id="rule-set-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <Badge variant={current.source === scope ? "default" : "outline"}>{SOURCE_LABELS[current.source]}</Badge>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} data-testid="button-import-rules">
+              <Upload className="w-4 h-4 mr-2" />
+              Импорт
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportRuleSet} disabled={!ruleSet} data-testid="button-export-rules">
+              <Download className="w-4 h-4 mr-2" />
+              Экспорт
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importRuleSet(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {drafts.map((draft, index) => (
+          <div key={index} className="p-3 border rounded-lg space-y-2" data-testid={`adaptive-rule-${index}`}>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="w-48"
+                value={draft.id}
+                onChange={(e) => updateDraft(index, { id: e.target.value })}
+                aria-label="Идентификатор правила"
+              />
+              <Label className="text-xs text-muted-foreground">Приоритет</Label>
+              <Input
+                className="w-20"
+                type="number"
+                value={draft.priority}
+                onChange={(e) => updateDraft(index, { priority: Number(e.target.value) })}
+              />
+              <div className="flex items-center space-x-2">
+                <Switch checked={draft.enabled} onCheckedChange={(enabled) => updateDraft(index, { enabled })} />
+                <span className="text-sm">{draft.enabled ? "Включено" : "Выключено"}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto"
+                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                data-testid={`button-remove-rule-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Input
+              placeholder="Терапевтическое обоснование..."
+              value={draft.therapeutic}
+              onChange={(e) => updateDraft(index, { therapeutic: e.target.value })}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Условие (JSON)</Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={6}
+                  value={draft.condition}
+                  onChange={(e) => updateDraft(index, { condition: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Адаптация (JSON)</Label>
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={6}
+                  value={draft.adaptations}
+                  onChange={(e) => updateDraft(index, { adaptations: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {current && (
+          <Button variant="outline" onClick={addRule} data-testid="button-add-rule">
+            <Plus className="w-4 h-4 mr-2" />
+            Добавить правило
+          </Button>
+        )}
+
+        {[...importErrors, ...errors].length > 0 && (
+          <div className="p-3 border border-destructive rounded-lg space-y-1">
+            <p className="text-sm font-medium text-destructive">Набор правил содержит ошибки</p>
+            {[...importErrors, ...errors].slice(0, 10).map((error, i) => (
+              <p key={i} className="text-xs font-mono text-destructive">{error}</p>
+            ))}
+          </div>
+        )}
+        {(saveMutation.isError || resetMutation.isError) && (
+          <p className="text-sm text-destructive">Не удалось сохранить набор правил</p>
+        )}
+
+        {current && (
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => resetMutation.mutate()}
+              disabled={isBusy || current.source !== scope}
+              data-testid="button-reset-rules"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {scope === 'clinic' ? "Вернуть встроенные правила" : "Вернуть правила клиники"}
+            </Button>
+            <Button
+              onClick={() => ruleSet && saveMutation.mutate(ruleSet)}
+              disabled={!ruleSet || isBusy}
+              data-testid="button-save-rules"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Сохранить правила
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * BLS Preset Picker
+ * Save, load, clone and delete persisted BLS configurations
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Download, Save, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import type { BLSConfiguration } from '@/../../shared/types';
+
+interface BLSPreset {
+  id: string;
+  name: string;
+  description: string | null;
+  pattern: string;
+  rateHz: number;
+  config: Partial<BLSConfiguration> | null;
+  createdBy: string | null;
+  isPublic: boolean;
+  createdAt: string;
+}
+
+interface BLSPresetPickerProps {
+  currentConfig: BLSConfiguration;
+  onApply: (config: Partial<BLSConfiguration>) => void;
+  disabled?: boolean;
+}
+
+export default function BLSPresetPicker({ currentConfig, onApply, disabled = false }: BLSPresetPickerProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [presetName, setPresetName] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+
+  const { data: myPresets } = useQuery<{ presets: BLSPreset[] }>({
+    queryKey: ['/api/bls/presets'],
+  });
+  const { data: publicPresets } = useQuery<{ presets: BLSPreset[] }>({
+    queryKey: ['/api/bls/presets/public'],
+  });
+
+  const ownPresets = myPresets?.presets ?? [];
+  const sharedPresets = (publicPresets?.presets ?? []).filter(preset => preset.createdBy !== user?.id);
+  const selectedPreset = [...ownPresets, ...sharedPresets].find(preset => preset.id === selectedPresetId);
+  const isOwnPreset = !!selectedPreset && selectedPreset.createdBy === user?.id;
+
+  const invalidatePresets = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bls/presets'] });
+  };
+
+  const savePresetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/bls/presets', {
+        name: presetName.trim(),
+        isPublic,
+        config: currentConfig
+      });
+      return res.json() as Promise<BLSPreset>;
+    },
+    onSuccess: (preset) => {
+      setPresetName('');
+      setIsPublic(false);
+      setSelectedPresetId(preset.id);
+      invalidatePresets();
+    }
+  });
+
+  const clonePresetMutation = useMutation({
+    mutationFn: async (presetId: string) => {
+      const res = await apiRequest('POST', `/api/bls/presets/${presetId}/clone`);
+      return res.json() as Promise<BLSPreset>;
+    },
+    onSuccess: (preset) => {
+      setSelectedPresetId(preset.id);
+      invalidatePresets();
+    }
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: (presetId: string) => apiRequest('DELETE', `/api/bls/presets/${presetId}`),
+    onSuccess: () => {
+      setSelectedPresetId('');
+      invalidatePresets();
+    }
+  });
+
+  const applySelectedPreset = () => {
+    if (selectedPreset?.config) {
+      onApply(selectedPreset.config);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">Пресеты:</p>
+      <div className="flex space-x-2">
+        <Select value={selectedPresetId} onValueChange={setSelectedPresetId}>
+          <SelectTrigger className="flex-1" data-testid="select-bls-preset">
+            <SelectValue placeholder="Выберите пресет" />
+          </SelectTrigger>
+          <SelectContent>
+            {ownPresets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Мои пресеты</SelectLabel>
+                {ownPresets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {sharedPresets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Общие пресеты</SelectLabel>
+                {sharedPresets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={applySelectedPreset}
+          disabled={disabled || !selectedPreset?.config}
+          title="Применить"
+          data-testid="button-apply-preset"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+        {selectedPreset && !isOwnPreset && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => clonePresetMutation.mutate(selectedPreset.id)}
+            disabled={clonePresetMutation.isPending}
+            title="Клонировать"
+            data-testid="button-clone-preset"
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+        )}
+        {isOwnPreset && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => deletePresetMutation.mutate(selectedPreset.id)}
+            disabled={deletePresetMutation.isPending}
+            title="Удалить"
+            data-testid="button-delete-preset"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Input
+          placeholder="Название пресета"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          maxLength={100}
+          data-testid="input-preset-name"
+        />
+        <div className="flex items-center space-x-1">
+          <Switch
+            checked={isPublic}
+            onCheckedChange={setIsPublic}
+            data-testid="switch-preset-public"
+          />
+          <span className="text-xs text-muted-foreground">Общий</span>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => savePresetMutation.mutate()}
+          disabled={!presetName.trim() || savePresetMutation.isPending}
+          data-testid="button-save-preset"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          Сохранить
+        </Button>
+      </div>
+      {savePresetMutation.isError && (
+        <p className="text-xs text-destructive">Не удалось сохранить пресет</p>
+      )}
+    </div>
+  );
+}
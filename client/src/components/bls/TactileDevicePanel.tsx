@@ -0,0 +1,153 @@
+/**
+ * Tactile Device Panel
+ * Connect a handheld left/right pulser (USB serial, HID or simulated) for tactile BLS
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plug, Unplug } from "lucide-react";
+import {
+  createTactileDevice,
+  isTactileTransportSupported,
+  type TactileConnectionState,
+  type TactileDevice,
+  type TactileTransportKind
+} from "@/services/bls/tactileDevice";
+
+const TRANSPORT_LABELS: Record<TactileTransportKind, string> = {
+  serial: "USB / Bluetooth (Serial)",
+  hid: "USB HID",
+  simulated: "Симулятор"
+};
+
+const STATE_LABELS: Record<TactileConnectionState, string> = {
+  disconnected: "Не подключён",
+  connecting: "Подключение...",
+  connected: "Подключён",
+  error: "Ошибка"
+};
+
+interface TactileDevicePanelProps {
+  device: TactileDevice | null;
+  onDeviceChange: (device: TactileDevice | null) => void;
+  disabled?: boolean;
+}
+
+export default function TactileDevicePanel({ device, onDeviceChange, disabled = false }: TactileDevicePanelProps) {
+  const [kind, setKind] = useState<TactileTransportKind>(
+    isTactileTransportSupported('serial') ? 'serial' : 'simulated'
+  );
+  const [latency, setLatency] = useState(0);
+  const [state, setState] = useState<TactileConnectionState>(device?.getState() ?? 'disconnected');
+  const [lastPulse, setLastPulse] = useState<'left' | 'right' | 'both' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!device) return;
+    setState(device.getState());
+    device.addEventListener('onStateChange', setState);
+    device.addEventListener('onPulse', (command) => setLastPulse(command.side));
+    device.addEventListener('onError', setError);
+    return () => {
+      device.removeEventListener('onStateChange');
+      device.removeEventListener('onPulse');
+      device.removeEventListener('onError');
+    };
+  }, [device]);
+
+  const connect = async () => {
+    setError(null);
+    // Reconnect a lost or failed device rather than opening a second one
+    const next = device && device.getKind() === kind && device.getLatency() === latency
+      ? device
+      : createTactileDevice(kind, { latency });
+    try {
+      await next.connect();
+      onDeviceChange(next);
+    } catch (connectError) {
+      setError(connectError instanceof Error ? connectError.message : String(connectError));
+      setState('error');
+    }
+  };
+
+  const disconnect = async () => {
+    await device?.disconnect();
+    onDeviceChange(null);
+    setState('disconnected');
+    setLastPulse(null);
+  };
+
+  const isConnected = state === 'connected' && !!device;
+
+  return (
+    <div className="space-y-2" data-testid="tactile-device-panel">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Тактильный пульсатор:</span>
+        <Badge variant={isConnected ? "default" : "outline"}>{STATE_LABELS[state]}</Badge>
+      </div>
+
+      {!isConnected && (
+        <div className="flex items-center space-x-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as TactileTransportKind)}>
+            <SelectTrigger className="flex-1" data-testid="select-tactile-transport">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSPORT_LABELS) as TactileTransportKind[]).map(transport => (
+                <SelectItem key={transport} value={transport} disabled={!isTactileTransportSupported(transport)}>
+                  {TRANSPORT_LABELS[transport]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-20"
+            type="number"
+            min={0}
+            max={200}
+            value={latency}
+            onChange={(e) => setLatency(Number(e.target.value))}
+            aria-label="Задержка устройства, мс"
+            title="Задержка устройства, мс"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={connect}
+            disabled={disabled || state === 'connecting'}
+            data-testid="button-tactile-connect"
+          >
+            <Plug className="w-4 h-4 mr-2" />
+            Подключить
+          </Button>
+        </div>
+      )}
+
+      {isConnected && (
+        <div className="flex items-center space-x-2">
+          {(['left', 'right'] as const).map(side => (
+            <Button
+              key={side}
+              variant={lastPulse === side ? "default" : "outline"}
+              size="sm"
+              onClick={() => device.pulse(side, 0.7, 150)}
+              data-testid={`button-tactile-test-${side}`}
+            >
+              {side === 'left' ? "Левый" : "Правый"}
+            </Button>
+          ))}
+          <span className="text-xs text-muted-foreground flex-1">{TRANSPORT_LABELS[device.getKind()]}</span>
+          <Button variant="ghost" size="sm" onClick={disconnect} disabled={disabled} data-testid="button-tactile-disconnect">
+            <Unplug className="w-4 h-4 mr-2" />
+            Отключить
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
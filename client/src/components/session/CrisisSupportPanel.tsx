@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Phone, ShieldAlert } from "lucide-react";
+import type { EmergencyContact } from "@shared/types";
+
+interface CrisisSupportPanelProps {
+  acknowledged: boolean;
+}
+
+// Shown to the patient while a crisis pauses the session
+export function CrisisSupportPanel({ acknowledged }: CrisisSupportPanelProps) {
+  const { data } = useQuery<{ contacts: EmergencyContact[] }>({
+    queryKey: ['/api/crisis/contacts'],
+  });
+
+  return (
+    <Card className="border-destructive/50 bg-background/95" data-testid="panel-crisis-support">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <ShieldAlert className="w-5 h-5" />
+          Сессия приостановлена
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">
+          {acknowledged
+            ? "Ваш психолог уже знает о ситуации и скоро свяжется с вами."
+            : "Мы сообщили вашему психологу. Пока ждёте, сделайте медленный вдох и почувствуйте опору под ногами."}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Если вам угрожает опасность или нужна помощь прямо сейчас, позвоните:
+        </p>
+        <div className="space-y-2">
+          {data?.contacts.map(contact => (
+            <Button
+              key={contact.phone}
+              variant="outline"
+              className="w-full justify-start h-auto py-2"
+              asChild
+              data-testid={`button-emergency-${contact.phone}`}
+            >
+              <a href={`tel:${contact.phone.replace(/[^\d+]/g, '')}`}>
+                <Phone className="w-4 h-4 mr-3 shrink-0" />
+                <span className="flex flex-col items-start">
+                  <span className="font-medium">{contact.name} — {contact.phone}</span>
+                  {contact.description && <span className="text-xs text-muted-foreground">{contact.description}</span>}
+                </span>
+              </a>
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
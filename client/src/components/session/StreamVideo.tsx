@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+
+interface StreamVideoProps {
+  stream: MediaStream;
+  muted?: boolean;
+  mirrored?: boolean;
+  className?: string;
+  "data-testid"?: string;
+}
+
+// <video> bound to a MediaStream; the local preview is muted and mirrored like a selfie camera
+export function StreamVideo({ stream, muted = false, mirrored = false, className = "", ...props }: StreamVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      playsInline
+      muted={muted}
+      className={`object-cover ${mirrored ? "-scale-x-100" : ""} ${className}`}
+      data-testid={props["data-testid"]}
+    />
+  );
+}
@@ -53,7 +53,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const login = () => {
-    window.location.href = '/api/login';
+    window.location.href = '/login';
   };
 
   const logout = () => {
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import type { LiveStreamEvent } from '@shared/types';
+
+interface LiveUpdatesOptions {
+  patientId?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Subscribes to the server-sent event stream of memory updates, insights and crisis alerts.
+ * The browser reconnects on its own; the handler may change between renders without reconnecting.
+ */
+export function useLiveUpdates(onEvent: (event: LiveStreamEvent) => void, { patientId, enabled = true }: LiveUpdatesOptions = {}) {
+  const [isConnected, setIsConnected] = useState(false);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const url = patientId ? `/api/live/updates?patientId=${encodeURIComponent(patientId)}` : '/api/live/updates';
+    const source = new EventSource(url, { withCredentials: true });
+
+    const handleMessage = (message: MessageEvent) => {
+      try {
+        handlerRef.current(JSON.parse(message.data) as LiveStreamEvent);
+      } catch (error) {
+        console.error('Failed to handle live update:', error);
+      }
+    };
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener('memory_update', handleMessage);
+    source.addEventListener('insight', handleMessage);
+    source.addEventListener('crisis_alert', handleMessage);
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [patientId, enabled]);
+
+  return { isConnected };
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  SessionRoomBLSConfig,
+  SessionRoomClientMessage,
+  SessionRoomPhase,
+  SessionRoomRole,
+  SessionRoomServerMessage,
+  SessionRoomState,
+  SessionRoomEmotionSummary,
+  SessionRoomRTCSignal
+} from '@shared/types';
+
+type SignalListener = (signal: SessionRoomRTCSignal) => void;
+
+const PING_INTERVAL_MS = 10000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+// Close codes that mean retrying will not help (auth/access failures reject the upgrade instead)
+const FATAL_CLOSE_CODES = new Set([1008]);
+
+/**
+ * Live therapist-patient channel for one EMDR session.
+ * The server owns the room state; every event arrives with the full updated state.
+ */
+export function useSessionRoom(sessionId?: string | null) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [state, setState] = useState<SessionRoomState | null>(null);
+  const [role, setRole] = useState<SessionRoomRole | null>(null);
+  const [lastEvent, setLastEvent] = useState<Extract<SessionRoomServerMessage, { type: 'room_event' }> | null>(null);
+  const [latency, setLatency] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+  const signalListenerRef = useRef<SignalListener | null>(null);
+  // Signals that arrive before the call hook subscribes (e.g. an offer right after joining)
+  const pendingSignalsRef = useRef<SessionRoomRTCSignal[]>([]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let disposed = false;
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let pingTimer: ReturnType<typeof setInterval> | undefined;
+    let lastSeq = 0;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const ws = new WebSocket(`${protocol}//${window.location.host}/session-room?sessionId=${encodeURIComponent(sessionId)}`);
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        attempt = 0;
+        setIsConnected(true);
+        setError(null);
+        pingTimer = setInterval(() => {
+          ws.send(JSON.stringify({ type: 'ping', sentAt: Date.now() } satisfies SessionRoomClientMessage));
+        }, PING_INTERVAL_MS);
+      };
+
+      ws.onmessage = (event) => {
+        let message: SessionRoomServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+
+        switch (message.type) {
+          case 'room_state':
+            lastSeq = 0;
+            setRole(message.role);
+            setState(message.state);
+            break;
+          case 'room_event':
+            // Drop anything older than what we already applied
+            if (message.seq <= lastSeq) return;
+            lastSeq = message.seq;
+            setState(message.state);
+            setLastEvent(message);
+            break;
+          case 'rtc_signal':
+            if (signalListenerRef.current) {
+              signalListenerRef.current(message.signal);
+            } else {
+              pendingSignalsRef.current.push(message.signal);
+            }
+            break;
+          case 'pong':
+            setLatency(Date.now() - message.sentAt);
+            break;
+          case 'error':
+            console.warn('Session room error:', message.message);
+            setError(message.message);
+            break;
+        }
+      };
+
+      ws.onclose = (event) => {
+        clearInterval(pingTimer);
+        setIsConnected(false);
+        if (wsRef.current === ws) wsRef.current = null;
+        if (disposed || FATAL_CLOSE_CODES.has(event.code)) return;
+
+        const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+        attempt++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(pingTimer);
+      wsRef.current?.close();
+      wsRef.current = null;
+      pendingSignalsRef.current = [];
+      setIsConnected(false);
+      setState(null);
+      setRole(null);
+    };
+  }, [sessionId]);
+
+  const send = useCallback((message: SessionRoomClientMessage) => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  const startBLS = useCallback((config?: SessionRoomBLSConfig) => send({ type: 'bls_start', config }), [send]);
+  const stopBLS = useCallback(() => send({ type: 'bls_stop' }), [send]);
+  const updateBLSConfig = useCallback((config: SessionRoomBLSConfig) => send({ type: 'bls_config', config }), [send]);
+  const changePhase = useCallback((phase: SessionRoomPhase) => send({ type: 'phase_change', phase }), [send]);
+  const sendInstruction = useCallback((text: string, expects?: 'suds' | 'voc') => send({ type: 'instruction', text, expects }), [send]);
+  const sendSuds = useCallback((value: number) => send({ type: 'suds_response', value }), [send]);
+  const sendVoc = useCallback((value: number) => send({ type: 'voc_response', value }), [send]);
+  const sendSignal = useCallback((signal: SessionRoomRTCSignal) => send({ type: 'rtc_signal', signal }), [send]);
+
+  // Single listener: the video call of this view
+  const onSignal = useCallback((listener: SignalListener) => {
+    signalListenerRef.current = listener;
+    const pending = pendingSignalsRef.current;
+    pendingSignalsRef.current = [];
+    pending.forEach(listener);
+    return () => {
+      if (signalListenerRef.current === listener) signalListenerRef.current = null;
+    };
+  }, []);
+
+  const sendEmotionSummary = useCallback(
+    (summary: Omit<SessionRoomEmotionSummary, 'timestamp'>) => send({ type: 'emotion_summary', summary }),
+    [send]
+  );
+
+  return {
+    isConnected,
+    state,
+    role,
+    lastEvent,
+    latency,
+    error,
+    startBLS,
+    stopBLS,
+    updateBLSConfig,
+    changePhase,
+    sendInstruction,
+    sendSuds,
+    sendVoc,
+    sendEmotionSummary,
+    sendSignal,
+    onSignal
+  };
+}
+
+export type SessionRoom = ReturnType<typeof useSessionRoom>;
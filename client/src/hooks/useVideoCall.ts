@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { SessionRoom } from './useSessionRoom';
+
+// How long a dropped connection may stay "disconnected" before an ICE restart
+const ICE_RESTART_DELAY_MS = 5000;
+
+export type VideoCallState = 'idle' | RTCPeerConnectionState;
+
+/**
+ * Peer-to-peer video call between the therapist and the patient of a session room.
+ * Signalling goes through the room socket; negotiation follows the "perfect negotiation"
+ * pattern with the patient as the polite peer, so either side may (re)start the call.
+ * The peer connection is rebuilt whenever the room reconnects or the other side rejoins.
+ */
+export function useVideoCall(room: SessionRoom, localStream: MediaStream | null) {
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [callState, setCallState] = useState<VideoCallState>('idle');
+  // Bumped when the other side tears down its connection, so ours is rebuilt to match
+  const [generation, setGeneration] = useState(0);
+
+  const { data: rtcConfig } = useQuery<{ iceServers: RTCIceServer[] }>({
+    queryKey: ['/api/rtc/config'],
+    enabled: !!room.role,
+    staleTime: Infinity,
+  });
+
+  const peerRole = room.role === 'therapist' ? 'patient' : 'therapist';
+  const peerPresent = !!room.role && !!room.state?.participants[peerRole];
+  const { isConnected, role, sendSignal, onSignal } = room;
+
+  useEffect(() => {
+    if (!isConnected || !peerPresent || !rtcConfig || !localStream) return;
+
+    const polite = role === 'patient';
+    const pc = new RTCPeerConnection({ iceServers: rtcConfig.iceServers });
+    let makingOffer = false;
+    let ignoreOffer = false;
+    let hangupReceived = false;
+    let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const sendDescription = () => {
+      if (pc.localDescription) {
+        sendSignal({ kind: 'description', description: pc.localDescription.toJSON() });
+      }
+    };
+
+    localStream.getTracks().forEach(track => pc.addTrack(track, localStream));
+
+    pc.ontrack = ({ streams }) => {
+      setRemoteStream(streams[0] ?? null);
+    };
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        sendSignal({
+          kind: 'ice',
+          candidate: {
+            candidate: candidate.candidate,
+            sdpMid: candidate.sdpMid,
+            sdpMLineIndex: candidate.sdpMLineIndex,
+            usernameFragment: candidate.usernameFragment
+          }
+        });
+      }
+    };
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        makingOffer = true;
+        await pc.setLocalDescription();
+        sendDescription();
+      } catch (error) {
+        console.error('❌ Failed to create call offer:', error);
+      } finally {
+        makingOffer = false;
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      setCallState(pc.connectionState);
+      clearTimeout(restartTimer);
+      if (pc.connectionState === 'failed') {
+        pc.restartIce();
+      } else if (pc.connectionState === 'disconnected') {
+        restartTimer = setTimeout(() => pc.restartIce(), ICE_RESTART_DELAY_MS);
+      }
+    };
+
+    const unsubscribe = onSignal(async (signal) => {
+      try {
+        if (signal.kind === 'description') {
+          const { description } = signal;
+          const offerCollision = description.type === 'offer' && (makingOffer || pc.signalingState !== 'stable');
+          ignoreOffer = !polite && offerCollision;
+          if (ignoreOffer) return;
+
+          await pc.setRemoteDescription(description);
+          if (description.type === 'offer') {
+            await pc.setLocalDescription();
+            sendDescription();
+          }
+        } else if (signal.kind === 'ice') {
+          try {
+            await pc.addIceCandidate(signal.candidate);
+          } catch (error) {
+            // Candidates for an offer we ignored are expected to fail
+            if (!ignoreOffer) throw error;
+          }
+        } else if (signal.kind === 'hangup') {
+          hangupReceived = true;
+          setGeneration(value => value + 1);
+        }
+      } catch (error) {
+        console.error('❌ Call signalling error:', error);
+      }
+    });
+
+    setCallState(pc.connectionState);
+
+    return () => {
+      clearTimeout(restartTimer);
+      unsubscribe();
+      // Answering a hangup with another one would make both sides rebuild forever
+      if (!hangupReceived) sendSignal({ kind: 'hangup' });
+      pc.close();
+      setRemoteStream(null);
+      setCallState('idle');
+    };
+  }, [isConnected, peerPresent, rtcConfig, localStream, role, sendSignal, onSignal, generation]);
+
+  return { remoteStream, callState, peerPresent };
+}
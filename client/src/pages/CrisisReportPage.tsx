@@ -0,0 +1,7 @@
+import { useSearch } from "wouter";
+import CrisisReport from "@/components/CrisisReport";
+
+export default function CrisisReportPage() {
+  const crisisId = new URLSearchParams(useSearch()).get('id') ?? '';
+  return <CrisisReport crisisId={crisisId} />;
+}
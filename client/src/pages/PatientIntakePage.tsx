@@ -0,0 +1,7 @@
+import { useSearch } from "wouter";
+import PatientIntake from "@/components/PatientIntake";
+
+export default function PatientIntakePage() {
+  const patientId = new URLSearchParams(useSearch()).get('patientId') ?? '';
+  return <PatientIntake patientId={patientId} />;
+}
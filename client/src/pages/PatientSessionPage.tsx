@@ -1,5 +1,7 @@
+import { useSearch } from "wouter";
 import PatientSessionView from "@/components/PatientSessionView";
 
 export default function PatientSessionPage() {
-  return <PatientSessionView />;
-}
\ No newline at end of file
+  const sessionId = new URLSearchParams(useSearch()).get('sessionId') ?? undefined;
+  return <PatientSessionView sessionId={sessionId} />;
+}
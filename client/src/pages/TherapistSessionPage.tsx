@@ -1,5 +1,7 @@
+import { useSearch } from "wouter";
 import TherapistSessionView from "@/components/TherapistSessionView";
 
 export default function TherapistSessionPage() {
-  return <TherapistSessionView />;
+  const sessionId = new URLSearchParams(useSearch()).get('sessionId') ?? undefined;
+  return <TherapistSessionView sessionId={sessionId} />;
 }
\ No newline at end of file
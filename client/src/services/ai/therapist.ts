@@ -119,6 +119,7 @@ export class AITherapistService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          sessionId: this.sessionContext.sessionId,
           currentPhase: this.sessionContext.phaseContext.currentPhase,
           emotionData: this.sessionContext.currentEmotionalState,
           sessionMetrics: this.sessionContext.sessionMetrics
@@ -175,6 +176,7 @@ export class AITherapistService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          sessionId: this.sessionContext.sessionId,
           emotionData,
           currentPhase: this.sessionContext.phaseContext.currentPhase,
           sessionContext: {
@@ -384,6 +386,7 @@ export class AITherapistService {
 
   private getPhaseGoals(phase: EMDRPhase): string[] {
     const goals: Record<EMDRPhase, string[]> = {
+      'history-taking': ['Собрать анамнез', 'Составить список целей для переработки', 'Оценить ресурсы и готовность'],
       'preparation': ['Установить терапевтические отношения', 'Обучить техникам безопасности'],
       'assessment': ['Идентифицировать целевые воспоминания', 'Оценить уровень дистресса'],
       'desensitization': ['Снизить эмоциональный заряд воспоминания', 'Процессинг травматического материала'],
@@ -398,6 +401,7 @@ export class AITherapistService {
 
   private getCompletionCriteria(phase: EMDRPhase): string[] {
     const criteria: Record<EMDRPhase, string[]> = {
+      'history-taking': ['Цели перечислены и оценены', 'Ресурсы определены', 'Готовность к стабилизации оценена'],
       'preparation': ['Установлен раппорт', 'Обучены техники заземления'],
       'assessment': ['Воспоминание идентифицировано', 'SUDS оценен'],
       'desensitization': ['SUDS снижен до 1-2', 'Нет новых ассоциаций'],
@@ -478,7 +482,7 @@ export class AITherapistService {
 
   private getDefaultBLSConfig(): BLSConfiguration {
     return {
-      speed: 5,
+      rateHz: 1,
       pattern: 'horizontal',
       color: '#3b82f6',
       size: 20,
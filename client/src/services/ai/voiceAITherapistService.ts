@@ -42,6 +42,20 @@ import { UnifiedEmotionService } from '../emotion/emotionService';
 import { AudioStreamMultiplexer, getAudioStreamMultiplexer } from '../audio/audioStreamMultiplexer';
 import { generateDeterministicId } from '@/lib/deterministicUtils';
 
+// Spoken SUDS values as speech-to-text returns them, English and Russian
+const SUD_NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  'ноль': 0, 'нуль': 0, 'один': 1, 'одна': 1, 'одно': 1, 'единица': 1, 'два': 2, 'две': 2, 'двойка': 2,
+  'три': 3, 'тройка': 3, 'четыре': 4, 'четверка': 4, 'пять': 5, 'пятерка': 5, 'шесть': 6, 'шестерка': 6,
+  'семь': 7, 'семерка': 7, 'восемь': 8, 'восьмерка': 8, 'девять': 9, 'девятка': 9, 'десять': 10, 'десятка': 10
+};
+
+// English "one" is mostly a pronoun ("the worst one"); it counts as a rating only alone or after these words
+const RATING_ONE_PREVIOUS = new Set(['a', 'at', 'about', 'around', 'maybe', 'probably', 'is', 's', 'was', 'like', 'say', 'just', 'only', 'down', 'to']);
+
+// The scale itself ("out of 10", "from 0 to 10") is not an answer
+const SUD_SCALE_PATTERN = /(?:\/\s*|\bout of\s+|(?:^|\s)из\s+)(?:10|ten|десяти)\b|(?:\bfrom\s+|(?:^|\s)от\s+)?(?:0|zero|нуля)\s*(?:-|–|\bto\b|(?:^|\s)до(?=\s))\s*(?:10|ten|десяти)\b/gi;
+
 // === Voice Conversation Types ===
 
 export type VoiceConversationState = 
@@ -245,6 +259,7 @@ export interface VoiceConversationEvents {
   onInterruption: (reason: string) => void;
   onVoiceActivity: (isActive: boolean, confidence: number) => void;
   onTurnComplete: (turn: VoiceConversationTurn) => void;
+  onSetCheckInResponse: (setNumber: number, sud: number | null, text: string) => void;
 }
 
 // === Default Configuration ===
@@ -351,6 +366,7 @@ export class VoiceAITherapistService {
   private currentPatientId: string | null = null;
   private conversationTurns: VoiceConversationTurn[] = [];
   private audioConsumerId: string | null = null;
+  private pendingSetCheckIn: number | null = null; // Set whose check-in answer is awaited
   
   // Audio Processing
   private isRecording: boolean = false;
@@ -1164,6 +1180,13 @@ export class VoiceAITherapistService {
         
         this.emitEvent('onTranscription', result);
         
+        // The answer to a set check-in doubles as that set's SUDS rating
+        if (this.pendingSetCheckIn !== null) {
+          const setNumber = this.pendingSetCheckIn;
+          this.pendingSetCheckIn = null;
+          this.emitEvent('onSetCheckInResponse', setNumber, this.parseSUDAnswer(result.text), result.text);
+        }
+        
         // Check for crisis keywords
         if (this.config.conversation.enableCrisisKeywords) {
           const crisisDetected = this.detectCrisisKeywords(result.text);
@@ -2057,6 +2080,7 @@ export class VoiceAITherapistService {
    */
   private async sendInitialGreeting(phase: EMDRPhase): Promise<void> {
     const greetings = {
+      'history-taking': "Hello, today we'll get to know your history and what brings you here. You don't need to go into details, a short description of each event is enough.",
       preparation: "Hello, I'm here to guide you through today's EMDR session. We'll start with some preparation and grounding techniques. How are you feeling right now?",
       assessment: "Welcome back. Today we'll be identifying and assessing the memory we'll work with. Take your time and remember you're in control.",
       desensitization: "We're ready to begin processing the target memory. Remember, you're safe here and we can pause anytime you need to.",
@@ -2086,6 +2110,45 @@ export class VoiceAITherapistService {
     await this.processTTS(greetingMessage);
   }
   
+  /**
+   * Ask the between-sets check-in after a BLS set; the next transcription is taken as the answer
+   */
+  async promptSetCheckIn(setNumber: number, phase: EMDRPhase): Promise<void> {
+    this.pendingSetCheckIn = setNumber;
+    
+    const checkInMessage: AITherapistMessage = {
+      id: generateDeterministicId(this.currentPatientId || 'patient', this.currentSessionId || 'session', `set-check-in-${setNumber}`),
+      type: 'therapist',
+      content: "Take a breath. What do you notice now? How disturbing does it feel from 0 to 10?",
+      timestamp: Date.now(),
+      phase,
+      confidence: 1.0,
+      metadata: {
+        criticalityLevel: 'low'
+      }
+    };
+    
+    await this.processTTS(checkInMessage);
+  }
+  
+  /**
+   * SUDS rating from a spoken check-in answer: the last number said, so "2 things came up, about a 7"
+   * is a 7. Null when the last number is not a whole 0-10 value, as a wrong rating is worse than none.
+   */
+  private parseSUDAnswer(text: string): number | null {
+    const tokens = text.toLowerCase().replace(/ё/g, 'е').replace(SUD_SCALE_PATTERN, ' ').match(/\d+(?:[.,]\d+)?|[a-zа-я]+/g) ?? [];
+    const numbers = tokens
+      .map((token, index) => {
+        if (/^\d/.test(token)) return Number(token.replace(',', '.'));
+        if (token === 'one' && index > 0 && !RATING_ONE_PREVIOUS.has(tokens[index - 1])) return undefined;
+        return SUD_NUMBER_WORDS[token];
+      })
+      .filter((value): value is number => value !== undefined);
+
+    const rating = numbers[numbers.length - 1];
+    return rating !== undefined && Number.isInteger(rating) && rating >= 0 && rating <= 10 ? rating : null;
+  }
+  
   // === Fallback and Error Handling ===
   
   /**
@@ -4,20 +4,21 @@
  */
 
 import type { BLSConfiguration, EmotionData } from '@/../../shared/types';
+import { BLS_RATE_HZ_MAX, BLS_RATE_HZ_MIN } from '@/../../shared/types';
 
 export interface BLSMetrics {
   totalSets: number;
   completedCycles: number;
-  averageSpeed: number;
+  averageRateHz: number;
   patternChanges: number;
   attentionLevel: number;
   effectiveness: number;
 }
 
 export interface AdaptiveParameters {
-  minSpeed: number;
-  maxSpeed: number;
-  speedChangeRate: number;
+  minRateHz: number;
+  maxRateHz: number;
+  rateChangeRate: number;
   patternSwitchThreshold: number;
   colorAdaptation: boolean;
   soundAdaptation: boolean;
@@ -39,7 +40,7 @@ export class AdaptiveBLSController {
     this.metrics = {
       totalSets: 0,
       completedCycles: 0,
-      averageSpeed: 5,
+      averageRateHz: 1,
       patternChanges: 0,
       attentionLevel: 1,
       effectiveness: 0.5
@@ -47,9 +48,9 @@ export class AdaptiveBLSController {
     
     // Set adaptive parameters
     this.adaptiveParams = {
-      minSpeed: 1,
-      maxSpeed: 10,
-      speedChangeRate: 0.5,
+      minRateHz: BLS_RATE_HZ_MIN,
+      maxRateHz: BLS_RATE_HZ_MAX,
+      rateChangeRate: 0.5,
       patternSwitchThreshold: 0.3,
       colorAdaptation: true,
       soundAdaptation: true
@@ -100,8 +101,8 @@ export class AdaptiveBLSController {
   adaptConfiguration(emotionData: EmotionData): BLSConfiguration {
     const config = { ...this.currentConfig };
     
-    // Adapt speed based on arousal
-    config.speed = this.calculateAdaptiveSpeed(emotionData.arousal);
+    // Adapt rate based on arousal
+    config.rateHz = this.calculateAdaptiveRate(emotionData.arousal);
     
     // Adapt pattern based on emotional state
     config.pattern = this.selectAdaptivePattern(emotionData);
@@ -123,26 +124,26 @@ export class AdaptiveBLSController {
   }
 
   /**
-   * Calculate optimal speed based on arousal level
+   * Calculate optimal rate in Hz based on arousal level
    */
-  calculateAdaptiveSpeed(arousal: number): number {
-    // High arousal -> slower speed for calming
-    // Low arousal -> moderate speed for engagement
+  calculateAdaptiveRate(arousal: number): number {
+    // High arousal -> slower rate for calming
+    // Low arousal -> moderate rate for engagement
     
-    const targetSpeed = arousal > 0.7 
-      ? this.adaptiveParams.minSpeed + 2
+    const targetRate = arousal > 0.7 
+      ? this.adaptiveParams.minRateHz + 0.4
       : arousal < 0.3
-      ? this.adaptiveParams.maxSpeed - 3
-      : 5;
+      ? this.adaptiveParams.maxRateHz - 0.6
+      : 1;
     
-    // Smooth speed transitions
-    const currentSpeed = this.currentConfig.speed;
-    const speedDiff = targetSpeed - currentSpeed;
-    const adjustedSpeed = currentSpeed + (speedDiff * this.adaptiveParams.speedChangeRate);
+    // Smooth rate transitions
+    const currentRate = this.currentConfig.rateHz;
+    const rateDiff = targetRate - currentRate;
+    const adjustedRate = currentRate + (rateDiff * this.adaptiveParams.rateChangeRate);
     
     return Math.max(
-      this.adaptiveParams.minSpeed,
-      Math.min(this.adaptiveParams.maxSpeed, adjustedSpeed)
+      this.adaptiveParams.minRateHz,
+      Math.min(this.adaptiveParams.maxRateHz, adjustedRate)
     );
   }
 
@@ -327,7 +328,7 @@ export class AdaptiveBLSController {
     this.metrics = {
       totalSets: 0,
       completedCycles: 0,
-      averageSpeed: 5,
+      averageRateHz: 1,
       patternChanges: 0,
       attentionLevel: 1,
       effectiveness: 0.5
@@ -376,7 +377,7 @@ export class AdaptiveBLSController {
 
   private getDefaultConfig(): BLSConfiguration {
     return {
-      speed: 5,
+      rateHz: 1,
       pattern: 'horizontal',
       color: '#3b82f6',
       size: 20,
@@ -8,25 +8,28 @@ import type {
   BLSConfiguration, 
   BLSPattern, 
   EMDRPhase,
-  EmotionalState98 
+  EmotionalState98,
+  AdaptiveRuleDefinition,
+  AdaptiveRuleMetric,
+  AdaptiveRuleSetDefinition,
+  AdaptiveRuleTrend
 } from '@/../../shared/types';
 import { 
+  clampBLSRate,
   createDefaultBLSAudioConfig,
   createDefaultBLSHapticsConfig,
   createDefaultBLS3DConfig,
   createDefaultBLSTransitionConfig 
 } from '@/../../shared/types';
 import { affects98, calculateAffects, getDominantAffect } from '@/../../shared/emotionAffects';
-
-export interface AdaptiveRule {
-  condition: (emotion: EmotionData) => boolean;
-  adaptations: Partial<BLSConfiguration>;
-  priority: number; // Higher priority rules override lower ones
-  therapeutic: string; // Therapeutic reasoning for the adaptation
-}
+import {
+  DEFAULT_ADAPTIVE_RULE_SET,
+  evaluateAdaptiveRuleCondition,
+  validateAdaptiveRuleSet
+} from '@/../../shared/adaptiveRules';
 
 export interface AdaptiveState {
-  currentRule: AdaptiveRule | null;
+  currentRule: AdaptiveRuleDefinition | null;
   lastChange: number;
   stabilityScore: number; // 0-1, higher means more stable
   changeCount: number;
@@ -46,7 +49,7 @@ export interface HysteresisThreshold {
 
 export class AdaptiveController {
   private state: AdaptiveState;
-  private rules: Map<string, AdaptiveRule> = new Map();
+  private rules: Map<string, AdaptiveRuleDefinition> = new Map();
   private hysteresisThresholds: Map<string, HysteresisThreshold> = new Map();
   private config: BLSConfiguration;
   private lastEmotionData: EmotionData | null = null;
@@ -54,8 +57,9 @@ export class AdaptiveController {
   private readonly STABILITY_WINDOW_SIZE = 10;
   private readonly HYSTERESIS_DEBOUNCE = 2000; // 2 seconds
   private readonly MAX_CHANGES_PER_MINUTE = 6;
+  private readonly TREND_THRESHOLD = 0.05; // Mean change between window halves that counts as rising/falling
   
-  constructor(initialConfig: BLSConfiguration) {
+  constructor(initialConfig: BLSConfiguration, ruleSet: AdaptiveRuleSetDefinition = DEFAULT_ADAPTIVE_RULE_SET) {
     this.config = initialConfig;
     this.state = {
       currentRule: null,
@@ -65,12 +69,28 @@ export class AdaptiveController {
       adaptationHistory: []
     };
     
-    this.initializeAdaptiveRules();
+    this.setRules(ruleSet);
     this.initializeHysteresisThresholds();
     
     console.log(`Adaptive Controller initialized with ${this.rules.size} emotional state mapping rules`);
   }
 
+  /**
+   * Replace the rules with a therapist- or clinic-defined set; an invalid set keeps the current rules
+   */
+  loadRuleSet(input: unknown): string[] {
+    const { ruleSet, errors } = validateAdaptiveRuleSet(input);
+    if (!ruleSet) {
+      console.warn('Adaptive rule set rejected:', errors);
+      return errors;
+    }
+    
+    this.setRules(ruleSet);
+    this.state.currentRule = null;
+    console.log(`Loaded adaptive rule set "${ruleSet.name}" with ${this.rules.size} rules`);
+    return [];
+  }
+
   /**
    * Process emotion data and return adaptive BLS configuration
    */
@@ -200,540 +220,8 @@ export class AdaptiveController {
 
   // === Private Methods ===
 
-  private initializeAdaptiveRules(): void {
-    this.createCrisisRules();
-    this.createHighArousalRules();
-    this.createLowArousalRules();
-    this.createPositiveEmotionRules();
-    this.createNegativeEmotionRules();
-    this.createSpecificAffectRules();
-    this.createTherapeuticPhaseRules();
-    
-    console.log(`Initialized ${this.rules.size} adaptive rules for 98 emotional states`);
-  }
-
-  /**
-   * Crisis and safety rules - highest priority
-   */
-  private createCrisisRules(): void {
-    // Extreme distress - panic states
-    this.rules.set('crisis-extreme-distress', {
-      condition: (e) => e.arousal > 0.9 && e.valence < 0.2,
-      adaptations: {
-        speed: 1,
-        pattern: 'horizontal',
-        color: '#1e293b', // Dark grounding
-        audio: createDefaultBLSAudioConfig({ enabled: false }),
-        haptics: createDefaultBLSHapticsConfig({ 
-          enabled: true, 
-          pattern: 'breathing', 
-          intensity: 0.1, 
-          duration: 6000, 
-          interval: 8000,
-          syncWithMovement: false,
-          syncWithAudio: false
-        }),
-        rendering3D: createDefaultBLS3DConfig({ enabled: false }) // Fallback to 2D
-      },
-      priority: 100,
-      therapeutic: 'CRISIS: Extreme distress - minimal stimulation, basic grounding, emergency stabilization'
-    });
-
-    // Panic attack state
-    this.rules.set('panic-attack', {
-      condition: (e) => this.hasAffectAbove(e, ['Afraid', 'Alarmed', 'Scared'], 25) && e.arousal > 0.8,
-      adaptations: {
-        speed: 1,
-        pattern: 'circle',
-        color: '#475569', // Stable gray-blue
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'alpha',
-          binauralFrequency: 8,
-          volume: 0.3,
-          spatialAudio: false
-        })
-      },
-      priority: 95,
-      therapeutic: 'Panic attack detected - slow circles with deep alpha waves for immediate stabilization'
-    });
-
-    // Severe trauma activation
-    this.rules.set('trauma-severe', {
-      condition: (e) => e.arousal > 0.85 && e.valence < 0.25,
-      adaptations: {
-        speed: 2,
-        pattern: 'horizontal',
-        color: '#60a5fa', // Calming blue
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'nature-sounds',
-          volume: 0.3,
-          spatialAudio: false
-        }),
-        haptics: createDefaultBLSHapticsConfig({ enabled: false })
-      },
-      priority: 90,
-      therapeutic: 'Severe trauma activation - basic bilateral with nature sounds for safety'
-    });
-  }
-
-  /**
-   * High arousal state rules
-   */
-  private createHighArousalRules(): void {
-    // Angry states (Angry, Hostile, Hateful, Frustrated)
-    this.rules.set('anger-rage', {
-      condition: (e) => this.hasAffectAbove(e, ['Angry', 'Hostile', 'Hateful', 'Frustrated'], 15),
-      adaptations: {
-        speed: 3,
-        pattern: 'horizontal', // Linear movement for discharge
-        color: '#64748b', // Cool gray to calm
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'white-noise',
-          volume: 0.4
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'wave',
-          intensity: 0.3,
-          syncWithMovement: true
-        })
-      },
-      priority: 80,
-      therapeutic: 'Anger discharge - linear movement with white noise for emotional regulation'
-    });
-
-    // Excited positive states (Excited, Elated, Enthusiastic, Passionate)
-    this.rules.set('excitement-elation', {
-      condition: (e) => this.hasAffectAbove(e, ['Excited', 'Elated', 'Enthusiastic', 'Passionate'], 12),
-      adaptations: {
-        speed: 8,
-        pattern: 'spiral3d',
-        color: '#f59e0b', // Energetic orange
-        secondaryColor: '#dc2626', // Red accent
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'beta',
-          binauralFrequency: 20,
-          volume: 0.7,
-          spatialAudio: true
-        }),
-        rendering3D: createDefaultBLS3DConfig({
-          lighting: 'dramatic',
-          particleEffects: true,
-          bloomEffect: true
-        })
-      },
-      priority: 40,
-      therapeutic: 'High positive energy - dynamic 3D patterns to channel and focus excitement'
-    });
-
-    // Anxiety/worry states (Anxious, Worried, Tense, Strained)
-    this.rules.set('anxiety-worry', {
-      condition: (e) => this.hasAffectAbove(e, ['Anxious', 'Worried', 'Tense', 'Strained'], 15),
-      adaptations: {
-        speed: 2,
-        pattern: 'circle',
-        color: '#3b82f6', // Calming blue
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'alpha',
-          binauralFrequency: 10,
-          volume: 0.4
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'breathing',
-          intensity: 0.2,
-          duration: 4000,
-          interval: 6000
-        })
-      },
-      priority: 75,
-      therapeutic: 'Anxiety regulation - slow circles with breathing pattern for grounding'
-    });
-  }
-
-  /**
-   * Low arousal state rules
-   */
-  private createLowArousalRules(): void {
-    // Depression states (Depressed, Hopeless, Miserable, Dejected)
-    this.rules.set('depression-despair', {
-      condition: (e) => this.hasAffectAbove(e, ['Depressed', 'Hopeless', 'Miserable', 'Dejected'], 15),
-      adaptations: {
-        speed: 4,
-        pattern: 'helix3d', // Upward spiral
-        color: '#f97316', // Warm orange
-        secondaryColor: '#fbbf24', // Gold
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'sacred-geometry',
-          volume: 0.5
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'heartbeat',
-          intensity: 0.4
-        })
-      },
-      priority: 70,
-      therapeutic: 'Depression support - upward helix with warm colors for gentle activation'
-    });
-
-    // Boredom/disengagement (Bored, Indifferent, Tired, Sleepy)
-    this.rules.set('boredom-disengagement', {
-      condition: (e) => this.hasAffectAbove(e, ['Bored', 'Indifferent', 'Tired', 'Sleepy'], 12),
-      adaptations: {
-        speed: 6,
-        pattern: 'lissajous3d',
-        color: '#8b5cf6', // Engaging purple
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'beta',
-          binauralFrequency: 15
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'pulse',
-          intensity: 0.5,
-          syncWithMovement: true
-        })
-      },
-      priority: 60,
-      therapeutic: 'Engagement activation - complex patterns with beta waves for alertness'
-    });
-
-    // Peaceful calm states (Peaceful, Calm, Tranquil, Relaxed)
-    this.rules.set('peaceful-calm', {
-      condition: (e) => this.hasAffectAbove(e, ['Peaceful', 'Calm', 'Tranquil', 'Relaxed'], 12),
-      adaptations: {
-        speed: 3,
-        pattern: 'wave3d',
-        color: '#10b981', // Peaceful green
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'nature-sounds',
-          volume: 0.3
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'breathing',
-          intensity: 0.2
-        })
-      },
-      priority: 30,
-      therapeutic: 'Peaceful state - maintaining calm with gentle wave patterns'
-    });
-  }
-
-  /**
-   * Positive emotion rules
-   */
-  private createPositiveEmotionRules(): void {
-    // Joy and happiness (Happy, Joyful, Delighted, Light-hearted)
-    this.rules.set('joy-happiness', {
-      condition: (e) => this.hasAffectAbove(e, ['Happy', 'Joyful', 'Delighted', 'Light-hearted'], 12),
-      adaptations: {
-        speed: 7,
-        pattern: 'butterfly3d',
-        color: '#fbbf24', // Bright yellow
-        secondaryColor: '#f59e0b', // Orange
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'sacred-geometry',
-          volume: 0.6
-        }),
-        rendering3D: createDefaultBLS3DConfig({
-          lighting: 'dramatic',
-          bloomEffect: true,
-          particleEffects: true
-        })
-      },
-      priority: 35,
-      therapeutic: 'Joy celebration - beautiful butterfly patterns to amplify positive emotions'
-    });
-
-    // Love and compassion (Amorous, Compassionate, Friendly)
-    this.rules.set('love-compassion', {
-      condition: (e) => this.hasAffectAbove(e, ['Amorous', 'Compassionate', 'Friendly'], 10),
-      adaptations: {
-        speed: 4,
-        pattern: 'DNA3d',
-        color: '#ec4899', // Love pink
-        secondaryColor: '#a855f7', // Purple
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'singing-bowls',
-          volume: 0.5
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'heartbeat',
-          intensity: 0.4
-        })
-      },
-      priority: 25,
-      therapeutic: 'Love and connection - DNA helix with heart resonance'
-    });
-
-    // Confidence and success (Confident, Successful, Courageous, Ambitious)
-    this.rules.set('confidence-success', {
-      condition: (e) => this.hasAffectAbove(e, ['Confident', 'Successful', 'Courageous', 'Ambitious'], 12),
-      adaptations: {
-        speed: 6,
-        pattern: 'cube3d',
-        color: '#7c3aed', // Royal purple
-        secondaryColor: '#f59e0b', // Gold
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'beta',
-          binauralFrequency: 18
-        })
-      },
-      priority: 30,
-      therapeutic: 'Confidence building - structured cube patterns with beta waves'
-    });
-
-    // Hope and inspiration (Hopeful, Inspired, Eager, Determined)
-    this.rules.set('hope-inspiration', {
-      condition: (e) => this.hasAffectAbove(e, ['Hopeful', 'Inspired', 'Eager', 'Determined'], 10),
-      adaptations: {
-        speed: 7,
-        pattern: 'helix3d',
-        color: '#f59e0b', // Gold
-        secondaryColor: '#dc2626', // Red energy
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'sacred-geometry',
-          volume: 0.6
-        })
-      },
-      priority: 20,
-      therapeutic: 'Hope and determination - upward helix for positive momentum'
-    });
-  }
-
-  /**
-   * Negative emotion rules
-   */
-  private createNegativeEmotionRules(): void {
-    // Sadness and grief (Sad, Gloomy, Melancholic, Lonely)
-    this.rules.set('sadness-grief', {
-      condition: (e) => this.hasAffectAbove(e, ['Sad', 'Gloomy', 'Melancholic', 'Lonely'], 15),
-      adaptations: {
-        speed: 4,
-        pattern: 'spiral3d',
-        color: '#f97316', // Warm orange for comfort
-        secondaryColor: '#fbbf24', // Yellow hope
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'nature-sounds',
-          volume: 0.4
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'heartbeat',
-          intensity: 0.3
-        })
-      },
-      priority: 65,
-      therapeutic: 'Sadness comfort - gentle upward spirals with warm colors for healing'
-    });
-
-    // Shame and guilt (Ashamed, Feel guilt, Embarrassed)
-    this.rules.set('shame-guilt', {
-      condition: (e) => this.hasAffectAbove(e, ['Ashamed', 'Feel guilt', 'Embarrassed'], 10),
-      adaptations: {
-        speed: 5,
-        pattern: 'infinity3d',
-        color: '#10b981', // Healing green
-        secondaryColor: '#3b82f6', // Calming blue
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'singing-bowls',
-          volume: 0.4
-        }),
-        rendering3D: createDefaultBLS3DConfig({
-          lighting: 'therapeutic',
-          bloomEffect: true
-        })
-      },
-      priority: 55,
-      therapeutic: 'Shame healing - infinity patterns for self-forgiveness and renewal'
-    });
-
-    // Fear and terror (Afraid, Scared, Startled, Distressed)
-    this.rules.set('fear-terror', {
-      condition: (e) => this.hasAffectAbove(e, ['Afraid', 'Scared', 'Startled', 'Distressed'], 15),
-      adaptations: {
-        speed: 2,
-        pattern: 'circle',
-        color: '#3b82f6', // Safe blue
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'alpha',
-          binauralFrequency: 10,
-          volume: 0.4
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'breathing',
-          intensity: 0.2
-        }),
-        rendering3D: createDefaultBLS3DConfig({
-          shadows: false,
-          particleEffects: false
-        })
-      },
-      priority: 80,
-      therapeutic: 'Fear containment - safe circular patterns with alpha waves for calming'
-    });
-
-    // Disgust and revulsion (Disgusted, Bitter, Uncomfortable)
-    this.rules.set('disgust-revulsion', {
-      condition: (e) => this.hasAffectAbove(e, ['Disgusted', 'Bitter', 'Uncomfortable'], 12),
-      adaptations: {
-        speed: 4,
-        pattern: 'horizontal',
-        color: '#6b7280', // Neutral gray
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'white-noise',
-          volume: 0.3
-        })
-      },
-      priority: 50,
-      therapeutic: 'Disgust processing - neutral patterns for emotional detoxification'
-    });
-  }
-
-  /**
-   * Specific affect-based rules for unique emotional states
-   */
-  private createSpecificAffectRules(): void {
-    // Curiosity and interest (Curious, Interested, Attentive)
-    this.rules.set('curiosity-interest', {
-      condition: (e) => this.hasAffectAbove(e, ['Curious', 'Interested', 'Attentive'], 12),
-      adaptations: {
-        speed: 6,
-        pattern: 'lissajous3d',
-        color: '#8b5cf6', // Purple creativity
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'beta',
-          binauralFrequency: 16
-        })
-      },
-      priority: 25,
-      therapeutic: 'Curiosity engagement - complex patterns to enhance focused attention'
-    });
-
-    // Contemplation (Pensive, Serious, Reverent, Solemn)
-    this.rules.set('contemplation', {
-      condition: (e) => this.hasAffectAbove(e, ['Pensive', 'Serious', 'Reverent', 'Solemn'], 12),
-      adaptations: {
-        speed: 3,
-        pattern: 'sphere3d',
-        color: '#7c3aed', // Deep purple wisdom
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'theta',
-          binauralFrequency: 6
-        })
-      },
-      priority: 40,
-      therapeutic: 'Deep contemplation - spherical wholeness with theta waves for insight'
-    });
-
-    // Surprise and astonishment (Surprised, Astonished, Taken aback)
-    this.rules.set('surprise-astonishment', {
-      condition: (e) => this.hasAffectAbove(e, ['Surprised', 'Astonished', 'Taken aback'], 10),
-      adaptations: {
-        speed: 5,
-        pattern: 'lemniscate3d',
-        color: '#f59e0b', // Bright orange
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'alpha',
-          binauralFrequency: 12
-        }),
-        transitions: createDefaultBLSTransitionConfig({
-          enabled: true,
-          duration: 3000,
-          morphing: true
-        })
-      },
-      priority: 45,
-      therapeutic: 'Surprise integration - figure-8 patterns for processing unexpected experiences'
-    });
-
-    // Dissociation (Indifferent, Apathetic, Languid)
-    this.rules.set('dissociation', {
-      condition: (e) => this.hasAffectAbove(e, ['Indifferent', 'Apathetic', 'Languid'], 15) && e.arousal < 0.2,
-      adaptations: {
-        speed: 6,
-        pattern: 'cube3d',
-        color: '#dc2626', // Alert red
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'theta',
-          binauralFrequency: 5
-        }),
-        haptics: createDefaultBLSHapticsConfig({
-          enabled: true,
-          pattern: 'pulse',
-          intensity: 0.6,
-          syncWithMovement: true
-        })
-      },
-      priority: 85,
-      therapeutic: 'Dissociation grounding - structured patterns with haptic feedback for reconnection'
-    });
-  }
-
-  /**
-   * Therapeutic phase-specific rules
-   */
-  private createTherapeuticPhaseRules(): void {
-    // Optimal processing window
-    this.rules.set('optimal-processing', {
-      condition: (e) => e.arousal >= 0.4 && e.arousal <= 0.7 && e.valence >= 0.3 && e.valence <= 0.7,
-      adaptations: {
-        speed: 5,
-        pattern: 'lemniscate3d',
-        color: '#3b82f6',
-        audio: createDefaultBLSAudioConfig({
-          enabled: true,
-          audioType: 'binaural-beats',
-          binauralType: 'alpha',
-          binauralFrequency: 10,
-          volume: 0.5,
-          spatialAudio: true
-        })
-      },
-      priority: 50,
-      therapeutic: 'Optimal processing window - balanced stimulation for effective integration'
-    });
-  }
-
-  /**
-   * Helper method to check if any affects are above threshold
-   */
-  private hasAffectAbove(emotionData: EmotionData, affectNames: string[], threshold: number): boolean {
-    return affectNames.some(name => emotionData.affects[name] > threshold);
+  private setRules(ruleSet: AdaptiveRuleSetDefinition): void {
+    this.rules = new Map(ruleSet.rules.map(rule => [rule.id, rule] as [string, AdaptiveRuleDefinition]));
   }
 
   private initializeHysteresisThresholds(): void {
@@ -763,19 +251,31 @@ export class AdaptiveController {
     });
   }
 
-  private findApplicableRules(emotionData: EmotionData, phase: EMDRPhase): AdaptiveRule[] {
-    const applicable: AdaptiveRule[] = [];
+  private findApplicableRules(emotionData: EmotionData, phase: EMDRPhase): AdaptiveRuleDefinition[] {
+    const context = { emotion: emotionData, phase, trend: (metric: AdaptiveRuleMetric) => this.getTrend(metric) };
     
-    for (const rule of Array.from(this.rules.values())) {
-      if (rule.condition(emotionData)) {
-        applicable.push(rule);
-      }
-    }
+    return Array.from(this.rules.values())
+      .filter(rule => rule.enabled && evaluateAdaptiveRuleCondition(rule.condition, context))
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Direction of a metric over the stability window, comparing its older and newer half
+   */
+  private getTrend(metric: AdaptiveRuleMetric): AdaptiveRuleTrend {
+    if (this.stabilityWindow.length < 4) return 'stable';
+    
+    const values = this.stabilityWindow.map(e => e[metric]);
+    const half = Math.floor(values.length / 2);
+    const mean = (part: number[]) => part.reduce((sum, val) => sum + val, 0) / part.length;
+    const delta = mean(values.slice(half)) - mean(values.slice(0, half));
     
-    return applicable.sort((a, b) => b.priority - a.priority);
+    if (delta > this.TREND_THRESHOLD) return 'rising';
+    if (delta < -this.TREND_THRESHOLD) return 'falling';
+    return 'stable';
   }
 
-  private selectBestRule(rules: AdaptiveRule[], emotionData: EmotionData): AdaptiveRule | null {
+  private selectBestRule(rules: AdaptiveRuleDefinition[], emotionData: EmotionData): AdaptiveRuleDefinition | null {
     if (rules.length === 0) return null;
     
     // Return highest priority rule that passes hysteresis check
@@ -788,7 +288,7 @@ export class AdaptiveController {
     return null;
   }
 
-  private passesHysteresisCheck(rule: AdaptiveRule, emotionData: EmotionData): boolean {
+  private passesHysteresisCheck(rule: AdaptiveRuleDefinition, emotionData: EmotionData): boolean {
     // If no current rule, allow any new rule
     if (!this.state.currentRule) return true;
     
@@ -818,7 +318,7 @@ export class AdaptiveController {
     return true;
   }
 
-  private shouldApplyRule(rule: AdaptiveRule | null, emotionData: EmotionData): boolean {
+  private shouldApplyRule(rule: AdaptiveRuleDefinition | null, emotionData: EmotionData): boolean {
     if (!rule) return false;
     
     // Always apply crisis rules immediately
@@ -828,7 +328,7 @@ export class AdaptiveController {
   }
 
   private applyRuleAdaptation(
-    rule: AdaptiveRule, 
+    rule: AdaptiveRuleDefinition, 
     currentConfig: BLSConfiguration, 
     emotionData: EmotionData
   ): BLSConfiguration {
@@ -837,7 +337,7 @@ export class AdaptiveController {
     const adaptedConfig: BLSConfiguration = JSON.parse(JSON.stringify(currentConfig));
     
     // Apply rule adaptations
-    Object.assign(adaptedConfig, rule.adaptations);
+    Object.assign(adaptedConfig, this.expandAdaptations(rule));
     
     // Apply fine-tuning based on specific emotion values
     this.applyEmotionBasedTuning(adaptedConfig, emotionData);
@@ -845,13 +345,24 @@ export class AdaptiveController {
     return adaptedConfig;
   }
 
+  // Sub-configs in a rule are partial and replace the current ones completed from their defaults
+  private expandAdaptations(rule: AdaptiveRuleDefinition): Partial<BLSConfiguration> {
+    const { audio, haptics, rendering3D, transitions, ...core } = rule.adaptations;
+    const expanded: Partial<BLSConfiguration> = { ...core };
+    if (audio) expanded.audio = createDefaultBLSAudioConfig(audio);
+    if (haptics) expanded.haptics = createDefaultBLSHapticsConfig(haptics);
+    if (rendering3D) expanded.rendering3D = createDefaultBLS3DConfig(rendering3D);
+    if (transitions) expanded.transitions = createDefaultBLSTransitionConfig(transitions);
+    return expanded;
+  }
+
   private applyEmotionBasedTuning(config: BLSConfiguration, emotionData: EmotionData): void {
-    // Fine-tune speed based on arousal
+    // Fine-tune rate based on arousal
     const arousalFactor = emotionData.arousal;
     if (arousalFactor > 0.8) {
-      config.speed = Math.max(1, config.speed * 0.7); // Slow down for high arousal
+      config.rateHz = clampBLSRate(config.rateHz * 0.7); // Slow down for high arousal
     } else if (arousalFactor < 0.3) {
-      config.speed = Math.min(10, config.speed * 1.3); // Speed up for low arousal
+      config.rateHz = clampBLSRate(config.rateHz * 1.3); // Speed up for low arousal
     }
     
     // Fine-tune audio volume based on emotional intensity
@@ -890,7 +401,7 @@ export class AdaptiveController {
   }
 
   private updateAdaptiveState(
-    rule: AdaptiveRule, 
+    rule: AdaptiveRuleDefinition, 
     emotionData: EmotionData, 
     adaptedConfig: BLSConfiguration
   ): void {
@@ -903,7 +414,7 @@ export class AdaptiveController {
       timestamp: Date.now(),
       rule: rule.therapeutic,
       emotion: emotionData,
-      adaptation: rule.adaptations
+      adaptation: this.expandAdaptations(rule)
     });
     
     // Trim history to last 50 entries
@@ -4,6 +4,7 @@
  */
 
 import type { BLSAudioConfig } from '@/../../shared/types';
+import type { BLSTimingCore } from './timingCore';
 
 export interface AudioPosition {
   x: number;
@@ -23,6 +24,7 @@ export class AudioEngine {
   private natureAudioBuffer: AudioBuffer | null = null;
   private isPlaying: boolean = false;
   private currentConfig: BLSAudioConfig | null = null;
+  private timingUnsubscribe: (() => void) | null = null;
 
   /**
    * Initialize the audio engine
@@ -166,6 +168,17 @@ export class AudioEngine {
     }
   }
 
+  /**
+   * Pan with the shared BLS clock, looking ahead by the output latency so the sound lands with the visual
+   */
+  syncToTiming(timing: BLSTimingCore): void {
+    this.timingUnsubscribe?.();
+    this.timingUnsubscribe = timing.subscribe(() => {
+      if (!this.isPlaying) return;
+      this.updatePanning(timing.positionAhead(this.getOutputLatency()));
+    });
+  }
+
   // === Private Audio Generation Methods ===
 
   private startBinauralBeats(config: BLSAudioConfig): void {
@@ -302,6 +315,11 @@ export class AudioEngine {
 
   // === Helper Methods ===
 
+  private getOutputLatency(): number {
+    if (!this.audioContext) return 0;
+    return ((this.audioContext.baseLatency || 0) + (this.audioContext.outputLatency || 0)) * 1000; // ms
+  }
+
   private getBinauralBaseFrequency(type: string): number {
     switch (type) {
       case 'delta': return 200; // 0.5-4 Hz beats on 200 Hz carrier
@@ -385,6 +403,8 @@ export class AudioEngine {
    */
   dispose(): void {
     this.stopAudio();
+    this.timingUnsubscribe?.();
+    this.timingUnsubscribe = null;
     
     if (this.audioContext) {
       this.audioContext.close();
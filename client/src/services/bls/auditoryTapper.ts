@@ -0,0 +1,193 @@
+/**
+ * Auditory Tapper for BLS
+ * Alternating left/right taps on the shared timing core, for auditory-only stimulation without a renderer
+ */
+
+import type { BLSAuditoryConfig } from '@/../../shared/types';
+import { createDefaultBLSAuditoryConfig } from '@/../../shared/types';
+import type { BLSTimingCore } from './timingCore';
+
+// Taps are scheduled on the audio clock ahead of time, so timer jitter never reaches the ears
+const SCHEDULER_INTERVAL = 25; // ms
+const SCHEDULE_AHEAD = 100; // ms
+const ENVELOPE_RAMP = 0.003; // s, avoids clicks from hard gain steps on tone waveforms
+
+export class AuditoryTapper {
+  private timing: BLSTimingCore;
+  private config: BLSAuditoryConfig;
+  private audioContext: AudioContext | null = null;
+  private stereoOut: ChannelMergerNode | null = null;
+  private clickBuffer: AudioBuffer | null = null;
+  private schedulerId: number | null = null;
+  private lastScheduledEdge: number = 0;
+  private pendingTaps: Set<AudioScheduledSourceNode> = new Set(); // Scheduled but not yet finished
+
+  constructor(timing: BLSTimingCore, config: Partial<BLSAuditoryConfig> = {}) {
+    this.timing = timing;
+    this.config = createDefaultBLSAuditoryConfig({ enabled: true, ...config });
+  }
+
+  /**
+   * Initialize the audio graph
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      if (!AudioContextClass) {
+        console.warn('Web Audio API not supported');
+        return false;
+      }
+
+      this.audioContext = new AudioContextClass();
+      this.stereoOut = this.audioContext.createChannelMerger(2);
+      this.stereoOut.connect(this.audioContext.destination);
+      this.clickBuffer = this.createClickBuffer();
+      return true;
+    } catch (error) {
+      console.error('Failed to initialize Auditory Tapper:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start tapping from the left edge at the timing core's rate
+   */
+  async start(config: Partial<BLSAuditoryConfig> = {}): Promise<void> {
+    if (!this.audioContext && !(await this.initialize())) {
+      throw new Error('Auditory Tapper not initialized');
+    }
+    if (this.audioContext!.state === 'suspended') {
+      await this.audioContext!.resume();
+    }
+
+    this.updateConfig(config);
+    this.stopScheduler();
+    this.timing.start();
+    this.lastScheduledEdge = 0;
+
+    this.schedule();
+    this.schedulerId = window.setInterval(() => this.schedule(), SCHEDULER_INTERVAL);
+  }
+
+  stop(): void {
+    this.stopScheduler();
+    this.timing.stop();
+    // Taps already queued on the audio clock would otherwise sound after the set has ended
+    this.pendingTaps.forEach(tap => {
+      try {
+        tap.stop();
+      } catch {
+        // Not started yet in some browsers; disconnecting below silences it
+      }
+      tap.disconnect();
+    });
+    this.pendingTaps.clear();
+  }
+
+  updateConfig(config: Partial<BLSAuditoryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): BLSAuditoryConfig {
+    return { ...this.config };
+  }
+
+  isRunning(): boolean {
+    return this.schedulerId !== null;
+  }
+
+  /**
+   * Play a single tap, e.g. to check headphone orientation before a session
+   */
+  testTap(side: 'left' | 'right'): void {
+    if (!this.audioContext) return;
+    this.playTap(side, this.audioContext.currentTime);
+  }
+
+  // The scheduler also ticks the timing core, which is what drives the set sequencer in this mode
+  private schedule(): void {
+    if (!this.audioContext) return;
+
+    this.timing.tick();
+    const now = this.audioContext.currentTime;
+    for (const edge of this.timing.upcomingEdges(SCHEDULE_AHEAD)) {
+      if (edge.index <= this.lastScheduledEdge) continue;
+      this.playTap(edge.side, now + edge.inMs / 1000);
+      this.lastScheduledEdge = edge.index;
+    }
+  }
+
+  private playTap(side: 'left' | 'right', when: number): void {
+    if (!this.audioContext || !this.stereoOut) return;
+
+    const duration = this.config.clickDuration / 1000;
+    const gain = this.audioContext.createGain();
+    const level = this.config.volume * this.getEarLevel(side);
+
+    let source: AudioScheduledSourceNode;
+    if (this.config.waveform === 'click') {
+      const buffer = this.audioContext.createBufferSource();
+      buffer.buffer = this.clickBuffer;
+      source = buffer;
+      // Percussive decay over the click duration
+      gain.gain.setValueAtTime(Math.max(level, 0.0001), when);
+      gain.gain.exponentialRampToValueAtTime(0.0001, when + duration);
+    } else {
+      const oscillator = this.audioContext.createOscillator();
+      oscillator.type = this.config.waveform;
+      oscillator.frequency.setValueAtTime(this.config.toneFrequency, when);
+      source = oscillator;
+      gain.gain.setValueAtTime(0, when);
+      gain.gain.linearRampToValueAtTime(level, when + ENVELOPE_RAMP);
+      gain.gain.setValueAtTime(level, Math.max(when + ENVELOPE_RAMP, when + duration - ENVELOPE_RAMP));
+      gain.gain.linearRampToValueAtTime(0, when + duration);
+    }
+
+    source.connect(gain);
+    gain.connect(this.stereoOut, 0, side === 'left' ? 0 : 1);
+    source.onended = () => {
+      gain.disconnect();
+      this.pendingTaps.delete(source);
+    };
+    this.pendingTaps.add(source);
+    source.start(when);
+    source.stop(when + duration);
+  }
+
+  // Balance attenuates the opposite ear only, so the favoured ear keeps the full volume
+  private getEarLevel(side: 'left' | 'right'): number {
+    const balance = Math.max(-1, Math.min(1, this.config.balance));
+    return side === 'left' ? Math.min(1, 1 - balance) : Math.min(1, 1 + balance);
+  }
+
+  // Noise burst, longer than any click duration; the gain envelope shapes it
+  private createClickBuffer(): AudioBuffer | null {
+    if (!this.audioContext) return null;
+
+    const length = Math.floor(this.audioContext.sampleRate * 0.5);
+    const buffer = this.audioContext.createBuffer(1, length, this.audioContext.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    return buffer;
+  }
+
+  private stopScheduler(): void {
+    if (this.schedulerId !== null) {
+      clearInterval(this.schedulerId);
+      this.schedulerId = null;
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    this.stop();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+  }
+}
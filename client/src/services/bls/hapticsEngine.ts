@@ -4,6 +4,8 @@
  */
 
 import type { BLSHapticsConfig } from '@/../../shared/types';
+import type { BLSTimingCore, BLSTimingSample } from './timingCore';
+import type { TactileDevice } from './tactileDevice';
 
 export interface HapticEvent {
   intensity: number; // 0-1
@@ -11,6 +13,11 @@ export interface HapticEvent {
   timestamp: number;
 }
 
+// Defaults for the pulser when no haptics configuration has been started
+const DEFAULT_TACTILE_INTENSITY = 0.7;
+const DEFAULT_TACTILE_DURATION = 100; // ms
+const TACTILE_LOOKAHEAD = 50; // ms, a few frames so no edge falls between two ticks
+
 export class HapticsEngine {
   private isEnabled: boolean = false;
   private config: BLSHapticsConfig | null = null;
@@ -19,6 +26,10 @@ export class HapticsEngine {
   private intervalId: number | null = null;
   private lastVibration: number = 0;
   private vibrationQueue: HapticEvent[] = [];
+  private timingUnsubscribe: (() => void) | null = null;
+  private tactileDevice: TactileDevice | null = null;
+  private lastPulsedEdge: number = 0;
+  private tactileTimeouts: Set<number> = new Set();
 
   /**
    * Initialize haptics engine
@@ -56,6 +67,9 @@ export class HapticsEngine {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.clearTactileTimeouts();
+    this.lastPulsedEdge = 0;
+    this.tactileDevice?.stop();
     this.vibrationQueue = [];
     this.stopVibration();
   }
@@ -112,6 +126,30 @@ export class HapticsEngine {
     });
   }
 
+  /**
+   * Follow the shared BLS clock: a pulse at each edge, movement sync in between
+   */
+  syncToTiming(timing: BLSTimingCore): void {
+    this.timingUnsubscribe?.();
+    this.timingUnsubscribe = timing.subscribe(sample => {
+      this.driveTactileDevice(timing, sample);
+      if (sample.sweeps > 0) {
+        this.triggerDirectionChange();
+      } else {
+        this.triggerMovementSync({ x: sample.position, y: 0.5 });
+      }
+    });
+  }
+
+  /**
+   * Attach a left/right pulser; it works without vibration support and takes over the alternation
+   */
+  setTactileDevice(device: TactileDevice | null): void {
+    this.clearTactileTimeouts();
+    this.tactileDevice = device;
+    this.lastPulsedEdge = 0;
+  }
+
   /**
    * Trigger therapeutic pattern vibration
    */
@@ -133,6 +171,35 @@ export class HapticsEngine {
 
   // === Private Methods ===
 
+  // Each edge is pulsed on its side, sent ahead by the device latency so it is felt as the stimulus arrives
+  private driveTactileDevice(timing: BLSTimingCore, sample: BLSTimingSample): void {
+    const device = this.tactileDevice;
+    if (!device?.isConnected()) return;
+
+    // The timing core restarted from the left edge
+    const edgesPassed = Math.floor((sample.passes + sample.phase) * 2);
+    if (edgesPassed < this.lastPulsedEdge - 1) {
+      this.lastPulsedEdge = 0;
+    }
+
+    const latency = device.getLatency();
+    for (const edge of timing.upcomingEdges(latency + TACTILE_LOOKAHEAD)) {
+      if (edge.index <= this.lastPulsedEdge) continue;
+      this.lastPulsedEdge = edge.index;
+
+      const timeoutId = window.setTimeout(() => {
+        this.tactileTimeouts.delete(timeoutId);
+        device.pulse(edge.side, this.config?.intensity ?? DEFAULT_TACTILE_INTENSITY, this.config?.duration ?? DEFAULT_TACTILE_DURATION);
+      }, Math.max(0, edge.inMs - latency));
+      this.tactileTimeouts.add(timeoutId);
+    }
+  }
+
+  private clearTactileTimeouts(): void {
+    this.tactileTimeouts.forEach(timeoutId => clearTimeout(timeoutId));
+    this.tactileTimeouts.clear();
+  }
+
   private setupPattern(): void {
     if (!this.config) return;
 
@@ -199,14 +266,13 @@ export class HapticsEngine {
   }
 
   private calculateMovementIntensity(position: { x: number; y: number; z?: number }): number {
-    // Calculate movement velocity/acceleration for dynamic intensity
-    // For now, use position-based intensity (edges = higher intensity)
-    const edgeDistance = Math.min(
+    // Position-based intensity on the normalized 0-1 track (edges = higher intensity)
+    const edgeDistance = Math.max(
       Math.abs(position.x - 0.5), 
       Math.abs(position.y - 0.5)
     ) * 2; // Normalize to 0-1
 
-    return Math.max(0.2, 1 - edgeDistance); // Higher intensity at edges
+    return Math.max(0.2, edgeDistance);
   }
 
   private queueVibration(event: HapticEvent): void {
@@ -300,6 +366,8 @@ export class HapticsEngine {
    */
   dispose(): void {
     this.stop();
+    this.timingUnsubscribe?.();
+    this.timingUnsubscribe = null;
     this.isEnabled = false;
     this.config = null;
   }
@@ -5,6 +5,7 @@
 
 import * as THREE from 'three';
 import type { BLSPattern, BLS3DConfig } from '@/../../shared/types';
+import { BLSTimingCore } from './timingCore';
 
 export interface Pattern3DPosition {
   position: THREE.Vector3;
@@ -30,11 +31,10 @@ export class Renderer3D {
   // Animation state
   private isAnimating: boolean = false;
   private currentPattern: BLSPattern = 'horizontal';
-  private animationSpeed: number = 5;
+  private timing: BLSTimingCore; // Shared with audio and haptics so all stimuli stay phase-locked
   private progress: number = 0;
   private direction: number = 1;
   private patternCompleteCount: number = 0;
-  private lastFrameTime: number = 0;
   
   // Pattern-specific parameters
   private patternParams: Map<BLSPattern, any> = new Map();
@@ -51,9 +51,10 @@ export class Renderer3D {
   private directionalLight!: THREE.DirectionalLight;
   private particleSystem: THREE.Points | null = null;
 
-  constructor(container: HTMLElement, config: BLS3DConfig) {
+  constructor(container: HTMLElement, config: BLS3DConfig, timing: BLSTimingCore = new BLSTimingCore()) {
     this.container = container;
     this.config = config;
+    this.timing = timing;
     
     // Initialize Three.js scene
     this.scene = new THREE.Scene();
@@ -88,12 +89,13 @@ export class Renderer3D {
   /**
    * Start 3D animation with pattern
    */
-  start(pattern: BLSPattern, speed: number): void {
+  start(pattern: BLSPattern, rateHz: number): void {
     this.currentPattern = pattern;
-    this.animationSpeed = speed;
     this.isAnimating = true;
     this.progress = 0;
     this.direction = 1;
+    this.timing.setFrequency(rateHz);
+    this.timing.start();
     
     // Initialize pattern-specific state
     this.initializePatternState(pattern);
@@ -106,6 +108,7 @@ export class Renderer3D {
    */
   stop(): void {
     this.isAnimating = false;
+    this.timing.stop();
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
@@ -124,10 +127,10 @@ export class Renderer3D {
   }
 
   /**
-   * Update speed during runtime
+   * Update the rate in Hz during runtime
    */
-  updateSpeed(speed: number): void {
-    this.animationSpeed = speed;
+  updateRate(rateHz: number): void {
+    this.timing.setFrequency(rateHz);
   }
 
   /**
@@ -396,34 +399,6 @@ export class Renderer3D {
     }
   }
 
-  /**
-   * Get normalized speed for consistent movement across patterns
-   */
-  private getNormalizedSpeed(pattern: BLSPattern, speed: number): number {
-    const baseSpeed = speed / 5.0; // Normalize to 0-2 range
-    
-    // Pattern-specific speed multipliers for consistent experience
-    const speedMultipliers: Record<BLSPattern, number> = {
-      'horizontal': 1.0,
-      'vertical': 1.0,
-      'diagonal': 1.0,
-      'circle': 1.0,
-      '3d-wave': 1.0,
-      'cube3d': 0.8,      // Slower for complex path
-      'spiral3d': 1.2,     // Faster for smooth spiral
-      'helix3d': 1.1,      // Slightly faster
-      'lemniscate3d': 0.9, // Slower for figure-8
-      'lissajous3d': 0.7,  // Much slower for complex curves
-      'sphere3d': 1.0,     // Standard speed
-      'infinity3d': 0.9,   // Slower for infinity symbol
-      'wave3d': 1.3,      // Faster for wave motion
-      'butterfly3d': 0.8,  // Slower for butterfly pattern
-      'DNA3d': 1.1        // Slightly faster for DNA helix
-    };
-    
-    return baseSpeed * (speedMultipliers[pattern] || 1.0);
-  }
-
   // === 3D Pattern Implementations ===
 
   /**
@@ -609,31 +584,16 @@ export class Renderer3D {
       return;
     }
     
-    const now = performance.now();
-    
-    // Frame budget guard: Target 60fps, skip frame if taking too long
-    const frameTimeBudget = 16.67; // ~60fps
-    const lastFrameTime = now - (this.lastFrameTime || now);
-    if (lastFrameTime > frameTimeBudget * 2) {
-      // Skip this frame if we're running behind
-      this.lastFrameTime = now;
-      this.animationId = requestAnimationFrame(this.animate);
-      return;
-    }
-    
     this.animationId = requestAnimationFrame(this.animate);
     
-    // Calculate delta time for smooth animation
-    const deltaTime = Math.min(lastFrameTime, 33); // Cap at 30fps minimum
-    const progressDelta = this.getNormalizedSpeed(this.currentPattern, this.animationSpeed) * this.direction * deltaTime / 1000;
-    this.progress += progressDelta;
+    // Position comes from elapsed real time, so a slow frame never slows the stimulus
+    const sample = this.timing.tick(performance.now());
+    this.progress = sample.position;
+    this.direction = sample.direction;
     
-    // Handle boundaries and direction changes
-    if (this.progress >= 1 || this.progress <= 0) {
-      this.progress = Math.max(0, Math.min(1, this.progress));
-      this.direction *= -1;
+    // Handle direction changes at the edges
+    for (let i = 0; i < sample.sweeps; i++) {
       this.patternCompleteCount++;
-      
       this.callbacks.onDirectionChange?.(this.direction);
       this.callbacks.onPatternComplete?.();
     }
@@ -658,8 +618,6 @@ export class Renderer3D {
     
     // Render frame
     this.renderer.render(this.scene, this.camera);
-    
-    this.lastFrameTime = now;
   };
 
   private handleResize = (): void => {
@@ -0,0 +1,218 @@
+/**
+ * BLS Set Sequencer
+ * Splits bilateral stimulation into sets of passes with a pause and "what do you notice?" check-in between them
+ */
+
+import type { BLSSetSequenceConfig } from '@/../../shared/types';
+import { createDefaultBLSSetSequenceConfig } from '@/../../shared/types';
+
+export type BLSSetSequencerState = 'idle' | 'running' | 'check-in' | 'complete';
+
+export interface BLSSetRecord {
+  setNumber: number; // 1-based
+  passes: number;
+  startedAt: number;
+  endedAt: number;
+  pauseDuration: number; // ms of check-in pause that followed the set
+  sud?: number; // 0-10, answered at the check-in
+}
+
+export interface BLSSetSequencerEvents {
+  onSetStart: (setNumber: number) => void; // Stimulation should run
+  onPass: (setNumber: number, passInSet: number, totalPasses: number) => void;
+  onSetEnd: (record: BLSSetRecord) => void; // Stimulation should stop; the check-in pause begins
+  onSetSUD: (record: BLSSetRecord) => void;
+  onSequenceComplete: (sets: BLSSetRecord[]) => void;
+}
+
+export class BLSSetSequencer {
+  private config: BLSSetSequenceConfig;
+  private state: BLSSetSequencerState = 'idle';
+  private sets: BLSSetRecord[] = [];
+  private listeners: Set<Partial<BLSSetSequencerEvents>> = new Set();
+  private currentSet: number = 0;
+  private setStartedAt: number = 0;
+  private passesInSet: number = 0;
+  private totalPasses: number = 0;
+  private sweeps: number = 0;
+  private pauseTimeoutId: number | null = null;
+  private pauseElapsed: boolean = false;
+
+  constructor(config: Partial<BLSSetSequenceConfig> = {}) {
+    this.config = createDefaultBLSSetSequenceConfig({ enabled: true, ...config });
+  }
+
+  /**
+   * Listen to sequence events; returns the unsubscribe function
+   */
+  subscribe(listener: Partial<BLSSetSequencerEvents>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start the first set of a new sequence
+   */
+  start(): void {
+    this.reset();
+    this.beginSet();
+  }
+
+  /**
+   * Stop the sequence; a running set is logged with the passes it reached
+   */
+  stop(): void {
+    if (this.state === 'running' && this.passesInSet > 0) {
+      this.endSet(false);
+    }
+    this.finish();
+  }
+
+  /**
+   * Call on every direction change of the stimulus; two sweeps make one pass
+   */
+  registerSweep(): void {
+    if (this.state !== 'running') return;
+
+    this.sweeps++;
+    if (this.sweeps % 2 !== 0) return;
+
+    this.passesInSet++;
+    this.totalPasses++;
+    this.emit('onPass', this.currentSet, this.passesInSet, this.totalPasses);
+
+    const limitReached = this.config.maxPasses > 0 && this.totalPasses >= this.config.maxPasses;
+    if (this.passesInSet >= this.config.passesPerSet || limitReached) {
+      this.endSet(!limitReached);
+      if (limitReached) this.finish();
+    }
+  }
+
+  /**
+   * Record the check-in SUDS for the last finished set
+   */
+  recordSUD(sud: number): void {
+    const record = this.sets[this.sets.length - 1];
+    if (!record) return;
+
+    record.sud = Math.max(0, Math.min(10, Math.round(sud)));
+    this.emit('onSetSUD', record);
+
+    if (this.state === 'check-in' && this.pauseElapsed) {
+      this.beginSet();
+    }
+  }
+
+  /**
+   * Start the next set now, cutting the check-in pause short
+   */
+  nextSet(): void {
+    if (this.state !== 'check-in') return;
+    this.clearPause();
+    this.beginSet();
+  }
+
+  updateConfig(config: Partial<BLSSetSequenceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): BLSSetSequenceConfig {
+    return { ...this.config };
+  }
+
+  getState(): BLSSetSequencerState {
+    return this.state;
+  }
+
+  getSets(): BLSSetRecord[] {
+    return [...this.sets];
+  }
+
+  getProgress(): { currentSet: number; passesInSet: number; totalPasses: number } {
+    return { currentSet: this.currentSet, passesInSet: this.passesInSet, totalPasses: this.totalPasses };
+  }
+
+  reset(): void {
+    this.clearPause();
+    this.state = 'idle';
+    this.sets = [];
+    this.currentSet = 0;
+    this.passesInSet = 0;
+    this.totalPasses = 0;
+    this.sweeps = 0;
+  }
+
+  dispose(): void {
+    this.reset();
+    this.listeners.clear();
+  }
+
+  private beginSet(): void {
+    this.clearPause();
+    this.state = 'running';
+    this.currentSet++;
+    this.setStartedAt = Date.now();
+    this.passesInSet = 0;
+    this.sweeps = 0;
+    this.emit('onSetStart', this.currentSet);
+  }
+
+  private endSet(pauseFollows: boolean): void {
+    const record: BLSSetRecord = {
+      setNumber: this.currentSet,
+      passes: this.passesInSet,
+      startedAt: this.setStartedAt,
+      endedAt: Date.now(),
+      pauseDuration: pauseFollows ? this.config.pauseDuration : 0
+    };
+    this.sets.push(record);
+    this.state = 'check-in';
+    this.emit('onSetEnd', record);
+
+    if (pauseFollows) {
+      this.startPause();
+    }
+  }
+
+  private startPause(): void {
+    this.pauseElapsed = false;
+    this.pauseTimeoutId = window.setTimeout(() => {
+      this.pauseTimeoutId = null;
+      this.pauseElapsed = true;
+      const record = this.sets[this.sets.length - 1];
+      // Without an answer the set waits for recordSUD() or nextSet()
+      if (!this.config.waitForCheckIn || record?.sud !== undefined) {
+        this.beginSet();
+      }
+    }, this.config.pauseDuration);
+  }
+
+  private clearPause(): void {
+    if (this.pauseTimeoutId !== null) {
+      clearTimeout(this.pauseTimeoutId);
+      this.pauseTimeoutId = null;
+    }
+    this.pauseElapsed = false;
+  }
+
+  private finish(): void {
+    if (this.state === 'idle' || this.state === 'complete') return;
+    this.clearPause();
+    this.state = 'complete';
+    this.emit('onSequenceComplete', this.getSets());
+  }
+
+  private emit<K extends keyof BLSSetSequencerEvents>(event: K, ...args: Parameters<BLSSetSequencerEvents[K]>): void {
+    this.listeners.forEach(listener => {
+      const handler = listener[event];
+      if (!handler) return;
+      try {
+        (handler as (...handlerArgs: Parameters<BLSSetSequencerEvents[K]>) => void)(...args);
+      } catch (error) {
+        console.error(`Error in BLS set sequencer handler ${event}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Tactile Device for BLS
+ * Handheld left/right pulsers over Web Serial or WebHID, plus a simulated device for testing
+ *
+ * Frame protocol, 7 bytes:
+ *   0    0xA5 start byte
+ *   1    command (0x01 pulse, 0x02 stop, 0x03 ping)
+ *   2    side (0 left, 1 right, 2 both)
+ *   3    intensity 0-255
+ *   4-5  duration in ms, uint16 little-endian
+ *   6    checksum, XOR of bytes 1-5
+ */
+
+export type TactileSide = 'left' | 'right' | 'both';
+export type TactileTransportKind = 'serial' | 'hid' | 'simulated';
+export type TactileConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface TactileCommand {
+  type: 'pulse' | 'stop' | 'ping';
+  side: TactileSide;
+  intensity: number; // 0-1
+  duration: number; // ms
+}
+
+export interface TactileTransport {
+  kind: TactileTransportKind;
+  connect(): Promise<void>;
+  write(frame: Uint8Array): Promise<void>;
+  disconnect(): Promise<void>;
+  onDisconnect?: () => void; // Set by the device; fired when the hardware goes away
+}
+
+export interface TactileDeviceOptions {
+  latency: number; // ms from command to felt pulse, compensated by scheduling ahead
+  serialBaudRate: number;
+  hidFilters: { vendorId?: number; productId?: number }[];
+  hidReportId: number;
+}
+
+export interface TactileDeviceEvents {
+  onStateChange: (state: TactileConnectionState) => void;
+  onPulse: (command: TactileCommand) => void;
+  onError: (error: string) => void;
+}
+
+const FRAME_START = 0xa5;
+const FRAME_LENGTH = 7;
+const COMMAND_CODES: Record<TactileCommand['type'], number> = { pulse: 0x01, stop: 0x02, ping: 0x03 };
+const SIDE_CODES: Record<TactileSide, number> = { left: 0, right: 1, both: 2 };
+const MAX_PULSE_DURATION = 0xffff; // ms, uint16
+
+const DEFAULT_OPTIONS: TactileDeviceOptions = {
+  latency: 0,
+  serialBaudRate: 115200,
+  hidFilters: [],
+  hidReportId: 0
+};
+
+// === Protocol ===
+
+export function encodeTactileFrame(command: TactileCommand): Uint8Array {
+  const intensity = Math.round(Math.max(0, Math.min(1, command.intensity)) * 255);
+  const duration = Math.round(Math.max(0, Math.min(MAX_PULSE_DURATION, command.duration)));
+
+  const frame = new Uint8Array(FRAME_LENGTH);
+  frame[0] = FRAME_START;
+  frame[1] = COMMAND_CODES[command.type];
+  frame[2] = SIDE_CODES[command.side];
+  frame[3] = intensity;
+  frame[4] = duration & 0xff;
+  frame[5] = (duration >> 8) & 0xff;
+  frame[6] = frame[1] ^ frame[2] ^ frame[3] ^ frame[4] ^ frame[5];
+  return frame;
+}
+
+/**
+ * Parse a frame back into a command; null when it is malformed or fails the checksum
+ */
+export function decodeTactileFrame(frame: Uint8Array): TactileCommand | null {
+  if (frame.length !== FRAME_LENGTH || frame[0] !== FRAME_START) return null;
+  if ((frame[1] ^ frame[2] ^ frame[3] ^ frame[4] ^ frame[5]) !== frame[6]) return null;
+
+  const type = (Object.keys(COMMAND_CODES) as TactileCommand['type'][]).find(key => COMMAND_CODES[key] === frame[1]);
+  const side = (Object.keys(SIDE_CODES) as TactileSide[]).find(key => SIDE_CODES[key] === frame[2]);
+  if (!type || !side) return null;
+
+  return {
+    type,
+    side,
+    intensity: frame[3] / 255,
+    duration: frame[4] | (frame[5] << 8)
+  };
+}
+
+// === Transports ===
+
+// Minimal shapes of the Web Serial and WebHID APIs, which the DOM typings do not include yet
+interface SerialPortLike extends EventTarget {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface HIDDeviceLike {
+  opened: boolean;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  sendReport(reportId: number, data: Uint8Array): Promise<void>;
+}
+
+interface SerialLike {
+  requestPort(): Promise<SerialPortLike>;
+}
+
+interface HIDLike extends EventTarget {
+  requestDevice(options: { filters: TactileDeviceOptions['hidFilters'] }): Promise<HIDDeviceLike[]>;
+}
+
+// Fired on navigator.hid for every device, so the handler checks which one went away
+interface HIDConnectionEventLike extends Event {
+  device: HIDDeviceLike;
+}
+
+type NavigatorWithDevices = Navigator & { serial?: SerialLike; hid?: HIDLike };
+
+function getNavigator(): NavigatorWithDevices | undefined {
+  return typeof navigator === 'undefined' ? undefined : navigator as NavigatorWithDevices;
+}
+
+class WebSerialTransport implements TactileTransport {
+  kind: TactileTransportKind = 'serial';
+  onDisconnect?: () => void;
+  private port: SerialPortLike | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+
+  constructor(private baudRate: number) {}
+
+  async connect(): Promise<void> {
+    const serial = getNavigator()?.serial;
+    if (!serial) throw new Error('Web Serial is not supported in this browser');
+
+    // Must run from a user gesture: the browser shows its port picker
+    this.port = await serial.requestPort();
+    await this.port.open({ baudRate: this.baudRate });
+    if (!this.port.writable) throw new Error('Serial port is not writable');
+
+    this.writer = this.port.writable.getWriter();
+    this.port.addEventListener('disconnect', this.handleDisconnect);
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    if (!this.writer) throw new Error('Serial port is not connected');
+    await this.writer.write(frame);
+  }
+
+  async disconnect(): Promise<void> {
+    this.port?.removeEventListener('disconnect', this.handleDisconnect);
+    try {
+      this.writer?.releaseLock();
+      await this.port?.close();
+    } finally {
+      this.writer = null;
+      this.port = null;
+    }
+  }
+
+  private handleDisconnect = (): void => {
+    this.writer = null;
+    this.port = null;
+    this.onDisconnect?.();
+  };
+}
+
+class WebHIDTransport implements TactileTransport {
+  kind: TactileTransportKind = 'hid';
+  onDisconnect?: () => void;
+  private device: HIDDeviceLike | null = null;
+
+  constructor(private filters: TactileDeviceOptions['hidFilters'], private reportId: number) {}
+
+  async connect(): Promise<void> {
+    const hid = getNavigator()?.hid;
+    if (!hid) throw new Error('WebHID is not supported in this browser');
+
+    // Must run from a user gesture: the browser shows its device picker
+    const [device] = await hid.requestDevice({ filters: this.filters });
+    if (!device) throw new Error('No HID device selected');
+
+    if (!device.opened) await device.open();
+    this.device = device;
+    hid.addEventListener('disconnect', this.handleDisconnect);
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    if (!this.device) throw new Error('HID device is not connected');
+    await this.device.sendReport(this.reportId, frame);
+  }
+
+  async disconnect(): Promise<void> {
+    getNavigator()?.hid?.removeEventListener('disconnect', this.handleDisconnect);
+    try {
+      await this.device?.close();
+    } finally {
+      this.device = null;
+    }
+  }
+
+  private handleDisconnect = (event: Event): void => {
+    if ((event as HIDConnectionEventLike).device !== this.device) return;
+    this.device = null;
+    this.onDisconnect?.();
+  };
+}
+
+/**
+ * Decodes frames in memory instead of sending them, so the BLS sync can be checked without hardware
+ */
+export class SimulatedTactileTransport implements TactileTransport {
+  kind: TactileTransportKind = 'simulated';
+  onDisconnect?: () => void;
+  private connected: boolean = false;
+  private received: TactileCommand[] = [];
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    if (!this.connected) throw new Error('Simulated device is not connected');
+    const command = decodeTactileFrame(frame);
+    if (!command) throw new Error('Simulated device received a malformed frame');
+    this.received.push(command);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  getReceived(): TactileCommand[] {
+    return [...this.received];
+  }
+}
+
+// === Device ===
+
+export class TactileDevice {
+  private transport: TactileTransport;
+  private options: TactileDeviceOptions;
+  private state: TactileConnectionState = 'disconnected';
+  private events: Partial<TactileDeviceEvents> = {};
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(transport: TactileTransport, options: Partial<TactileDeviceOptions> = {}) {
+    this.transport = transport;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.transport.onDisconnect = () => this.setState('disconnected');
+  }
+
+  /**
+   * Connect, or reconnect after a failure or a lost device
+   */
+  async connect(): Promise<void> {
+    if (this.state === 'connected' || this.state === 'connecting') return;
+
+    // A failed write leaves the transport half-open; release it before asking for the device again
+    if (this.state === 'error') {
+      await this.transport.disconnect().catch(error => console.warn('Tactile device reset failed:', error));
+    }
+    this.writeQueue = Promise.resolve();
+
+    this.setState('connecting');
+    try {
+      await this.transport.connect();
+      this.setState('connected');
+    } catch (error) {
+      this.fail(`Failed to connect tactile device: ${error}`);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.state === 'disconnected') return;
+
+    try {
+      await this.send({ type: 'stop', side: 'both', intensity: 0, duration: 0 });
+      await this.transport.disconnect();
+    } catch (error) {
+      console.warn('Tactile device disconnect failed:', error);
+    }
+    this.setState('disconnected');
+  }
+
+  /**
+   * Buzz one side; dropped rather than queued up while the device is not connected
+   */
+  pulse(side: TactileSide, intensity: number, duration: number): Promise<void> {
+    return this.send({ type: 'pulse', side, intensity, duration });
+  }
+
+  stop(): Promise<void> {
+    return this.send({ type: 'stop', side: 'both', intensity: 0, duration: 0 });
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  getState(): TactileConnectionState {
+    return this.state;
+  }
+
+  getKind(): TactileTransportKind {
+    return this.transport.kind;
+  }
+
+  getLatency(): number {
+    return this.options.latency;
+  }
+
+  addEventListener<K extends keyof TactileDeviceEvents>(eventName: K, handler: TactileDeviceEvents[K]): void {
+    this.events[eventName] = handler;
+  }
+
+  removeEventListener<K extends keyof TactileDeviceEvents>(eventName: K): void {
+    delete this.events[eventName];
+  }
+
+  // Writes are serialised: a serial writer rejects overlapping writes
+  private send(command: TactileCommand): Promise<void> {
+    if (this.state !== 'connected') return Promise.resolve();
+
+    const frame = encodeTactileFrame(command);
+    this.writeQueue = this.writeQueue
+      .then(() => this.transport.write(frame))
+      .then(() => {
+        if (command.type === 'pulse') this.events.onPulse?.(command);
+      })
+      .catch(error => this.fail(`Tactile device write failed: ${error}`));
+    return this.writeQueue;
+  }
+
+  private fail(message: string): void {
+    console.error(message);
+    this.setState('error');
+    this.events.onError?.(message);
+  }
+
+  private setState(state: TactileConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.events.onStateChange?.(state);
+  }
+}
+
+export function isTactileTransportSupported(kind: TactileTransportKind): boolean {
+  if (kind === 'serial') return !!getNavigator()?.serial;
+  if (kind === 'hid') return !!getNavigator()?.hid;
+  return true;
+}
+
+export function createTactileDevice(kind: TactileTransportKind, options: Partial<TactileDeviceOptions> = {}): TactileDevice {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  switch (kind) {
+    case 'serial':
+      return new TactileDevice(new WebSerialTransport(resolved.serialBaudRate), resolved);
+    case 'hid':
+      return new TactileDevice(new WebHIDTransport(resolved.hidFilters, resolved.hidReportId), resolved);
+    case 'simulated':
+      return new TactileDevice(new SimulatedTactileTransport(), resolved);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * BLS Timing Core
+ * One clock for the stimulus position, shared by the 2D and 3D renderers, audio panning and haptics
+ */
+
+export interface BLSTimingSample {
+  time: number; // performance.now() of the tick
+  phase: number; // 0-1 within the current pass
+  position: number; // 0 = far left, 1 = far right
+  direction: 1 | -1;
+  passes: number; // Completed left-right-left passes
+  sweeps: number; // Edge arrivals since the previous tick
+}
+
+export interface BLSTimingEdge {
+  index: number; // Sweep number since start; odd edges are on the right
+  side: 'left' | 'right';
+  inMs: number; // Time from the last tick until the stimulus reaches the edge
+}
+
+export type BLSTimingListener = (sample: BLSTimingSample) => void;
+
+// Longer gaps (hidden tab, blocked main thread) resume the motion instead of racing through sweeps
+const MAX_FRAME_GAP = 250; // ms
+
+export class BLSTimingCore {
+  private frequency: number; // Hz, full passes per second
+  private running: boolean = false;
+  private cycles: number = 0; // Passes travelled, fractional
+  private lastTime: number = 0;
+  private sample: BLSTimingSample;
+  private listeners: Set<BLSTimingListener> = new Set();
+
+  constructor(frequency: number = 1) {
+    this.frequency = frequency;
+    this.sample = this.createSample(performance.now(), 0);
+  }
+
+  /**
+   * Listen to every tick; returns the unsubscribe function
+   */
+  subscribe(listener: BLSTimingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start a run from the left edge
+   */
+  start(now: number = performance.now()): void {
+    this.cycles = 0;
+    this.lastTime = now;
+    this.running = true;
+    this.sample = this.createSample(now, 0);
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Advance by the real time since the last tick; called once per frame by whichever renderer is active
+   */
+  tick(now: number = performance.now()): BLSTimingSample {
+    if (!this.running) return this.sample;
+
+    const elapsed = Math.max(0, Math.min(now - this.lastTime, MAX_FRAME_GAP));
+    this.lastTime = now;
+
+    // Count every edge crossed, even when one long frame spans several
+    const sweepsBefore = Math.floor(this.cycles * 2);
+    this.cycles += (elapsed / 1000) * this.frequency;
+    const sweeps = Math.floor(this.cycles * 2) - sweepsBefore;
+
+    this.sample = this.createSample(now, sweeps);
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.sample);
+      } catch (error) {
+        console.error('Error in BLS timing listener:', error);
+      }
+    });
+    return this.sample;
+  }
+
+  /**
+   * Position the stimulus will have `aheadMs` after the last tick, for outputs with their own latency
+   */
+  positionAhead(aheadMs: number): number {
+    if (!this.running) return this.sample.position;
+    return this.positionAt(this.cycles + (aheadMs / 1000) * this.frequency);
+  }
+
+  /**
+   * Edges the stimulus reaches within `windowMs` after the last tick, for outputs that schedule ahead
+   */
+  upcomingEdges(windowMs: number): BLSTimingEdge[] {
+    if (!this.running || this.frequency <= 0) return [];
+
+    const edges: BLSTimingEdge[] = [];
+    for (let index = Math.floor(this.cycles * 2) + 1; ; index++) {
+      const inMs = ((index / 2 - this.cycles) / this.frequency) * 1000;
+      if (inMs > windowMs) break;
+      edges.push({ index, side: index % 2 === 1 ? 'right' : 'left', inMs });
+    }
+    return edges;
+  }
+
+  /**
+   * Change the rate; the motion carries on from where it is
+   */
+  setFrequency(hz: number): void {
+    this.frequency = Math.max(0, hz);
+  }
+
+  getFrequency(): number {
+    return this.frequency;
+  }
+
+  getSample(): BLSTimingSample {
+    return this.sample;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  private createSample(time: number, sweeps: number): BLSTimingSample {
+    const phase = this.cycles % 1;
+    return {
+      time,
+      phase,
+      position: this.positionAt(this.cycles),
+      direction: phase < 0.5 ? 1 : -1,
+      passes: Math.floor(this.cycles),
+      sweeps
+    };
+  }
+
+  // Triangle wave: left to right in the first half of a pass, back in the second
+  private positionAt(cycles: number): number {
+    const phase = cycles % 1;
+    return phase < 0.5 ? phase * 2 : 2 - phase * 2;
+  }
+}
@@ -278,7 +278,7 @@ export class TransitionManager {
     const interpolated: BLSConfiguration = JSON.parse(JSON.stringify(from));
     
     // Interpolate numeric values
-    interpolated.speed = this.lerp(from.speed, to.speed, progress);
+    interpolated.rateHz = this.lerp(from.rateHz, to.rateHz, progress);
     interpolated.size = this.lerp(from.size, to.size, progress);
     
     // Interpolate colors (hex to RGB to hex)
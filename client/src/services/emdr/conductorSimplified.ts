@@ -82,61 +82,68 @@ export interface ConductorEvents {
 
 // === Default Phase Configurations ===
 const PHASE_CONFIGS = {
+  'history-taking': {
+    minDuration: 15,
+    maxDuration: 50,
+    description: "Сбор анамнеза и план лечения",
+    aiPrompt: "Давайте познакомимся с вашей историей. Какие события до сих пор вас беспокоят?",
+    blsConfig: { rateHz: 0.4, pattern: 'horizontal' as const, adaptiveMode: false }
+  },
   preparation: {
     minDuration: 5, // minutes
     maxDuration: 15,
     description: "Подготовка к сессии EMDR",
     aiPrompt: "Давайте подготовимся к EMDR сессии. Как вы себя чувствуете?",
-    blsConfig: { speed: 3, pattern: 'horizontal' as const, adaptiveMode: true }
+    blsConfig: { rateHz: 0.6, pattern: 'horizontal' as const, adaptiveMode: true }
   },
   assessment: {
     minDuration: 10,
     maxDuration: 20,
     description: "Оценка и выбор цели",
     aiPrompt: "Выберите воспоминание для работы. Какое событие вы хотели бы проработать?",
-    blsConfig: { speed: 2, pattern: 'horizontal' as const, adaptiveMode: false }
+    blsConfig: { rateHz: 0.4, pattern: 'horizontal' as const, adaptiveMode: false }
   },
   desensitization: {
     minDuration: 15,
     maxDuration: 45,
     description: "Десенсибилизация - основная обработка",
     aiPrompt: "Теперь следите за движением и позвольте всему приходить естественно.",
-    blsConfig: { speed: 5, pattern: 'horizontal' as const, adaptiveMode: true }
+    blsConfig: { rateHz: 1, pattern: 'horizontal' as const, adaptiveMode: true }
   },
   installation: {
     minDuration: 5,
     maxDuration: 15,
     description: "Инсталляция позитивного убеждения",
     aiPrompt: "Укрепляем позитивное убеждение о себе.",
-    blsConfig: { speed: 4, pattern: 'horizontal' as const, adaptiveMode: true }
+    blsConfig: { rateHz: 0.8, pattern: 'horizontal' as const, adaptiveMode: true }
   },
   'body-scan': {
     minDuration: 2,
     maxDuration: 8,
     description: "Сканирование тела",
     aiPrompt: "Просканируйте тело на предмет остаточных ощущений.",
-    blsConfig: { speed: 2, pattern: 'circle' as const, adaptiveMode: false }
+    blsConfig: { rateHz: 0.4, pattern: 'circle' as const, adaptiveMode: false }
   },
   closure: {
     minDuration: 3,
     maxDuration: 10,
     description: "Завершение сессии",
     aiPrompt: "Завершаем сессию. Как вы себя чувствуете?",
-    blsConfig: { speed: 2, pattern: 'circle' as const, adaptiveMode: false }
+    blsConfig: { rateHz: 0.4, pattern: 'circle' as const, adaptiveMode: false }
   },
   reevaluation: {
     minDuration: 5,
     maxDuration: 15,
     description: "Переоценка результатов",
     aiPrompt: "Как изменилось воспоминание с прошлой сессии?",
-    blsConfig: { speed: 3, pattern: 'horizontal' as const, adaptiveMode: false }
+    blsConfig: { rateHz: 0.6, pattern: 'horizontal' as const, adaptiveMode: false }
   },
   integration: {
     minDuration: 5,
     maxDuration: 20,
     description: "Интеграция изменений",
     aiPrompt: "Интегрируем изменения в будущую жизнь.",
-    blsConfig: { speed: 3, pattern: 'infinity3d' as const, adaptiveMode: true }
+    blsConfig: { rateHz: 0.6, pattern: 'infinity3d' as const, adaptiveMode: true }
   }
 };
 
@@ -149,7 +156,7 @@ const ADAPTIVE_RULES = [
       return dominantAffect === 'Anxious' && emotion.arousal > 0.7;
     },
     action: {
-      blsAdjustment: { speed: 2, pattern: 'circle' as const },
+      blsAdjustment: { rateHz: 0.4, pattern: 'circle' as const },
       aiMessage: "Замедляем процесс. Представьте ваше безопасное место.",
       intervention: 'safe-place'
     }
@@ -160,7 +167,7 @@ const ADAPTIVE_RULES = [
       return emotion.arousal < -0.4 && emotion.valence < -0.2;
     },
     action: {
-      blsAdjustment: { speed: 1, pattern: 'horizontal' as const },
+      blsAdjustment: { rateHz: 0.2, pattern: 'horizontal' as const },
       aiMessage: "Давайте вернемся в настоящий момент. Назовите 5 вещей, которые видите.",
       intervention: 'grounding'
     }
@@ -171,7 +178,7 @@ const ADAPTIVE_RULES = [
       return emotion.arousal > 0.8;
     },
     action: {
-      blsAdjustment: { speed: 1, pattern: 'horizontal' as const },
+      blsAdjustment: { rateHz: 0.2, pattern: 'horizontal' as const },
       aiMessage: "Остановимся на минуту. Дышите глубоко.",
       intervention: 'breathing'
     }
@@ -414,7 +421,7 @@ export class SimplifiedEMDRConductor {
     // Update BLS configuration
     if (this.blsRef && phaseConfig.blsConfig) {
       const blsConfig: BLSConfiguration = {
-        speed: phaseConfig.blsConfig.speed,
+        rateHz: phaseConfig.blsConfig.rateHz,
         pattern: phaseConfig.blsConfig.pattern,
         color: '#3b82f6',
         size: 20,
@@ -708,6 +715,10 @@ export class SimplifiedEMDRConductor {
     let nextPhase: EMDRPhase | null = null;
 
     switch (phase) {
+      case 'history-taking':
+        // The clinician decides when the intake is complete
+        break;
+
       case 'preparation':
         // Transition after minimum time and basic readiness
         if (timeInPhase >= phaseConfig.minDuration) {
@@ -873,7 +884,7 @@ export class SimplifiedEMDRConductor {
     const phaseConfig = PHASE_CONFIGS[phase];
 
     return {
-      speed: phaseConfig.blsConfig.speed,
+      rateHz: phaseConfig.blsConfig.rateHz,
       pattern: phaseConfig.blsConfig.pattern,
       color: '#3b82f6',
       size: 20,
@@ -0,0 +1,369 @@
+/**
+ * Encrypted IndexedDB store for EMDR session persistence
+ * Records are gzip-compressed and sealed with AES-GCM under a per-user data key.
+ * The data key never leaves the browser in the clear: it is wrapped (AES-KW) either with a key
+ * derived from the user's passphrase (PBKDF2) or with a per-user key fetched from the server.
+ */
+
+const DB_NAME = 'emdr-session-store';
+const DB_VERSION = 1;
+const RECORDS_STORE = 'records';
+const KEYS_STORE = 'keys';
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export type StoredRecordKind = 'session' | 'history' | 'sync';
+export type KeyProtection = 'passphrase' | 'server';
+
+export interface StoredRecordMeta {
+  key: string;
+  kind: StoredRecordKind;
+  userId: string;
+  startTime?: number;
+  sequence?: number; // Queue order of sync records
+  updatedAt: number;
+  encrypted: boolean;
+}
+
+export interface PutOptions {
+  encrypt: boolean;
+  compress: boolean;
+}
+
+interface SealedPayload {
+  compression: 'gzip' | 'none';
+  iv: Uint8Array | null;
+  data: ArrayBuffer;
+}
+
+interface StoredRecord extends StoredRecordMeta {
+  payload: SealedPayload;
+}
+
+interface StoredKey {
+  userId: string;
+  protection: KeyProtection;
+  wrappedKey: ArrayBuffer;
+  // Passphrase protection
+  salt?: Uint8Array;
+  iterations?: number;
+  // Server protection
+  serverKeyId?: string;
+  createdAt: number;
+}
+
+export class PersistenceLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersistenceLockedError';
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function pipeBytes(data: BufferSource, transform: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+  return new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer();
+}
+
+export class SecureSessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private dataKeys = new Map<string, CryptoKey>();
+  private unlocking = new Map<string, Promise<void>>(); // In-flight unlock per user
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  isUnlocked(userId: string): boolean {
+    return this.dataKeys.has(userId);
+  }
+
+  async getKeyProtection(userId: string): Promise<KeyProtection | null> {
+    const stored = await this.getStoredKey(userId);
+    return stored?.protection ?? null;
+  }
+
+  /**
+   * Unlock with a passphrase. The first call for a user creates their data key;
+   * later calls fail with PersistenceLockedError if the passphrase is wrong.
+   */
+  unlockWithPassphrase(userId: string, passphrase: string): Promise<void> {
+    return this.serialiseUnlock(userId, () => this.openWithPassphrase(userId, passphrase));
+  }
+
+  /**
+   * Unlock with the signed-in user's key from the server
+   */
+  unlockWithServerKey(userId: string): Promise<void> {
+    return this.serialiseUnlock(userId, () => this.openWithServerKey(userId));
+  }
+
+  /**
+   * Unlock with the server key unless the user chose a passphrase on this device.
+   * Callers arriving while an unlock is running share its result.
+   */
+  async ensureUnlocked(userId: string): Promise<void> {
+    if (this.isUnlocked(userId)) return;
+
+    return this.unlocking.get(userId) ?? this.serialiseUnlock(userId, async () => {
+      if (this.isUnlocked(userId)) return;
+      if (await this.getKeyProtection(userId) === 'passphrase') {
+        throw new PersistenceLockedError('Session storage is locked; unlock it with the passphrase first');
+      }
+      await this.openWithServerKey(userId);
+    });
+  }
+
+  /**
+   * Forget all unlocked keys; stored data stays encrypted on disk
+   */
+  lock(): void {
+    this.dataKeys.clear();
+  }
+
+  async put(meta: Omit<StoredRecordMeta, 'updatedAt' | 'encrypted'>, value: unknown, options: PutOptions): Promise<void> {
+    let data: ArrayBuffer = new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer;
+    let compression: SealedPayload['compression'] = 'none';
+
+    if (options.compress && typeof CompressionStream !== 'undefined') {
+      data = await pipeBytes(data, new CompressionStream('gzip'));
+      compression = 'gzip';
+    }
+
+    let iv: Uint8Array | null = null;
+    if (options.encrypt) {
+      const dataKey = this.dataKeys.get(meta.userId);
+      if (!dataKey) {
+        throw new PersistenceLockedError(`Session store is locked for user ${meta.userId}`);
+      }
+      iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, data);
+    }
+
+    const record: StoredRecord = {
+      ...meta,
+      updatedAt: Date.now(),
+      encrypted: options.encrypt,
+      payload: { compression, iv, data }
+    };
+
+    const db = await this.openDb();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    transaction.objectStore(RECORDS_STORE).put(record);
+    await transactionDone(transaction);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const db = await this.openDb();
+    const record = await requestToPromise<StoredRecord | undefined>(
+      db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).get(key)
+    );
+    if (!record) return null;
+
+    const { payload } = record;
+    let data = payload.data;
+
+    if (record.encrypted) {
+      const dataKey = this.dataKeys.get(record.userId);
+      if (!dataKey) {
+        throw new PersistenceLockedError(`Session store is locked for user ${record.userId}`);
+      }
+      data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv! }, dataKey, data);
+    }
+
+    if (payload.compression === 'gzip') {
+      data = await pipeBytes(data, new DecompressionStream('gzip'));
+    }
+
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+  }
+
+  async getMeta(key: string): Promise<StoredRecordMeta | null> {
+    const db = await this.openDb();
+    const record = await requestToPromise<StoredRecord | undefined>(
+      db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).get(key)
+    );
+    if (!record) return null;
+
+    const { payload, ...meta } = record;
+    return meta;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const db = await this.openDb();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    const store = transaction.objectStore(RECORDS_STORE);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Clear-text metadata of stored records, without decrypting them
+   */
+  async listRecords(filter: { kind?: StoredRecordKind; userId?: string } = {}): Promise<StoredRecordMeta[]> {
+    const db = await this.openDb();
+    const records = await requestToPromise<StoredRecord[]>(
+      db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).getAll()
+    );
+
+    return records
+      .filter(record => (!filter.kind || record.kind === filter.kind) && (!filter.userId || record.userId === filter.userId))
+      .map(({ payload, ...meta }) => meta);
+  }
+
+  private async openWithPassphrase(userId: string, passphrase: string): Promise<void> {
+    const stored = await this.getStoredKey(userId);
+
+    if (stored && stored.protection !== 'passphrase') {
+      throw new PersistenceLockedError('Local session data is protected by the server key, not a passphrase');
+    }
+
+    if (stored) {
+      const kek = await this.derivePassphraseKey(passphrase, stored.salt!, stored.iterations!);
+      this.dataKeys.set(userId, await this.unwrapDataKey(stored.wrappedKey, kek, 'Wrong passphrase'));
+      return;
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const kek = await this.derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+    await this.createDataKey(userId, kek, { protection: 'passphrase', salt, iterations: PBKDF2_ITERATIONS });
+  }
+
+  private async openWithServerKey(userId: string): Promise<void> {
+    const stored = await this.getStoredKey(userId);
+
+    if (stored && stored.protection !== 'server') {
+      throw new PersistenceLockedError('Local session data is protected by a passphrase');
+    }
+
+    const response = await fetch('/api/persistence/key', { credentials: 'include' });
+    if (!response.ok) {
+      throw new PersistenceLockedError(`Server key unavailable (${response.status})`);
+    }
+    const { userId: keyOwner, keyId, key } = await response.json() as { userId: string; keyId: string; key: string };
+    // The server only issues the signed-in user's key; sealing someone else's data with it would lock them out
+    if (keyOwner !== userId) {
+      throw new PersistenceLockedError(`Server key belongs to the signed-in user, not to user ${userId}`);
+    }
+    const kek = await crypto.subtle.importKey('raw', base64ToBytes(key), 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+
+    if (stored) {
+      if (stored.serverKeyId !== keyId) {
+        throw new PersistenceLockedError(`Local session data was sealed with server key ${stored.serverKeyId}, server now issues ${keyId}`);
+      }
+      this.dataKeys.set(userId, await this.unwrapDataKey(stored.wrappedKey, kek, 'Server key does not match local session data'));
+      return;
+    }
+
+    await this.createDataKey(userId, kek, { protection: 'server', serverKeyId: keyId });
+  }
+
+  // One unlock at a time per user: two first unlocks would each create a data key, and records sealed
+  // with the one that lost the write to KEYS_STORE could never be decrypted
+  private serialiseUnlock(userId: string, unlock: () => Promise<void>): Promise<void> {
+    const run = (this.unlocking.get(userId) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(unlock);
+    this.unlocking.set(userId, run);
+    const settle = () => {
+      if (this.unlocking.get(userId) === run) this.unlocking.delete(userId);
+    };
+    run.then(settle, settle);
+    return run;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+            db.createObjectStore(RECORDS_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(KEYS_STORE)) {
+            db.createObjectStore(KEYS_STORE, { keyPath: 'userId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStoredKey(userId: string): Promise<StoredKey | null> {
+    const db = await this.openDb();
+    const stored = await requestToPromise<StoredKey | undefined>(
+      db.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(userId)
+    );
+    return stored ?? null;
+  }
+
+  private async derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      material,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private async unwrapDataKey(wrappedKey: ArrayBuffer, kek: CryptoKey, failureMessage: string): Promise<CryptoKey> {
+    try {
+      return await crypto.subtle.unwrapKey('raw', wrappedKey, kek, 'AES-KW', { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    } catch {
+      // AES-KW integrity check failed
+      throw new PersistenceLockedError(failureMessage);
+    }
+  }
+
+  private async createDataKey(
+    userId: string,
+    kek: CryptoKey,
+    protection: Pick<StoredKey, 'protection' | 'salt' | 'iterations' | 'serverKeyId'>
+  ): Promise<void> {
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, kek, 'AES-KW');
+
+    const db = await this.openDb();
+    const transaction = db.transaction(KEYS_STORE, 'readwrite');
+    transaction.objectStore(KEYS_STORE).put({ userId, wrappedKey, createdAt: Date.now(), ...protection } satisfies StoredKey);
+    await transactionDone(transaction);
+
+    this.dataKeys.set(userId, dataKey);
+  }
+}
+
+export const secureSessionStore = new SecureSessionStore();
@@ -20,7 +20,8 @@ import type {
   User,
   CrisisDetection,
   PersonalizedRecommendation,
-  BLSPattern
+  BLSPattern,
+  TreatmentTargetSelection
 } from '@/../../shared/types';
 
 import type {
@@ -48,7 +49,9 @@ import type {
 import { AITherapistService } from '../ai/therapist';
 import { UnifiedEmotionService } from '../emotion/emotionService';
 import { VoiceAITherapistService } from '../ai/voiceAITherapistService';
+import type { BLSSetRecord, BLSSetSequencer } from '../bls/setSequencer';
 import { generateDeterministicId } from '@/lib/deterministicUtils';
+import { sessionSync, toSessionUpsert, type SyncOperationInput } from './sessionSync';
 import { affects98, calculateAffects, getDominantAffect } from '@/../../shared/emotionAffects';
 
 // === Default Configuration ===
@@ -63,6 +66,32 @@ const DEFAULT_EMOTION_THRESHOLDS: EmotionThresholds = {
 };
 
 const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
+  'history-taking': {
+    phase: 'history-taking',
+    minDurationMinutes: 15,
+    maxDurationMinutes: 50,
+    requiredCompletions: ['presenting_problem', 'trauma_targets_listed', 'resources_identified', 'stabilisation_readiness'],
+    exitCriteria: {
+      userConfirmation: true,
+      aiRecommendation: true
+    },
+    adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
+    // No bilateral stimulation while taking history
+    blsSettings: {},
+    aiPrompts: {
+      phaseIntroduction: "Сначала мы познакомимся с вашей историей. Нам не нужно погружаться в подробности — достаточно коротко назвать события, которые до сих пор вас беспокоят.",
+      guidancePrompts: [
+        "Что привело вас на терапию и что вы хотели бы изменить?",
+        "Какие события прошлого до сих пор вызывают беспокойство? Назовите каждое одной фразой.",
+        "Насколько беспокоит каждое из них сегодня, от 0 до 10?",
+        "Какие ситуации в настоящем вызывают похожие чувства?",
+        "Что или кто помогает вам, когда становится тяжело?"
+      ],
+      transitionPrompt: "Мы составили список тем для работы. Готовы перейти к подготовке и освоить техники стабилизации?",
+      completionCheckPrompt: "Есть ли ещё что-то важное, что стоит добавить в вашу историю?"
+    }
+  },
+  
   preparation: {
     phase: 'preparation',
     minDurationMinutes: 5,
@@ -75,7 +104,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 3,
+      rateHz: 0.6,
       pattern: 'horizontal',
       adaptiveMode: true
     },
@@ -102,7 +131,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 2,
+      rateHz: 0.4,
       pattern: 'horizontal',
       adaptiveMode: false
     },
@@ -136,7 +165,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
       overwhelm: 0.7
     },
     blsSettings: {
-      speed: 5,
+      rateHz: 1,
       pattern: 'horizontal',
       adaptiveMode: true,
       audio: {
@@ -176,7 +205,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 4,
+      rateHz: 0.8,
       pattern: 'horizontal',
       adaptiveMode: true
     },
@@ -203,7 +232,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 2,
+      rateHz: 0.4,
       pattern: 'wave3d',
       adaptiveMode: false
     },
@@ -231,7 +260,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 2,
+      rateHz: 0.4,
       pattern: 'circle',
       adaptiveMode: false
     },
@@ -259,7 +288,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 3,
+      rateHz: 0.6,
       pattern: 'horizontal',
       adaptiveMode: false
     },
@@ -287,7 +316,7 @@ const DEFAULT_PHASE_CONFIGS: Record<EMDRPhase, EMDRPhaseConfig> = {
     },
     adaptiveThresholds: DEFAULT_EMOTION_THRESHOLDS,
     blsSettings: {
-      speed: 3,
+      rateHz: 0.6,
       pattern: 'infinity3d',
       adaptiveMode: true
     },
@@ -323,7 +352,7 @@ const DEFAULT_ADAPTIVE_RULES: AdaptiveLogicRule[] = [
       parameters: {
         intervention: 'safe-place',
         interventionDuration: 30,
-        blsConfig: { speed: 2, pattern: 'circle' }
+        blsConfig: { rateHz: 0.4, pattern: 'circle' }
       }
     },
     priority: 9,
@@ -346,7 +375,7 @@ const DEFAULT_ADAPTIVE_RULES: AdaptiveLogicRule[] = [
       parameters: {
         intervention: 'grounding',
         interventionDuration: 45,
-        blsConfig: { speed: 1, pattern: 'horizontal' },
+        blsConfig: { rateHz: 0.2, pattern: 'horizontal' },
         aiPrompt: "Давайте вернемся в настоящий момент. Назовите 5 вещей, которые видите."
       }
     },
@@ -367,7 +396,7 @@ const DEFAULT_ADAPTIVE_RULES: AdaptiveLogicRule[] = [
     action: {
       type: 'bls-adjustment',
       parameters: {
-        blsConfig: { speed: 1, pattern: 'horizontal' },
+        blsConfig: { rateHz: 0.2, pattern: 'horizontal' },
         aiPrompt: "Замедляем процесс. Дышите глубоко и позвольте себе отдохнуть."
       }
     },
@@ -387,7 +416,7 @@ const DEFAULT_ADAPTIVE_RULES: AdaptiveLogicRule[] = [
     action: {
       type: 'bls-adjustment',
       parameters: {
-        blsConfig: { speed: 6, pattern: 'wave3d' },
+        blsConfig: { rateHz: 1.2, pattern: 'wave3d' },
         aiPrompt: "Попробуем увеличить активацию. Что приходит сейчас?"
       }
     },
@@ -433,6 +462,7 @@ export class EMDRSessionConductor {
   private sessionData: EMDRSessionData | null = null;
   private isActive: boolean = false;
   private currentAlgorithmStatus: SessionAlgorithmStatus | null = null;
+  private therapistId: string | null = null; // Supervising therapist, sent with the synced session
   
   // Adaptive Logic
   private adaptiveRules: AdaptiveLogicRule[] = DEFAULT_ADAPTIVE_RULES;
@@ -443,6 +473,8 @@ export class EMDRSessionConductor {
   private autosaveInterval: number | null = null;
   private lastEmotionSnapshot: EmotionSnapshot | null = null;
   private bilateralStimulationRef: any = null; // Reference to BLS component
+  private setSequencerUnsubscribe: (() => void) | null = null;
+  private setPreEmotion: EmotionData | null = null; // Emotion when the running set started
   
   // Performance Metrics
   private metricsUpdateCallbacks: ((metrics: SessionMetrics) => void)[] = [];
@@ -610,9 +642,18 @@ export class EMDRSessionConductor {
           this.events.onError?.(error, 'medium');
         });
         
+        this.voiceService.addEventListener('onSetCheckInResponse', (setNumber, sud) => {
+          if (sud !== null) this.recordSetSUD(sud);
+        });
+        
         console.log('✅ Voice service initialized');
       }
       
+      // Upload whatever an earlier, interrupted session left in the sync queue
+      if (this.config.data.enablePersistence) {
+        sessionSync.resume(user.id).catch(error => console.error('Failed to resume session sync:', error));
+      }
+      
       console.log('🎭 EMDR Session Conductor fully initialized!');
       
     } catch (error) {
@@ -622,9 +663,15 @@ export class EMDRSessionConductor {
   }
 
   /**
-   * Start a new EMDR session
+   * Start a new EMDR session. Without a target memory the session takes the next or unfinished
+   * target from the patient's treatment plan and starts in the phase the plan recommends.
    */
-  async startSession(user: User, targetMemory?: Partial<TargetMemory>): Promise<EMDRSessionData> {
+  async startSession(
+    user: User,
+    targetMemory?: Partial<TargetMemory>,
+    therapistId?: string,
+    requestedPhase?: EMDRPhase
+  ): Promise<EMDRSessionData> {
     if (this.isActive) {
       throw new Error('Session already in progress. End current session first.');
     }
@@ -632,15 +679,33 @@ export class EMDRSessionConductor {
     try {
       console.log('🎬 Starting new EMDR session...');
       
+      let selection: TreatmentTargetSelection | null = null;
+      if (!targetMemory?.description) {
+        selection = await this.selectNextTarget(user.id).catch(error => {
+          console.warn('⚠️ Treatment plan unavailable, starting without a planned target:', error);
+          return null;
+        });
+        targetMemory = selection?.targetMemory ?? targetMemory;
+      }
+      const startPhase = requestedPhase ?? selection?.recommendedPhase ?? 'preparation';
+      
       // Create new session data
-      this.sessionData = await this.createSessionData(user, targetMemory);
+      this.sessionData = await this.createSessionData(user, targetMemory, startPhase);
+      this.sessionData.treatmentTargetId = selection?.target?.id;
+      this.therapistId = therapistId ?? null;
       this.isActive = true;
+      // The AI routes find the server session by this client id, so upload it before the first AI call
+      await this.queueSessionState();
+      await sessionSync.flush(user.id).catch(error => {
+        console.warn('⚠️ Session not uploaded yet, AI responses fall back to defaults until it is:', error);
+      });
+      await this.reportTreatmentTarget('start', { sessionId: this.sessionData.sessionId });
       
       // Initialize AI therapist for this session
       this.aiTherapist.initializeSession(
         this.sessionData.sessionId,
         user.id,
-        'preparation'
+        startPhase
       );
       
       // Start emotion monitoring if enabled
@@ -653,7 +718,7 @@ export class EMDRSessionConductor {
         await this.voiceService.startConversation(
           this.sessionData.sessionId,
           user.id,
-          'preparation'
+          startPhase
         );
       }
       
@@ -667,13 +732,12 @@ export class EMDRSessionConductor {
         currentStep: 'session_initialization',
         progress: 0,
         estimatedTimeRemaining: 60,
-        nextMilestone: 'Begin preparation phase',
+        nextMilestone: `Begin ${startPhase} phase`,
         completionCriteria: ['User ready', 'Systems initialized'],
         currentlyWaitingFor: null
       };
       
-      // Begin preparation phase
-      await this.transitionToPhase('preparation');
+      await this.transitionToPhase(startPhase);
       
       // Fire session start event
       this.events.onSessionStart?.(this.sessionData);
@@ -689,6 +753,19 @@ export class EMDRSessionConductor {
     }
   }
 
+  /**
+   * Phase and target for the patient's next session, chosen from their treatment plan
+   */
+  async selectNextTarget(patientId: string): Promise<TreatmentTargetSelection> {
+    const response = await fetch(`/api/patients/${patientId}/treatment-plan/next-target`, {
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to select target: ${response.status}`);
+    }
+    return await response.json() as TreatmentTargetSelection;
+  }
+
   /**
    * End the current session
    */
@@ -721,10 +798,25 @@ export class EMDRSessionConductor {
       this.sessionData.endTime = Date.now();
       this.sessionData.sessionState = reason === 'completed' ? 'completed' : 'terminated';
       this.sessionData.metrics = metrics;
+      this.queueSessionState();
       
       // Save final session data
       await this.saveSessionData();
       
+      // Carry what was learned into the next session with this therapist
+      await this.saveTherapeuticMemory(metrics);
+      
+      // Resolved targets leave the plan's queue, unfinished ones are picked up next session
+      const { sessionId, targetMemory, progress } = this.sessionData;
+      await this.reportTreatmentTarget('outcome', {
+        sessionId,
+        sud: Math.round(targetMemory.currentSUD),
+        voc: Math.round(targetMemory.currentVOC),
+        bodyScanClear: progress.phaseProgress['body-scan']?.status === 'completed',
+        initialSud: Math.round(targetMemory.initialSUD),
+        initialVoc: Math.round(progress.vocProgress.initialVOC)
+      });
+      
       // Fire session end event
       this.events.onSessionEnd?.(this.sessionData, metrics);
       
@@ -734,6 +826,7 @@ export class EMDRSessionConductor {
       const finalSessionData = this.sessionData;
       this.isActive = false;
       this.sessionData = null;
+      this.therapistId = null;
       this.currentAlgorithmStatus = null;
       
       return metrics;
@@ -764,6 +857,7 @@ export class EMDRSessionConductor {
     
     // Update session state
     this.sessionData.sessionState = 'paused';
+    this.queueSessionState();
     
     // Save current state
     await this.saveSessionData();
@@ -792,6 +886,7 @@ export class EMDRSessionConductor {
     
     // Update session state to current phase
     this.sessionData.sessionState = this.sessionData.currentPhase;
+    this.queueSessionState();
     
     this.events.onSessionResume?.();
     console.log('▶️ Session resumed');
@@ -811,6 +906,7 @@ export class EMDRSessionConductor {
     // Update session data
     this.sessionData.currentPhase = phase;
     this.sessionData.sessionState = phase;
+    this.queueSessionState();
     
     // Update phase progress
     if (previousPhase !== phase) {
@@ -902,6 +998,7 @@ export class EMDRSessionConductor {
     const progress = Math.max(0, (initialSUD - newSUD) / (initialSUD - targetSUD));
     
     this.sessionData.progress.sudProgress.currentSUD = newSUD;
+    this.queueRating('sud', newSUD, phase);
     
     // Update overall session progress
     this.updateOverallProgress();
@@ -940,6 +1037,7 @@ export class EMDRSessionConductor {
     });
     
     this.sessionData.progress.vocProgress.currentVOC = newVOC;
+    this.queueRating('voc', newVOC, phase);
     
     // Update overall progress
     this.updateOverallProgress();
@@ -961,9 +1059,36 @@ export class EMDRSessionConductor {
    */
   setBLSReference(blsRef: any): void {
     this.bilateralStimulationRef = blsRef;
+    
+    // Each BLS set becomes its own effectiveness record with a check-in
+    this.setSequencerUnsubscribe?.();
+    this.setSequencerUnsubscribe = null;
+    const sequencer: BLSSetSequencer | undefined = blsRef?.getSetSequencer?.();
+    if (sequencer) {
+      this.setSequencerUnsubscribe = sequencer.subscribe({
+        onSetStart: () => {
+          this.setPreEmotion = this.lastEmotionSnapshot?.emotionData || this.getDefaultEmotionData();
+        },
+        onSetEnd: (set) => this.handleSetEnd(set),
+        onSetSUD: (set) => this.handleSetSUD(set)
+      });
+    }
+    
     console.log('🔗 BLS component reference set');
   }
 
+  /**
+   * Record the SUDS answered at the check-in after the last BLS set
+   */
+  recordSetSUD(sud: number): void {
+    const sequencer: BLSSetSequencer | undefined = this.bilateralStimulationRef?.getSetSequencer?.();
+    if (sequencer) {
+      sequencer.recordSUD(sud);
+    } else if (this.sessionData) {
+      this.updateSUD(sud, this.sessionData.currentPhase);
+    }
+  }
+
   /**
    * Get current session status
    */
@@ -996,6 +1121,8 @@ export class EMDRSessionConductor {
     
     this.stopEmotionMonitoring();
     this.stopAutoSave();
+    this.setSequencerUnsubscribe?.();
+    this.setSequencerUnsubscribe = null;
     
     if (this.emotionService) {
       await this.emotionService.cleanup();
@@ -1032,7 +1159,7 @@ export class EMDRSessionConductor {
       bls: {
         adaptiveMode: true,
         defaultConfiguration: {
-          speed: 5,
+          rateHz: 1,
           pattern: 'horizontal',
           color: '#3b82f6',
           size: 20,
@@ -1042,7 +1169,7 @@ export class EMDRSessionConductor {
           sessionPhase: 'preparation'
         },
         emergencyConfiguration: {
-          speed: 1,
+          rateHz: 0.2,
           pattern: 'circle',
           color: '#10b981',
           size: 15,
@@ -1115,6 +1242,7 @@ export class EMDRSessionConductor {
       onVoiceInteraction: events.onVoiceInteraction || ((interaction) => console.log('Voice interaction recorded')),
       onBLSConfigChange: events.onBLSConfigChange || ((config, reason) => console.log('BLS config updated:', reason)),
       onBLSEffectivenessUpdate: events.onBLSEffectivenessUpdate || ((eff) => console.log('BLS effectiveness updated')),
+      onSetCheckIn: events.onSetCheckIn || ((record) => console.log('BLS set check-in:', record.set?.number)),
       onCrisisDetected: events.onCrisisDetected || ((crisis) => console.log('CRISIS DETECTED:', crisis.severity)),
       onCrisisResolved: events.onCrisisResolved || ((crisis) => console.log('Crisis resolved:', crisis.id)),
       onSafetyProtocolActivated: events.onSafetyProtocolActivated || ((protocol, severity) => console.log('Safety protocol:', protocol)),
@@ -1126,18 +1254,18 @@ export class EMDRSessionConductor {
     };
   }
 
-  private async createSessionData(user: User, targetMemory?: Partial<TargetMemory>): Promise<EMDRSessionData> {
+  private async createSessionData(user: User, targetMemory: Partial<TargetMemory> | undefined, startPhase: EMDRPhase): Promise<EMDRSessionData> {
     const sessionId = generateDeterministicId('session', user.id, Date.now());
     
     return {
       sessionId,
       userId: user.id,
       startTime: Date.now(),
-      currentPhase: 'preparation',
-      sessionState: 'preparation',
+      currentPhase: startPhase,
+      sessionState: startPhase,
       
       targetMemory: {
-        id: generateDeterministicId('memory', user.id, Date.now()),
+        id: targetMemory?.id || generateDeterministicId('memory', user.id, Date.now()),
         description: targetMemory?.description || '',
         initialSUD: targetMemory?.initialSUD || 10,
         currentSUD: targetMemory?.currentSUD || 10,
@@ -1153,7 +1281,7 @@ export class EMDRSessionConductor {
       progress: {
         overallProgress: 0,
         phaseProgress: Object.fromEntries(
-          Object.values(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'] as EMDRPhase[]).map(phase => [
+          Object.values(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'] as EMDRPhase[]).map(phase => [
             phase,
             {
               phase,
@@ -1175,8 +1303,8 @@ export class EMDRSessionConductor {
           projectedCompletion: 60
         },
         vocProgress: {
-          initialVOC: 1,
-          currentVOC: 1,
+          initialVOC: targetMemory?.currentVOC || 1,
+          currentVOC: targetMemory?.currentVOC || 1,
           targetVOC: 7,
           progressHistory: [],
           strengtheningRate: 0,
@@ -1391,6 +1519,12 @@ export class EMDRSessionConductor {
     // Store snapshot
     this.sessionData.emotionHistory.push(snapshot);
     this.lastEmotionSnapshot = snapshot;
+    this.queueSync({
+      type: 'emotion_capture',
+      clientSessionId: this.sessionData.sessionId,
+      clientTimestamp: snapshot.timestamp,
+      payload: { emotionData, phase: snapshot.phase }
+    });
     
     // Update emotional stability tracking
     this.updateEmotionalStabilityTracking(emotionData);
@@ -1901,6 +2035,71 @@ export class EMDRSessionConductor {
     this.events.onBreakthrough?.(phase, description, impact);
   }
 
+  private handleSetEnd(set: BLSSetRecord): void {
+    if (!this.sessionData) return;
+    
+    const phase = this.sessionData.currentPhase;
+    const postEmotion = this.lastEmotionSnapshot?.emotionData || this.getDefaultEmotionData();
+    const preEmotion = this.setPreEmotion || postEmotion;
+    const arousalDrop = Math.max(-1, Math.min(1, preEmotion.arousal - postEmotion.arousal));
+    
+    const record: BLSEffectivenessRecord = {
+      timestamp: set.endedAt,
+      configuration: this.bilateralStimulationRef?.getConfig?.() || this.config.bls.defaultConfiguration,
+      duration: Math.round((set.endedAt - set.startedAt) / 1000),
+      phase,
+      set: {
+        number: set.setNumber,
+        passes: set.passes,
+        pauseDuration: set.pauseDuration
+      },
+      preEmotionState: preEmotion,
+      postEmotionState: postEmotion,
+      sudImpact: 0, // Filled in once the check-in SUDS arrives
+      engagementImpact: 0,
+      stabilityImpact: arousalDrop,
+      userExperience: {
+        comfort: 5,
+        effectiveness: 5,
+        preference: 5
+      },
+      effectiveness: {
+        overallScore: 0.5 + arousalDrop * 0.25,
+        emotionalProcessing: 0.5 + arousalDrop * 0.25,
+        memoryAccess: 0.5,
+        bilateralActivation: Math.min(1, set.passes / 24),
+        therapeuticGain: 0.5
+      }
+    };
+    
+    this.sessionData.blsHistory.push(record);
+    this.setPreEmotion = null;
+    
+    console.log(`🔁 BLS set ${set.setNumber} complete (${set.passes} passes)`);
+    this.events.onBLSEffectivenessUpdate?.(record);
+    this.events.onSetCheckIn?.(record);
+    
+    if (this.voiceService && set.pauseDuration > 0) {
+      this.voiceService.promptSetCheckIn(set.setNumber, phase).catch(error => {
+        console.error('Failed to prompt set check-in:', error);
+      });
+    }
+  }
+
+  private handleSetSUD(set: BLSSetRecord): void {
+    if (!this.sessionData || set.sud === undefined) return;
+    
+    const record = this.sessionData.blsHistory.find(r => r.set?.number === set.setNumber && r.timestamp === set.endedAt);
+    if (record?.set) {
+      record.set.sud = set.sud;
+      record.sudImpact = this.sessionData.targetMemory.currentSUD - set.sud;
+      record.effectiveness.therapeuticGain = Math.max(0, Math.min(1, 0.5 + record.sudImpact / 10));
+      this.events.onBLSEffectivenessUpdate?.(record);
+    }
+    
+    this.updateSUD(set.sud, this.sessionData.currentPhase);
+  }
+
   private async handleVoiceInteraction(interaction: any): Promise<void> {
     // TODO: Process voice interaction and record it
     console.log('🎤 Voice interaction processed');
@@ -1945,9 +2144,34 @@ export class EMDRSessionConductor {
     // Execute crisis response
     await this.executeCrisisResponse(crisisEvent);
     
+    // The server alerts the therapist and escalates if nobody responds; BLS waits until then
+    if (crisis.monitoring?.alertTherapist) {
+      this.reportCrisis(crisis);
+      if (this.isActive && this.sessionData?.sessionState !== 'paused') {
+        await this.pauseSession('crisis_alert');
+      }
+    }
+    
     this.events.onCrisisDetected?.(crisisEvent);
   }
 
+  private reportCrisis(crisis: CrisisDetection): void {
+    fetch('/api/crisis/events', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ source: 'conductor', detection: crisis })
+    })
+      .then(response => {
+        if (!response.ok) {
+          console.warn(`⚠️ Crisis report rejected: ${response.status}`);
+        }
+      })
+      .catch(error => console.error('❌ Failed to report crisis:', error));
+  }
+
   private async executeCrisisResponse(crisisEvent: CrisisEventRecord): Promise<void> {
     const { severity } = crisisEvent;
     
@@ -2054,7 +2278,7 @@ export class EMDRSessionConductor {
   }
 
   private getNextMilestone(phase: EMDRPhase): string {
-    const phaseOrder: EMDRPhase[] = ['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'];
+    const phaseOrder: EMDRPhase[] = ['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'];
     const currentIndex = phaseOrder.indexOf(phase);
     
     if (currentIndex < phaseOrder.length - 1) {
@@ -2066,6 +2290,8 @@ export class EMDRSessionConductor {
 
   private getCurrentWaitingFor(phase: EMDRPhase): string | null {
     switch (phase) {
+      case 'history-taking':
+        return 'Trauma targets, resources and stabilisation readiness';
       case 'preparation':
         return 'Patient readiness confirmation';
       case 'assessment':
@@ -2118,7 +2344,7 @@ export class EMDRSessionConductor {
       effectiveTherapyTime: totalDuration * 0.8, // Estimate 80% effective time
       phaseDistribution: this.calculatePhaseDistribution(),
       sudReduction: this.sessionData.targetMemory.initialSUD - this.sessionData.targetMemory.currentSUD,
-      vocImprovement: this.sessionData.targetMemory.currentVOC - 1, // Started at 1
+      vocImprovement: this.sessionData.targetMemory.currentVOC - this.sessionData.progress.vocProgress.initialVOC,
       emotionalStabilityGain: this.sessionData.progress.emotionalStability.currentStability - 0.5, // Started at 0.5
       aiInteractions: {
         total: this.sessionData.aiInteractions.length,
@@ -2293,6 +2519,37 @@ export class EMDRSessionConductor {
     }
   }
 
+  /**
+   * Queue a change for the server; the sync queue uploads it whenever the browser is online
+   */
+  private queueSync(operation: SyncOperationInput): Promise<void> {
+    if (!this.sessionData || !this.config.data.enablePersistence) return Promise.resolve();
+    
+    return sessionSync.enqueue(this.sessionData.userId, operation).catch(error => {
+      console.error('Failed to queue session sync:', error);
+    });
+  }
+
+  private queueSessionState(): Promise<void> {
+    if (!this.sessionData) return Promise.resolve();
+    return this.queueSync(toSessionUpsert(this.sessionData, this.therapistId ?? undefined));
+  }
+
+  private queueRating(scale: 'sud' | 'voc', value: number, phase: EMDRPhase): void {
+    if (!this.sessionData) return;
+    
+    this.queueSync({
+      type: 'rating_update',
+      clientSessionId: this.sessionData.sessionId,
+      payload: {
+        scale,
+        value: scale === 'sud' ? Math.round(value) : value,
+        phase,
+        emotionData: this.lastEmotionSnapshot?.emotionData || this.getDefaultEmotionData()
+      }
+    });
+  }
+
   private async saveSessionData(): Promise<void> {
     if (!this.sessionData || !this.config.data.enablePersistence) return;
     
@@ -2318,6 +2575,101 @@ export class EMDRSessionConductor {
       this.events.onError?.('Failed to save session data', 'medium');
     }
   }
+
+  /**
+   * Upsert cross-session therapeutic memory; the server takes the patient-therapist pair from the session
+   */
+  private async saveTherapeuticMemory(metrics: SessionMetrics): Promise<void> {
+    if (!this.sessionData || !this.config.data.enablePersistence) return;
+    
+    try {
+      const { targetMemory, personalization, emotionHistory } = this.sessionData;
+      const optimalConfig = metrics.blsMetrics.optimalConfiguration;
+      
+      // Colors of BLS sets that actually lowered SUD
+      const effectiveColors = Array.from(new Set(
+        this.sessionData.blsHistory
+          .filter(record => record.sudImpact < 0)
+          .map(record => record.configuration.color)
+      ));
+      
+      const keyThemes = Array.from(new Set([
+        ...targetMemory.negativeBeliefs,
+        ...personalization.learnedPatterns.emotionalTriggers
+      ])).filter(theme => theme.trim().length > 0);
+      
+      const affectCounts = emotionHistory.reduce<Record<string, number>>((counts, snapshot) => {
+        const affect = snapshot.analysis.dominantAffect;
+        counts[affect] = (counts[affect] || 0) + 1;
+        return counts;
+      }, {});
+      
+      const response = await fetch(`/api/sessions/${encodeURIComponent(this.sessionData.sessionId)}/therapeutic-memory`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          sessionCompleted: true,
+          keyThemes,
+          progressMetrics: {
+            sudsReduction: metrics.sudReduction,
+            vocImprovement: metrics.vocImprovement,
+            emotionalStability: metrics.emotionMetrics.averageStability
+          },
+          adaptivePreferences: optimalConfig ? {
+            preferredBLSPattern: optimalConfig.pattern,
+            optimalRateHz: optimalConfig.rateHz,
+            effectiveColors: effectiveColors.length > 0 ? effectiveColors : [optimalConfig.color]
+          } : undefined,
+          emotionalPatterns: {
+            volatilityIndex: metrics.emotionMetrics.volatilityIndex,
+            dominantAffects: Object.entries(affectCounts)
+              .sort(([, a], [, b]) => b - a)
+              .slice(0, 3)
+              .map(([affect]) => affect)
+          }
+        })
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      console.log('🧠 Therapeutic memory updated');
+    } catch (error) {
+      // Memory is an enhancement - never block session end on it
+      console.error('Failed to save therapeutic memory:', error);
+      this.events.onError?.('Failed to save therapeutic memory', 'low');
+    }
+  }
+
+  /**
+   * Report the session's start or outcome on its treatment plan target
+   */
+  private async reportTreatmentTarget(action: 'start' | 'outcome', body: Record<string, unknown>): Promise<void> {
+    if (!this.sessionData?.treatmentTargetId) return;
+    
+    try {
+      const { userId, treatmentTargetId } = this.sessionData;
+      const response = await fetch(`/api/patients/${userId}/treatment-plan/targets/${treatmentTargetId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(body)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      // The target stays in-process and is resumed next session
+      console.error(`Failed to report treatment target ${action}:`, error);
+      this.events.onError?.('Failed to update treatment plan', 'low');
+    }
+  }
 }
 
 // === Export Main Class ===
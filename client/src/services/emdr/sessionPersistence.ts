@@ -1,6 +1,8 @@
 /**
  * Session Persistence Service for EMDR Session Conductor
- * Handles data storage, retrieval, and session history management
+ * Handles data storage, retrieval, and session history management.
+ * Data lives in an encrypted IndexedDB store (see secureStore.ts); entries left in
+ * localStorage by earlier versions are moved there the first time the store is used.
  */
 
 import type { 
@@ -11,7 +13,82 @@ import type {
   BLSEffectivenessRecord
 } from './types';
 import type { BLSConfiguration, User } from '@/../../shared/types';
+import { migrateLegacyBLSSpeed } from '@/../../shared/types';
 import { generateDeterministicId } from '@/lib/deterministicUtils';
+import { secureSessionStore } from './secureStore';
+import { sessionSync, toSessionUpsert } from './sessionSync';
+
+// Bump when the stored session shape changes and add a step to SESSION_MIGRATIONS
+export const SESSION_SCHEMA_VERSION = 3;
+const EXPORT_FORMAT_VERSION = '2.0';
+
+const SESSION_KEY_PREFIX = 'emdr_session_';
+const HISTORY_KEY_PREFIX = 'emdr_history_';
+
+type StoredSessionData = EMDRSessionData & {
+  schemaVersion: number;
+  savedAt: number;
+};
+
+export interface UserDataExport {
+  history: UserSessionHistory;
+  sessions: EMDRSessionData[];
+  exportDate: number;
+  version: string;
+}
+
+/**
+ * Steps that upgrade a stored session from the keyed version to the next one
+ */
+const SESSION_MIGRATIONS: Record<number, (data: any) => any> = {
+  // Unversioned records: history arrays could be missing
+  0: data => ({
+    ...data,
+    aiInteractions: data.aiInteractions ?? [],
+    emotionHistory: data.emotionHistory ?? [],
+    blsHistory: data.blsHistory ?? [],
+    voiceInteractions: data.voiceInteractions ?? [],
+    crisisEvents: data.crisisEvents ?? []
+  }),
+  // '1.0' records carried a string version instead of schemaVersion
+  1: ({ version, ...data }) => data,
+  // BLS configurations carried a 1-10 speed instead of rateHz
+  2: data => ({
+    ...data,
+    blsHistory: data.blsHistory.map((record: any) => ({
+      ...record,
+      configuration: migrateLegacyBLSSpeed(record.configuration)
+    })),
+    metrics: data.metrics?.blsMetrics
+      ? {
+          ...data.metrics,
+          blsMetrics: {
+            ...data.metrics.blsMetrics,
+            optimalConfiguration: migrateLegacyBLSSpeed(data.metrics.blsMetrics.optimalConfiguration)
+          }
+        }
+      : data.metrics,
+    personalization: data.personalization && migrateEffectiveBLSConfigs(data.personalization)
+  })
+};
+
+// Personalization is also kept in the unversioned user history, so this runs on every history read too
+function migrateEffectiveBLSConfigs<T extends { effectiveConfigs?: { blsConfigurations?: BLSConfiguration[] } }>(personalization: T): T {
+  const configs = personalization.effectiveConfigs?.blsConfigurations;
+  if (!configs) return personalization;
+  return {
+    ...personalization,
+    effectiveConfigs: {
+      ...personalization.effectiveConfigs,
+      blsConfigurations: configs.map(config => migrateLegacyBLSSpeed(config))
+    }
+  };
+}
+
+function getStoredSchemaVersion(data: any): number {
+  if (typeof data.schemaVersion === 'number') return data.schemaVersion;
+  return data.version === '1.0' ? 1 : 0;
+}
 
 export interface SessionHistoryEntry {
   sessionId: string;
@@ -57,7 +134,7 @@ export interface PersistenceConfig {
  */
 export class EMDRSessionPersistence {
   private config: PersistenceConfig;
-  private encryptionKey: string | null = null;
+  private legacyMigrations = new Map<string, Promise<void>>();
 
   constructor(config: Partial<PersistenceConfig> = {}) {
     this.config = {
@@ -70,18 +147,30 @@ export class EMDRSessionPersistence {
     };
   }
 
+  /**
+   * Unlock encrypted storage with the user's passphrase instead of the server key.
+   * The first unlock picks the protection for that user on this device.
+   */
+  async unlockWithPassphrase(userId: string, passphrase: string): Promise<void> {
+    await secureSessionStore.unlockWithPassphrase(userId, passphrase);
+  }
+
+  /**
+   * Forget unlocked keys, e.g. on logout
+   */
+  lock(): void {
+    secureSessionStore.lock();
+  }
+
   /**
    * Save complete session data
    */
   async saveSession(sessionData: EMDRSessionData): Promise<void> {
     try {
       console.log('💾 Saving EMDR session data...');
+      await this.ready(sessionData.userId);
       
-      // Prepare session data for storage
-      const dataToSave = this.prepareSessionDataForStorage(sessionData);
-      
-      // Save to localStorage (primary storage)
-      await this.saveToLocalStorage(`emdr_session_${sessionData.sessionId}`, dataToSave);
+      await this.writeSession(sessionData);
       
       // Update session history
       await this.updateSessionHistory(sessionData);
@@ -108,9 +197,10 @@ export class EMDRSessionPersistence {
   async loadSession(sessionId: string): Promise<EMDRSessionData | null> {
     try {
       console.log(`📂 Loading session: ${sessionId}`);
+      await this.ready();
       
-      // Try localStorage first
-      const data = await this.loadFromLocalStorage(`emdr_session_${sessionId}`);
+      // Try the local store first
+      const data = await this.readRecord<unknown>(`${SESSION_KEY_PREFIX}${sessionId}`);
       
       if (data) {
         return this.parseSessionDataFromStorage(data);
@@ -135,11 +225,12 @@ export class EMDRSessionPersistence {
   async getUserHistory(userId: string): Promise<UserSessionHistory | null> {
     try {
       console.log(`📊 Loading user history: ${userId}`);
+      await this.ready(userId);
       
-      const historyData = await this.loadFromLocalStorage(`emdr_history_${userId}`);
+      const history = await this.readRecord<UserSessionHistory>(`${HISTORY_KEY_PREFIX}${userId}`);
       
-      if (historyData) {
-        return JSON.parse(historyData);
+      if (history) {
+        return { ...history, personalization: migrateEffectiveBLSConfigs(history.personalization) };
       }
       
       // Create empty history if none exists
@@ -174,7 +265,7 @@ export class EMDRSessionPersistence {
       const history = await this.getUserHistory(userId);
       if (history) {
         history.personalization = personalization;
-        await this.saveToLocalStorage(`emdr_history_${userId}`, JSON.stringify(history));
+        await this.writeHistory(history);
       }
       
       console.log('✅ Personalization saved');
@@ -228,7 +319,7 @@ export class EMDRSessionPersistence {
       // Add or update configuration effectiveness
       const existingIndex = effectiveConfigs.findIndex(c => 
         c.pattern === config.pattern && 
-        Math.abs(c.speed - config.speed) < 0.5
+        Math.abs(c.rateHz - config.rateHz) < 0.1
       );
       
       if (existingIndex >= 0) {
@@ -259,7 +350,7 @@ export class EMDRSessionPersistence {
         }
       }
       
-      await this.saveToLocalStorage(`emdr_history_${userId}`, JSON.stringify(history));
+      await this.writeHistory(history);
       
     } catch (error) {
       console.error('Failed to record BLS effectiveness:', error);
@@ -307,31 +398,14 @@ export class EMDRSessionPersistence {
       console.log(`🧹 Cleaning up sessions older than ${maxAge} days`);
       
       const cutoffTime = Date.now() - (maxAge * 24 * 60 * 60 * 1000);
-      const keysToRemove: string[] = [];
-      
-      // Check localStorage for old sessions
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('emdr_session_')) {
-          try {
-            const data = localStorage.getItem(key);
-            if (data) {
-              const sessionData = JSON.parse(data);
-              if (sessionData.startTime && sessionData.startTime < cutoffTime) {
-                keysToRemove.push(key);
-              }
-            }
-          } catch (e) {
-            // Invalid data, mark for removal
-            keysToRemove.push(key);
-          }
-        }
-      }
       
-      // Remove old sessions
-      keysToRemove.forEach(key => {
-        localStorage.removeItem(key);
-      });
+      // Start times are kept in clear-text metadata, so nothing needs decrypting
+      const sessions = await secureSessionStore.listRecords({ kind: 'session' });
+      const keysToRemove = sessions
+        .filter(record => (record.startTime ?? record.updatedAt) < cutoffTime)
+        .map(record => record.key);
+      
+      await secureSessionStore.delete(keysToRemove);
       
       console.log(`✅ Cleaned up ${keysToRemove.length} old sessions`);
       
@@ -343,12 +417,7 @@ export class EMDRSessionPersistence {
   /**
    * Export user data for backup/transfer
    */
-  async exportUserData(userId: string): Promise<{
-    history: UserSessionHistory;
-    sessions: EMDRSessionData[];
-    exportDate: number;
-    version: string;
-  }> {
+  async exportUserData(userId: string): Promise<UserDataExport> {
     try {
       console.log(`📤 Exporting data for user: ${userId}`);
       
@@ -369,7 +438,7 @@ export class EMDRSessionPersistence {
         history: history || this.createEmptyUserHistory(userId),
         sessions,
         exportDate: Date.now(),
-        version: '1.0'
+        version: EXPORT_FORMAT_VERSION
       };
       
     } catch (error) {
@@ -379,23 +448,22 @@ export class EMDRSessionPersistence {
   }
 
   /**
-   * Import user data from backup
+   * Import user data from backup. Exports from older versions are migrated;
+   * the imported history replaces the local one as-is.
    */
-  async importUserData(data: {
-    history: UserSessionHistory;
-    sessions: EMDRSessionData[];
-    exportDate: number;
-    version: string;
-  }): Promise<void> {
+  async importUserData(data: UserDataExport): Promise<void> {
     try {
       console.log('📥 Importing user data...');
+      await this.ready(data.history.userId);
+      
+      if (parseFloat(data.version) > parseFloat(EXPORT_FORMAT_VERSION)) {
+        throw new Error(`Export version ${data.version} is newer than supported ${EXPORT_FORMAT_VERSION}`);
+      }
       
-      // Save history
-      await this.saveToLocalStorage(`emdr_history_${data.history.userId}`, JSON.stringify(data.history));
+      await this.writeHistory(data.history);
       
-      // Save sessions
       for (const session of data.sessions) {
-        await this.saveSession(session);
+        await this.writeSession(this.parseSessionDataFromStorage(session));
       }
       
       console.log(`✅ Imported ${data.sessions.length} sessions and history`);
@@ -408,92 +476,155 @@ export class EMDRSessionPersistence {
 
   // === Private Helper Methods ===
 
-  private prepareSessionDataForStorage(sessionData: EMDRSessionData): any {
-    const prepared = { ...sessionData };
+  private prepareSessionDataForStorage(sessionData: EMDRSessionData): StoredSessionData {
+    // Full emotion history is kept; compression happens at the storage layer
+    return {
+      ...sessionData,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      savedAt: Date.now()
+    };
+  }
+
+  private parseSessionDataFromStorage(data: unknown): EMDRSessionData {
+    let parsed: any = typeof data === 'string' ? JSON.parse(data) : data;
+    let version = getStoredSchemaVersion(parsed);
     
-    // Add metadata
-    prepared.savedAt = Date.now();
-    prepared.version = '1.0';
+    if (version > SESSION_SCHEMA_VERSION) {
+      throw new Error(`Session ${parsed.sessionId} was saved by a newer version (schema ${version})`);
+    }
     
-    // Compress if enabled
-    if (this.config.enableCompression) {
-      // Simple compression: remove verbose emotion history if too large
-      if (prepared.emotionHistory && prepared.emotionHistory.length > 100) {
-        prepared.emotionHistory = prepared.emotionHistory.slice(-50); // Keep last 50
-      }
+    if (version < SESSION_SCHEMA_VERSION) {
+      console.log(`📈 Migrating session ${parsed.sessionId} from schema ${version} to ${SESSION_SCHEMA_VERSION}`);
+    }
+    while (version < SESSION_SCHEMA_VERSION) {
+      parsed = SESSION_MIGRATIONS[version](parsed);
+      version++;
     }
+    parsed.schemaVersion = version;
     
-    return prepared;
+    return parsed;
   }
 
-  private parseSessionDataFromStorage(data: string): EMDRSessionData {
-    const parsed = JSON.parse(data);
-    
-    // Migrate old versions if needed
-    if (!parsed.version) {
-      console.log('📈 Migrating session data to current version');
-      // Add migration logic here if needed
+  /**
+   * Open the store and move the user's data earlier versions left in localStorage.
+   * Other users' legacy entries on a shared device stay put until they sign in themselves.
+   */
+  private ready(userId?: string): Promise<void> {
+    if (!secureSessionStore.isAvailable()) {
+      return Promise.reject(new Error('IndexedDB and WebCrypto are required for session persistence'));
     }
+    if (!userId) return Promise.resolve();
     
-    return parsed;
+    let migration = this.legacyMigrations.get(userId);
+    if (!migration) {
+      migration = this.migrateLegacyStorage(userId).catch(error => {
+        console.error('Failed to migrate legacy session storage:', error);
+      });
+      this.legacyMigrations.set(userId, migration);
+    }
+    return migration;
   }
 
-  private async saveToLocalStorage(key: string, data: any): Promise<void> {
+  private async migrateLegacyStorage(userId: string): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    
+    // Only sessions listed in a history were written by this service; conductors share the key prefix
+    const historyKey = `${HISTORY_KEY_PREFIX}${userId}`;
+    const history = this.readLegacyEntry<UserSessionHistory>(historyKey);
+    if (!history || history.userId !== userId) return;
+    
     try {
-      const serialized = typeof data === 'string' ? data : JSON.stringify(data);
-      
-      if (this.config.enableEncryption && this.encryptionKey) {
-        // Simple encryption placeholder
-        const encrypted = btoa(serialized); // Base64 encoding as placeholder
-        localStorage.setItem(key, encrypted);
-      } else {
-        localStorage.setItem(key, serialized);
+      const migratedKeys = [historyKey];
+      for (const entry of history.recentSessions) {
+        const sessionKey = `${SESSION_KEY_PREFIX}${entry.sessionId}`;
+        const session = this.readLegacyEntry<unknown>(sessionKey);
+        if (!session) continue;
+        
+        const sessionData = this.parseSessionDataFromStorage(session);
+        if (sessionData.userId !== userId) continue;
+        await this.writeSession(sessionData);
+        migratedKeys.push(sessionKey);
       }
+      await this.writeHistory(history);
       
+      migratedKeys.forEach(key => localStorage.removeItem(key));
+      console.log(`📦 Moved ${migratedKeys.length - 1} sessions of user ${history.userId} to encrypted storage`);
+    } catch (error) {
+      // Left in place for the next attempt, e.g. once the store can be unlocked
+      console.warn(`Could not migrate ${historyKey}:`, error);
+    }
+  }
+
+  private readLegacyEntry<T>(key: string): T | null {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    
+    try {
+      return JSON.parse(raw);
+    } catch {
+      // Written by the old base64 "encryption"
+      try {
+        return JSON.parse(atob(raw));
+      } catch {
+        console.warn(`Skipping unreadable legacy entry: ${key}`);
+        return null;
+      }
+    }
+  }
+
+  private async writeSession(sessionData: EMDRSessionData): Promise<void> {
+    await this.writeRecord(
+      { key: `${SESSION_KEY_PREFIX}${sessionData.sessionId}`, kind: 'session', userId: sessionData.userId, startTime: sessionData.startTime },
+      this.prepareSessionDataForStorage(sessionData)
+    );
+  }
+
+  private async writeHistory(history: UserSessionHistory): Promise<void> {
+    await this.writeRecord({ key: `${HISTORY_KEY_PREFIX}${history.userId}`, kind: 'history', userId: history.userId }, history);
+  }
+
+  private async writeRecord(
+    meta: Parameters<typeof secureSessionStore.put>[0],
+    value: unknown
+  ): Promise<void> {
+    if (this.config.enableEncryption) {
+      await secureSessionStore.ensureUnlocked(meta.userId);
+    }
+    const options = { encrypt: this.config.enableEncryption, compress: this.config.enableCompression };
+    
+    try {
+      await secureSessionStore.put(meta, value, options);
     } catch (error) {
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        console.warn('🚨 LocalStorage quota exceeded, cleaning up...');
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        console.warn('🚨 Storage quota exceeded, cleaning up...');
         await this.cleanupOldSessions(7); // Clean sessions older than 7 days
         
         // Try again
-        const serialized = typeof data === 'string' ? data : JSON.stringify(data);
-        localStorage.setItem(key, serialized);
+        await secureSessionStore.put(meta, value, options);
       } else {
         throw error;
       }
     }
   }
 
-  private async loadFromLocalStorage(key: string): Promise<string | null> {
-    try {
-      const data = localStorage.getItem(key);
-      
-      if (!data) return null;
-      
-      if (this.config.enableEncryption && this.encryptionKey) {
-        // Simple decryption placeholder
-        return atob(data); // Base64 decoding as placeholder
-      } else {
-        return data;
-      }
-      
-    } catch (error) {
-      console.error(`Failed to load from localStorage: ${key}`, error);
-      return null;
+  private async readRecord<T>(key: string): Promise<T | null> {
+    const meta = await secureSessionStore.getMeta(key);
+    if (!meta) return null;
+    
+    if (meta.encrypted) {
+      await secureSessionStore.ensureUnlocked(meta.userId);
     }
+    return secureSessionStore.get<T>(key);
   }
 
   private async saveToRemoteStorage(sessionData: EMDRSessionData): Promise<void> {
-    // Placeholder for remote storage implementation
-    console.log('🌐 Remote storage save (placeholder)');
-    
-    // TODO: Implement actual remote storage
-    // This could be a REST API, Firebase, or other cloud storage
+    // Uploaded by the offline sync queue as soon as the browser is online
+    await sessionSync.enqueue(sessionData.userId, toSessionUpsert(sessionData));
   }
 
   private async loadFromRemoteStorage(sessionId: string): Promise<EMDRSessionData | null> {
-    // Placeholder for remote storage implementation
-    console.log('🌐 Remote storage load (placeholder)');
+    // The server keeps session summaries, captures and snapshots, not full conductor state
+    console.log(`🌐 No remote copy of conductor state for session ${sessionId}`);
     return null;
   }
 
@@ -544,7 +675,7 @@ export class EMDRSessionPersistence {
       }
       
       // Save updated history
-      await this.saveToLocalStorage(`emdr_history_${sessionData.userId}`, JSON.stringify(history));
+      await this.writeHistory(history);
       
     } catch (error) {
       console.error('Failed to update session history:', error);
@@ -592,7 +723,7 @@ export class EMDRSessionPersistence {
       historical.averageVOCGain = (historical.averageVOCGain + sessionHistorical.averageVOCGain) / 2;
       
       // Save updated history
-      await this.saveToLocalStorage(`emdr_history_${sessionData.userId}`, JSON.stringify(history));
+      await this.writeHistory(history);
       
     } catch (error) {
       console.error('Failed to update personalization:', error);
@@ -667,7 +798,7 @@ export class EMDRSessionPersistence {
 
   private getDefaultBLSConfig(): BLSConfiguration {
     return {
-      speed: 5,
+      rateHz: 1,
       pattern: 'horizontal',
       color: '#3b82f6',
       size: 20,
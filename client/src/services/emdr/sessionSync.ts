@@ -0,0 +1,325 @@
+/**
+ * Offline-first Session Sync
+ * Queues session state, emotion snapshots and SUD/VOC ratings in the encrypted local store and
+ * uploads them to /api/sync/batch whenever the browser is online. An operation leaves the queue
+ * only after the server has answered for it, so a dropped connection never loses data; its
+ * idempotency key makes re-sending after a lost response harmless.
+ */
+
+import type {
+  SessionSyncOperation,
+  SyncBatchResponse,
+  SyncOperationResult
+} from '@/../../shared/types';
+import type { EMDRSessionData } from './types';
+import { secureSessionStore } from './secureStore';
+
+const SYNC_KEY_PREFIX = 'emdr_sync_';
+const MAX_BATCH_OPERATIONS = 100;
+// Stays under the server's default 100kb JSON body limit
+const MAX_BATCH_BYTES = 80 * 1024;
+const FLUSH_DELAY_MS = 2000;
+const MIN_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// An operation as handed to the queue; identity and timing are filled in on enqueue
+type WithoutQueueFields<T> = T extends SessionSyncOperation
+  ? Omit<T, 'idempotencyKey' | 'clientTimestamp'> & { clientTimestamp?: number }
+  : never;
+export type SyncOperationInput = WithoutQueueFields<SessionSyncOperation>;
+
+/**
+ * Session state as a session_upsert operation
+ */
+export function toSessionUpsert(sessionData: EMDRSessionData, therapistId?: string): SyncOperationInput {
+  const { sessionId, sessionState, currentPhase, startTime, endTime, targetMemory } = sessionData;
+  const status = sessionState === 'paused' || sessionState === 'interrupted' ? 'paused'
+    : sessionState === 'completed' ? 'completed'
+    : sessionState === 'terminated' ? 'cancelled'
+    : 'active';
+
+  return {
+    type: 'session_upsert',
+    clientSessionId: sessionId,
+    payload: {
+      therapistId,
+      startTime,
+      endTime,
+      phase: currentPhase,
+      status,
+      sudsInitial: Math.round(targetMemory.initialSUD)
+    }
+  };
+}
+
+interface QueuedOperation {
+  sequence: number;
+  operation: SessionSyncOperation;
+}
+
+export interface SyncStatus {
+  pending: number;
+  online: boolean;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+export class SessionSyncQueue {
+  private lastSequence = 0;
+  // Operations that could not be written to the store yet (e.g. it is still locked), per user
+  private unsaved = new Map<string, QueuedOperation[]>();
+  private persisting = new Map<string, Promise<void>>(); // Tail of each user's local write chain
+  private knownUsers = new Set<string>();
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelayMs = MIN_RETRY_DELAY_MS;
+  private status: SyncStatus = { pending: 0, online: true, lastSyncedAt: null, lastError: null };
+  private listeners: SyncStatusListener[] = [];
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      this.status.online = navigator.onLine;
+      window.addEventListener('online', () => {
+        this.updateStatus({ online: true });
+        this.retryDelayMs = MIN_RETRY_DELAY_MS;
+        this.scheduleFlush(0);
+      });
+      window.addEventListener('offline', () => this.updateStatus({ online: false }));
+    }
+  }
+
+  onStatusChange(listener: SyncStatusListener): () => void {
+    this.listeners.push(listener);
+    listener(this.status);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Queue an operation for upload. Resolves once it is safely stored locally, not when it is synced.
+   */
+  async enqueue(userId: string, input: SyncOperationInput): Promise<void> {
+    const operation = {
+      ...input,
+      idempotencyKey: crypto.randomUUID(),
+      clientTimestamp: input.clientTimestamp ?? Date.now()
+    } as SessionSyncOperation;
+    // Monotonic even when several operations share a millisecond
+    this.lastSequence = Math.max(Date.now() * 1000, this.lastSequence + 1);
+    const queued: QueuedOperation = { sequence: this.lastSequence, operation };
+
+    this.knownUsers.add(userId);
+    this.unsaved.set(userId, [...(this.unsaved.get(userId) ?? []), queued]);
+    try {
+      await this.persistUnsaved(userId);
+    } catch (error) {
+      console.warn('⚠️ Sync queue is not writable yet, holding operation in memory:', error);
+    }
+
+    this.updateStatus({ pending: this.status.pending + 1 });
+    this.scheduleFlush(FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Upload everything queued for the user; resolves when the attempt is over
+   */
+  async flush(userId?: string): Promise<void> {
+    // Operations queued during a running flush go out right after it
+    if (this.flushing) {
+      this.flushRequested = true;
+      return this.flushing;
+    }
+
+    const userIds = userId ? [userId] : Array.from(this.knownUsers);
+    this.flushing = (async () => {
+      for (const id of userIds) {
+        await this.flushUser(id);
+      }
+    })().finally(() => {
+      this.flushing = null;
+      if (this.flushRequested) {
+        this.flushRequested = false;
+        this.scheduleFlush(0);
+      }
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Pick up operations left over from earlier visits, e.g. when the app starts
+   */
+  async resume(userId: string): Promise<void> {
+    this.knownUsers.add(userId);
+    const records = await secureSessionStore.listRecords({ kind: 'sync', userId });
+    this.updateStatus({ pending: records.length + (this.unsaved.get(userId)?.length ?? 0) });
+    if (records.length > 0) {
+      this.scheduleFlush(0);
+    }
+  }
+
+  private async flushUser(userId: string): Promise<void> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    try {
+      await this.persistUnsaved(userId);
+    } catch {
+      // Still locked; the in-memory operations are sent below all the same
+    }
+
+    const queue = await this.loadQueue(userId);
+    let retryNeeded = false;
+
+    for (let start = 0; start < queue.length;) {
+      const batch = this.takeBatch(queue, start);
+      start += batch.length;
+      let results: SyncOperationResult[];
+
+      try {
+        results = await this.upload(batch.map(item => item.operation));
+      } catch (error) {
+        // Network or server failure: everything from here on stays queued
+        const message = error instanceof Error ? error.message : 'Sync failed';
+        console.warn('📴 Session sync failed, will retry:', message);
+        this.updateStatus({ lastError: message });
+        this.scheduleRetry();
+        return;
+      }
+
+      const done = new Set<string>();
+      results.forEach(result => {
+        if (result.status === 'deferred') {
+          retryNeeded = true;
+          return;
+        }
+        if (result.status === 'rejected') {
+          console.error(`❌ Sync operation ${result.idempotencyKey} rejected:`, result.error);
+        }
+        done.add(result.idempotencyKey);
+      });
+
+      await this.remove(userId, batch.filter(item => done.has(item.operation.idempotencyKey)));
+      this.updateStatus({
+        pending: Math.max(0, this.status.pending - done.size),
+        lastSyncedAt: Date.now(),
+        lastError: null
+      });
+    }
+
+    if (retryNeeded) {
+      this.scheduleRetry();
+    } else {
+      this.retryDelayMs = MIN_RETRY_DELAY_MS;
+    }
+  }
+
+  private takeBatch(queue: QueuedOperation[], start: number): QueuedOperation[] {
+    const batch: QueuedOperation[] = [];
+    let bytes = 0;
+    for (let i = start; i < queue.length && batch.length < MAX_BATCH_OPERATIONS; i++) {
+      const size = JSON.stringify(queue[i].operation).length;
+      if (batch.length > 0 && bytes + size > MAX_BATCH_BYTES) break;
+      batch.push(queue[i]);
+      bytes += size;
+    }
+    return batch;
+  }
+
+  private async upload(operations: SessionSyncOperation[]): Promise<SyncOperationResult[]> {
+    const response = await fetch('/api/sync/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ operations })
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${await response.text()}`);
+    }
+    const { results } = await response.json() as SyncBatchResponse;
+    return results;
+  }
+
+  private async loadQueue(userId: string): Promise<QueuedOperation[]> {
+    const queue = [...(this.unsaved.get(userId) ?? [])];
+
+    const records = await secureSessionStore.listRecords({ kind: 'sync', userId });
+    if (records.length > 0) {
+      await secureSessionStore.ensureUnlocked(userId);
+      for (const record of records) {
+        const operation = await secureSessionStore.get<SessionSyncOperation>(record.key);
+        if (operation) {
+          queue.push({ sequence: record.sequence ?? record.updatedAt, operation });
+        }
+      }
+    }
+
+    return queue.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  private async persist(userId: string, queued: QueuedOperation): Promise<void> {
+    await secureSessionStore.ensureUnlocked(userId);
+    await secureSessionStore.put(
+      { key: `${SYNC_KEY_PREFIX}${queued.operation.idempotencyKey}`, kind: 'sync', userId, sequence: queued.sequence },
+      queued.operation,
+      { encrypt: true, compress: false }
+    );
+  }
+
+  // Writes are serialised per user: overlapping callers would otherwise write the same operation and drop the next
+  private persistUnsaved(userId: string): Promise<void> {
+    const run = (this.persisting.get(userId) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const pending = this.unsaved.get(userId)?.splice(0) ?? [];
+        for (let index = 0; index < pending.length; index++) {
+          try {
+            await this.persist(userId, pending[index]);
+          } catch (error) {
+            // Put back what was not written, ahead of anything queued meanwhile
+            this.unsaved.set(userId, [...pending.slice(index), ...(this.unsaved.get(userId) ?? [])]);
+            throw error;
+          }
+        }
+      });
+    this.persisting.set(userId, run);
+    return run;
+  }
+
+  private async remove(userId: string, items: QueuedOperation[]): Promise<void> {
+    const keys = new Set(items.map(item => item.operation.idempotencyKey));
+    const unsaved = this.unsaved.get(userId);
+    if (unsaved) {
+      this.unsaved.set(userId, unsaved.filter(item => !keys.has(item.operation.idempotencyKey)));
+    }
+    await secureSessionStore.delete(Array.from(keys).map(key => `${SYNC_KEY_PREFIX}${key}`));
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => console.error('Session sync error:', error));
+    }, delayMs);
+  }
+
+  private scheduleRetry(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.scheduleFlush(this.retryDelayMs);
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const sessionSync = new SessionSyncQueue();
@@ -24,14 +24,15 @@ import type {
 
 export type EMDRSessionState = 
   | 'initialization'     // Setting up session, loading user data
-  | 'preparation'        // Phase 1: Client preparation and stabilization
-  | 'assessment'         // Phase 2: Assessment and target identification  
-  | 'desensitization'    // Phase 3: Desensitization and reprocessing
-  | 'installation'       // Phase 4: Installation of positive cognition
-  | 'body-scan'          // Phase 5: Body scan
-  | 'closure'            // Phase 6: Closure
-  | 'reevaluation'       // Phase 7: Reevaluation
-  | 'integration'        // Phase 8: Integration and stabilization
+  | 'history-taking'     // Phase 1: Client history and treatment planning
+  | 'preparation'        // Phase 2: Client preparation and stabilization
+  | 'assessment'         // Phase 3: Assessment and target identification  
+  | 'desensitization'    // Phase 4: Desensitization and reprocessing
+  | 'installation'       // Phase 5: Installation of positive cognition
+  | 'body-scan'          // Phase 6: Body scan
+  | 'closure'            // Phase 7: Closure
+  | 'reevaluation'       // Phase 8: Reevaluation
+  | 'integration'        // Future template and lifestyle integration
   | 'paused'             // Session temporarily paused
   | 'interrupted'        // Session interrupted (crisis, technical issues)
   | 'completed'          // Session successfully completed
@@ -83,6 +84,7 @@ export interface EMDRSessionData {
   
   // Target Memory Information
   targetMemory: TargetMemory;
+  treatmentTargetId?: string; // Treatment plan target the session reprocesses, if it came from the plan
   
   // Progress Tracking
   progress: SessionProgress;
@@ -279,6 +281,14 @@ export interface BLSEffectivenessRecord {
   duration: number; // seconds
   phase: EMDRPhase;
   
+  // Set sequencing, present when the record covers one set
+  set?: {
+    number: number;
+    passes: number;
+    pauseDuration: number; // ms
+    sud?: number; // Check-in SUDS after the set
+  };
+  
   // Emotional Response
   preEmotionState: EmotionData;
   postEmotionState: EmotionData;
@@ -572,6 +582,7 @@ export interface EMDRSessionConductorEvents {
   // BLS Events
   onBLSConfigChange: (newConfig: BLSConfiguration, reason: string) => void;
   onBLSEffectivenessUpdate: (effectiveness: BLSEffectivenessRecord) => void;
+  onSetCheckIn: (record: BLSEffectivenessRecord) => void;
   
   // Crisis & Safety Events
   onCrisisDetected: (crisis: CrisisEventRecord) => void;
@@ -175,8 +175,9 @@ export class UnifiedEmotionService {
   
   /**
    * Initialize the unified emotion service
+   * @param cameraStream Existing camera stream to analyse instead of opening the camera again
    */
-  async initialize(videoElement?: HTMLVideoElement): Promise<void> {
+  async initialize(videoElement?: HTMLVideoElement, cameraStream?: MediaStream): Promise<void> {
     try {
       this.startTime = Date.now();
       
@@ -190,7 +191,7 @@ export class UnifiedEmotionService {
       
       // Initialize face service if needed
       if (this.shouldUseFace() && videoElement) {
-        await this.faceService.initialize(videoElement);
+        await this.faceService.initialize(videoElement, cameraStream);
         console.log('Face recognition initialized');
       }
       
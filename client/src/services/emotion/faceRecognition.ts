@@ -28,6 +28,7 @@ export interface FaceLandmarks {
 
 export class FaceRecognitionService {
   private videoStream: MediaStream | null = null;
+  private ownsVideoStream: boolean = false; // false when the stream is shared, e.g. with the video call
   private videoElement: HTMLVideoElement | null = null;
   private canvasElement: HTMLCanvasElement | null = null;
   private isProcessing: boolean = false;
@@ -43,14 +44,16 @@ export class FaceRecognitionService {
   }
 
   /**
-   * Initialize camera and start face tracking
+   * Initialize camera and start face tracking.
+   * Pass an existing camera stream to reuse it instead of opening the camera a second time.
    */
-  async initialize(videoElement: HTMLVideoElement): Promise<void> {
+  async initialize(videoElement: HTMLVideoElement, stream?: MediaStream): Promise<void> {
     this.videoElement = videoElement;
     
     try {
       // Request camera access
-      this.videoStream = await navigator.mediaDevices.getUserMedia({
+      this.ownsVideoStream = !stream;
+      this.videoStream = stream ?? await navigator.mediaDevices.getUserMedia({
         video: {
           width: { ideal: 640 },
           height: { ideal: 480 },
@@ -366,7 +369,9 @@ export class FaceRecognitionService {
     this.stopRecognition();
     
     if (this.videoStream) {
-      this.videoStream.getTracks().forEach(track => track.stop());
+      if (this.ownsVideoStream) {
+        this.videoStream.getTracks().forEach(track => track.stop());
+      }
       this.videoStream = null;
     }
     
@@ -21,6 +21,7 @@ import type {
 // Google Cloud TTS specific types
 interface GoogleCloudTTSConfig {
   endpoint?: string; // Server proxy endpoint
+  serverProvider?: 'auto' | 'google-cloud' | 'elevenlabs' | 'local'; // 'auto' lets the server fall back
   timeout?: number; // Request timeout in ms
   retryAttempts?: number;
   streaming?: {
@@ -70,6 +71,10 @@ interface GoogleCloudSynthesisResponse {
     audioEncoding: string;
     sampleRateHertz: number;
   };
+  metadata?: {
+    provider: string; // Server provider that produced the audio
+    synthesisTime: number;
+  };
 }
 
 /**
@@ -92,6 +97,7 @@ export class GoogleCloudTTSProvider {
   constructor(config: GoogleCloudTTSConfig = {}) {
     this.config = {
       endpoint: '/api/tts/synthesize',
+      serverProvider: 'auto',
       timeout: 30000,
       retryAttempts: 3,
       streaming: {
@@ -249,6 +255,7 @@ export class GoogleCloudTTSProvider {
     const chunks = this.splitTextForStreaming(originalRequest.text);
     const audioChunks: ArrayBuffer[] = [];
     let totalDuration = 0;
+    let audioEncoding = googleRequest.audioConfig.audioEncoding as string;
 
     console.log(`🌊 Streaming Google Cloud TTS: ${chunks.length} chunks`);
 
@@ -270,6 +277,10 @@ export class GoogleCloudTTSProvider {
         // Convert base64 to ArrayBuffer
         const audioData = this.base64ToArrayBuffer(chunkResponse.audioContent);
         audioChunks.push(audioData);
+        // With provider fallback the server may answer in a different encoding than requested
+        if (audioChunks.length === 1) {
+          audioEncoding = chunkResponse.audioConfig.audioEncoding;
+        }
         
         // Estimate duration (rough calculation)
         totalDuration += this.estimateAudioDuration(chunks[i], googleRequest.voice.name);
@@ -289,7 +300,7 @@ export class GoogleCloudTTSProvider {
     
     return {
       audioData: combinedAudio,
-      format: this.getFormatFromEncoding(googleRequest.audioConfig.audioEncoding),
+      format: this.getFormatFromEncoding(audioEncoding),
       duration: totalDuration,
       size: combinedAudio.byteLength,
       metadata: {
@@ -318,7 +329,7 @@ export class GoogleCloudTTSProvider {
   ): Promise<GoogleCloudSynthesisResponse> {
     
     const requestBody = {
-      provider: 'google-cloud',
+      provider: this.config.serverProvider,
       request: googleRequest,
       sessionId,
       streaming: streamingInfo
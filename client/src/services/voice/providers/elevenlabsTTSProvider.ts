@@ -106,6 +106,7 @@ const DEFAULT_THERAPEUTIC_VOICES: ElevenLabsConfig['config']['voices']['therapeu
 
 // EMDR Phase to Voice Mapping
 const PHASE_VOICE_MAPPING: Record<EMDRPhase, keyof typeof DEFAULT_THERAPEUTIC_VOICES> = {
+  'history-taking': 'эмпатичный',
   preparation: 'спокойный',
   assessment: 'эмпатичный',
   desensitization: 'поддерживающий',
@@ -171,6 +172,7 @@ export class ElevenLabsTTSProvider {
         default: DEFAULT_THERAPEUTIC_VOICES.спокойный,
         therapeutic: DEFAULT_THERAPEUTIC_VOICES,
         contextMapping: {
+          'history-taking': DEFAULT_THERAPEUTIC_VOICES.эмпатичный.voiceId,
           preparation: DEFAULT_THERAPEUTIC_VOICES.спокойный.voiceId,
           assessment: DEFAULT_THERAPEUTIC_VOICES.эмпатичный.voiceId,
           desensitization: DEFAULT_THERAPEUTIC_VOICES.поддерживающий.voiceId,
@@ -7,12 +7,10 @@
 import type {
   STTProviderConfig,
   STTTranscriptionResult,
-  STTLanguage,
   STTError
 } from '@/../../shared/types';
 
 import { STTProviderInterface } from '../speechToTextService';
-import { generateDeterministicId } from '@/lib/deterministicUtils';
 
 export class OpenAIWhisperProvider implements STTProviderInterface {
   private isInitialized: boolean = false;
@@ -175,10 +173,12 @@ export class OpenAIWhisperProvider implements STTProviderInterface {
       });
 
       if (!response.ok) {
-        throw new Error(`Transcription failed: ${response.status} ${response.statusText}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(`Transcription failed: ${response.status} ${body?.error || response.statusText}`);
       }
 
-      const data = await response.json();
+      // Server responds with a complete STTTranscriptionResult
+      const data: STTTranscriptionResult = await response.json();
       
       const endTime = Date.now();
       const latency = endTime - startTime;
@@ -186,46 +186,12 @@ export class OpenAIWhisperProvider implements STTProviderInterface {
       this.lastRequestTime = endTime;
       this.successCount++;
 
-      // Parse OpenAI Whisper response
       const transcriptionResult: STTTranscriptionResult = {
-        id: generateDeterministicId('whisper_result', Date.now().toString(), 'transcription'),
-        timestamp: endTime,
-        text: data.text || '',
-        language: this.mapLanguageCode(data.language || 'en'),
-        confidence: this.calculateConfidence(data),
-        isFinal: true,
-        
-        // Word-level timing if available
-        words: data.words ? data.words.map((word: any) => ({
-          word: word.word,
-          startTime: word.start || 0,
-          endTime: word.end || 0,
-          confidence: word.confidence || 0.9
-        })) : undefined,
-
-        // Segment-level data
-        segments: data.segments ? data.segments.map((segment: any) => ({
-          text: segment.text,
-          startTime: segment.start || 0,
-          endTime: segment.end || 0,
-          confidence: segment.confidence || 0.9,
-          type: 'sentence' as const,
-          punctuation: true
-        })) : undefined,
-
-        provider: 'openai-whisper',
-        providerData: data,
-
-        audioQuality: {
-          snr: this.estimateSignalToNoise(audioBlob),
-          clarity: this.estimateAudioClarity(data),
-          duration: data.duration || 0
-        },
-
+        ...data,
         processing: {
           latency,
-          processingTime: latency,
-          queueTime: 0
+          processingTime: data.processing.processingTime,
+          queueTime: Math.max(0, latency - data.processing.processingTime)
         }
       };
 
@@ -275,66 +241,6 @@ export class OpenAIWhisperProvider implements STTProviderInterface {
     return new Blob([buffer], { type: 'audio/wav' });
   }
 
-  private mapLanguageCode(whisperLang: string): STTLanguage {
-    const languageMap: Record<string, STTLanguage> = {
-      'en': 'en',
-      'ru': 'ru',
-      'es': 'es',
-      'fr': 'fr',
-      'de': 'de',
-      'it': 'it',
-      'pt': 'pt',
-      'zh': 'zh',
-      'ja': 'ja',
-      'ko': 'ko'
-    };
-    
-    return languageMap[whisperLang] || 'en';
-  }
-
-  private calculateConfidence(data: any): number {
-    // OpenAI Whisper doesn't provide direct confidence scores
-    // Estimate based on response characteristics
-    if (data.confidence !== undefined) {
-      return data.confidence;
-    }
-    
-    // Estimate based on response completeness
-    let confidence = 0.8; // Base confidence for Whisper
-    
-    if (data.segments && data.segments.length > 0) {
-      confidence += 0.1;
-    }
-    
-    if (data.words && data.words.length > 0) {
-      confidence += 0.1;
-    }
-    
-    return Math.min(confidence, 1.0);
-  }
-
-  private estimateSignalToNoise(audioBlob: Blob): number {
-    // Placeholder - would need actual audio analysis
-    return 15; // dB
-  }
-
-  private estimateAudioClarity(data: any): number {
-    // Estimate clarity based on transcription quality
-    if (!data.text || data.text.trim().length === 0) {
-      return 0.1;
-    }
-    
-    // Basic heuristics
-    const hasWords = data.words && data.words.length > 0;
-    const hasSegments = data.segments && data.segments.length > 0;
-    
-    let clarity = 0.7; // Base clarity
-    if (hasWords) clarity += 0.15;
-    if (hasSegments) clarity += 0.15;
-    
-    return Math.min(clarity, 1.0);
-  }
-
   async stopTranscription(): Promise<void> {
     this.isTranscribing = false;
     
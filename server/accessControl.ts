@@ -0,0 +1,141 @@
+/**
+ * Patient data access control
+ * Admins see everyone, therapists their active caseload, patients themselves.
+ * Researchers are limited to de-identified aggregate endpoints and never pass these guards.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { Session, CrisisEvent } from "../shared/schema";
+
+type AccessDecision = { allowed: true } | { allowed: false; status: number; error: string };
+
+export async function checkPatientAccess(user: Express.User, patientId: string): Promise<AccessDecision> {
+  switch (user.role) {
+    case 'admin':
+      return { allowed: true };
+    case 'patient':
+      return user.id === patientId
+        ? { allowed: true }
+        : { allowed: false, status: 403, error: "Access denied: patients can only access their own data" };
+    case 'therapist': {
+      const assignment = await storage.getActiveCaseloadAssignment(user.id, patientId);
+      return assignment
+        ? { allowed: true }
+        : { allowed: false, status: 403, error: "Access denied: patient is not on your caseload" };
+    }
+    case 'researcher':
+      return { allowed: false, status: 403, error: "Access denied: researchers can only access de-identified aggregate data" };
+    default:
+      return { allowed: false, status: 403, error: "Access denied" };
+  }
+}
+
+// The therapist who conducts a session may read it even without an open caseload assignment
+export async function checkSessionAccess(user: Express.User, session: Session): Promise<AccessDecision> {
+  if (user.role === 'therapist' && session.therapistId === user.id) {
+    return { allowed: true };
+  }
+  return checkPatientAccess(user, session.patientId);
+}
+
+// Crisis events are handled by therapists and admins only; the alerted therapist keeps access
+export async function checkCrisisAccess(user: Express.User, crisis: CrisisEvent): Promise<AccessDecision> {
+  if (user.role === 'patient') {
+    return { allowed: false, status: 403, error: "Access denied: crisis events are managed by clinicians" };
+  }
+  if (user.role === 'therapist' && crisis.therapistId === user.id) {
+    return { allowed: true };
+  }
+  return checkPatientAccess(user, crisis.patientId);
+}
+
+/**
+ * Inline variant for routes that take the patient from the body or query.
+ * Sends the error response and returns false when access is denied.
+ */
+export async function ensurePatientAccess(req: Request, res: Response, patientId: string): Promise<boolean> {
+  if (!req.user) {
+    res.status(401).json({ error: "Authentication required" });
+    return false;
+  }
+
+  const decision = await checkPatientAccess(req.user, patientId);
+  if (!decision.allowed) {
+    res.status(decision.status).json({ error: decision.error });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Inline variant for routes that take the session from the body. Accepts the server id or the id
+ * the offline-first client generated, which is resolved within the patient's synced sessions.
+ * Sends the error response and returns null when the session is missing or access is denied.
+ */
+export async function ensureSessionAccess(
+  req: Request,
+  res: Response,
+  sessionId: string,
+  patientId?: string
+): Promise<Session | null> {
+  if (!req.user) {
+    res.status(401).json({ error: "Authentication required" });
+    return null;
+  }
+
+  // Patients can only hold client ids of their own sessions
+  const owner = req.user.role === 'patient' ? req.user.id : patientId;
+  const session = await storage.getSession(sessionId)
+    ?? (owner ? await storage.getSessionByClientId(owner, sessionId) : undefined);
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return null;
+  }
+
+  const decision = await checkSessionAccess(req.user, session);
+  if (!decision.allowed) {
+    res.status(decision.status).json({ error: decision.error });
+    return null;
+  }
+  return session;
+}
+
+// Guard for routes with a patient id route parameter
+export function requirePatientAccess(paramName = 'patientId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (await ensurePatientAccess(req, res, req.params[paramName])) {
+        next();
+      }
+    } catch (error) {
+      console.error("Patient access check error:", error);
+      res.status(500).json({ error: "Failed to verify patient access" });
+    }
+  };
+}
+
+// Guard for routes with a session id route parameter
+export function requireSessionAccess(paramName = 'sessionId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const session = await storage.getSession(req.params[paramName]);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const decision = await checkSessionAccess(req.user, session);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.error });
+      }
+      next();
+    } catch (error) {
+      console.error("Session access check error:", error);
+      res.status(500).json({ error: "Failed to verify session access" });
+    }
+  };
+}
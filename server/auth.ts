@@ -0,0 +1,342 @@
+/**
+ * Authentication layer
+ * Session cookies, local username/password accounts and an optional OIDC strategy.
+ * The user is reloaded from storage on every request, so role changes apply immediately.
+ */
+
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { IncomingMessage } from "http";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { setupOidcAuth, isOidcConfigured } from "./oidcAuth";
+import type { User as DbUser } from "../shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends DbUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const PASSWORD_KEY_LENGTH = 64;
+
+// Failed local logins allowed per username and IP before a cooldown
+const LOGIN_ATTEMPT_LIMIT = 10;
+const LOGIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const loginAttemptStore = new Map<string, { count: number; resetTime: number }>();
+
+// Kept for authenticating WebSocket upgrades, which bypass the Express stack
+let sessionMiddleware: RequestHandler | null = null;
+
+const LoginSchema = z.object({
+  username: z.string().min(1).max(255),
+  password: z.string().min(1).max(1024)
+});
+
+const RegisterSchema = z.object({
+  username: z.string().min(3).max(64).regex(/^[a-zA-Z0-9_.-]+$/, "Username may contain letters, digits, '.', '_' and '-'"),
+  email: z.string().email().optional(),
+  password: z.string().min(8).max(1024),
+  firstName: z.string().max(100).optional(),
+  lastName: z.string().max(100).optional()
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)) as Buffer;
+  return `scrypt$${salt}$${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+// User fields that are safe to send to the client
+export function toPublicUser(user: DbUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function getSession() {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV === "production") {
+    throw new Error("Environment variable SESSION_SECRET must be set in production");
+  }
+  if (!sessionSecret) {
+    console.warn("⚠️ SESSION_SECRET not set, using a per-process secret - sessions end on restart");
+  }
+
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL_MS / 1000,
+    tableName: "sessions",
+  });
+  return session({
+    secret: sessionSecret || randomBytes(32).toString("hex"),
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+async function findLocalUser(identifier: string): Promise<DbUser | undefined> {
+  return identifier.includes("@")
+    ? storage.getUserByEmail(identifier.toLowerCase())
+    : storage.getUserByUsername(identifier);
+}
+
+// Creates the admin from AUTH_BOOTSTRAP_ADMIN_USERNAME/PASSWORD if it does not exist yet
+async function ensureBootstrapAdmin() {
+  const username = process.env.AUTH_BOOTSTRAP_ADMIN_USERNAME;
+  const password = process.env.AUTH_BOOTSTRAP_ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing) return;
+
+  await storage.createUser({
+    username,
+    role: "admin",
+    password: await hashPassword(password)
+  });
+  console.log(`✅ Bootstrap admin account created: ${username}`);
+}
+
+function checkLoginAttempts(key: string): boolean {
+  const now = Date.now();
+  const entry = loginAttemptStore.get(key);
+  if (!entry || now > entry.resetTime) {
+    loginAttemptStore.delete(key);
+    return true;
+  }
+  return entry.count < LOGIN_ATTEMPT_LIMIT;
+}
+
+function recordFailedLogin(key: string) {
+  const now = Date.now();
+  const entry = loginAttemptStore.get(key);
+  if (!entry || now > entry.resetTime) {
+    loginAttemptStore.set(key, { count: 1, resetTime: now + LOGIN_ATTEMPT_WINDOW_MS });
+  } else {
+    entry.count++;
+  }
+}
+
+// Cleanup expired login attempt entries
+setInterval(() => {
+  const now = Date.now();
+  loginAttemptStore.forEach((entry, key) => {
+    if (now > entry.resetTime) {
+      loginAttemptStore.delete(key);
+    }
+  });
+}, LOGIN_ATTEMPT_WINDOW_MS);
+
+function logIn(req: Request, user: DbUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Regenerate the session id on login to prevent fixation
+    req.session.regenerate(regenerateError => {
+      if (regenerateError) return reject(regenerateError);
+      req.login(user, loginError => (loginError ? reject(loginError) : resolve()));
+    });
+  });
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await findLocalUser(username);
+      if (!user?.password || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user.id));
+  passport.deserializeUser(async (id: string, cb) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user ends the session instead of failing the request
+      cb(null, user ?? false);
+    } catch (error) {
+      cb(error);
+    }
+  });
+
+  await setupOidcAuth(app);
+  await ensureBootstrapAdmin();
+
+  if (!isOidcConfigured()) {
+    // Without an identity provider the login entry point is the local form
+    app.get("/api/login", (req, res) => res.redirect("/login"));
+  }
+
+  app.get("/api/auth/providers", (req, res) => {
+    res.json({ local: true, oidc: isOidcConfigured() });
+  });
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const data = RegisterSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+      const email = data.email?.toLowerCase();
+      if (email && await storage.getUserByEmail(email)) {
+        return res.status(409).json({ error: "Email is already registered" });
+      }
+
+      // Self-registration always creates patients; other roles are assigned by an admin
+      const user = await storage.createUser({
+        username: data.username,
+        email,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role: "patient",
+        password: await hashPassword(data.password)
+      });
+
+      await logIn(req, user);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid registration data",
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res, next) => {
+    let credentials: z.infer<typeof LoginSchema>;
+    try {
+      credentials = LoginSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+
+    const attemptKey = `${credentials.username.toLowerCase()}_${req.ip || 'unknown'}`;
+    if (!checkLoginAttempts(attemptKey)) {
+      return res.status(429).json({ error: "Too many failed login attempts. Try again later." });
+    }
+
+    passport.authenticate("local", async (error: unknown, user: DbUser | false) => {
+      if (error) {
+        console.error("Login error:", error);
+        return res.status(500).json({ error: "Failed to log in" });
+      }
+      if (!user) {
+        recordFailedLogin(attemptKey);
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      try {
+        loginAttemptStore.delete(attemptKey);
+        await logIn(req, user);
+        res.json(toPublicUser(user));
+      } catch (loginError) {
+        console.error("Login session error:", loginError);
+        res.status(500).json({ error: "Failed to log in" });
+      }
+    })(req, res, next);
+  });
+
+  const logout = (req: Request, res: Response, done: () => void) => {
+    req.logout(logoutError => {
+      if (logoutError) console.error("Logout error:", logoutError);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        done();
+      });
+    });
+  };
+
+  app.post("/api/auth/logout", (req, res) => {
+    logout(req, res, () => res.json({ success: true }));
+  });
+
+  app.get("/api/logout", (req, res) => {
+    logout(req, res, () => res.redirect("/"));
+  });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+};
+
+// RBAC middleware - the role comes from the user record loaded for this request
+export function requireRole(allowedRoles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const userRole = req.user.role;
+    if (!allowedRoles.includes(userRole)) {
+      return res.status(403).json({
+        error: "Insufficient permissions for this resource",
+        requiredRoles: allowedRoles,
+        userRole
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Resolves the logged-in user of a WebSocket upgrade request from its session cookie.
+ * Returns null when there is no valid session.
+ */
+export async function authenticateUpgradeRequest(req: IncomingMessage): Promise<Express.User | null> {
+  const middleware = sessionMiddleware;
+  if (!middleware) return null;
+
+  const expressReq = req as Request;
+  await new Promise<void>((resolve, reject) => {
+    middleware(expressReq, {} as Response, error => (error ? reject(error) : resolve()));
+  });
+
+  const userId = (expressReq.session as (typeof expressReq.session & { passport?: { user?: string } }) | undefined)?.passport?.user;
+  if (!userId) return null;
+  return (await storage.getUser(userId)) ?? null;
+}
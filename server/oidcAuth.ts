@@ -0,0 +1,97 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+
+import passport from "passport";
+import type { Express } from "express";
+import memoize from "memoizee";
+import { storage } from "./storage";
+
+// Generic OIDC settings; the Replit variables are still honoured for existing deployments
+const issuerUrl = process.env.OIDC_ISSUER_URL || process.env.ISSUER_URL || (process.env.REPL_ID ? "https://replit.com/oidc" : "");
+const clientId = process.env.OIDC_CLIENT_ID || process.env.REPL_ID || "";
+const clientSecret = process.env.OIDC_CLIENT_SECRET;
+
+export function isOidcConfigured(): boolean {
+  return !!issuerUrl && !!clientId;
+}
+
+const getOidcConfig = memoize(
+  async () => {
+    return await client.discovery(new URL(issuerUrl), clientId, clientSecret);
+  },
+  { maxAge: 3600 * 1000 }
+);
+
+// Callback URL from OIDC_CALLBACK_URL, otherwise derived from the request host
+function getCallbackUrl(protocol: string, host: string | undefined): string {
+  return process.env.OIDC_CALLBACK_URL || `${protocol}://${host}/api/callback`;
+}
+
+async function upsertUser(
+  claims: any,
+) {
+  return await storage.upsertUser({
+    id: claims["sub"],
+    email: claims["email"],
+    firstName: claims["first_name"] ?? claims["given_name"],
+    lastName: claims["last_name"] ?? claims["family_name"],
+    profileImageUrl: claims["profile_image_url"] ?? claims["picture"],
+  });
+}
+
+/**
+ * Optional OIDC login strategy. Registers nothing when no issuer is configured,
+ * so the app runs with local accounts only.
+ */
+export async function setupOidcAuth(app: Express) {
+  if (!isOidcConfigured()) {
+    console.log("🔐 OIDC not configured, using local accounts only");
+    return;
+  }
+
+  const config = await getOidcConfig();
+
+  const verify: VerifyFunction = async (
+    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+    verified: passport.AuthenticateCallback
+  ) => {
+    try {
+      const user = await upsertUser(tokens.claims());
+      verified(null, user);
+    } catch (error) {
+      verified(error);
+    }
+  };
+
+  passport.use(new Strategy(
+    {
+      name: "oidc",
+      config,
+      scope: "openid email profile offline_access",
+    },
+    verify,
+  ));
+  console.log(`✅ OIDC strategy registered for issuer: ${issuerUrl}`);
+
+  app.get("/api/login", (req, res, next) => {
+    passport.authenticate("oidc", {
+      prompt: "login consent",
+      scope: ["openid", "email", "profile", "offline_access"],
+      callbackURL: getCallbackUrl(req.protocol, req.get("host")),
+    } as passport.AuthenticateOptions)(req, res, next);
+  });
+
+  app.get("/api/callback", (req, res, next) => {
+    passport.authenticate("oidc", {
+      successReturnToOrRedirect: "/",
+      failureRedirect: "/login",
+      callbackURL: getCallbackUrl(req.protocol, req.get("host")),
+    } as passport.AuthenticateOptions)(req, res, (err: any) => {
+      if (err) {
+        console.error("❌ OIDC Callback error:", err);
+        return res.status(500).json({ error: "Authentication failed", details: err.message });
+      }
+      next();
+    });
+  });
+}
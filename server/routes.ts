@@ -1,19 +1,38 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer } from "ws";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Duplex } from "stream";
 import { storage } from "./storage";
 import { z } from "zod";
 import jwt from "jsonwebtoken";
-import { backendAITherapist } from "./services/aiTherapist";
+import { randomUUID } from "crypto";
+import { backendAITherapist, AI_THERAPIST_MODEL } from "./services/aiTherapist";
 import { sessionMemoryRouter } from "./routes/sessionMemory";
-import { ProgressAnalyticsService } from "./services/progressAnalytics";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import type { User } from "../shared/schema";
-import { 
-  deterministicValue,
-  deterministicBoolean,
-  generateDeterministicId
-} from "../client/src/lib/deterministicUtils";
+import { progressAnalyticsService } from "./services/progressAnalytics";
+import { affectAnalyticsService } from "./services/affectAnalytics";
+import { ttsProviderRegistry } from "./services/tts";
+import {
+  MAX_AUDIO_UPLOAD_BYTES,
+  getTranscriptionBackend,
+  parseMultipartForm,
+  toTranscriptionResult,
+  validateAudioUpload
+} from "./services/transcription";
+import { setupAuth, requireAuth, requireRole, toPublicUser, authenticateUpgradeRequest } from "./auth";
+import { requirePatientAccess, requireSessionAccess, checkPatientAccess, checkSessionAccess, checkCrisisAccess, ensurePatientAccess, ensureSessionAccess } from "./accessControl";
+import { sessionRoomService } from "./services/sessionRoom";
+import { getIceServers } from "./services/iceServers";
+import { getPersistenceKey } from "./services/persistenceKeys";
+import { sessionSyncService } from "./services/sessionSync";
+import { liveUpdateService } from "./services/liveUpdates";
+import { crisisEscalationService } from "./services/crisisEscalation";
+import { historyTakingService } from "./services/historyTaking";
+import { treatmentPlanService } from "./services/treatmentPlan";
+import { adaptiveRuleSetService } from "./services/adaptiveRuleSets";
+import { adaptiveRuleSetSchema } from "../shared/adaptiveRules";
+import { insertSessionNoteSchema, type Session, type BLSConfiguration as StoredBLSPreset, type InsertBLSConfiguration } from "../shared/schema";
+import { generateDeterministicId } from "../client/src/lib/deterministicUtils";
+import { BLS_RATE_HZ_MAX, BLS_RATE_HZ_MIN, migrateLegacyBLSSpeed } from "../shared/types";
 import type { 
   EmotionData, 
   BLSConfiguration, 
@@ -22,24 +41,16 @@ import type {
   AITherapistMessage,
   AISessionGuidance,
   AIEmotionResponse,
+  AIInterventionLogEntry,
+  CrisisDetection,
+  CrisisSource,
+  SessionSyncOperation,
+  SyncBatchResponse,
   FaceEmotionData,
-  VoiceEmotionData 
+  VoiceEmotionData,
+  AdaptiveRuleSetDefinition
 } from "../shared/types";
 
-// AuthenticatedRequest interface for proper session typing
-interface AuthenticatedRequest extends Request {
-  user?: {
-    claims: any;
-    access_token: string;
-    refresh_token: string;
-    expires_at: number;
-    id?: string;
-  };
-  session: Request['session'] & {
-    user?: User;
-  };
-}
-
 // Zod schemas for validation
 const EmotionDataSchema = z.object({
   timestamp: z.number(),
@@ -53,10 +64,10 @@ const EmotionDataSchema = z.object({
 const EmotionCaptureSchema = z.object({
   sessionId: z.string().min(1).max(100),
   emotionData: EmotionDataSchema,
-  phase: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation']).optional(),
+  phase: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation']).optional(),
   patientId: z.string().min(1).max(100).optional(),
   blsConfig: z.object({
-    speed: z.number().min(1).max(10),
+    rateHz: z.number().min(BLS_RATE_HZ_MIN).max(BLS_RATE_HZ_MAX),
     color: z.string(),
     pattern: z.enum(['horizontal', 'vertical', 'diagonal', 'circular'])
   }).optional()
@@ -69,6 +80,7 @@ const EmotionCaptureSchema = z.object({
 
 const AnalyzeRequestSchema = z.object({
   emotionData: EmotionDataSchema,
+  sessionId: z.string().min(1).max(100).optional(), // Lets detected crises be tied to the session
   sessionPhase: z.string(),
   sessionHistory: z.array(z.any()).optional().default([])
 });
@@ -104,7 +116,7 @@ const AIChatMessageSchema = z.object({
     conversationHistory: z.array(z.any()).default([]),
     currentEmotionalState: EmotionDataSchema,
     phaseContext: z.object({
-      currentPhase: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
+      currentPhase: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
       timeInPhase: z.number(),
       phaseGoals: z.array(z.string()).default([]),
       completionCriteria: z.array(z.string()).default([])
@@ -119,7 +131,8 @@ const AIChatMessageSchema = z.object({
 
 // Session Guidance Schema
 const SessionGuidanceSchema = z.object({
-  currentPhase: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
+  sessionId: z.string(),
+  currentPhase: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
   emotionData: EmotionDataSchema,
   sessionMetrics: z.object({
     sudsLevels: z.array(z.number()).default([]),
@@ -132,8 +145,9 @@ const SessionGuidanceSchema = z.object({
 
 // Emotion Response Schema
 const EmotionResponseSchema = z.object({
+  sessionId: z.string(),
   emotionData: EmotionDataSchema,
-  currentPhase: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
+  currentPhase: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
   sessionContext: z.object({
     sessionDuration: z.number().default(0),
     recentEmotions: z.array(EmotionDataSchema).default([]),
@@ -141,16 +155,241 @@ const EmotionResponseSchema = z.object({
   }).optional().default({})
 });
 
+// Session Note Schemas - sessionId and authorId come from the route and the authenticated user
+const SessionNoteSchema = insertSessionNoteSchema.omit({
+  sessionId: true,
+  authorId: true
+}).extend({
+  content: z.string().min(1).max(10000),
+  sudsLevel: z.number().int().min(0).max(10).nullable().optional(),
+  vocLevel: z.number().min(1).max(7).nullable().optional()
+});
+
+const SessionNoteUpdateSchema = SessionNoteSchema.partial();
+
+// BLS Preset Schema - the full BLSConfiguration is stored alongside the flat columns used for listing
+const BLSPresetSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  isPublic: z.boolean().optional().default(false),
+  config: z.object({
+    rateHz: z.number().min(BLS_RATE_HZ_MIN).max(BLS_RATE_HZ_MAX),
+    pattern: z.enum([
+      'horizontal', 'vertical', 'diagonal', 'circle', '3d-wave',
+      'cube3d', 'spiral3d', 'helix3d', 'lemniscate3d', 'lissajous3d',
+      'sphere3d', 'infinity3d', 'wave3d', 'butterfly3d', 'DNA3d'
+    ]),
+    color: z.string(),
+    size: z.number().min(1).max(200),
+    soundEnabled: z.boolean(),
+    adaptiveMode: z.boolean(),
+    audio: z.object({}).passthrough(),
+    haptics: z.object({}).passthrough(),
+    rendering3D: z.object({}).passthrough(),
+    transitions: z.object({}).passthrough()
+  }).passthrough()
+}).refine(data => {
+  const jsonSize = JSON.stringify(data).length;
+  return jsonSize < 50000;
+}, {
+  message: "BLS preset data too large (max 50KB)"
+});
+
+// Therapeutic Memory Schema - per-session values, merged into the running record on the server
+const TherapeuticMemoryUpdateSchema = z.object({
+  sessionCompleted: z.boolean().optional().default(false),
+  keyThemes: z.array(z.string().min(1).max(200)).max(50).optional(),
+  progressMetrics: z.object({
+    sudsReduction: z.number(),
+    vocImprovement: z.number(),
+    emotionalStability: z.number().min(0).max(1)
+  }).optional(),
+  adaptivePreferences: z.object({
+    preferredBLSPattern: z.string(),
+    optimalRateHz: z.number().min(BLS_RATE_HZ_MIN).max(BLS_RATE_HZ_MAX),
+    effectiveColors: z.array(z.string()).max(20)
+  }).optional(),
+  emotionalPatterns: z.record(z.any()).optional(),
+  treatmentPlan: z.string().max(10000).optional()
+});
+
+const MAX_THERAPEUTIC_THEMES = 20;
+
+// Caseload Assignment Schemas - only admins manage assignments
+const CaseloadAssignmentSchema = z.object({
+  therapistId: z.string().min(1),
+  patientId: z.string().min(1),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  notes: z.string().max(2000).optional()
+}).refine(data => !data.startDate || !data.endDate || data.endDate > data.startDate, {
+  message: "End date must be after start date"
+});
+
+const CaseloadAssignmentUpdateSchema = z.object({
+  status: z.enum(['active', 'paused', 'ended']).optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional()
+});
+
+// Crisis Schemas - detections come from the AI services and the client-side session conductor
+const CrisisDetectionSchema = z.object({
+  isCrisis: z.boolean(),
+  riskLevel: z.enum(['none', 'low', 'moderate', 'high', 'severe']),
+  triggers: z.array(z.string().max(200)).max(50),
+  interventions: z.object({
+    immediate: z.array(z.string().max(500)).max(20),
+    escalation: z.array(z.string().max(500)).max(20),
+    contacts: z.array(z.string().max(200)).max(20)
+  }),
+  monitoring: z.object({
+    increaseFrequency: z.boolean(),
+    alertTherapist: z.boolean(),
+    requireSupervision: z.boolean()
+  })
+});
+
+const CrisisReportRequestSchema = z.object({
+  patientId: z.string().min(1).optional(), // Required when a clinician reports for a patient
+  sessionId: z.string().min(1).optional(),
+  source: z.enum(['conductor', 'manual']),
+  detection: CrisisDetectionSchema
+});
+
+const CrisisResolveSchema = z.object({
+  notes: z.string().max(5000).optional(),
+  resumeSession: z.boolean().optional().default(false)
+});
+
+// Offline Sync Schemas - operations queued by the session conductor while offline
+const SyncPhaseSchema = z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']);
+
+// Keeps the client's sources/fusion/quality fields for the memory snapshot
+const SyncEmotionDataSchema = EmotionDataSchema.passthrough();
+
+const SyncOperationBaseSchema = z.object({
+  idempotencyKey: z.string().min(8).max(200),
+  clientSessionId: z.string().min(1).max(200),
+  patientId: z.string().min(1).optional(),
+  clientTimestamp: z.number().int().positive()
+});
+
+const SyncOperationSchema = z.discriminatedUnion('type', [
+  SyncOperationBaseSchema.extend({
+    type: z.literal('session_upsert'),
+    payload: z.object({
+      therapistId: z.string().min(1).optional(),
+      startTime: z.number().int().positive(),
+      endTime: z.number().int().positive().optional(),
+      phase: SyncPhaseSchema,
+      status: z.enum(['active', 'paused', 'completed', 'cancelled']),
+      sudsInitial: z.number().int().min(0).max(10).optional(),
+      vocInitial: z.number().min(1).max(7).optional()
+    })
+  }),
+  SyncOperationBaseSchema.extend({
+    type: z.literal('emotion_capture'),
+    payload: z.object({
+      emotionData: SyncEmotionDataSchema,
+      phase: SyncPhaseSchema,
+      blsConfig: z.record(z.any()).optional()
+    })
+  }),
+  SyncOperationBaseSchema.extend({
+    type: z.literal('rating_update'),
+    payload: z.discriminatedUnion('scale', [
+      z.object({ scale: z.literal('sud'), value: z.number().int().min(0).max(10), phase: SyncPhaseSchema, emotionData: SyncEmotionDataSchema }),
+      z.object({ scale: z.literal('voc'), value: z.number().min(1).max(7), phase: SyncPhaseSchema, emotionData: SyncEmotionDataSchema })
+    ])
+  })
+]);
+
+const SyncBatchSchema = z.object({
+  operations: z.array(SyncOperationSchema).min(1).max(200)
+});
+
+// Patient Intake Schema - history taking (phase 1); omitted fields keep their stored values
+const IntakeTraumaTargetSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  description: z.string().min(1).max(2000),
+  timeframe: z.enum(['past', 'present', 'future']),
+  ageAtEvent: z.number().int().min(0).max(120).optional(),
+  sudEstimate: z.number().int().min(0).max(10).optional(),
+  negativeCognition: z.string().max(500).optional(),
+  positiveCognition: z.string().max(500).optional(),
+  priority: z.number().int().min(1).optional(),
+  status: z.enum(['pending', 'processed']).optional()
+});
+
+const IntakeResourceSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  type: z.enum(['safe_place', 'support_person', 'coping_skill', 'resource_figure', 'other']),
+  description: z.string().min(1).max(1000),
+  strength: z.number().int().min(0).max(10).optional()
+});
+
+const PatientIntakeSchema = z.object({
+  presentingProblem: z.string().max(5000).nullable().optional(),
+  treatmentGoals: z.array(z.string().min(1).max(500)).max(20).optional(),
+  traumaTargets: z.array(IntakeTraumaTargetSchema).max(100).optional(),
+  resources: z.array(IntakeResourceSchema).max(50).optional(),
+  stabilisationReadiness: z.object({
+    affectTolerance: z.number().int().min(0).max(10),
+    dissociationRisk: z.enum(['low', 'moderate', 'high']),
+    currentlySafe: z.boolean(),
+    supportSystem: z.boolean(),
+    clinicianApproved: z.boolean(),
+    notes: z.string().max(2000).optional()
+  }).nullable().optional(),
+  complete: z.boolean().optional()
+});
+
+const TreatmentTargetSchema = z.object({
+  timeframe: z.enum(['past', 'present', 'future']),
+  description: z.string().min(1).max(2000),
+  touchstoneId: z.string().min(1).nullable().optional(),
+  negativeCognition: z.string().max(500).nullable().optional(),
+  positiveCognition: z.string().max(500).nullable().optional(),
+  baselineSud: z.number().int().min(0).max(10).nullable().optional(),
+  baselineVoc: z.number().int().min(1).max(7).nullable().optional()
+});
+
+const TreatmentTargetUpdateSchema = TreatmentTargetSchema.partial().extend({
+  status: z.enum(['pending', 'in-process', 'incomplete', 'resolved']).optional(),
+  latestSud: z.number().int().min(0).max(10).nullable().optional(),
+  latestVoc: z.number().int().min(1).max(7).nullable().optional()
+});
+
+const TreatmentPlanOrderSchema = z.object({
+  targetIds: z.array(z.string().min(1)).max(200)
+});
+
+const TreatmentTargetStartSchema = z.object({
+  sessionId: z.string().min(1).max(200)
+});
+
+const TreatmentTargetOutcomeSchema = z.object({
+  sessionId: z.string().min(1).max(200),
+  sud: z.number().int().min(0).max(10),
+  voc: z.number().int().min(1).max(7),
+  bodyScanClear: z.boolean().optional(),
+  initialSud: z.number().int().min(0).max(10).optional(),
+  initialVoc: z.number().int().min(1).max(7).optional()
+});
+
+const AdaptiveRuleSetScopeSchema = z.enum(['therapist', 'clinic']);
+
 // Rate limiting store for AI endpoints
 const aiRateLimitStore = new Map();
 
-// Initialize Progress Analytics Service
-const progressAnalytics = new ProgressAnalyticsService();
+// Shared with the session memory API so generated insights reach the live update stream
+const progressAnalytics = progressAnalyticsService;
 
 // WebSocket connections for real-time voice streaming
 const wsConnections = new Map();
 const activeStreams = new Map();
 let wss: WebSocketServer;
+let sessionRoomWss: WebSocketServer;
 
 // JWT Secret for WebSocket authentication
 const JWT_SECRET = process.env.JWT_SECRET || 'emdr42-development-secret-key-change-in-production';
@@ -243,190 +482,6 @@ function getEmotionQuadrant(arousal: number, valence: number): string {
   return 'depressed';
 }
 
-// Generate neural nodes for brain visualization
-function generateNeuralNodes(snapshot: any): any[] {
-  const regions = ['prefrontal', 'amygdala', 'hippocampus', 'insula', 'cingulate', 'thalamus', 'brainstem', 'cerebellum'];
-  
-  const patientId = snapshot.patientId || 'default_patient';
-  const sessionId = snapshot.sessionId || 'default_session';
-  
-  return regions.map((region, index) => ({
-    id: region,
-    x: 200 + deterministicValue(patientId, sessionId, `node_${region}_x`, 0, 400),
-    y: 150 + deterministicValue(patientId, sessionId, `node_${region}_y`, 0, 300),
-    region: region.charAt(0).toUpperCase() + region.slice(1),
-    activity: Math.max(0, Math.min(1, (snapshot.engagementLevel || 0.5) + (deterministicValue(patientId, sessionId, `node_${region}_activity`, -0.5, 0.5)))),
-    connections: [],
-    size: 15 + deterministicValue(patientId, sessionId, `node_${region}_size`, 0, 10),
-    color: `hsl(${Math.floor(deterministicValue(patientId, sessionId, `node_${region}_hue`, 0, 360))}, 70%, 50%)`
-  }));
-}
-
-// Generate neural connections between nodes
-function generateNeuralConnections(snapshot: any): any[] {
-  const regions = ['prefrontal', 'amygdala', 'hippocampus', 'insula', 'cingulate', 'thalamus'];
-  const connections: any[] = [];
-  
-  const patientId = snapshot.patientId || 'default_patient';
-  const sessionId = snapshot.sessionId || 'default_session';
-  
-  for (let i = 0; i < regions.length; i++) {
-    for (let j = i + 1; j < regions.length; j++) {
-      const connectionSeed = `conn_${regions[i]}_${regions[j]}`;
-      if (deterministicBoolean(patientId, sessionId, connectionSeed, 0.4)) {
-        connections.push({
-          from: regions[i],
-          to: regions[j],
-          strength: deterministicValue(patientId, sessionId, `${connectionSeed}_strength`, 0, 1),
-          type: deterministicBoolean(patientId, sessionId, `${connectionSeed}_type`, 0.5) ? 'excitatory' : 'inhibitory',
-          active: deterministicBoolean(patientId, sessionId, `${connectionSeed}_active`, 0.6)
-        });
-      }
-    }
-  }
-  
-  return connections;
-}
-
-// Generate brainwave data for visualization
-function generateBrainwaveData(snapshots: any[]): any[] {
-  const waveTypes = ['alpha', 'beta', 'theta', 'delta', 'gamma'];
-  const waves: any[] = [];
-  
-  const patientId = snapshots[0]?.patientId || 'default_patient';
-  const sessionId = snapshots[0]?.sessionId || 'default_session';
-  
-  for (let i = 0; i < 50; i++) {
-    waveTypes.forEach(type => {
-      waves.push({
-        frequency: deterministicValue(patientId, sessionId, `wave_${type}_${i}_freq`, 1, 51),
-        amplitude: deterministicValue(patientId, sessionId, `wave_${type}_${i}_amp`, 0, 1),
-        type,
-        timestamp: new Date(Date.now() - (50 - i) * 1000)
-      });
-    });
-  }
-  
-  return waves;
-}
-
-// Generate prediction data for a metric
-function generatePrediction(metric: string, snapshots: any[], timeHorizon: number): any {
-  const patientId = snapshots[0]?.patientId || 'default_patient';
-  const sessionId = snapshots[0]?.sessionId || 'default_session';
-  
-  const currentValue = metric === 'suds' ? 6 : metric === 'voc' ? 5 : deterministicValue(patientId, sessionId, `${metric}_current`, 0.2, 1.0);
-  
-  const predictedValues = [];
-  for (let i = 1; i <= timeHorizon; i++) {
-    const baseChange = metric === 'suds' ? -0.05 : metric === 'voc' ? 0.03 : 0.02;
-    const trend = baseChange * i + deterministicValue(patientId, sessionId, `${metric}_trend_${i}`, -0.05, 0.05);
-    const value = Math.max(0, Math.min(metric === 'suds' ? 10 : metric === 'voc' ? 10 : 1, 
-                                      currentValue + trend));
-    
-    predictedValues.push({
-      date: new Date(Date.now() + i * 24 * 60 * 60 * 1000),
-      value,
-      confidence: Math.max(0.3, 0.9 - i * 0.02),
-      range: {
-        min: value * 0.8,
-        max: value * 1.2
-      }
-    });
-  }
-  
-  return {
-    metric,
-    currentValue,
-    predictedValues,
-    trend: (metric === 'suds' ? 'improving' : 
-            metric === 'voc' ? 'improving' : 
-            deterministicBoolean(patientId, sessionId, `${metric}_trend_positive`, 0.7) ? 'improving' : 'stable'),
-    confidence: 0.7 + deterministicValue(patientId, sessionId, `${metric}_confidence`, 0, 0.25),
-    factors: ['Treatment consistency', 'Patient engagement', 'Session frequency', 'Emotional processing']
-  };
-}
-
-// Generate risk predictions
-function generateRiskPredictions(snapshots: any[]): any[] {
-  const risks = [
-    {
-      id: 'risk_1',
-      type: 'regression',
-      probability: 0.3,
-      timeframe: 'Next 2 weeks',
-      severity: 'medium',
-      description: 'Potential therapeutic regression based on recent patterns',
-      indicators: ['Declining session engagement', 'Increased avoidance behaviors'],
-      mitigationStrategies: ['Adjust treatment pace', 'Focus on stabilization', 'Increase session frequency'],
-      earlyWarnings: ['Missed appointments', 'Emotional withdrawal', 'Increased SUDS ratings']
-    }
-  ];
-  
-  // Add dynamic risk based on actual data
-  if (snapshots.length > 5) {
-    const recentStress = snapshots.slice(0, 5).map(s => s.stressLevel).filter(Boolean);
-    if (recentStress.length > 0) {
-      const avgStress = recentStress.reduce((a, b) => a + b, 0) / recentStress.length;
-      
-      if ((avgStress ?? 0) > 0.6) {
-        risks.push({
-          id: 'risk_stress',
-          type: 'stagnation',
-          probability: Math.min(0.9, avgStress ?? 0),
-          timeframe: 'Next 1-2 sessions',
-          severity: (avgStress ?? 0) > 0.8 ? 'high' : 'medium',
-          description: 'High stress levels detected in recent sessions',
-          indicators: ['Elevated stress markers', 'Emotional volatility'],
-          mitigationStrategies: ['Implement stress reduction techniques', 'Adjust session intensity'],
-          earlyWarnings: ['Increased stress levels', 'Emotional instability']
-        });
-      }
-    }
-  }
-  
-  return risks;
-}
-
-// Generate opportunity predictions
-function generateOpportunityPredictions(snapshots: any[]): any[] {
-  const opportunities = [
-    {
-      id: 'opp_1',
-      type: 'breakthrough',
-      probability: 0.75,
-      timeframe: 'Next 1-2 sessions',
-      description: 'High likelihood of significant therapeutic breakthrough',
-      requirements: ['Continued engagement', 'Focus on target memory', 'Maintain current pace'],
-      actionSteps: ['Prepare for emotional processing', 'Ready integration techniques', 'Monitor closely'],
-      expectedOutcome: 'Significant reduction in trauma symptoms and increased emotional stability'
-    }
-  ];
-  
-  // Add dynamic opportunities based on progress
-  if (snapshots.length > 3) {
-    const recentEngagement = snapshots.slice(0, 3).map(s => s.engagementLevel).filter(Boolean);
-    if (recentEngagement.length > 0) {
-      const avgEngagement = recentEngagement.reduce((a, b) => a + b, 0) / recentEngagement.length;
-      
-      if (avgEngagement > 0.7) {
-        opportunities.push({
-          id: 'opp_advancement',
-          type: 'phase_advancement',
-          probability: avgEngagement,
-          timeframe: 'Current session',
-          description: 'Patient showing readiness for phase advancement',
-          requirements: ['High engagement maintained', 'Stable emotional state'],
-          actionSteps: ['Assess phase completion criteria', 'Prepare for next phase'],
-          expectedOutcome: 'Successful progression to next EMDR phase'
-        });
-      }
-    }
-  }
-  
-  return opportunities;
-}
-
 // Voice Provider Proxy Schemas
 const VoiceProxyRequestSchema = z.object({
   provider: z.enum(['assemblyai', 'hume-ai', 'azure', 'google-cloud']),
@@ -442,26 +497,114 @@ const VoiceStreamRequestSchema = z.object({
   action: z.enum(['start', 'stop', 'status'])
 });
 
-// Use the proper authentication middleware from replitAuth.ts
-// TEMPORARILY DISABLED - Skip authentication
-const requireAuth = (req: any, res: any, next: any) => next();
+// Resolve the authenticated user's ID from the session
+function getAuthenticatedUserId(req: Request): string | undefined {
+  return req.user?.id;
+}
+
+// Resolve the authenticated user's role, defaulting to the least privileged one
+function getAuthenticatedUserRole(req: Request): string {
+  return req.user?.role || 'patient';
+}
+
+// Change between the first and last recorded level, if there are at least two
+function levelChange(levels?: number[]): number | undefined {
+  if (!levels || levels.length < 2) return undefined;
+  return levels[levels.length - 1] - levels[0];
+}
 
-// RBAC middleware for role-based access control
-function requireRole(allowedRoles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const user = (req as AuthenticatedRequest).user;
-    const sessionUser = (req as AuthenticatedRequest).session?.user;
-    const userRole = sessionUser?.role || (user?.claims?.role) || 'patient';
+// Append an AI response to the session's AI therapy log - never throws, logging must not break the AI call
+async function logAIIntervention(
+  session: Session,
+  entry: Pick<AIInterventionLogEntry, 'type' | 'phase' | 'patientMessage' | 'response'>,
+  sessionMetrics?: { sudsLevels?: number[]; vocLevels?: number[] }
+): Promise<void> {
+  try {
+    const latestCapture = await storage.getLatestEmotionCapture(session.id);
     
-    if (!allowedRoles.includes(userRole)) {
-      return res.status(403).json({ 
-        error: "Insufficient permissions for this resource",
-        requiredRoles: allowedRoles,
-        userRole 
-      });
+    await storage.appendAIIntervention({
+      sessionId: session.id,
+      therapistId: session.therapistId,
+      patientId: session.patientId,
+      aiModel: AI_THERAPIST_MODEL,
+      emotionCaptureIds: latestCapture ? [latestCapture.id] : [],
+      sudsChange: levelChange(sessionMetrics?.sudsLevels),
+      vocChange: levelChange(sessionMetrics?.vocLevels)
+    }, {
+      ...entry,
+      id: randomUUID(),
+      timestamp: Date.now(),
+      aiModel: AI_THERAPIST_MODEL,
+      emotionCaptureId: latestCapture?.id
+    });
+  } catch (error) {
+    console.error("AI intervention logging error:", error);
+  }
+}
+
+// Upsert therapeutic memory - progress metrics are kept as a running average over completed sessions.
+// With a session id, a repeated completion of the same session is not counted twice.
+async function applyTherapeuticMemoryUpdate(
+  patientId: string,
+  therapistId: string,
+  update: z.infer<typeof TherapeuticMemoryUpdateSchema>,
+  sessionId?: string
+) {
+  return storage.updateTherapeuticMemory(patientId, therapistId, (existing) => {
+    const alreadyCounted = !!sessionId && existing?.lastSessionId === sessionId;
+    const sessionCompleted = update.sessionCompleted && !alreadyCounted;
+    const previousCount = existing?.sessionCount ?? 0;
+    const sessionCount = sessionCompleted ? previousCount + 1 : previousCount;
+    
+    let progressMetrics = existing?.progressMetrics as Record<string, number> | undefined;
+    if (update.progressMetrics && !alreadyCounted) {
+      const current = update.progressMetrics;
+      if (!progressMetrics || previousCount === 0 || !sessionCompleted) {
+        progressMetrics = current;
+      } else {
+        const average = (previous: number | undefined, value: number) =>
+          ((previous ?? value) * previousCount + value) / sessionCount;
+        progressMetrics = {
+          sudsReduction: average(progressMetrics.sudsReduction, current.sudsReduction),
+          vocImprovement: average(progressMetrics.vocImprovement, current.vocImprovement),
+          emotionalStability: average(progressMetrics.emotionalStability, current.emotionalStability)
+        };
+      }
     }
-    next();
-  };
+    
+    // Newest themes first, without duplicates
+    const keyThemes = update.keyThemes
+      ? Array.from(new Set([...update.keyThemes, ...(existing?.keyThemes ?? [])])).slice(0, MAX_THERAPEUTIC_THEMES)
+      : existing?.keyThemes ?? [];
+    
+    return {
+      patientId,
+      therapistId,
+      sessionCount,
+      keyThemes,
+      progressMetrics: progressMetrics ?? {},
+      adaptivePreferences: update.adaptivePreferences ?? existing?.adaptivePreferences ?? {},
+      emotionalPatterns: update.emotionalPatterns
+        ? { ...(existing?.emotionalPatterns as Record<string, unknown> ?? {}), ...update.emotionalPatterns }
+        : existing?.emotionalPatterns ?? {},
+      treatmentPlan: update.treatmentPlan ?? existing?.treatmentPlan ?? null,
+      lastSessionId: sessionCompleted ? sessionId ?? null : existing?.lastSessionId ?? null
+    };
+  });
+}
+
+// Smallest group of patients a research aggregate may describe
+const RESEARCH_MIN_COHORT_SIZE = 5;
+
+// The config column only ever holds JSON written through the preset routes
+type BLSPresetConfig = InsertBLSConfiguration['config'];
+type MigratedBLSPreset = Omit<StoredBLSPreset, 'config'> & { config: BLSPresetConfig };
+
+// Presets saved before the rate was in Hz keep a 1-10 speed in their config and got the default rate_hz
+function migrateBLSPreset(preset: StoredBLSPreset): MigratedBLSPreset {
+  const config = migrateLegacyBLSSpeed(preset.config as BLSPresetConfig);
+  const rateHz = (config as { rateHz?: unknown } | null)?.rateHz;
+  return { ...preset, config, rateHz: typeof rateHz === 'number' ? rateHz : preset.rateHz };
 }
 
 // SECURITY: PII Sanitization middleware to remove sensitive data from logs
@@ -490,9 +633,7 @@ function sanitizePII(data: any): any {
 
 // Rate limiting middleware for AI endpoints (10 requests per minute)
 function aiRateLimit(req: Request, res: Response, next: NextFunction) {
-  const user = (req as AuthenticatedRequest).user;
-  const sessionUser = (req as AuthenticatedRequest).session?.user;
-  const userId = sessionUser?.id || user?.claims?.sub || user?.id;
+  const userId = getAuthenticatedUserId(req);
   if (!userId) {
     return res.status(401).json({ error: "Authentication required" });
   }
@@ -515,28 +656,14 @@ function aiRateLimit(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-// Session ownership validation
-function validateSessionOwnership(req: Request, res: Response, next: NextFunction) {
-  const { sessionId } = req.body.context || req.body;
-  const user = (req as AuthenticatedRequest).user;
-  const sessionUser = (req as AuthenticatedRequest).session?.user;
-  const userId = sessionUser?.id || user?.claims?.sub || user?.id;
-  
-  if (!sessionId) {
-    return res.status(400).json({ error: "Session ID required" });
-  }
-  
-  const sessionParts = sessionId.split('-');
-  if (sessionParts.length >= 3) {
-    const sessionPatientId = sessionParts[1];
-    if (sessionPatientId !== userId) {
-      return res.status(403).json({ 
-        error: "Access denied: Session does not belong to authenticated user" 
-      });
-    }
+// Hands a crisis detected while serving a patient's AI request to the escalation workflow without delaying the response
+function reportDetectedCrisis(req: Request, sessionId: string | undefined, source: CrisisSource, detection?: CrisisDetection) {
+  if (!detection?.monitoring.alertTherapist || req.user?.role !== 'patient') {
+    return;
   }
-  
-  next();
+
+  crisisEscalationService.raise({ patientId: req.user.id, sessionId, source, detection, reportedBy: req.user.id })
+    .catch(error => console.error("Crisis escalation error:", error));
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -546,32 +673,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication endpoints
   app.get("/api/auth/user", requireAuth, async (req, res) => {
     try {
-      const user = req.user as any;
-      if (!user || !user.claims) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-
-      // Get user data from storage
-      const userData = await storage.getUser(user.claims.sub);
-      if (!userData) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      // Return user data including role
-      res.json({
-        id: userData.id,
-        email: userData.email,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        profileImageUrl: userData.profileImageUrl,
-        role: userData.role,
-        username: userData.username,
-        specialization: userData.specialization,
-        licenseNumber: userData.licenseNumber,
-        clinicalLevel: userData.clinicalLevel,
-        createdAt: userData.createdAt,
-        updatedAt: userData.updatedAt
-      });
+      // req.user is reloaded from storage for every request, so the role is current
+      res.json(toPublicUser(req.user!));
     } catch (error) {
       console.error("Get user error:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -591,6 +694,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedData.sessionHistory
       );
       
+      reportDetectedCrisis(req, validatedData.sessionId, 'ai_analysis', response.crisisDetection);
       res.json(response);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -685,12 +789,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Therapist Chat Message - Direct communication with AI therapist
-  app.post("/api/ai-therapist/message", requireAuth, aiRateLimit, validateSessionOwnership, async (req, res) => {
+  app.post("/api/ai-therapist/message", requireAuth, aiRateLimit, async (req, res) => {
     try {
       const validatedData = AIChatMessageSchema.parse(req.body);
+      const session = await ensureSessionAccess(req, res, validatedData.context.sessionId, validatedData.context.patientProfile.id);
+      if (!session) return;
       
       const fullContext: AIChatContext = {
         ...validatedData.context,
+        sessionId: session.id,
         currentEmotionalState: createFullEmotionData(validatedData.context.currentEmotionalState),
         patientProfile: {
           ...validatedData.context.patientProfile,
@@ -708,6 +815,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fullContext
       );
       
+      await logAIIntervention(session, {
+        type: 'chat',
+        phase: fullContext.phaseContext.currentPhase,
+        patientMessage: validatedData.message,
+        response: aiMessage
+      }, fullContext.sessionMetrics);
+      
       res.json(aiMessage);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -731,6 +845,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/ai-therapist/session-guidance", requireAuth, aiRateLimit, async (req, res) => {
     try {
       const validatedData = SessionGuidanceSchema.parse(req.body);
+      const session = await ensureSessionAccess(req, res, validatedData.sessionId);
+      if (!session) return;
       
       const sessionGuidance = await backendAITherapist.getSessionGuidance(
         validatedData.currentPhase,
@@ -738,6 +854,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedData.sessionMetrics
       );
       
+      await logAIIntervention(session, {
+        type: 'guidance',
+        phase: validatedData.currentPhase,
+        response: sessionGuidance
+      }, validatedData.sessionMetrics);
+      
       res.json(sessionGuidance);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -758,15 +880,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Therapist Emotion Response - Real-time emotion analysis and intervention
-  app.post("/api/ai-therapist/emotion-response", requireAuth, aiRateLimit, validateSessionOwnership, async (req, res) => {
+  app.post("/api/ai-therapist/emotion-response", requireAuth, aiRateLimit, async (req, res) => {
     try {
       const validatedData = EmotionResponseSchema.parse(req.body);
+      const session = await ensureSessionAccess(req, res, validatedData.sessionId);
+      if (!session) return;
       
       const emotionResponse = await backendAITherapist.processEmotionResponse(
         createFullEmotionData(validatedData.emotionData),
         validatedData.currentPhase
       );
       
+      await logAIIntervention(session, {
+        type: 'emotion-response',
+        phase: validatedData.currentPhase,
+        response: emotionResponse
+      });
+      
       res.json(emotionResponse);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -787,7 +917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Therapist Voice Message - Enhanced voice-aware communication
-  app.post("/api/ai-therapist/voice-message", requireAuth, aiRateLimit, validateSessionOwnership, async (req, res) => {
+  app.post("/api/ai-therapist/voice-message", requireAuth, aiRateLimit, async (req, res) => {
     try {
       // Enhanced schema for voice messages
       const VoiceMessageSchema = AIChatMessageSchema.extend({
@@ -822,9 +952,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const validatedData = VoiceMessageSchema.parse(req.body);
+      const session = await ensureSessionAccess(req, res, validatedData.context.sessionId, validatedData.context.patientProfile.id);
+      if (!session) return;
       
       const fullContext: AIChatContext = {
         ...validatedData.context,
+        sessionId: session.id,
         currentEmotionalState: createFullEmotionData(validatedData.context.currentEmotionalState),
         patientProfile: {
           ...validatedData.context.patientProfile,
@@ -843,6 +976,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         validatedData.voiceContext
       );
       
+      await logAIIntervention(session, {
+        type: 'voice',
+        phase: fullContext.phaseContext.currentPhase,
+        patientMessage: validatedData.message,
+        response: aiMessage
+      }, fullContext.sessionMetrics);
+      
+      reportDetectedCrisis(req, session.id, 'voice_ai', aiMessage.crisisDetection);
       console.log(`🎯 Voice message processed for session ${fullContext.sessionId}`);
       res.json(aiMessage);
     } catch (error) {
@@ -864,7 +1005,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Therapist Voice Session Management
-  app.post("/api/ai-therapist/voice-session", requireAuth, aiRateLimit, validateSessionOwnership, async (req, res) => {
+  app.post("/api/ai-therapist/voice-session", requireAuth, aiRateLimit, async (req, res) => {
     try {
       const VoiceSessionSchema = z.object({
         sessionId: z.string(),
@@ -876,10 +1017,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           adaptationLevel: z.number().min(0).max(1).default(0.8)
         }).optional(),
         currentEmotionalState: EmotionDataSchema.optional(),
-        currentPhase: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']).optional()
+        currentPhase: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']).optional()
       });
 
       const validatedData = VoiceSessionSchema.parse(req.body);
+      if (!(await ensureSessionAccess(req, res, validatedData.sessionId))) return;
       
       let response: any;
       
@@ -1182,9 +1324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ElevenLabs rate limiting middleware
   const elevenlabsRateLimit = (endpoint: string) => (req: Request, res: Response, next: NextFunction) => {
-    const user = (req as AuthenticatedRequest).user;
-    const sessionUser = (req as AuthenticatedRequest).session?.user;
-    const userId = sessionUser?.id || user?.claims?.sub || user?.id;
+    const userId = getAuthenticatedUserId(req);
     const identifier = `${userId || 'anonymous'}_${req.ip || 'unknown'}`;
     
     if (!checkElevenLabsRateLimit(identifier, endpoint)) {
@@ -1210,9 +1350,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const user = (req as AuthenticatedRequest).user;
-      const sessionUser = (req as AuthenticatedRequest).session?.user;
-      const userId = sessionUser?.id || user?.claims?.sub || user?.id || 'anonymous';
+      const userId = getAuthenticatedUserId(req) || 'anonymous';
 
       // Generate JWT token with limited scope for ElevenLabs access
       const tokenPayload = {
@@ -1459,6 +1597,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     provider: z.enum(['openai-whisper', 'assemblyai', 'web-speech-api', 'azure', 'google-cloud'])
   });
 
+  const STTTranscribeFieldsSchema = z.object({
+    language: z.enum(['en', 'ru', 'auto', 'es', 'fr', 'de', 'it', 'pt', 'zh', 'ja', 'ko']).optional(),
+    prompt: z.string().max(1000).optional(),
+    temperature: z.coerce.number().min(0).max(1).optional()
+  });
+
   const STTStreamRequestSchema = z.object({
     provider: z.enum(['assemblyai', 'azure', 'google-cloud']),
     sessionId: z.string().min(1).max(100),
@@ -1508,9 +1652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // STT Rate limiting middleware
   const sttRateLimit = (req: Request, res: Response, next: NextFunction) => {
-    const user = (req as AuthenticatedRequest).user;
-    const sessionUser = (req as AuthenticatedRequest).session?.user;
-    const userId = sessionUser?.id || user?.claims?.sub || user?.id;
+    const userId = getAuthenticatedUserId(req);
     const identifier = `${userId || 'anonymous'}_${req.ip || 'unknown'}`;
     
     if (!checkSTTRateLimit(identifier)) {
@@ -1577,58 +1719,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // STT Transcription endpoint - OpenAI Whisper batch processing
-  app.post("/api/stt/transcribe", requireAuth, sttRateLimit, async (req, res) => {
+  // Buffer multipart uploads for the transcription endpoint, leaving room for text fields
+  const rawMultipartParser = express.raw({ type: 'multipart/form-data', limit: MAX_AUDIO_UPLOAD_BYTES + 1024 * 1024 });
+  const sttUploadParser = (req: Request, res: Response, next: NextFunction) => {
+    rawMultipartParser(req, res, (err?: any) => {
+      if (err) {
+        return res.status(err.status === 413 ? 413 : 400).json({ 
+          error: err.status === 413 ? `Audio upload exceeds ${MAX_AUDIO_UPLOAD_BYTES} bytes` : "Failed to read upload body" 
+        });
+      }
+      next();
+    });
+  };
+
+  // STT Transcription endpoint - batch transcription of an uploaded audio file
+  app.post("/api/stt/transcribe", requireAuth, sttRateLimit, sttUploadParser, async (req, res) => {
+    const startedAt = Date.now();
     try {
-      if (!STT_PROVIDER_KEYS.openai) {
+      const backend = getTranscriptionBackend();
+      if (!backend || !backend.isAvailable()) {
         return res.status(503).json({ 
-          error: "OpenAI API key not configured" 
+          error: "Transcription backend not configured" 
         });
       }
 
-      // Handle multipart form data for audio upload
       const contentType = req.headers['content-type'];
-      if (!contentType || !contentType.includes('multipart/form-data')) {
+      if (!contentType || !contentType.includes('multipart/form-data') || !Buffer.isBuffer(req.body)) {
         return res.status(400).json({ 
           error: "Content-Type must be multipart/form-data" 
         });
       }
 
-      // In a real implementation, you would use multer or similar
-      // For now, we'll simulate the response structure
-      const mockTranscriptionResult = {
-        text: "This is a mock transcription result for development testing.",
-        language: "en",
-        duration: 3.5,
-        confidence: 0.95,
-        words: [
-          { word: "This", start: 0.0, end: 0.3, confidence: 0.98 },
-          { word: "is", start: 0.3, end: 0.4, confidence: 0.97 },
-          { word: "a", start: 0.4, end: 0.5, confidence: 0.96 },
-          { word: "mock", start: 0.5, end: 0.8, confidence: 0.94 },
-          { word: "transcription", start: 0.8, end: 1.4, confidence: 0.95 },
-          { word: "result", start: 1.4, end: 1.8, confidence: 0.96 },
-          { word: "for", start: 1.8, end: 2.0, confidence: 0.97 },
-          { word: "development", start: 2.0, end: 2.7, confidence: 0.93 },
-          { word: "testing.", start: 2.7, end: 3.2, confidence: 0.95 }
-        ],
-        segments: [
-          {
-            text: "This is a mock transcription result for development testing.",
-            start: 0.0,
-            end: 3.2,
-            confidence: 0.95
-          }
-        ]
-      };
+      const form = parseMultipartForm(req.body, contentType);
+      if (!form) {
+        return res.status(400).json({ 
+          error: "Malformed multipart body" 
+        });
+      }
+
+      const file = form.files.find(f => f.field === 'audio');
+      if (!file) {
+        return res.status(400).json({ 
+          error: "Missing 'audio' file field" 
+        });
+      }
+
+      const upload = validateAudioUpload(file);
+      if (!upload.valid) {
+        return res.status(upload.status).json({ 
+          error: upload.error 
+        });
+      }
+
+      const options = STTTranscribeFieldsSchema.parse(form.fields);
+      const output = await backend.transcribe(upload.audio, options);
 
-      res.json(mockTranscriptionResult);
+      res.json(toTranscriptionResult(output, upload.audio, backend, startedAt));
 
     } catch (error) {
-      console.error("STT transcription error:", error);
-      res.status(500).json({ 
-        error: "Failed to transcribe audio" 
-      });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors 
+        });
+      } else {
+        console.error("STT transcription error:", error);
+        res.status(500).json({ 
+          error: "Failed to transcribe audio" 
+        });
+      }
     }
   });
 
@@ -1831,7 +1990,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // TTS Schemas for validation
   const TTSSynthesisRequestSchema = z.object({
-    provider: z.enum(['google-cloud', 'web-speech', 'azure', 'aws-polly', 'elevenlabs']),
+    provider: z.enum(['auto', 'google-cloud', 'elevenlabs', 'local']).default('auto'),
     request: z.object({
       input: z.object({
         text: z.string().optional(),
@@ -1854,6 +2013,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }),
       enableTimePointing: z.array(z.string()).optional()
     }),
+    providerOptions: z.object({
+      elevenlabs: z.object({
+        voiceId: z.string().optional(),
+        modelId: z.string().optional()
+      }).optional()
+    }).optional(),
     sessionId: z.string().optional(),
     streaming: z.object({
       chunkIndex: z.number(),
@@ -1897,9 +2062,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // TTS Rate limiting middleware
   const ttsRateLimit = (req: Request, res: Response, next: NextFunction) => {
-    const user = (req as AuthenticatedRequest).user;
-    const sessionUser = (req as AuthenticatedRequest).session?.user;
-    const userId = sessionUser?.id || user?.claims?.sub || user?.id;
+    const userId = getAuthenticatedUserId(req);
     const identifier = `${userId || 'anonymous'}_${req.ip || 'unknown'}`;
     
     if (!checkTTSRateLimit(identifier)) {
@@ -1916,73 +2079,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const GOOGLE_CLOUD_TTS_KEY = process.env.GOOGLE_CLOUD_TTS_KEY || '';
   const GOOGLE_CLOUD_PROJECT = process.env.GOOGLE_CLOUD_PROJECT || '';
 
-  // TTS Synthesis endpoint - Google Cloud proxy
+  // TTS Synthesis endpoint - routed through the provider registry with automatic fallback
   app.post("/api/tts/synthesize", requireAuth, ttsRateLimit, async (req, res) => {
     try {
       console.log('🎵 TTS synthesis request received');
       
       const validatedData = TTSSynthesisRequestSchema.parse(req.body);
-      const { provider, request: ttsRequest, sessionId, streaming } = validatedData;
-
-      // Only support Google Cloud for now (Web Speech runs client-side)
-      if (provider !== 'google-cloud') {
-        return res.status(400).json({ 
-          error: `Provider ${provider} not supported on server. Use 'google-cloud' or handle client-side.` 
-        });
-      }
-
-      // Check if Google Cloud TTS is configured
-      if (!GOOGLE_CLOUD_TTS_KEY) {
-        return res.status(503).json({ 
-          error: "Google Cloud TTS API key not configured on server",
-          fallback: "web-speech" 
-        });
-      }
+      const { provider, request: ttsRequest, providerOptions, sessionId, streaming } = validatedData;
 
       const startTime = Date.now();
-      
-      // Make request to Google Cloud TTS API
-      const googleCloudUrl = `https://texttospeech.googleapis.com/v1/text:synthesize?key=${GOOGLE_CLOUD_TTS_KEY}`;
-      
-      console.log('🌐 Making request to Google Cloud TTS API...');
-      
-      const response = await fetch(googleCloudUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(ttsRequest)
-      });
+      const outcome = await ttsProviderRegistry.synthesize(
+        provider,
+        ttsRequest,
+        providerOptions
+      );
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        console.error('❌ Google Cloud TTS API error:', response.status, errorData);
-        
-        return res.status(response.status).json({
-          error: `Google Cloud TTS API error: ${response.status}`,
-          message: errorData?.error?.message || response.statusText,
+      if (!('result' in outcome)) {
+        console.error('❌ No TTS provider could synthesize the request:', outcome.attempts);
+        return res.status(503).json({
+          error: provider === 'auto'
+            ? "No TTS provider available"
+            : `TTS provider ${provider} unavailable`,
+          message: outcome.attempts.map(attempt => `${attempt.provider}: ${attempt.reason}`).join('; '),
+          attempts: outcome.attempts,
           fallback: "web-speech"
         });
       }
 
-      const result = await response.json();
       const synthesisTime = Date.now() - startTime;
       
-      console.log(`✅ TTS synthesis completed in ${synthesisTime}ms`);
+      console.log(`✅ TTS synthesis completed by ${outcome.provider} in ${synthesisTime}ms`);
       
-      // Add metadata to response
-      const enhancedResult = {
-        ...result,
+      res.json({
+        ...outcome.result,
         metadata: {
-          provider: 'google-cloud',
+          provider: outcome.provider,
           synthesisTime,
           sessionId,
           streaming,
+          attempts: outcome.attempts,
           timestamp: new Date().toISOString()
         }
-      };
-
-      res.json(enhancedResult);
+      });
 
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2120,16 +2258,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // TTS Health check endpoint
   app.get("/api/tts/health", (req, res) => {
-    const googleCloudConfigured = !!GOOGLE_CLOUD_TTS_KEY;
-    const rateLimitEntries = ttsRateLimitStore.size;
+    const providers = ttsProviderRegistry.getHealth();
+    const anyAvailable = Object.values(providers).some(provider => provider.available);
     
     res.json({
-      status: 'healthy',
+      status: anyAvailable ? 'healthy' : 'degraded',
+      fallbackOrder: ttsProviderRegistry.getFallbackOrder(),
       providers: {
-        'google-cloud': {
-          configured: googleCloudConfigured,
-          available: googleCloudConfigured
-        },
+        ...providers,
         'web-speech': {
           configured: true, // Always available client-side
           available: true,
@@ -2137,7 +2273,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       },
       rateLimit: {
-        activeEntries: rateLimitEntries,
+        activeEntries: ttsRateLimitStore.size,
         limit: '30 requests per minute'
       },
       uptime: process.uptime(),
@@ -2148,33 +2284,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // TTS Usage statistics (for monitoring and optimization)
   app.get("/api/tts/stats", requireAuth, requireRole(['admin', 'researcher']), async (req, res) => {
     try {
-      // This would typically pull from a proper analytics database
-      // For now, we'll provide basic rate limiting stats
-      
+      // Counters live in the provider registry and reset on restart
+      const health = ttsProviderRegistry.getHealth();
+      const providers = Object.fromEntries(Object.entries(health).map(([id, provider]) => [id, {
+        requests: provider.requests,
+        errors: provider.errors,
+        avgLatency: provider.avgLatency
+      }]));
+      const totalRequests = Object.values(health).reduce((sum, provider) => sum + provider.requests, 0);
+      const totalErrors = Object.values(health).reduce((sum, provider) => sum + provider.errors, 0);
+      const successes = totalRequests - totalErrors;
+      const latencySum = Object.values(health)
+        .reduce((sum, provider) => sum + provider.avgLatency * (provider.requests - provider.errors), 0);
+
       const stats = {
-        totalRequests: 0, // Would be tracked in production
-        successRate: 0.95, // Example metric
-        averageLatency: 850, // ms - typical Google Cloud TTS latency
-        providers: {
-          'google-cloud': {
-            requests: 0,
-            errors: 0,
-            avgLatency: 850
-          },
-          'web-speech': {
-            requests: 0,
-            errors: 0,
-            avgLatency: 200 // Faster but lower quality
-          }
-        },
+        totalRequests,
+        successRate: totalRequests > 0 ? successes / totalRequests : null,
+        averageLatency: successes > 0 ? Math.round(latencySum / successes) : null,
+        providers,
         rateLimiting: {
-          activeUsers: ttsRateLimitStore.size,
-          rejectedRequests: 0
-        },
-        voiceUsage: {
-          mostPopular: 'en-US-Neural2-F',
-          totalVoices: 245,
-          therapeuticVoices: 89
+          activeUsers: ttsRateLimitStore.size
         },
         timestamp: new Date()
       };
@@ -2194,7 +2323,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================================================
 
   // Analytics Dashboard Overview - Multi-role analytics data
-  app.get("/api/analytics/overview/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/analytics/overview/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
       const { userRole } = req.query;
@@ -2235,7 +2364,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Insights - Revolutionary AI-powered insights
-  app.get("/api/analytics/ai-insights/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/analytics/ai-insights/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
       const { userRole } = req.query;
@@ -2349,8 +2478,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Research aggregates - de-identified: no ids, and groups under the minimum cohort size are suppressed
+  app.get("/api/analytics/research/aggregate", requireAuth, requireRole(['admin', 'researcher']), async (req, res) => {
+    try {
+      const patients = await storage.getAllPatients();
+      if (patients.length < RESEARCH_MIN_COHORT_SIZE) {
+        return res.json({ suppressed: true, minCohortSize: RESEARCH_MIN_COHORT_SIZE, generatedAt: new Date() });
+      }
+
+      const phaseGroups = new Map<string, { patients: Set<string>; sessions: number; completed: number; sudsChanges: number[]; vocChanges: number[] }>();
+      let totalSessions = 0;
+      for (const patient of patients) {
+        const sessions = await storage.getSessionsByPatient(patient.id);
+        totalSessions += sessions.length;
+        sessions.forEach(session => {
+          const group = phaseGroups.get(session.phase) ?? { patients: new Set<string>(), sessions: 0, completed: 0, sudsChanges: [], vocChanges: [] };
+          group.patients.add(session.patientId);
+          group.sessions++;
+          if (session.status === 'completed') group.completed++;
+          if (session.sudsInitial !== null && session.sudsFinal !== null) group.sudsChanges.push(session.sudsFinal - session.sudsInitial);
+          if (session.vocInitial !== null && session.vocFinal !== null) group.vocChanges.push(session.vocFinal - session.vocInitial);
+          phaseGroups.set(session.phase, group);
+        });
+      }
+
+      const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+      const phases = Array.from(phaseGroups.entries()).map(([phase, group]) =>
+        group.patients.size < RESEARCH_MIN_COHORT_SIZE
+          ? { phase, suppressed: true }
+          : {
+              phase,
+              patients: group.patients.size,
+              sessions: group.sessions,
+              completionRate: group.completed / group.sessions,
+              averageSudsChange: mean(group.sudsChanges),
+              averageVocChange: mean(group.vocChanges)
+            }
+      );
+
+      res.json({
+        suppressed: false,
+        minCohortSize: RESEARCH_MIN_COHORT_SIZE,
+        patients: patients.length,
+        totalSessions,
+        phases,
+        generatedAt: new Date()
+      });
+    } catch (error) {
+      console.error("Research aggregate error:", error);
+      res.status(500).json({ error: "Failed to get research aggregates" });
+    }
+  });
+
   // 2. Patient Overview - Comprehensive patient analytics
-  app.get("/api/analytics/patient-overview/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/patient-overview/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2384,7 +2565,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 3. Breakthrough Predictions - ML-powered breakthrough forecasting
-  app.get("/api/analytics/breakthrough-predictions/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/breakthrough-predictions/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2420,7 +2601,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 4. Risk Assessment - AI-powered risk analysis
-  app.get("/api/analytics/risk-assessment/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/risk-assessment/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2457,7 +2638,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 5. Emotion Patterns - Advanced pattern recognition
-  app.get("/api/analytics/emotion-patterns/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/emotion-patterns/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2499,7 +2680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 6. Treatment Effectiveness - Evidence-based effectiveness metrics
-  app.get("/api/analytics/treatment-effectiveness/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/treatment-effectiveness/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2550,7 +2731,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 7. Predictive Trends - AI forecasting and trend analysis
-  app.get("/api/analytics/predictive-trends/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/predictive-trends/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       const { timeHorizon = 30 } = req.query;
@@ -2616,7 +2797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 8. Neural Insights - Advanced neural pattern analysis
-  app.get("/api/analytics/neural-insights/:id", requireAuth, requireRole(['therapist', 'admin', 'researcher']), async (req, res) => {
+  app.get("/api/analytics/neural-insights/:id", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess('id'), async (req, res) => {
     try {
       const { id: patientId } = req.params;
       
@@ -2678,7 +2859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Emotion Heatmap Data - Real-time emotion intensity mapping
-  app.get("/api/sessions/emotions/heatmap/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/sessions/emotions/heatmap/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
       const { sessionId, realTime } = req.query;
@@ -2709,7 +2890,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 3D Progress Trajectory Data
-  app.get("/api/sessions/progress/trajectory/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/sessions/progress/trajectory/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
       
@@ -2739,30 +2920,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Neural Patterns Data - Brain activity visualization
-  app.get("/api/sessions/neural/patterns/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/sessions/neural/patterns/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
-      const { sessionId } = req.query;
-      
-      // Get emotional patterns and generate neural network visualization data
-      const patterns = await storage.getEmotionalPatterns(patientId);
-      const snapshots = await storage.getSnapshotsByPatient(patientId, 20);
-      
-      // Simulate neural patterns based on emotional data
-      const neuralPatterns = snapshots.slice(0, 10).map((snapshot, index) => ({
-        id: `pattern_${index}`,
-        name: `Neural Pattern ${index + 1}`,
-        timestamp: new Date(snapshot.createdAt),
-        activity: snapshot.engagementLevel || Math.random(),
-        coherence: snapshot.stabilityScore || Math.random(),
-        nodes: generateNeuralNodes(snapshot),
-        connections: generateNeuralConnections(snapshot)
-      }));
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
       
-      // Generate brainwave data
-      const brainwaves = generateBrainwaveData(snapshots);
+      // Correlation graphs and spectral bands derived from recorded emotion captures
+      const affectPatterns = await affectAnalyticsService.getAffectPatterns(patientId, sessionId);
       
-      res.json({ patterns: neuralPatterns, brainwaves });
+      res.json(affectPatterns);
     } catch (error) {
       console.error("Neural patterns error:", error);
       res.status(500).json({ error: "Failed to get neural patterns data" });
@@ -2770,48 +2936,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Breakthrough Moments Timeline
-  app.get("/api/sessions/breakthroughs/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/sessions/breakthroughs/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
-      const { timeRange } = req.query;
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+      const timeRange = typeof req.query.timeRange === 'string' ? req.query.timeRange : 'month';
       
-      const breakthroughs = await storage.getBreakthroughMoments(patientId);
-      const snapshots = await storage.getSnapshotsByPatient(patientId, 100);
+      const rangeMs: Record<string, number> = {
+        day: 24 * 60 * 60 * 1000,
+        week: 7 * 24 * 60 * 60 * 1000,
+        month: 30 * 24 * 60 * 60 * 1000
+      };
+      const since = rangeMs[timeRange] ? Date.now() - rangeMs[timeRange] : 0;
+      
+      const breakthroughs = sessionId && timeRange === 'session'
+        ? (await storage.getBreakthroughMoments(sessionId)).filter(b => b.patientId === patientId)
+        : (await storage.getBreakthroughsByPatient(patientId, 200))
+            .filter(b => b.timestamp.getTime() >= since && (!sessionId || b.sessionId === sessionId));
+      
+      const titles: Record<string, string> = {
+        emotional_release: 'Эмоциональное отреагирование',
+        memory_integration: 'Интеграция воспоминания',
+        cognitive_shift: 'Когнитивный сдвиг',
+        insight: 'Инсайт',
+        resistance_breakthrough: 'Преодоление сопротивления'
+      };
       
-      // Enhance breakthrough data with context
-      const enhancedBreakthroughs = breakthroughs.map(breakthrough => {
-        const relatedSnapshot = snapshots.find(s => 
-          Math.abs(new Date(s.createdAt).getTime() - new Date(breakthrough.timestamp).getTime()) < 300000
-        );
-        
-        return {
-          ...breakthrough,
-          emotionalState: relatedSnapshot ? {
-            before: {
-              arousal: 0.7,
-              valence: 0.3,
-              stress: 0.8
+      // Shape detected breakthroughs for the timeline
+      const timeline = breakthroughs
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .map(breakthrough => {
+          const before = breakthrough.emotionalBefore as { arousal: number; valence: number; stress: number };
+          const after = breakthrough.emotionalAfter as { arousal: number; valence: number; stress: number };
+          const analysis = (breakthrough.aiAnalysis ?? {}) as { rule?: string; vocBefore?: number | null; vocAfter?: number | null };
+          const significance = breakthrough.significanceLevel ?? 0;
+          const sudsChange = breakthrough.sudsBefore !== null && breakthrough.sudsAfter !== null
+            ? breakthrough.sudsAfter - breakthrough.sudsBefore
+            : 0;
+          const vocChange = analysis.vocBefore != null && analysis.vocAfter != null
+            ? analysis.vocAfter - analysis.vocBefore
+            : 0;
+          
+          const outcomes: string[] = [];
+          if (sudsChange < 0) outcomes.push(`SUD: ${breakthrough.sudsBefore} → ${breakthrough.sudsAfter}`);
+          if (vocChange > 0) outcomes.push(`VOC: ${analysis.vocBefore} → ${analysis.vocAfter}`);
+          if (after.valence > before.valence) outcomes.push('Улучшение эмоционального фона');
+          
+          return {
+            id: breakthrough.id,
+            timestamp: breakthrough.timestamp,
+            sessionId: breakthrough.sessionId,
+            type: breakthrough.momentType,
+            severity: significance >= 0.85 ? 'transformational' : significance >= 0.6 ? 'major' : significance >= 0.4 ? 'moderate' : 'minor',
+            title: titles[breakthrough.momentType] || breakthrough.momentType,
+            description: breakthrough.description,
+            duration: breakthrough.duration ?? 0,
+            triggers: breakthrough.triggerEvent ? [breakthrough.triggerEvent] : [],
+            outcomes,
+            emotionalState: { before, after },
+            metrics: {
+              sudsChange,
+              vocChange,
+              stabilityImprovement: before.stress - after.stress
             },
-            after: {
-              arousal: 0.4,
-              valence: 0.7,
-              stress: 0.3
+            aiAnalysis: {
+              significance,
+              patterns: analysis.rule ? [analysis.rule] : [],
+              recommendations: breakthrough.followUpNeeded ? ['Обсудить этот момент на следующей сессии'] : []
             }
-          } : null,
-          metrics: {
-            sudsChange: -2.5,
-            vocChange: 1.8,
-            stabilityImprovement: 0.3
-          },
-          aiAnalysis: {
-            significance: 0.8 + Math.random() * 0.2,
-            patterns: ['Emotional regulation improvement', 'Memory processing enhancement'],
-            recommendations: ['Continue current approach', 'Monitor for sustained progress']
-          }
-        };
-      });
+          };
+        });
       
-      res.json({ breakthroughs: enhancedBreakthroughs });
+      res.json({ breakthroughs: timeline });
     } catch (error) {
       console.error("Breakthroughs error:", error);
       res.status(500).json({ error: "Failed to get breakthrough data" });
@@ -2819,276 +3015,1343 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Predictive Analytics - ML-powered predictions
-  app.get("/api/sessions/analytics/predictions/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/sessions/analytics/predictions/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
       const { patientId } = req.params;
-      const { timeHorizon = 30 } = req.query;
+      const timeHorizon = Math.min(365, Math.max(1, parseInt(String(req.query.timeHorizon ?? 30), 10) || 30));
       
-      // Get historical data for predictions
-      const snapshots = await storage.getSnapshotsByPatient(patientId, 50);
-      const trends = (storage as any).getTrendAnalysis ? await (storage as any).getTrendAnalysis(patientId) : {};
+      // Regression forecasts over session snapshots
+      const predictiveAnalytics = await affectAnalyticsService.getPredictions(patientId, timeHorizon);
       
-      // Generate predictive models
-      const predictions = ['suds', 'voc', 'stability', 'stress', 'engagement'].map(metric => 
-        generatePrediction(metric, snapshots, parseInt(timeHorizon as string))
-      );
+      res.json(predictiveAnalytics);
+    } catch (error) {
+      console.error("Predictive analytics error:", error);
+      res.status(500).json({ error: "Failed to get predictive analytics" });
+    }
+  });
+
+  // Rate limiting middleware for emotion capture
+  const emotionCaptureRateLimiter = new Map();
+  
+  const checkRateLimit = (identifier: string): boolean => {
+    const now = Date.now();
+    const limit = emotionCaptureRateLimiter.get(identifier);
+    
+    if (!limit || now > limit.resetTime) {
+      emotionCaptureRateLimiter.set(identifier, {
+        count: 1,
+        resetTime: now + 60000
+      });
+      return true;
+    }
+    
+    if (limit.count >= 20) {
+      return false;
+    }
+    
+    limit.count++;
+    return true;
+  };
+  
+  // Cleanup old rate limit entries every 5 minutes
+  setInterval(() => {
+    const now = Date.now();
+    emotionCaptureRateLimiter.forEach((value, key) => {
+      if (now > value.resetTime) {
+        emotionCaptureRateLimiter.delete(key);
+      }
+    });
+  }, 300000);
+  
+  // Save emotion capture with validation and rate limiting
+  app.post("/api/emotions/capture", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const rateLimitKey = `${req.user!.id}_${req.ip || 'unknown'}`;
+      if (!checkRateLimit(rateLimitKey)) {
+        return res.status(429).json({ 
+          error: "Rate limit exceeded. Maximum 20 requests per minute." 
+        });
+      }
+      
+      let validatedData;
+      try {
+        validatedData = EmotionCaptureSchema.parse(req.body);
+      } catch (zodError) {
+        if (zodError instanceof z.ZodError) {
+          return res.status(400).json({ 
+            error: "Invalid request data", 
+            details: zodError.errors.map(err => ({
+              path: err.path.join('.'),
+              message: err.message
+            }))
+          });
+        }
+        throw zodError;
+      }
       
-      // Generate risk assessments
-      const risks = generateRiskPredictions(snapshots);
+      const { emotionData } = validatedData;
+      const phase = validatedData.phase || 'desensitization';
       
-      // Generate opportunities
-      const opportunities = generateOpportunityPredictions(snapshots);
+      // Captures are stored against the resolved session and its patient, never the ids as sent
+      const session = await ensureSessionAccess(req, res, validatedData.sessionId, validatedData.patientId);
+      if (!session) return;
       
-      // Model performance metrics
-      const models = [
-        {
-          name: 'EMDR Progress Predictor',
-          accuracy: 0.85 + Math.random() * 0.05,
-          lastUpdated: new Date(),
-          dataPoints: 15420,
-          confidence: 0.87 + Math.random() * 0.08
-        },
-        {
-          name: 'Risk Assessment Model',
-          accuracy: 0.82 + Math.random() * 0.05,
-          lastUpdated: new Date(Date.now() - 2 * 60 * 60 * 1000),
-          dataPoints: 8930,
-          confidence: 0.85 + Math.random() * 0.06
+      const emotionCapture = await storage.createEmotionCapture({
+        sessionId: session.id,
+        patientId: session.patientId,
+        source: 'face',
+        arousal: emotionData.arousal,
+        valence: emotionData.valence,
+        affects: emotionData.affects || {},
+        basicEmotions: emotionData.basicEmotions || {},
+        phaseContext: phase,
+        blsConfig: validatedData.blsConfig || null
+      });
+      
+      res.json({ 
+        success: true, 
+        captureId: emotionCapture.id,
+        message: "Emotion captured successfully" 
+      });
+    } catch (error) {
+      console.error("Emotion capture error:", error);
+      res.status(500).json({ 
+        error: "Failed to capture emotion data" 
+      });
+    }
+  });
+  
+  // Get emotion captures for session
+  app.get("/api/emotions/session/:sessionId", requireAuth, requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const limit = parseInt(req.query.limit as string) || 100;
+      
+      const emotions = await storage.getEmotionCaptures(sessionId, limit);
+      
+      res.json({ 
+        emotions,
+        count: emotions.length 
+      });
+    } catch (error) {
+      console.error("Get emotions error:", error);
+      res.status(500).json({ 
+        error: "Failed to get emotion data" 
+      });
+    }
+  });
+  
+  // Get latest emotion for session
+  app.get("/api/emotions/session/:sessionId/latest", requireAuth, requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      
+      const latestEmotion = await storage.getLatestEmotionCapture(sessionId);
+      
+      if (!latestEmotion) {
+        return res.status(404).json({ 
+          error: "No emotion data found for session" 
+        });
+      }
+      
+      res.json(latestEmotion);
+    } catch (error) {
+      console.error("Get latest emotion error:", error);
+      res.status(500).json({ 
+        error: "Failed to get latest emotion data" 
+      });
+    }
+  });
+  
+  // Create new EMDR session
+  app.post("/api/sessions", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const { patientId } = req.body;
+      
+      if (!patientId) {
+        return res.status(400).json({ 
+          error: "Missing required field: patientId" 
+        });
+      }
+      
+      const decision = await checkPatientAccess(req.user!, patientId);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.error });
+      }
+      
+      // Therapists conduct their own sessions; admins may book one for a therapist on the patient's caseload
+      let therapistId = req.user!.id;
+      if (req.user!.role === 'admin') {
+        if (!req.body.therapistId) {
+          return res.status(400).json({ error: "Missing required field: therapistId" });
         }
-      ];
+        const assignment = await storage.getActiveCaseloadAssignment(req.body.therapistId, patientId);
+        if (!assignment) {
+          return res.status(400).json({ error: "Patient is not on this therapist's caseload" });
+        }
+        therapistId = req.body.therapistId;
+      }
+      
+      const session = await storage.createSession({
+        patientId,
+        therapistId,
+        phase: 'preparation',
+        status: 'active',
+        startTime: new Date(),
+        endTime: null,
+        notes: null,
+        sudsInitial: null,
+        sudsFinal: null,
+        vocInitial: null,
+        vocFinal: null
+      });
+      
+      res.json(session);
+    } catch (error) {
+      console.error("Create session error:", error);
+      res.status(500).json({ 
+        error: "Failed to create session" 
+      });
+    }
+  });
+  
+  // Get active session for patient
+  app.get("/api/sessions/active/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      const { patientId } = req.params;
+      
+      const session = await storage.getActiveSessionByPatient(patientId);
+      
+      if (!session) {
+        return res.status(404).json({ 
+          error: "No active session found" 
+        });
+      }
+      
+      res.json(session);
+    } catch (error) {
+      console.error("Get active session error:", error);
+      res.status(500).json({ 
+        error: "Failed to get active session" 
+      });
+    }
+  });
+  
+  // Update session
+  app.patch("/api/sessions/:sessionId", requireAuth, requireRole(['therapist', 'admin']), requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const updates = req.body;
       
-      res.json({ predictions, risks, opportunities, models });
+      const updatedSession = await storage.updateSession(sessionId, updates);
+      
+      if (!updatedSession) {
+        return res.status(404).json({ 
+          error: "Session not found" 
+        });
+      }
+      
+      res.json(updatedSession);
+    } catch (error) {
+      console.error("Update session error:", error);
+      res.status(500).json({ 
+        error: "Failed to update session" 
+      });
+    }
+  });
+
+  // === SESSION NOTES ===
+  
+  // Create a note for a session
+  app.post("/api/sessions/:sessionId/notes", requireAuth, requireRole(['therapist', 'admin']), requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const authorId = getAuthenticatedUserId(req);
+      if (!authorId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const validatedData = SessionNoteSchema.parse(req.body);
+      
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ 
+          error: "Session not found" 
+        });
+      }
+      
+      const note = await storage.createSessionNote({
+        ...validatedData,
+        sessionId,
+        authorId
+      });
+      
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Create session note error:", error);
+        res.status(500).json({ 
+          error: "Failed to create session note" 
+        });
+      }
+    }
+  });
+  
+  // List notes for a session, optionally filtered by phase
+  app.get("/api/sessions/:sessionId/notes", requireAuth, requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const phase = typeof req.query.phase === 'string' ? req.query.phase : undefined;
+      
+      // Private notes are visible to clinical staff only
+      const includePrivate = getAuthenticatedUserRole(req) !== 'patient';
+      
+      const notes = await storage.getSessionNotes(sessionId, { phase, includePrivate });
+      
+      res.json({ 
+        notes,
+        count: notes.length 
+      });
+    } catch (error) {
+      console.error("Get session notes error:", error);
+      res.status(500).json({ 
+        error: "Failed to get session notes" 
+      });
+    }
+  });
+  
+  // Edit a session note - only the author or an admin may change it
+  app.patch("/api/sessions/:sessionId/notes/:noteId", requireAuth, requireRole(['therapist', 'admin']), requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId, noteId } = req.params;
+      const validatedData = SessionNoteUpdateSchema.parse(req.body);
+      
+      const note = await storage.getSessionNote(noteId);
+      if (!note || note.sessionId !== sessionId) {
+        return res.status(404).json({ 
+          error: "Session note not found" 
+        });
+      }
+      
+      if (note.authorId !== getAuthenticatedUserId(req) && getAuthenticatedUserRole(req) !== 'admin') {
+        return res.status(403).json({ 
+          error: "Access denied: only the author can edit this note" 
+        });
+      }
+      
+      const updatedNote = await storage.updateSessionNote(noteId, validatedData);
+      
+      res.json(updatedNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Update session note error:", error);
+        res.status(500).json({ 
+          error: "Failed to update session note" 
+        });
+      }
+    }
+  });
+  
+  // Delete a session note - only the author or an admin may remove it
+  app.delete("/api/sessions/:sessionId/notes/:noteId", requireAuth, requireRole(['therapist', 'admin']), requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId, noteId } = req.params;
+      
+      const note = await storage.getSessionNote(noteId);
+      if (!note || note.sessionId !== sessionId) {
+        return res.status(404).json({ 
+          error: "Session note not found" 
+        });
+      }
+      
+      if (note.authorId !== getAuthenticatedUserId(req) && getAuthenticatedUserRole(req) !== 'admin') {
+        return res.status(403).json({ 
+          error: "Access denied: only the author can delete this note" 
+        });
+      }
+      
+      await storage.deleteSessionNote(noteId);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete session note error:", error);
+      res.status(500).json({ 
+        error: "Failed to delete session note" 
+      });
+    }
+  });
+
+  // === AI THERAPY LOG ===
+  
+  // Review everything the AI said in a session - the session's therapist, clinical supervisors and admins only
+  app.get("/api/sessions/:sessionId/ai-log", requireAuth, requireRole(['therapist', 'admin']), requireSessionAccess(), async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ 
+          error: "Authentication required" 
+        });
+      }
+      
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ 
+          error: "Session not found" 
+        });
+      }
+      
+      if (session.therapistId !== userId && getAuthenticatedUserRole(req) !== 'admin') {
+        const reviewer = await storage.getUser(userId);
+        if (reviewer?.clinicalLevel !== 'supervisor') {
+          return res.status(403).json({ 
+            error: "Access denied: only the session therapist or a supervisor can review the AI log" 
+          });
+        }
+      }
+      
+      const log = await storage.getAITherapySession(sessionId);
+      const interventions = (log?.interventions as AIInterventionLogEntry[] | undefined) ?? [];
+      
+      res.json({
+        sessionId,
+        aiModel: log?.aiModel ?? null,
+        startTime: log?.startTime ?? null,
+        interventions,
+        emotionCaptureIds: log?.emotionCaptureIds ?? [],
+        sudsChange: log?.sudsChange ?? null,
+        vocChange: log?.vocChange ?? null,
+        count: interventions.length
+      });
+    } catch (error) {
+      console.error("Get AI therapy log error:", error);
+      res.status(500).json({ 
+        error: "Failed to get AI therapy log" 
+      });
+    }
+  });
+  
+  // === BLS PRESET LIBRARY ===
+  
+  // Save the current BLS configuration as a preset
+  app.post("/api/bls/presets", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const { name, description, isPublic, config } = BLSPresetSchema.parse(req.body);
+      
+      const preset = await storage.createBLSConfiguration({
+        name,
+        description: description ?? null,
+        rateHz: config.rateHz,
+        pattern: config.pattern,
+        color: config.color,
+        size: Math.round(config.size),
+        soundEnabled: config.soundEnabled,
+        adaptiveMode: config.adaptiveMode,
+        config,
+        createdBy: userId,
+        isPublic
+      });
+      
+      res.status(201).json(preset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Create BLS preset error:", error);
+        res.status(500).json({ 
+          error: "Failed to save BLS preset" 
+        });
+      }
+    }
+  });
+  
+  // List presets created by the authenticated user
+  app.get("/api/bls/presets", requireAuth, async (req, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const presets = await storage.getBLSConfigurationsByCreator(userId);
+      
+      res.json({ presets: presets.map(migrateBLSPreset) });
+    } catch (error) {
+      console.error("Get BLS presets error:", error);
+      res.status(500).json({ 
+        error: "Failed to get BLS presets" 
+      });
+    }
+  });
+  
+  // List presets shared by all therapists
+  app.get("/api/bls/presets/public", requireAuth, async (req, res) => {
+    try {
+      const presets = await storage.getPublicBLSConfigurations();
+      
+      res.json({ presets: presets.map(migrateBLSPreset) });
+    } catch (error) {
+      console.error("Get public BLS presets error:", error);
+      res.status(500).json({ 
+        error: "Failed to get public BLS presets" 
+      });
+    }
+  });
+  
+  // Clone a public (or own) preset into the authenticated user's library
+  app.post("/api/bls/presets/:presetId/clone", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const { presetId } = req.params;
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const stored = await storage.getBLSConfiguration(presetId);
+      if (!stored || (!stored.isPublic && stored.createdBy !== userId)) {
+        return res.status(404).json({ 
+          error: "BLS preset not found" 
+        });
+      }
+      
+      const source = migrateBLSPreset(stored);
+      const clone = await storage.createBLSConfiguration({
+        description: source.description,
+        rateHz: source.rateHz,
+        pattern: source.pattern,
+        color: source.color,
+        size: source.size,
+        soundEnabled: source.soundEnabled,
+        adaptiveMode: source.adaptiveMode,
+        config: source.config,
+        name: typeof req.body?.name === 'string' && req.body.name.trim() 
+          ? req.body.name.trim().slice(0, 100) 
+          : `${source.name} (копия)`,
+        createdBy: userId,
+        isPublic: false
+      });
+      
+      res.status(201).json(clone);
+    } catch (error) {
+      console.error("Clone BLS preset error:", error);
+      res.status(500).json({ 
+        error: "Failed to clone BLS preset" 
+      });
+    }
+  });
+  
+  // Delete a preset - only its creator or an admin may remove it
+  app.delete("/api/bls/presets/:presetId", requireAuth, async (req, res) => {
+    try {
+      const { presetId } = req.params;
+      
+      const preset = await storage.getBLSConfiguration(presetId);
+      if (!preset) {
+        return res.status(404).json({ 
+          error: "BLS preset not found" 
+        });
+      }
+      
+      if (preset.createdBy !== getAuthenticatedUserId(req) && getAuthenticatedUserRole(req) !== 'admin') {
+        return res.status(403).json({ 
+          error: "Access denied: only the creator can delete this preset" 
+        });
+      }
+      
+      await storage.deleteBLSConfiguration(presetId);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete BLS preset error:", error);
+      res.status(500).json({ 
+        error: "Failed to delete BLS preset" 
+      });
+    }
+  });
+
+  // === ADAPTIVE BLS RULE SETS ===
+  
+  // Rules the AdaptiveController runs for the authenticated user
+  app.get("/api/bls/rule-sets/effective", requireAuth, async (req, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const effective = await adaptiveRuleSetService.getEffectiveRuleSet(userId, getAuthenticatedUserRole(req));
+      
+      res.json(effective);
+    } catch (error) {
+      console.error("Get effective adaptive rule set error:", error);
+      res.status(500).json({ 
+        error: "Failed to get adaptive rule set" 
+      });
+    }
+  });
+  
+  // Rule set of a scope; 'therapist' is the caller's own, falling back to what it inherits
+  app.get("/api/bls/rule-sets/:scope", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const scope = AdaptiveRuleSetScopeSchema.parse(req.params.scope);
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const ruleSet = await adaptiveRuleSetService.getRuleSet(scope, scope === 'therapist' ? userId : null);
+      
+      res.json(ruleSet);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors 
+        });
+      } else {
+        console.error("Get adaptive rule set error:", error);
+        res.status(500).json({ 
+          error: "Failed to get adaptive rule set" 
+        });
+      }
+    }
+  });
+  
+  // Replace a scope's rule set - therapists edit their own, admins the clinic-wide one
+  app.put("/api/bls/rule-sets/:scope", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const scope = AdaptiveRuleSetScopeSchema.parse(req.params.scope);
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const role = getAuthenticatedUserRole(req);
+      if ((scope === 'clinic' && role !== 'admin') || (scope === 'therapist' && role !== 'therapist')) {
+        return res.status(403).json({ 
+          error: "Access denied: cannot edit this rule set" 
+        });
+      }
+      
+      const ruleSet = adaptiveRuleSetSchema.parse(req.body) as AdaptiveRuleSetDefinition;
+      const saved = await adaptiveRuleSetService.saveRuleSet(scope, userId, ruleSet, userId);
+      
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors 
+        });
+      } else {
+        console.error("Save adaptive rule set error:", error);
+        res.status(500).json({ 
+          error: "Failed to save adaptive rule set" 
+        });
+      }
+    }
+  });
+  
+  // Drop a scope's rule set so it inherits again
+  app.delete("/api/bls/rule-sets/:scope", requireAuth, requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const scope = AdaptiveRuleSetScopeSchema.parse(req.params.scope);
+      const userId = getAuthenticatedUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const role = getAuthenticatedUserRole(req);
+      if ((scope === 'clinic' && role !== 'admin') || (scope === 'therapist' && role !== 'therapist')) {
+        return res.status(403).json({ 
+          error: "Access denied: cannot edit this rule set" 
+        });
+      }
+      
+      await adaptiveRuleSetService.resetRuleSet(scope, userId);
+      
+      res.json(await adaptiveRuleSetService.getRuleSet(scope, scope === 'therapist' ? userId : null));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors 
+        });
+      } else {
+        console.error("Reset adaptive rule set error:", error);
+        res.status(500).json({ 
+          error: "Failed to reset adaptive rule set" 
+        });
+      }
+    }
+  });
+
+  // === THERAPEUTIC MEMORY ===
+  
+  // List therapeutic memory records for a patient across all of their therapists
+  app.get("/api/therapeutic-memory/:patientId", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      const { patientId } = req.params;
+      
+      const memories = await storage.getTherapeuticMemoriesByPatient(patientId);
+      
+      res.json({ memories });
+    } catch (error) {
+      console.error("Get therapeutic memories error:", error);
+      res.status(500).json({ 
+        error: "Failed to get therapeutic memory" 
+      });
+    }
+  });
+  
+  // Get therapeutic memory for a patient-therapist pair
+  app.get("/api/therapeutic-memory/:patientId/:therapistId", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      const { patientId, therapistId } = req.params;
+      
+      const memory = await storage.getTherapeuticMemory(patientId, therapistId);
+      if (!memory) {
+        return res.status(404).json({ 
+          error: "Therapeutic memory not found" 
+        });
+      }
+      
+      res.json(memory);
+    } catch (error) {
+      console.error("Get therapeutic memory error:", error);
+      res.status(500).json({ 
+        error: "Failed to get therapeutic memory" 
+      });
+    }
+  });
+  
+  // Upsert therapeutic memory for a patient-therapist pair
+  app.put("/api/therapeutic-memory/:patientId/:therapistId", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
+    try {
+      const { patientId, therapistId } = req.params;
+      
+      // Therapists maintain only their own memory record for the patient
+      if (getAuthenticatedUserRole(req) === 'therapist' && therapistId !== getAuthenticatedUserId(req)) {
+        return res.status(403).json({ 
+          error: "Access denied: cannot update another therapist's memory record" 
+        });
+      }
+      
+      const validatedData = TherapeuticMemoryUpdateSchema.parse(req.body);
+      const memory = await applyTherapeuticMemoryUpdate(patientId, therapistId, validatedData);
+      
+      res.json(memory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Update therapeutic memory error:", error);
+        res.status(500).json({ 
+          error: "Failed to update therapeutic memory" 
+        });
+      }
+    }
+  });
+  
+  // Session-end update from the patient's own session; the patient-therapist pair comes from the session
+  app.put("/api/sessions/:sessionId/therapeutic-memory", requireAuth, async (req, res) => {
+    try {
+      const session = await ensureSessionAccess(req, res, req.params.sessionId);
+      if (!session) return;
+      
+      // The treatment plan stays with the clinician route
+      const validatedData = TherapeuticMemoryUpdateSchema.omit({ treatmentPlan: true }).parse(req.body);
+      const memory = await applyTherapeuticMemoryUpdate(session.patientId, session.therapistId, validatedData, session.id);
+      
+      res.json(memory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Update session therapeutic memory error:", error);
+        res.status(500).json({ 
+          error: "Failed to update therapeutic memory" 
+        });
+      }
+    }
+  });
+
+  // === LIVE UPDATES ===
+
+  // Server-sent event stream of memory updates and insights, limited to patients the user may access
+  app.get("/api/live/updates", requireRole(['patient', 'therapist', 'admin']), async (req, res) => {
+    try {
+      const { patientId } = z.object({ patientId: z.string().min(1).optional() }).parse(req.query);
+      if (patientId && !(await ensurePatientAccess(req, res, patientId))) {
+        return;
+      }
+
+      liveUpdateService.subscribe(req.user!, res, patientId);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: "Validation error",
+          details: error.errors
+        });
+      } else {
+        console.error("Live update stream error:", error);
+        res.status(500).json({ error: "Failed to open live update stream" });
+      }
+    }
+  });
+
+  // === CRISIS ESCALATION ===
+
+  // Report a crisis - patients report their own (e.g. from the session conductor), clinicians for a patient
+  app.post("/api/crisis/events", requireRole(['patient', 'therapist', 'admin']), async (req, res) => {
+    try {
+      const validatedData = CrisisReportRequestSchema.parse(req.body);
+      const user = req.user!;
+
+      const patientId = user.role === 'patient' ? user.id : validatedData.patientId;
+      if (!patientId) {
+        return res.status(400).json({ error: "patientId is required" });
+      }
+      if (user.role !== 'patient' && !(await ensurePatientAccess(req, res, patientId))) {
+        return;
+      }
+      if (validatedData.sessionId) {
+        const session = await storage.getSession(validatedData.sessionId);
+        if (!session || session.patientId !== patientId) {
+          return res.status(404).json({ error: "Session not found" });
+        }
+      }
+
+      const crisis = await crisisEscalationService.raise({
+        patientId,
+        sessionId: validatedData.sessionId,
+        source: validatedData.source,
+        detection: validatedData.detection,
+        reportedBy: user.id
+      });
+
+      if (!crisis) {
+        return res.status(202).json({ tracked: false });
+      }
+      res.status(201).json({ tracked: true, crisis });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: "Validation error",
+          details: error.errors
+        });
+      } else {
+        console.error("Report crisis error:", error);
+        res.status(500).json({ error: "Failed to report crisis" });
+      }
+    }
+  });
+
+  // List crisis events - therapists see those they were alerted to unless they ask for a caseload patient
+  app.get("/api/crisis/events", requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const query = z.object({
+        patientId: z.string().min(1).optional(),
+        status: z.enum(['active', 'all', 'open', 'acknowledged', 'escalated', 'resolved']).optional().default('all')
+      }).parse(req.query);
+      const user = req.user!;
+
+      if (query.patientId && !(await ensurePatientAccess(req, res, query.patientId))) {
+        return;
+      }
+
+      const statuses = query.status === 'all'
+        ? undefined
+        : query.status === 'active' ? ['open', 'acknowledged', 'escalated'] : [query.status];
+      const events = await crisisEscalationService.getEvents({
+        patientId: query.patientId,
+        therapistId: !query.patientId && user.role === 'therapist' ? user.id : undefined,
+        statuses
+      });
+
+      res.json({ events, count: events.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: "Validation error",
+          details: error.errors
+        });
+      } else {
+        console.error("Get crisis events error:", error);
+        res.status(500).json({ error: "Failed to get crisis events" });
+      }
+    }
+  });
+
+  // Acknowledge an alert - stops escalation
+  app.post("/api/crisis/events/:crisisId/acknowledge", requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const crisis = await storage.getCrisisEvent(req.params.crisisId);
+      if (!crisis) {
+        return res.status(404).json({ error: "Crisis event not found" });
+      }
+      const decision = await checkCrisisAccess(req.user!, crisis);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.error });
+      }
+
+      res.json(await crisisEscalationService.acknowledge(crisis.id, req.user!.id));
+    } catch (error) {
+      console.error("Acknowledge crisis error:", error);
+      res.status(500).json({ error: "Failed to acknowledge crisis" });
+    }
+  });
+
+  // Resolve a crisis, optionally resuming the paused session
+  app.post("/api/crisis/events/:crisisId/resolve", requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const validatedData = CrisisResolveSchema.parse(req.body);
+      const crisis = await storage.getCrisisEvent(req.params.crisisId);
+      if (!crisis) {
+        return res.status(404).json({ error: "Crisis event not found" });
+      }
+      const decision = await checkCrisisAccess(req.user!, crisis);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.error });
+      }
+
+      res.json(await crisisEscalationService.resolve(crisis.id, req.user!.id, validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: "Validation error",
+          details: error.errors
+        });
+      } else {
+        console.error("Resolve crisis error:", error);
+        res.status(500).json({ error: "Failed to resolve crisis" });
+      }
+    }
+  });
+
+  // Post-incident report: audit timeline, response times and the emotional context of the session
+  app.get("/api/crisis/events/:crisisId/report", requireRole(['therapist', 'admin']), async (req, res) => {
+    try {
+      const crisis = await storage.getCrisisEvent(req.params.crisisId);
+      if (!crisis) {
+        return res.status(404).json({ error: "Crisis event not found" });
+      }
+      const decision = await checkCrisisAccess(req.user!, crisis);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.error });
+      }
+
+      res.json(await crisisEscalationService.buildReport(crisis));
+    } catch (error) {
+      console.error("Get crisis report error:", error);
+      res.status(500).json({ error: "Failed to build crisis report" });
+    }
+  });
+
+  // Local emergency services shown to the patient during a crisis
+  app.get("/api/crisis/contacts", requireAuth, (req, res) => {
+    res.json({ contacts: crisisEscalationService.getEmergencyContacts() });
+  });
+
+  // === VIDEO CALLS ===
+
+  // STUN/TURN servers for the peer connection; TURN credentials are only handed to signed-in users
+  app.get("/api/rtc/config", requireAuth, (req, res) => {
+    res.json({ iceServers: getIceServers() });
+  });
+
+  // === CLIENT PERSISTENCE ===
+
+  // Per-user key the browser uses to wrap the key of its encrypted local session store
+  app.get("/api/persistence/key", requireAuth, (req, res) => {
+    const persistenceKey = getPersistenceKey(req.user!.id);
+    if (!persistenceKey) {
+      return res.status(503).json({ error: "Persistence key is not configured" });
+    }
+    res.set('Cache-Control', 'no-store');
+    res.json(persistenceKey);
+  });
+
+  // === OFFLINE SESSION SYNC ===
+
+  // Upload of operations the client queued while offline; safe to retry with the same idempotency keys
+  app.post("/api/sync/batch", requireRole(['patient', 'therapist', 'admin']), async (req, res) => {
+    try {
+      const { operations } = SyncBatchSchema.parse(req.body);
+      const results = await sessionSyncService.applyBatch(req.user!, operations as SessionSyncOperation[]);
+
+      const response: SyncBatchResponse = { results, serverTime: Date.now() };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Sync batch error:", error);
+      res.status(500).json({ error: "Failed to sync session data" });
+    }
+  });
+
+  // === HISTORY TAKING ===
+
+  // Structured intake of a patient; 404 until history taking has started
+  app.get("/api/patients/:patientId/intake", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      const intake = await historyTakingService.getIntake(req.params.patientId);
+      if (!intake) {
+        return res.status(404).json({ error: "Intake not found" });
+      }
+      res.json(intake);
+    } catch (error) {
+      console.error("Get patient intake error:", error);
+      res.status(500).json({ error: "Failed to get patient intake" });
+    }
+  });
+
+  // Create or update the intake - only clinicians record history taking
+  app.put("/api/patients/:patientId/intake", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
+    try {
+      const validatedData = PatientIntakeSchema.parse(req.body);
+      const intake = await historyTakingService.saveIntake(req.params.patientId, getAuthenticatedUserId(req)!, validatedData);
+      // Targets join the treatment plan once history taking is complete, including ones added later
+      if (intake.completedAt) {
+        await treatmentPlanService.importFromIntake(req.params.patientId);
+      }
+      res.json(intake);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Save patient intake error:", error);
+      res.status(500).json({ error: "Failed to save patient intake" });
+    }
+  });
+
+  // === TREATMENT PLAN ===
+
+  // Targets in plan order with their touchstone links and SUD/VOC from baseline to latest
+  app.get("/api/patients/:patientId/treatment-plan", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      res.json(await treatmentPlanService.getPlan(req.params.patientId));
+    } catch (error) {
+      console.error("Get treatment plan error:", error);
+      res.status(500).json({ error: "Failed to get treatment plan" });
+    }
+  });
+
+  // Add a target at the end of the plan
+  app.post("/api/patients/:patientId/treatment-plan/targets", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
+    try {
+      const validatedData = TreatmentTargetSchema.parse(req.body);
+      const { patientId } = req.params;
+
+      if (validatedData.touchstoneId && !await treatmentPlanService.isValidTouchstone(patientId, null, validatedData.touchstoneId)) {
+        return res.status(400).json({ error: "Touchstone must be a past target in the same treatment plan" });
+      }
+
+      const target = await treatmentPlanService.addTarget(patientId, validatedData);
+      res.status(201).json(target);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Add treatment target error:", error);
+      res.status(500).json({ error: "Failed to add treatment target" });
+    }
+  });
+
+  app.patch("/api/patients/:patientId/treatment-plan/targets/:targetId", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
+    try {
+      const validatedData = TreatmentTargetUpdateSchema.parse(req.body);
+      const { patientId, targetId } = req.params;
+
+      const target = await storage.getTreatmentTarget(targetId);
+      if (!target || target.patientId !== patientId) {
+        return res.status(404).json({ error: "Treatment target not found" });
+      }
+      if (validatedData.touchstoneId && !await treatmentPlanService.isValidTouchstone(patientId, targetId, validatedData.touchstoneId)) {
+        return res.status(400).json({ error: "Touchstone must be a past target in the same treatment plan" });
+      }
+
+      res.json(await treatmentPlanService.updateTarget(target, validatedData));
     } catch (error) {
-      console.error("Predictive analytics error:", error);
-      res.status(500).json({ error: "Failed to get predictive analytics" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Update treatment target error:", error);
+      res.status(500).json({ error: "Failed to update treatment target" });
     }
   });
 
-  // Rate limiting middleware for emotion capture
-  const emotionCaptureRateLimiter = new Map();
-  
-  const checkRateLimit = (identifier: string): boolean => {
-    const now = Date.now();
-    const limit = emotionCaptureRateLimiter.get(identifier);
-    
-    if (!limit || now > limit.resetTime) {
-      emotionCaptureRateLimiter.set(identifier, {
-        count: 1,
-        resetTime: now + 60000
-      });
-      return true;
-    }
-    
-    if (limit.count >= 20) {
-      return false;
-    }
-    
-    limit.count++;
-    return true;
-  };
-  
-  // Cleanup old rate limit entries every 5 minutes
-  setInterval(() => {
-    const now = Date.now();
-    emotionCaptureRateLimiter.forEach((value, key) => {
-      if (now > value.resetTime) {
-        emotionCaptureRateLimiter.delete(key);
-      }
-    });
-  }, 300000);
-  
-  // Save emotion capture with validation and rate limiting
-  app.post("/api/emotions/capture", async (req: Request, res: Response) => {
+  app.delete("/api/patients/:patientId/treatment-plan/targets/:targetId", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
     try {
-      // Demo mode: allow unauthenticated users with demo prefix
-      let isDemo = false;
-      let userId = req.session?.user?.id;
-      
-      if (!req.session?.user) {
-        // Allow demo mode for emotion capture
-        isDemo = true;
-        userId = 'demo-user-' + (req.ip || 'unknown').replace(/\./g, '-');
-        console.log('🎭 Demo mode emotion capture for:', userId);
-      }
-      
-      const rateLimitKey = `${userId}_${req.ip || 'unknown'}`;
-      if (!checkRateLimit(rateLimitKey)) {
-        return res.status(429).json({ 
-          error: "Rate limit exceeded. Maximum 20 requests per minute." 
-        });
+      const target = await storage.getTreatmentTarget(req.params.targetId);
+      if (!target || target.patientId !== req.params.patientId) {
+        return res.status(404).json({ error: "Treatment target not found" });
       }
-      
-      let validatedData;
-      try {
-        validatedData = EmotionCaptureSchema.parse(req.body);
-      } catch (zodError) {
-        if (zodError instanceof z.ZodError) {
-          return res.status(400).json({ 
-            error: "Invalid request data", 
-            details: zodError.errors.map(err => ({
-              path: err.path.join('.'),
-              message: err.message
-            }))
-          });
-        }
-        throw zodError;
+
+      await treatmentPlanService.removeTarget(target);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete treatment target error:", error);
+      res.status(500).json({ error: "Failed to delete treatment target" });
+    }
+  });
+
+  // Reorder the whole plan at once
+  app.put("/api/patients/:patientId/treatment-plan/order", requireAuth, requireRole(['therapist', 'admin']), requirePatientAccess(), async (req, res) => {
+    try {
+      const validatedData = TreatmentPlanOrderSchema.parse(req.body);
+      const plan = await treatmentPlanService.reorder(req.params.patientId, validatedData.targetIds);
+      if (!plan) {
+        return res.status(400).json({ error: "Order must list every target of the plan exactly once" });
       }
-      
-      const { emotionData, sessionId } = validatedData;
-      const patientId = validatedData.patientId || userId;
-      const phase = validatedData.phase || 'desensitization';
-      
-      // Skip role check for demo users
-      if (!isDemo && req.session?.user?.role === 'patient' && 
-          patientId !== req.session.user.id) {
-        return res.status(403).json({ 
-          error: "Access denied: cannot capture emotions for other patients" 
-        });
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
       }
-      
-      const emotionCapture = await storage.createEmotionCapture({
-        sessionId,
-        patientId: patientId || 'demo-patient',
-        source: 'face',
-        arousal: emotionData.arousal,
-        valence: emotionData.valence,
-        affects: emotionData.affects || {},
-        basicEmotions: emotionData.basicEmotions || {},
-        phaseContext: phase,
-        blsConfig: validatedData.blsConfig || null
-      });
-      
-      res.json({ 
-        success: true, 
-        captureId: emotionCapture.id,
-        message: "Emotion captured successfully" 
-      });
+      console.error("Reorder treatment plan error:", error);
+      res.status(500).json({ error: "Failed to reorder treatment plan" });
+    }
+  });
+
+  // Where the next session should start and which target it should work on
+  app.get("/api/patients/:patientId/treatment-plan/next-target", requireAuth, requirePatientAccess(), async (req, res) => {
+    try {
+      const selection = await treatmentPlanService.selectNextTarget(req.params.patientId);
+      res.json(selection);
     } catch (error) {
-      console.error("Emotion capture error:", error);
-      res.status(500).json({ 
-        error: "Failed to capture emotion data" 
-      });
+      console.error("Select treatment target error:", error);
+      res.status(500).json({ error: "Failed to select target" });
     }
   });
-  
-  // Get emotion captures for session
-  app.get("/api/emotions/session/:sessionId", async (req, res) => {
+
+  // Reported by the session conductor when a session starts working on the target
+  app.post("/api/patients/:patientId/treatment-plan/targets/:targetId/start", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
-      const { sessionId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 100;
-      
-      const emotions = await storage.getEmotionCaptures(sessionId, limit);
-      
-      res.json({ 
-        emotions,
-        count: emotions.length 
-      });
+      const validatedData = TreatmentTargetStartSchema.parse(req.body);
+      const target = await storage.getTreatmentTarget(req.params.targetId);
+      if (!target || target.patientId !== req.params.patientId) {
+        return res.status(404).json({ error: "Treatment target not found" });
+      }
+
+      res.json(await treatmentPlanService.startTarget(target, validatedData.sessionId));
     } catch (error) {
-      console.error("Get emotions error:", error);
-      res.status(500).json({ 
-        error: "Failed to get emotion data" 
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Start treatment target error:", error);
+      res.status(500).json({ error: "Failed to start treatment target" });
     }
   });
-  
-  // Get latest emotion for session
-  app.get("/api/emotions/session/:sessionId/latest", async (req, res) => {
+
+  // Reported by the session conductor when the session ends
+  app.post("/api/patients/:patientId/treatment-plan/targets/:targetId/outcome", requireAuth, requirePatientAccess(), async (req, res) => {
     try {
-      const { sessionId } = req.params;
-      
-      const latestEmotion = await storage.getLatestEmotionCapture(sessionId);
-      
-      if (!latestEmotion) {
-        return res.status(404).json({ 
-          error: "No emotion data found for session" 
-        });
+      const validatedData = TreatmentTargetOutcomeSchema.parse(req.body);
+      const target = await storage.getTreatmentTarget(req.params.targetId);
+      if (!target || target.patientId !== req.params.patientId) {
+        return res.status(404).json({ error: "Treatment target not found" });
       }
-      
-      res.json(latestEmotion);
+
+      res.json(await treatmentPlanService.recordOutcome(target, validatedData));
     } catch (error) {
-      console.error("Get latest emotion error:", error);
-      res.status(500).json({ 
-        error: "Failed to get latest emotion data" 
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Record treatment target outcome error:", error);
+      res.status(500).json({ error: "Failed to record treatment target outcome" });
     }
   });
+
+  // === CASELOAD ASSIGNMENTS ===
   
-  // Create new EMDR session
-  app.post("/api/sessions", async (req, res) => {
+  // List assignments - therapists see their caseload, patients their therapists, admins can filter freely
+  app.get("/api/caseload", requireAuth, async (req, res) => {
     try {
-      const { patientId, therapistId } = req.body;
-      
-      if (!patientId || !therapistId) {
-        return res.status(400).json({ 
-          error: "Missing required fields: patientId and therapistId" 
+      const userId = getAuthenticatedUserId(req)!;
+      const role = getAuthenticatedUserRole(req);
+      const status = typeof req.query.status === 'string' ? req.query.status : 'active';
+      
+      let filter: { therapistId?: string; patientId?: string; status?: string };
+      if (role === 'admin') {
+        filter = {
+          therapistId: typeof req.query.therapistId === 'string' ? req.query.therapistId : undefined,
+          patientId: typeof req.query.patientId === 'string' ? req.query.patientId : undefined
+        };
+      } else if (role === 'therapist') {
+        filter = { therapistId: userId };
+      } else if (role === 'patient') {
+        filter = { patientId: userId };
+      } else {
+        return res.status(403).json({ 
+          error: "Insufficient permissions for this resource" 
         });
       }
       
-      const session = await storage.createSession({
-        patientId,
-        therapistId,
-        phase: 'preparation',
-        status: 'active',
-        startTime: new Date(),
-        endTime: null,
-        notes: null,
-        sudsInitial: null,
-        sudsFinal: null,
-        vocInitial: null,
-        vocFinal: null
+      const assignments = await storage.getCaseloadAssignments({
+        ...filter,
+        status: status === 'all' ? undefined : status
       });
       
-      res.json(session);
+      // Attach the other party's display fields so dashboards don't need a lookup per row
+      const withPeople = await Promise.all(assignments.map(async assignment => {
+        const [therapist, patient] = await Promise.all([
+          storage.getUser(assignment.therapistId),
+          storage.getUser(assignment.patientId)
+        ]);
+        return {
+          ...assignment,
+          therapist: therapist ? { id: therapist.id, firstName: therapist.firstName, lastName: therapist.lastName, username: therapist.username } : null,
+          patient: patient ? { id: patient.id, firstName: patient.firstName, lastName: patient.lastName, username: patient.username } : null
+        };
+      }));
+      
+      res.json({ 
+        assignments: withPeople,
+        count: withPeople.length 
+      });
     } catch (error) {
-      console.error("Create session error:", error);
+      console.error("Get caseload error:", error);
       res.status(500).json({ 
-        error: "Failed to create session" 
+        error: "Failed to get caseload" 
       });
     }
   });
   
-  // Get active session for patient
-  app.get("/api/sessions/active/:patientId", async (req, res) => {
+  // Assign a patient to a therapist
+  app.post("/api/caseload/assignments", requireAuth, requireRole(['admin']), async (req, res) => {
     try {
-      const { patientId } = req.params;
+      const validatedData = CaseloadAssignmentSchema.parse(req.body);
       
-      const session = await storage.getActiveSessionByPatient(patientId);
+      const [therapist, patient] = await Promise.all([
+        storage.getUser(validatedData.therapistId),
+        storage.getUser(validatedData.patientId)
+      ]);
+      if (!therapist || therapist.role !== 'therapist') {
+        return res.status(400).json({ 
+          error: "therapistId must refer to a therapist" 
+        });
+      }
+      if (!patient || patient.role !== 'patient') {
+        return res.status(400).json({ 
+          error: "patientId must refer to a patient" 
+        });
+      }
       
-      if (!session) {
-        return res.status(404).json({ 
-          error: "No active session found" 
+      const existing = await storage.getActiveCaseloadAssignment(therapist.id, patient.id);
+      if (existing) {
+        return res.status(409).json({ 
+          error: "Patient is already assigned to this therapist",
+          assignmentId: existing.id 
         });
       }
       
-      res.json(session);
-    } catch (error) {
-      console.error("Get active session error:", error);
-      res.status(500).json({ 
-        error: "Failed to get active session" 
+      const assignment = await storage.createCaseloadAssignment({
+        therapistId: therapist.id,
+        patientId: patient.id,
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate ?? null,
+        notes: validatedData.notes,
+        status: 'active'
       });
+      
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Create caseload assignment error:", error);
+        res.status(500).json({ 
+          error: "Failed to create caseload assignment" 
+        });
+      }
     }
   });
   
-  // Update session
-  app.patch("/api/sessions/:sessionId", async (req, res) => {
+  // Pause, end or annotate an assignment - ending without a date closes it now
+  app.patch("/api/caseload/assignments/:assignmentId", requireAuth, requireRole(['admin']), async (req, res) => {
     try {
-      const { sessionId } = req.params;
-      const updates = req.body;
+      const { assignmentId } = req.params;
+      const validatedData = CaseloadAssignmentUpdateSchema.parse(req.body);
       
-      const updatedSession = await storage.updateSession(sessionId, updates);
-      
-      if (!updatedSession) {
+      const assignment = await storage.getCaseloadAssignment(assignmentId);
+      if (!assignment) {
         return res.status(404).json({ 
-          error: "Session not found" 
+          error: "Caseload assignment not found" 
         });
       }
       
-      res.json(updatedSession);
-    } catch (error) {
-      console.error("Update session error:", error);
-      res.status(500).json({ 
-        error: "Failed to update session" 
+      const endDate = validatedData.status === 'ended' && validatedData.endDate === undefined && !assignment.endDate
+        ? new Date()
+        : validatedData.endDate;
+      
+      const updated = await storage.updateCaseloadAssignment(assignmentId, {
+        ...validatedData,
+        ...(endDate !== undefined ? { endDate } : {})
       });
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          error: "Validation error", 
+          details: error.errors.map(err => ({
+            path: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      } else {
+        console.error("Update caseload assignment error:", error);
+        res.status(500).json({ 
+          error: "Failed to update caseload assignment" 
+        });
+      }
     }
   });
 
@@ -3106,11 +4369,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Session memory, progress and insights API - mounted last, its auth guard covers everything it receives
+  app.use("/api/sessions", sessionMemoryRouter);
+
   // Create HTTP server and WebSocket server for real-time voice streaming
   const server = createServer(app);
   
   // Initialize WebSocket server for voice streaming
-  wss = new WebSocketServer({ server, path: '/voice-stream' });
+  // Both WebSocket servers share the HTTP server, so upgrades are dispatched by path below
+  wss = new WebSocketServer({ noServer: true });
+  sessionRoomWss = new WebSocketServer({ noServer: true });
   
   // Handle WebSocket connections for real-time voice streaming with AUTHENTICATION
   wss.on('connection', (ws: any, req: any) => {
@@ -3435,7 +4703,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // SECURITY: Verify session belongs to authenticated user
-    const authenticatedUserId = req.session?.user?.id;
+    const authenticatedUserId = req.user?.id;
     if (userId && userId !== authenticatedUserId) {
       return res.status(403).json({ 
         error: "Access denied: Cannot generate token for another user" 
@@ -3456,7 +4724,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+    socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  };
+
+  // Live therapist-patient room: cookie session auth plus the same access rules as the session API
+  const handleSessionRoomUpgrade = async (req: any, socket: Duplex, head: Buffer, url: URL) => {
+    const origin = req.headers.origin;
+    if (origin && !isAllowedOrigin(origin)) {
+      console.error(`❌ Session room rejected: Invalid origin ${origin}`);
+      return rejectUpgrade(socket, 403, 'Forbidden');
+    }
+
+    const sessionId = url.searchParams.get('sessionId');
+    if (!sessionId) {
+      return rejectUpgrade(socket, 400, 'Bad Request');
+    }
+
+    const user = await authenticateUpgradeRequest(req);
+    if (!user) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    const session = await storage.getSession(sessionId);
+    if (!session) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    const decision = await checkSessionAccess(user, session);
+    const role = sessionRoomService.getRole(user, session);
+    if (!decision.allowed || !role) {
+      console.error(`❌ Session room rejected: ${user.id} has no access to session ${sanitizePII(sessionId)}`);
+      return rejectUpgrade(socket, 403, 'Forbidden');
+    }
+
+    sessionRoomWss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+      sessionRoomService.join(ws, user, session, role);
+    });
+  };
+
+  server.on('upgrade', (req, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '', 'http://localhost');
+
+    if (url.pathname === '/voice-stream') {
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    } else if (url.pathname === '/session-room') {
+      handleSessionRoomUpgrade(req, socket, head, url).catch(error => {
+        console.error('❌ Session room upgrade error:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+    }
+    // Other paths (e.g. the Vite HMR socket in development) are handled by their own listeners
+  });
+
   console.log('🚀 Voice WebSocket Server initialized on /voice-stream');
+  console.log('🛋️ Session room WebSocket initialized on /session-room');
+
+  crisisEscalationService.resumePendingEscalations().catch(error => {
+    console.error('❌ Failed to resume crisis escalations:', error);
+  });
   console.log('🔐 JWT Token generation endpoint available at /api/auth/generate-token');
   return server;
 }
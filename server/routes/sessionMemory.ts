@@ -4,21 +4,14 @@
  * SECURITY: All endpoints protected with authentication middleware
  */
 
-import { Router, type Request, Response, NextFunction } from 'express';
+import { Router, type Response } from 'express';
 import { z } from 'zod';
-
-// SECURITY: Authentication middleware for memory endpoints
-function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.session?.user) {
-    return res.status(401).json({ 
-      error: "Authentication required for memory endpoint access" 
-    });
-  }
-  next();
-}
+import { requireAuth } from '../auth';
+import { ensurePatientAccess, requirePatientAccess } from '../accessControl';
 
 import { sessionMemoryService } from '../services/sessionMemory';
 import { progressAnalyticsService } from '../services/progressAnalytics';
+import { storage } from '../storage';
 import { 
   insertSessionMemorySnapshotSchema,
   insertProgressMetricSchema,
@@ -76,7 +69,7 @@ const SaveSessionMemoryRequestSchema = z.object({
   patientId: z.string().min(1).max(100),
   snapshotType: z.enum(['phase_start', 'phase_end', 'breakthrough', 'trigger_event', 'progress_milestone', 'crisis_alert', 'stability_check']),
   emotionalSnapshot: EmotionDataSchema,
-  phaseContext: z.enum(['preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
+  phaseContext: z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration']),
   metadata: z.object({
     sudsLevel: z.number().min(0).max(10).optional(),
     vocLevel: z.number().min(1).max(7).optional(),
@@ -113,7 +106,7 @@ const CompareSessionsRequestSchema = z.object({
   patientId: z.string().min(1).max(100),
   baselineSessionId: z.string().min(1).max(100),
   compareSessionId: z.string().min(1).max(100),
-  comparisonType: z.enum(['consecutive', 'milestone', 'breakthrough', 'regression']).optional().default('consecutive'),
+  comparisonType: z.enum(['consecutive', 'milestone', 'breakthrough', 'regression', 'manual']).optional().default('consecutive'),
   includeAIAnalysis: z.boolean().optional().default(false)
 }).refine(data => {
   return data.baselineSessionId !== data.compareSessionId;
@@ -144,6 +137,23 @@ const PatientIdParamSchema = z.object({
   patientId: z.string().min(1).max(100)
 });
 
+/**
+ * Patient access alone is not enough when the body also names sessions:
+ * every session must belong to that patient. Sends the error and returns false otherwise.
+ */
+async function ensureSessionsOfPatient(res: Response, sessionIds: string[], patientId: string): Promise<boolean> {
+  const sessions = await Promise.all(sessionIds.map(id => storage.getSession(id)));
+  if (sessions.some(session => !session)) {
+    res.status(404).json({ error: 'Session not found' });
+    return false;
+  }
+  if (sessions.some(session => session!.patientId !== patientId)) {
+    res.status(403).json({ error: 'Access denied: session does not belong to this patient' });
+    return false;
+  }
+  return true;
+}
+
 // SECURITY: Create router with authentication protection
 export const sessionMemoryRouter = Router();
 
@@ -156,7 +166,7 @@ sessionMemoryRouter.use(requireAuth);
  * Save session memory snapshot
  * POST /api/sessions/memory/save
  */
-sessionMemoryRouter.post('/save', async (req, res) => {
+sessionMemoryRouter.post('/memory/save', async (req, res) => {
   try {
     // Validate request with comprehensive Zod schema
     const validation = SaveSessionMemoryRequestSchema.safeParse(req.body);
@@ -172,6 +182,8 @@ sessionMemoryRouter.post('/save', async (req, res) => {
     }
 
     const saveRequest = validation.data;
+    if (!(await ensurePatientAccess(req, res, saveRequest.patientId))) return;
+    if (!(await ensureSessionsOfPatient(res, [saveRequest.sessionId], saveRequest.patientId))) return;
     const snapshot = await sessionMemoryService.saveSessionData(saveRequest);
     
     res.json({
@@ -192,7 +204,7 @@ sessionMemoryRouter.post('/save', async (req, res) => {
  * Get session history for a patient
  * POST /api/sessions/memory/history
  */
-sessionMemoryRouter.post('/history', async (req, res) => {
+sessionMemoryRouter.post('/memory/history', async (req, res) => {
   try {
     // Validate request with comprehensive Zod schema
     const validation = SessionHistoryRequestSchema.safeParse(req.body);
@@ -208,6 +220,9 @@ sessionMemoryRouter.post('/history', async (req, res) => {
     }
 
     const historyRequest = validation.data;
+    if (!(await ensurePatientAccess(req, res, historyRequest.patientId))) return;
+    if (historyRequest.sessionIds &&
+        !(await ensureSessionsOfPatient(res, historyRequest.sessionIds, historyRequest.patientId))) return;
     const history = await sessionMemoryService.getSessionHistory(historyRequest);
     
     res.json({
@@ -230,7 +245,7 @@ sessionMemoryRouter.post('/history', async (req, res) => {
  * Compare two sessions
  * POST /api/sessions/memory/compare
  */
-sessionMemoryRouter.post('/compare', async (req, res) => {
+sessionMemoryRouter.post('/memory/compare', async (req, res) => {
   try {
     // Validate request with comprehensive Zod schema
     const validation = CompareSessionsRequestSchema.safeParse(req.body);
@@ -246,6 +261,10 @@ sessionMemoryRouter.post('/compare', async (req, res) => {
     }
 
     const compareRequest = validation.data;
+    if (!(await ensurePatientAccess(req, res, compareRequest.patientId))) return;
+    if (!(await ensureSessionsOfPatient(
+      res, [compareRequest.baselineSessionId, compareRequest.compareSessionId], compareRequest.patientId
+    ))) return;
     const comparison = await sessionMemoryService.compareSessions(compareRequest);
     
     res.json({
@@ -262,6 +281,39 @@ sessionMemoryRouter.post('/compare', async (req, res) => {
   }
 });
 
+/**
+ * List stored comparisons for a patient
+ * GET /api/sessions/memory/comparisons/:patientId
+ */
+sessionMemoryRouter.get('/memory/comparisons/:patientId', requirePatientAccess(), async (req, res) => {
+  try {
+    const paramValidation = PatientIdParamSchema.safeParse(req.params);
+    
+    if (!paramValidation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid patient ID',
+        details: paramValidation.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    const comparisons = await storage.getSessionComparisons(paramValidation.data.patientId);
+    
+    res.json({
+      success: true,
+      comparisons
+    });
+  } catch (error) {
+    console.error('Error retrieving session comparisons:', error);
+    res.status(500).json({ 
+      error: 'Failed to retrieve session comparisons',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // === PROGRESS ANALYTICS ENDPOINTS ===
 
 /**
@@ -284,6 +336,7 @@ sessionMemoryRouter.post('/progress/report', async (req, res) => {
     }
 
     const reportRequest = validation.data;
+    if (!(await ensurePatientAccess(req, res, reportRequest.patientId))) return;
     const report = await sessionMemoryService.generateProgressReport(reportRequest);
     
     res.json({
@@ -304,7 +357,7 @@ sessionMemoryRouter.post('/progress/report', async (req, res) => {
  * Analyze trends for a patient
  * GET /api/sessions/progress/analytics/:patientId
  */
-sessionMemoryRouter.get('/progress/analytics/:patientId', async (req, res) => {
+sessionMemoryRouter.get('/progress/analytics/:patientId', requirePatientAccess(), async (req, res) => {
   try {
     // Validate patient ID parameter
     const paramValidation = PatientIdParamSchema.safeParse(req.params);
@@ -342,7 +395,7 @@ sessionMemoryRouter.get('/progress/analytics/:patientId', async (req, res) => {
  * Identify patterns for a patient
  * GET /api/sessions/progress/patterns/:patientId
  */
-sessionMemoryRouter.get('/progress/patterns/:patientId', async (req, res) => {
+sessionMemoryRouter.get('/progress/patterns/:patientId', requirePatientAccess(), async (req, res) => {
   try {
     // Validate patient ID parameter
     const paramValidation = PatientIdParamSchema.safeParse(req.params);
@@ -379,7 +432,7 @@ sessionMemoryRouter.get('/progress/patterns/:patientId', async (req, res) => {
  * Predict challenges and opportunities
  * GET /api/sessions/progress/predictions/:patientId
  */
-sessionMemoryRouter.get('/progress/predictions/:patientId', async (req, res) => {
+sessionMemoryRouter.get('/progress/predictions/:patientId', requirePatientAccess(), async (req, res) => {
   try {
     // Validate patient ID parameter
     const paramValidation = PatientIdParamSchema.safeParse(req.params);
@@ -434,6 +487,7 @@ sessionMemoryRouter.post('/insights/generate', async (req, res) => {
     }
 
     const { patientId } = validation.data;
+    if (!(await ensurePatientAccess(req, res, patientId))) return;
     const insights = await progressAnalyticsService.generateInsights(patientId);
     
     res.json({
@@ -470,6 +524,7 @@ sessionMemoryRouter.post('/insights/monitor', async (req, res) => {
     }
 
     const { patientId, currentSnapshot } = validation.data;
+    if (!(await ensurePatientAccess(req, res, patientId))) return;
     const monitoring = await progressAnalyticsService.monitorPatterns(patientId, currentSnapshot);
     
     res.json({
@@ -492,7 +547,7 @@ sessionMemoryRouter.post('/insights/monitor', async (req, res) => {
  * Get memory system status
  * GET /api/sessions/memory/status
  */
-sessionMemoryRouter.get('/status', async (req, res) => {
+sessionMemoryRouter.get('/memory/status', async (req, res) => {
   try {
     res.json({
       success: true,
@@ -519,7 +574,7 @@ sessionMemoryRouter.get('/status', async (req, res) => {
  * Health check endpoint
  * GET /api/sessions/memory/health
  */
-sessionMemoryRouter.get('/health', async (req, res) => {
+sessionMemoryRouter.get('/memory/health', async (req, res) => {
   try {
     res.json({
       success: true,
@@ -0,0 +1,88 @@
+/**
+ * Adaptive Rule Sets
+ * Stores the therapist- and clinic-level adaptive BLS rules and resolves which set applies to a user.
+ */
+
+import { storage } from '../storage';
+import { DEFAULT_ADAPTIVE_RULE_SET, validateAdaptiveRuleSet } from '../../shared/adaptiveRules';
+import type { AdaptiveRuleSet } from '../../shared/schema';
+import type {
+  AdaptiveRuleDefinition,
+  AdaptiveRuleSetDefinition,
+  AdaptiveRuleSetScope,
+  EffectiveAdaptiveRuleSet
+} from '../../shared/types';
+
+export class AdaptiveRuleSetService {
+  /**
+   * The stored set of a scope, or what the scope inherits when it has none
+   */
+  async getRuleSet(scope: AdaptiveRuleSetScope, therapistId: string | null): Promise<EffectiveAdaptiveRuleSet> {
+    if (scope === 'therapist' && therapistId) {
+      const own = await this.loadStored('therapist', therapistId);
+      if (own) return own;
+    }
+    return (await this.loadStored('clinic', null)) ?? this.builtIn();
+  }
+
+  /**
+   * Patients get the rules of their active therapist, therapists their own
+   */
+  async getEffectiveRuleSet(userId: string, role: string): Promise<EffectiveAdaptiveRuleSet> {
+    if (role === 'patient') {
+      const [assignment] = await storage.getCaseloadAssignments({ patientId: userId, status: 'active' });
+      return this.getRuleSet('therapist', assignment?.therapistId ?? null);
+    }
+    return this.getRuleSet('therapist', role === 'therapist' ? userId : null);
+  }
+
+  async saveRuleSet(
+    scope: AdaptiveRuleSetScope,
+    therapistId: string | null,
+    ruleSet: AdaptiveRuleSetDefinition,
+    updatedBy: string
+  ): Promise<EffectiveAdaptiveRuleSet> {
+    const saved = await storage.saveAdaptiveRuleSet({
+      scope,
+      therapistId: scope === 'clinic' ? null : therapistId,
+      name: ruleSet.name,
+      rules: ruleSet.rules,
+      updatedBy
+    });
+    return this.toEffective(saved, scope);
+  }
+
+  /**
+   * Drops the stored set so the scope falls back to what it inherits
+   */
+  async resetRuleSet(scope: AdaptiveRuleSetScope, therapistId: string | null): Promise<boolean> {
+    return storage.deleteAdaptiveRuleSet(scope, scope === 'clinic' ? null : therapistId);
+  }
+
+  // Rows that no longer validate, e.g. after an affect was renamed, are skipped rather than applied
+  private async loadStored(scope: AdaptiveRuleSetScope, therapistId: string | null): Promise<EffectiveAdaptiveRuleSet | null> {
+    const stored = await storage.getAdaptiveRuleSet(scope, therapistId);
+    if (!stored) return null;
+
+    const { ruleSet, errors } = validateAdaptiveRuleSet({ name: stored.name, rules: stored.rules });
+    if (!ruleSet) {
+      console.error(`Stored ${scope} adaptive rule set ${stored.id} is invalid:`, errors);
+      return null;
+    }
+    return { source: scope, ruleSet, updatedAt: stored.updatedAt.toISOString() };
+  }
+
+  private toEffective(stored: AdaptiveRuleSet, scope: AdaptiveRuleSetScope): EffectiveAdaptiveRuleSet {
+    return {
+      source: scope,
+      ruleSet: { name: stored.name, rules: stored.rules as AdaptiveRuleDefinition[] },
+      updatedAt: stored.updatedAt.toISOString()
+    };
+  }
+
+  private builtIn(): EffectiveAdaptiveRuleSet {
+    return { source: 'default', ruleSet: DEFAULT_ADAPTIVE_RULE_SET, updatedAt: null };
+  }
+}
+
+export const adaptiveRuleSetService = new AdaptiveRuleSetService();
@@ -0,0 +1,593 @@
+/**
+ * Affect Analytics Service
+ * Signals derived from recorded emotion captures and session snapshots:
+ * correlation graphs, spectral bands and regression forecasts
+ */
+
+import { storage } from '../storage';
+import type {
+  SessionMemorySnapshot,
+  AnalyticsProvenance,
+  AffectBand,
+  AffectLink,
+  AffectNode,
+  AffectPattern,
+  AffectSpectrumPoint,
+  MetricForecast
+} from '../../shared/types';
+import type { EmotionCapture } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Captures analyzed per request and per correlation window
+const MAX_ANALYZED_CAPTURES = 1000;
+const PATTERN_WINDOW_SIZE = 30;
+const MAX_PATTERNS = 10;
+const MIN_CORRELATION_SAMPLES = 5;
+const MIN_LINK_CORRELATION = 0.3;
+const SIGNIFICANT_CORRELATION = 0.5;
+const MAX_EMOTION_SIGNALS = 6;
+
+// Spectral analysis over a uniformly resampled series
+const SPECTRUM_WINDOW_SAMPLES = 64;
+const SPECTRUM_STEP_SAMPLES = 32;
+const MIN_SAMPLE_INTERVAL_S = 1;
+
+// Bands are defined by oscillation period in seconds
+const AFFECT_BANDS: Array<{ band: AffectBand; minPeriod: number; maxPeriod: number }> = [
+  { band: 'ultra_slow', minPeriod: 120, maxPeriod: Infinity },
+  { band: 'slow', minPeriod: 30, maxPeriod: 120 },
+  { band: 'moderate', minPeriod: 10, maxPeriod: 30 },
+  { band: 'fast', minPeriod: 0, maxPeriod: 10 }
+];
+
+const SIGNAL_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#84cc16', '#f97316'];
+
+// Snapshot metrics available for forecasting, with value range and preferred direction
+const FORECAST_METRICS: Record<string, { field: keyof SessionMemorySnapshot; max: number; lowerIsBetter: boolean }> = {
+  suds: { field: 'sudsLevel', max: 10, lowerIsBetter: true },
+  voc: { field: 'vocLevel', max: 7, lowerIsBetter: false },
+  stability: { field: 'stabilityScore', max: 1, lowerIsBetter: false },
+  stress: { field: 'stressLevel', max: 1, lowerIsBetter: true },
+  engagement: { field: 'engagementLevel', max: 1, lowerIsBetter: false }
+};
+const MIN_FORECAST_POINTS = 3;
+
+// Two-sided 95% Student t quantiles by degrees of freedom
+const T_QUANTILES_95: Array<[number, number]> = [
+  [1, 12.71], [2, 4.30], [3, 3.18], [4, 2.78], [5, 2.57], [6, 2.45], [7, 2.36],
+  [8, 2.31], [10, 2.23], [15, 2.13], [20, 2.09], [30, 2.04], [60, 2.00]
+];
+
+interface LinearFit {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  residualStdError: number;
+  meanX: number;
+  sxx: number;
+  n: number;
+}
+
+interface RiskPrediction {
+  id: string;
+  type: 'regression' | 'stagnation' | 'dropout' | 'crisis';
+  probability: number;
+  timeframe: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  description: string;
+  indicators: string[];
+  mitigationStrategies: string[];
+  earlyWarnings: string[];
+}
+
+interface OpportunityPrediction {
+  id: string;
+  type: 'breakthrough' | 'acceleration' | 'phase_advancement' | 'treatment_completion';
+  probability: number;
+  timeframe: string;
+  description: string;
+  requirements: string[];
+  actionSteps: string[];
+  expectedOutcome: string;
+}
+
+interface ForecastModel {
+  name: string;
+  accuracy: number;
+  lastUpdated: Date | null;
+  dataPoints: number;
+  confidence: number;
+}
+
+export class AffectAnalyticsService {
+  /**
+   * Correlation graphs and spectral bands for a session's emotion captures
+   */
+  async getAffectPatterns(patientId: string, sessionId?: string): Promise<{
+    patterns: AffectPattern[];
+    spectrum: AffectSpectrumPoint[];
+    provenance: AnalyticsProvenance;
+  }> {
+    const sessions = sessionId ? [] : await storage.getSessionsByPatient(patientId);
+    const targetSessionId = sessionId ?? sessions[sessions.length - 1]?.id;
+    const captures = targetSessionId
+      ? (await storage.getEmotionCaptures(targetSessionId, MAX_ANALYZED_CAPTURES))
+          .filter(capture => capture.patientId === patientId)
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      : [];
+
+    const patterns = this.buildAffectPatterns(captures);
+    const spectrum = this.buildAffectSpectrum(captures);
+
+    const notes: string[] = [];
+    if (!targetSessionId) notes.push('No sessions recorded for this patient');
+    if (captures.length > 0 && patterns.length === 0) {
+      notes.push(`At least ${MIN_CORRELATION_SAMPLES} captures per window are required for correlations`);
+    }
+    if (captures.length > 0 && spectrum.length === 0) {
+      notes.push(`At least ${SPECTRUM_WINDOW_SAMPLES} resampled points are required for spectral bands`);
+    }
+
+    return {
+      patterns,
+      spectrum,
+      provenance: {
+        method: `Pearson correlation between affect signals in windows of ${PATTERN_WINDOW_SIZE} captures; ` +
+          `DFT band power of linearly resampled arousal/valence over ${SPECTRUM_WINDOW_SAMPLES}-sample windows`,
+        sources: [{ table: 'emotion_captures', records: captures.length }],
+        window: {
+          from: captures[0]?.timestamp ?? null,
+          to: captures[captures.length - 1]?.timestamp ?? null
+        },
+        generatedAt: new Date(),
+        notes: targetSessionId ? [`Session ${targetSessionId}`, ...notes] : notes
+      }
+    };
+  }
+
+  /**
+   * Regression forecasts, risks and opportunities from session snapshots
+   */
+  async getPredictions(patientId: string, timeHorizon: number): Promise<{
+    predictions: MetricForecast[];
+    risks: RiskPrediction[];
+    opportunities: OpportunityPrediction[];
+    models: ForecastModel[];
+    provenance: AnalyticsProvenance;
+  }> {
+    const snapshots = (await storage.getSnapshotsByPatient(patientId, 200))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const predictions = Object.keys(FORECAST_METRICS)
+      .map(metric => this.forecastMetric(metric, snapshots, timeHorizon))
+      .filter((forecast): forecast is MetricForecast => forecast !== null);
+
+    const skipped = Object.keys(FORECAST_METRICS).filter(metric => !predictions.some(p => p.metric === metric));
+    const lastUpdated = snapshots[snapshots.length - 1]?.timestamp ?? null;
+
+    return {
+      predictions,
+      risks: this.assessRisks(snapshots, predictions),
+      opportunities: this.assessOpportunities(snapshots, predictions),
+      models: predictions.map(prediction => ({
+        name: `${prediction.metric.toUpperCase()} linear trend`,
+        accuracy: prediction.regression.rSquared,
+        lastUpdated,
+        dataPoints: prediction.regression.sampleCount,
+        confidence: prediction.confidence
+      })),
+      provenance: {
+        method: 'Ordinary least squares over time (days) per snapshot metric; ' +
+          '95% prediction intervals from the Student t distribution',
+        sources: [{ table: 'session_memory_snapshots', records: snapshots.length }],
+        window: { from: snapshots[0]?.timestamp ?? null, to: lastUpdated },
+        generatedAt: new Date(),
+        notes: skipped.length > 0
+          ? [`Fewer than ${MIN_FORECAST_POINTS} values for: ${skipped.join(', ')}`]
+          : []
+      }
+    };
+  }
+
+  private buildAffectPatterns(captures: EmotionCapture[]): AffectPattern[] {
+    if (captures.length < MIN_CORRELATION_SAMPLES) return [];
+
+    const signals = this.selectSignals(captures);
+    const series = new Map(signals.map(signal => [signal, captures.map(capture => this.signalValue(capture, signal))]));
+
+    // Normalize each signal over the whole analyzed range so windows are comparable
+    const ranges = new Map(signals.map(signal => {
+      const values = series.get(signal)!;
+      return [signal, { min: Math.min(...values), max: Math.max(...values) }];
+    }));
+    const normalize = (signal: string, value: number) => {
+      const { min, max } = ranges.get(signal)!;
+      return max > min ? (value - min) / (max - min) : 0.5;
+    };
+
+    const windowStarts: number[] = [];
+    for (let start = 0; start + MIN_CORRELATION_SAMPLES <= captures.length; start += PATTERN_WINDOW_SIZE) {
+      windowStarts.push(start);
+    }
+
+    return windowStarts.slice(-MAX_PATTERNS).map((start, index) => {
+      const end = Math.min(start + PATTERN_WINDOW_SIZE, captures.length);
+      const windowValues = new Map(signals.map(signal => [signal, series.get(signal)!.slice(start, end)]));
+
+      const nodes: AffectNode[] = signals.map((signal, i) => {
+        const activity = this.mean(windowValues.get(signal)!.map(value => normalize(signal, value)));
+        const angle = (2 * Math.PI * i) / signals.length - Math.PI / 2;
+        return {
+          id: signal,
+          label: signal.charAt(0).toUpperCase() + signal.slice(1),
+          x: 300 + Math.cos(angle) * 200,
+          y: 200 + Math.sin(angle) * 140,
+          activity,
+          size: 12 + activity * 12,
+          color: SIGNAL_COLORS[i % SIGNAL_COLORS.length]
+        };
+      });
+
+      const links: AffectLink[] = [];
+      const correlations: number[] = [];
+      for (let i = 0; i < signals.length; i++) {
+        for (let j = i + 1; j < signals.length; j++) {
+          const r = this.pearson(windowValues.get(signals[i])!, windowValues.get(signals[j])!);
+          if (r === null) continue;
+          correlations.push(Math.abs(r));
+          if (Math.abs(r) >= MIN_LINK_CORRELATION) {
+            links.push({
+              from: signals[i],
+              to: signals[j],
+              correlation: r,
+              strength: Math.abs(r),
+              type: r > 0 ? 'positive' : 'negative',
+              significant: Math.abs(r) >= SIGNIFICANT_CORRELATION
+            });
+          }
+        }
+      }
+
+      return {
+        id: `window_${start}`,
+        name: `Window ${index + 1}`,
+        timestamp: captures[start].timestamp,
+        sampleCount: end - start,
+        nodes,
+        links,
+        activity: nodes.find(node => node.id === 'arousal')?.activity ?? 0,
+        coherence: correlations.length > 0 ? this.mean(correlations) : 0
+      };
+    });
+  }
+
+  private buildAffectSpectrum(captures: EmotionCapture[]): AffectSpectrumPoint[] {
+    if (captures.length < 2) return [];
+
+    const times = captures.map(capture => capture.timestamp.getTime() / 1000);
+    const intervals = times.slice(1).map((t, i) => t - times[i]).filter(dt => dt > 0).sort((a, b) => a - b);
+    if (intervals.length === 0) return [];
+    const dt = Math.max(MIN_SAMPLE_INTERVAL_S, intervals[Math.floor(intervals.length / 2)]);
+
+    const points: AffectSpectrumPoint[] = [];
+    for (const signal of ['arousal', 'valence'] as const) {
+      const samples = this.resample(times, captures.map(capture => capture[signal]), dt);
+
+      for (let start = 0; start + SPECTRUM_WINDOW_SAMPLES <= samples.length; start += SPECTRUM_STEP_SAMPLES) {
+        const window = samples.slice(start, start + SPECTRUM_WINDOW_SAMPLES);
+        const power = this.powerSpectrum(window);
+        const total = power.reduce((sum, p) => sum + p, 0);
+        const timestamp = new Date((times[0] + (start + SPECTRUM_WINDOW_SAMPLES / 2) * dt) * 1000);
+
+        AFFECT_BANDS.forEach(({ band, minPeriod, maxPeriod }) => {
+          let bandPower = 0;
+          let peakPower = -1;
+          let peakFrequency = 0;
+          power.forEach((p, k) => {
+            const frequency = (k + 1) / (SPECTRUM_WINDOW_SAMPLES * dt);
+            const period = 1 / frequency;
+            if (period >= minPeriod && period < maxPeriod) {
+              bandPower += p;
+              if (p > peakPower) {
+                peakPower = p;
+                peakFrequency = frequency;
+              }
+            }
+          });
+          if (peakPower < 0) return; // band not resolvable at this sample rate
+
+          points.push({
+            timestamp,
+            signal,
+            band,
+            frequency: peakFrequency,
+            amplitude: total > 0 ? bandPower / total : 0
+          });
+        });
+      }
+    }
+
+    return points;
+  }
+
+  private forecastMetric(metric: string, snapshots: SessionMemorySnapshot[], timeHorizon: number): MetricForecast | null {
+    const { field, max, lowerIsBetter } = FORECAST_METRICS[metric];
+    const observations = snapshots
+      .filter(snapshot => typeof snapshot[field] === 'number')
+      .map(snapshot => ({ date: snapshot.timestamp, value: snapshot[field] as number }));
+    if (observations.length < MIN_FORECAST_POINTS) return null;
+
+    const origin = observations[0].date.getTime();
+    const xs = observations.map(o => (o.date.getTime() - origin) / DAY_MS);
+    const fit = this.linearFit(xs, observations.map(o => o.value));
+    if (!fit) return null;
+
+    const latest = observations[observations.length - 1];
+    const lastX = xs[xs.length - 1];
+    const t = this.tQuantile95(fit.n - 2);
+    const clampValue = (value: number) => Math.max(0, Math.min(max, value));
+
+    const predictedValues = Array.from({ length: Math.max(0, timeHorizon) }, (_, i) => {
+      const x = lastX + i + 1;
+      const value = fit.intercept + fit.slope * x;
+      const halfWidth = fit.sxx > 0
+        ? t * fit.residualStdError * Math.sqrt(1 + 1 / fit.n + (x - fit.meanX) ** 2 / fit.sxx)
+        : t * fit.residualStdError;
+      return {
+        date: new Date(latest.date.getTime() + (i + 1) * DAY_MS),
+        value: clampValue(value),
+        confidence: Math.max(0, Math.min(1, 1 - halfWidth / max)),
+        range: { min: clampValue(value - halfWidth), max: clampValue(value + halfWidth) }
+      };
+    });
+
+    // Trend only counts when the slope is distinguishable from zero
+    const slopeStdError = fit.sxx > 0 ? fit.residualStdError / Math.sqrt(fit.sxx) : Infinity;
+    const slopeSignificant = slopeStdError === 0
+      ? fit.slope !== 0
+      : Math.abs(fit.slope / slopeStdError) >= t;
+    const trend: MetricForecast['trend'] = !slopeSignificant
+      ? 'stable'
+      : (fit.slope < 0) === lowerIsBetter ? 'improving' : 'declining';
+
+    return {
+      metric,
+      currentValue: latest.value,
+      history: observations,
+      predictedValues,
+      trend,
+      confidence: fit.rSquared * Math.min(1, fit.n / 10),
+      factors: [
+        `${fit.n} snapshot values over ${Math.round(lastX)} days`,
+        `Slope ${fit.slope >= 0 ? '+' : ''}${fit.slope.toFixed(3)} per day`,
+        `R² ${fit.rSquared.toFixed(2)}`
+      ],
+      regression: {
+        slopePerDay: fit.slope,
+        intercept: fit.intercept,
+        rSquared: fit.rSquared,
+        residualStdError: fit.residualStdError,
+        sampleCount: fit.n
+      }
+    };
+  }
+
+  private assessRisks(snapshots: SessionMemorySnapshot[], predictions: MetricForecast[]): RiskPrediction[] {
+    const risks: RiskPrediction[] = [];
+    const suds = predictions.find(p => p.metric === 'suds');
+
+    if (suds?.trend === 'declining') {
+      risks.push({
+        id: 'risk_suds_regression',
+        type: 'regression',
+        probability: suds.confidence,
+        timeframe: 'Next 2 weeks',
+        severity: suds.currentValue >= 7 ? 'high' : 'medium',
+        description: `SUDS has been rising by ${suds.regression.slopePerDay.toFixed(2)} points per day`,
+        indicators: suds.factors,
+        mitigationStrategies: ['Adjust treatment pace', 'Focus on stabilization', 'Review target memory selection'],
+        earlyWarnings: ['Increased SUDS ratings', 'Shorter recovery between sets']
+      });
+    } else if (suds?.trend === 'stable' && suds.regression.sampleCount >= 5 && suds.currentValue > 4) {
+      risks.push({
+        id: 'risk_suds_stagnation',
+        type: 'stagnation',
+        probability: 1 - suds.confidence,
+        timeframe: 'Next 3 weeks',
+        severity: 'low',
+        description: `SUDS has not changed significantly across ${suds.regression.sampleCount} snapshots`,
+        indicators: suds.factors,
+        mitigationStrategies: ['Introduce new techniques', 'Target different memories', 'Modify BLS approach'],
+        earlyWarnings: ['Unchanged SUDS/VOC scores', 'Repetitive processing']
+      });
+    }
+
+    const recentStress = snapshots.slice(-5).map(s => s.stressLevel).filter((v): v is number => typeof v === 'number');
+    if (recentStress.length > 0) {
+      const avgStress = this.mean(recentStress);
+      if (avgStress > 0.6) {
+        risks.push({
+          id: 'risk_stress',
+          type: 'stagnation',
+          probability: Math.min(0.9, avgStress),
+          timeframe: 'Next 1-2 sessions',
+          severity: avgStress > 0.8 ? 'high' : 'medium',
+          description: `Average stress level ${avgStress.toFixed(2)} over the last ${recentStress.length} snapshots`,
+          indicators: ['Elevated stress markers'],
+          mitigationStrategies: ['Implement stress reduction techniques', 'Adjust session intensity'],
+          earlyWarnings: ['Increased stress levels', 'Emotional instability']
+        });
+      }
+    }
+
+    return risks;
+  }
+
+  private assessOpportunities(snapshots: SessionMemorySnapshot[], predictions: MetricForecast[]): OpportunityPrediction[] {
+    const opportunities: OpportunityPrediction[] = [];
+    const suds = predictions.find(p => p.metric === 'suds');
+    const voc = predictions.find(p => p.metric === 'voc');
+
+    if (suds && voc && suds.currentValue <= 1 && voc.currentValue >= 6) {
+      opportunities.push({
+        id: 'opp_completion',
+        type: 'treatment_completion',
+        probability: Math.min(suds.confidence, voc.confidence),
+        timeframe: 'Current session',
+        description: `Latest SUDS ${suds.currentValue} and VOC ${voc.currentValue} meet target criteria`,
+        requirements: ['SUDS 0-1', 'VOC 6-7', 'Clear body scan'],
+        actionSteps: ['Confirm with body scan', 'Plan closure and re-evaluation'],
+        expectedOutcome: 'Target memory processing complete'
+      });
+    } else if (suds?.trend === 'improving') {
+      opportunities.push({
+        id: 'opp_acceleration',
+        type: 'acceleration',
+        probability: suds.confidence,
+        timeframe: 'Next 1-2 sessions',
+        description: `SUDS is decreasing by ${Math.abs(suds.regression.slopePerDay).toFixed(2)} points per day`,
+        requirements: ['Continued engagement', 'Focus on target memory'],
+        actionSteps: ['Maintain current BLS settings', 'Monitor for plateau'],
+        expectedOutcome: 'Continued reduction of disturbance'
+      });
+    }
+
+    const recentEngagement = snapshots.slice(-3).map(s => s.engagementLevel).filter((v): v is number => typeof v === 'number');
+    if (recentEngagement.length > 0) {
+      const avgEngagement = this.mean(recentEngagement);
+      if (avgEngagement > 0.7) {
+        opportunities.push({
+          id: 'opp_advancement',
+          type: 'phase_advancement',
+          probability: avgEngagement,
+          timeframe: 'Current session',
+          description: `Average engagement ${avgEngagement.toFixed(2)} over the last ${recentEngagement.length} snapshots`,
+          requirements: ['High engagement maintained', 'Stable emotional state'],
+          actionSteps: ['Assess phase completion criteria', 'Prepare for next phase'],
+          expectedOutcome: 'Successful progression to next EMDR phase'
+        });
+      }
+    }
+
+    return opportunities;
+  }
+
+  // Arousal and valence plus the basic emotions that vary most across captures
+  private selectSignals(captures: EmotionCapture[]): string[] {
+    const emotionValues = new Map<string, number[]>();
+    captures.forEach(capture => {
+      Object.entries((capture.basicEmotions ?? {}) as Record<string, unknown>).forEach(([emotion, value]) => {
+        if (typeof value !== 'number') return;
+        emotionValues.set(emotion, [...(emotionValues.get(emotion) ?? []), value]);
+      });
+    });
+
+    const emotions = Array.from(emotionValues.entries())
+      .filter(([, values]) => values.length >= captures.length / 2)
+      .map(([emotion, values]) => ({ emotion, spread: this.standardDeviation(values) }))
+      .filter(({ spread }) => spread > 0)
+      .sort((a, b) => b.spread - a.spread)
+      .slice(0, MAX_EMOTION_SIGNALS)
+      .map(({ emotion }) => emotion);
+
+    return ['arousal', 'valence', ...emotions];
+  }
+
+  private signalValue(capture: EmotionCapture, signal: string): number {
+    if (signal === 'arousal') return capture.arousal;
+    if (signal === 'valence') return capture.valence;
+    const value = (capture.basicEmotions as Record<string, unknown>)?.[signal];
+    return typeof value === 'number' ? value : 0;
+  }
+
+  // Linear interpolation onto a uniform grid starting at the first timestamp
+  private resample(times: number[], values: number[], dt: number): number[] {
+    const samples: number[] = [];
+    let j = 0;
+    for (let t = times[0]; t <= times[times.length - 1]; t += dt) {
+      while (j < times.length - 2 && times[j + 1] < t) j++;
+      const span = times[j + 1] - times[j];
+      const ratio = span > 0 ? (t - times[j]) / span : 0;
+      samples.push(values[j] + (values[j + 1] - values[j]) * Math.max(0, Math.min(1, ratio)));
+    }
+    return samples;
+  }
+
+  // One-sided power spectrum of the mean-removed window, excluding DC
+  private powerSpectrum(window: number[]): number[] {
+    const n = window.length;
+    const avg = this.mean(window);
+    const centered = window.map(v => v - avg);
+    const power: number[] = [];
+    for (let k = 1; k <= n / 2; k++) {
+      let re = 0;
+      let im = 0;
+      for (let i = 0; i < n; i++) {
+        const angle = (2 * Math.PI * k * i) / n;
+        re += centered[i] * Math.cos(angle);
+        im -= centered[i] * Math.sin(angle);
+      }
+      power.push((re * re + im * im) / n);
+    }
+    return power;
+  }
+
+  private linearFit(xs: number[], ys: number[]): LinearFit | null {
+    const n = xs.length;
+    if (n < MIN_FORECAST_POINTS) return null;
+
+    const meanX = this.mean(xs);
+    const meanY = this.mean(ys);
+    const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+    const syy = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    const intercept = meanY - slope * meanX;
+    const sse = ys.reduce((sum, y, i) => sum + (y - (intercept + slope * xs[i])) ** 2, 0);
+
+    return {
+      slope,
+      intercept,
+      rSquared: syy > 0 ? 1 - sse / syy : 0,
+      residualStdError: Math.sqrt(sse / (n - 2)),
+      meanX,
+      sxx,
+      n
+    };
+  }
+
+  private pearson(a: number[], b: number[]): number | null {
+    if (a.length < MIN_CORRELATION_SAMPLES) return null;
+    const meanA = this.mean(a);
+    const meanB = this.mean(b);
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < a.length; i++) {
+      cov += (a[i] - meanA) * (b[i] - meanB);
+      varA += (a[i] - meanA) ** 2;
+      varB += (b[i] - meanB) ** 2;
+    }
+    if (varA === 0 || varB === 0) return null;
+    return cov / Math.sqrt(varA * varB);
+  }
+
+  // Uses the nearest tabulated df at or below the actual one, which errs wide
+  private tQuantile95(degreesOfFreedom: number): number {
+    const match = T_QUANTILES_95.filter(([df]) => df <= degreesOfFreedom).pop();
+    return match ? match[1] : T_QUANTILES_95[0][1];
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+
+  private standardDeviation(values: number[]): number {
+    const avg = this.mean(values);
+    return Math.sqrt(this.mean(values.map(v => (v - avg) ** 2)));
+  }
+}
+
+export const affectAnalyticsService = new AffectAnalyticsService();
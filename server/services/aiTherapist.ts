@@ -18,15 +18,24 @@ import type {
   PersonalizedRecommendation,
   EmotionalState98,
   AIChatContext,
-  EMDRProtocol
+  EMDRProtocol,
+  TherapeuticMemory
 } from '../../shared/types';
 import {
   createDefaultBLSConfiguration,
   createDefaultBLSAudioConfig,
   createDefaultBLSHapticsConfig,
   createDefaultBLS3DConfig,
-  createDefaultBLSTransitionConfig
+  createDefaultBLSTransitionConfig,
+  clampBLSRate,
+  legacyBLSSpeedToHz,
+  BLS_RATE_HZ_MIN,
+  BLS_RATE_HZ_MAX
 } from '../../shared/types';
+import { storage } from '../storage';
+
+// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+export const AI_THERAPIST_MODEL = 'gpt-5';
 
 // Voice Context Data for enhanced AI processing
 interface VoiceContextData {
@@ -72,11 +81,22 @@ export class BackendAITherapistService {
   }
 
   /**
-   * Initialize EMDR Protocol with all 8 phases
+   * Initialize EMDR Protocol with all 8 phases, followed by integration
    */
   private initializeEMDRProtocol(): EMDRProtocol {
     return {
       phases: [
+        {
+          phase: 'history-taking',
+          name: 'Сбор анамнеза и планирование лечения',
+          description: 'Изучение истории клиента, выявление целевых воспоминаний и ресурсов, оценка готовности',
+          goals: ['Собрать анамнез и текущие жалобы', 'Составить список целевых воспоминаний', 'Оценить ресурсы и готовность к стабилизации'],
+          typicalDuration: 30,
+          prerequisites: ['Информированное согласие', 'Отсутствие острого кризиса'],
+          completionCriteria: ['Список целей составлен', 'Ресурсы определены', 'Готовность к переработке оценена'],
+          commonChallenges: ['Избегание болезненных тем', 'Диссоциативные симптомы', 'Текущая небезопасная ситуация'],
+          interventions: ['Структурированное интервью', 'Хронология жизненных событий', 'Скрининг диссоциации']
+        },
         {
           phase: 'preparation',
           name: 'Подготовка и стабилизация',
@@ -174,6 +194,7 @@ export class BackendAITherapistService {
           'low_engagement': 0.3
         },
         phaseTransitionRules: {
+          'history-taking': ['Цели для переработки определены', 'Ресурсы выявлены', 'Готовность к стабилизации оценена'],
           'preparation': ['SUDS < 7', 'Техники заземления освоены', 'Терапевтический альянс установлен'],
           'assessment': ['Целевая память идентифицирована', 'SUDS и VOC измерены', 'Готовность к обработке'],
           'desensitization': ['SUDS снижен до 0-2', 'Эмоциональная стабильность', 'Адаптивная обработка'],
@@ -209,7 +230,7 @@ export class BackendAITherapistService {
       const userPrompt = this.createEmotionAnalysisPrompt(emotionData, sessionHistory, phase);
       
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5', // the newest OpenAI model is \"gpt-5\" which was released August 7, 2025. do not change this unless explicitly requested by the user
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -278,11 +299,12 @@ export class BackendAITherapistService {
     voiceContext?: VoiceContextData
   ): Promise<AITherapistMessage> {
     try {
+      context = await this.withTherapeuticMemory(context);
       const systemPrompt = this.createChatSystemPrompt(context);
       const userPrompt = this.createUserPrompt(message, context, voiceContext);
 
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5', // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -337,7 +359,7 @@ export class BackendAITherapistService {
       const userPrompt = this.createVoiceUserPrompt(message, context, voiceContext);
 
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5',
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -411,7 +433,7 @@ export class BackendAITherapistService {
       const userPrompt = `Текущая фаза: ${currentPhase}\nЭмоциональное состояние: arousal=${emotionData.arousal}, valence=${emotionData.valence}\nСессионные метрики: ${JSON.stringify(sessionMetrics)}\n\nПредоставь руководство для текущей фазы. Формат JSON: {"phaseProgress": 0.7, "suggestedNextPhase": "installation", "immediateRecommendations": [], "nextSteps": [], "concerns": [], "estimatedTimeRemaining": 15, "readyForNextPhase": false, "missingCriteria": []}`;
 
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5', // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -458,7 +480,7 @@ export class BackendAITherapistService {
       const userPrompt = `Анализируй эмоциональное состояние: arousal=${emotionData.arousal}, valence=${emotionData.valence}\nОсновные аффекты: ${JSON.stringify(emotionData.affects)}\nФаза: ${currentPhase}\n\nОпредели уровень вмешательства и рекомендации. Формат JSON: {"interventionLevel": "moderate", "canAdvance": false, "shouldRegress": false, "stayInPhase": true, "reasoning": "объяснение"}`;
 
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5', // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -671,6 +693,82 @@ ${adaptiveRecommendations}
 Ответ должен быть профессиональным, по-русски поддерживающим, с конкретными техниками безопасности и обязательным дисклаймером.`;
   }
 
+  /**
+   * Load stored cross-session memory for the session's patient-therapist pair.
+   * Memory only ever comes from storage; preferences sent by the client are dropped.
+   */
+  private async withTherapeuticMemory(context: AIChatContext): Promise<AIChatContext> {
+    const withoutMemory: AIChatContext = {
+      ...context,
+      patientProfile: {
+        ...context.patientProfile,
+        preferences: {} as TherapeuticMemory
+      }
+    };
+    
+    try {
+      const session = await storage.getSession(context.sessionId);
+      if (!session) return withoutMemory;
+      
+      const memory = await storage.getTherapeuticMemory(session.patientId, session.therapistId);
+      if (!memory) return withoutMemory;
+      
+      const progressMetrics = memory.progressMetrics as Partial<TherapeuticMemory['progressMetrics']>;
+      // Records written before the BLS rate was in Hz hold a 1-10 optimalSpeed
+      const storedPreferences = memory.adaptivePreferences as Partial<TherapeuticMemory['adaptivePreferences']> & { optimalSpeed?: number };
+      const adaptivePreferences = storedPreferences.optimalRateHz === undefined && storedPreferences.optimalSpeed !== undefined
+        ? { ...storedPreferences, optimalRateHz: legacyBLSSpeedToHz(storedPreferences.optimalSpeed) }
+        : storedPreferences;
+      
+      const preferences: TherapeuticMemory = {
+        patientId: memory.patientId,
+        therapistId: memory.therapistId,
+        sessionCount: memory.sessionCount,
+        keyThemes: memory.keyThemes ?? [],
+        progressMetrics: {
+          sudsReduction: progressMetrics.sudsReduction ?? 0,
+          vocImprovement: progressMetrics.vocImprovement ?? 0,
+          emotionalStability: progressMetrics.emotionalStability ?? 0.5
+        },
+        adaptivePreferences: {
+          preferredBLSPattern: adaptivePreferences.preferredBLSPattern ?? 'horizontal',
+          optimalRateHz: adaptivePreferences.optimalRateHz ?? 1,
+          effectiveColors: adaptivePreferences.effectiveColors ?? []
+        }
+      };
+      
+      return {
+        ...context,
+        patientProfile: {
+          ...context.patientProfile,
+          preferences
+        }
+      };
+    } catch (error) {
+      console.error('Failed to load therapeutic memory:', error);
+      return withoutMemory;
+    }
+  }
+
+  /**
+   * Summarize cross-session memory for prompts
+   */
+  private describeTherapeuticMemory(memory?: TherapeuticMemory): string {
+    if (!memory?.sessionCount) {
+      return '';
+    }
+    
+    return `
+
+ИСТОРИЯ ТЕРАПИИ:
+- Проведено сессий: ${memory.sessionCount}
+- Повторяющиеся темы: ${memory.keyThemes.slice(0, 5).join(', ') || 'нет данных'}
+- Среднее снижение SUD за сессию: ${memory.progressMetrics.sudsReduction.toFixed(1)}
+- Средний прирост VOC за сессию: ${memory.progressMetrics.vocImprovement.toFixed(1)}
+- Эмоциональная стабильность: ${memory.progressMetrics.emotionalStability.toFixed(2)}
+- Предпочтительный паттерн BLS: ${memory.adaptivePreferences.preferredBLSPattern}, частота ${memory.adaptivePreferences.optimalRateHz} Гц`;
+  }
+
   /**
    * Create chat system prompt
    */
@@ -687,7 +785,7 @@ ${adaptiveRecommendations}
 - Сессия: ${anonymizedSessionId}
 - Эмоциональная категория: ${emotionalCategory}
 - Фаза: ${context.phaseContext.currentPhase}
-- Время в фазе: ${Math.floor(context.phaseContext.timeInPhase)} минут
+- Время в фазе: ${Math.floor(context.phaseContext.timeInPhase)} минут${this.describeTherapeuticMemory(context.patientProfile.preferences)}
 
 БЕЗОПАСНОСТЬ:
 1. При кризисе - рекомендовать обратиться к терапевту
@@ -744,10 +842,10 @@ ${adaptiveRecommendations}
     // Enhanced adaptive algorithm with GPT-5 intelligence
     try {
       const systemPrompt = `Вы - эксперт по билатеральной стимуляции в EMDR терапии. Настройте параметры BLS на основе эмоционального состояния пациента.`;
-      const userPrompt = `Эмоциональное состояние: arousal=${arousalLevel}, valence=${valenceLevel}\n\nОпределите оптимальные параметры BLS. Формат JSON: {"speed": 5, "pattern": "horizontal", "color": "#3b82f6", "size": 20, "soundEnabled": true, "reasoning": "обоснование"}`;
+      const userPrompt = `Эмоциональное состояние: arousal=${arousalLevel}, valence=${valenceLevel}\n\nОпределите оптимальные параметры BLS. Частота rateHz в Гц (полных проходов в секунду) от ${BLS_RATE_HZ_MIN} до ${BLS_RATE_HZ_MAX}. Формат JSON: {"rateHz": 1, "pattern": "horizontal", "color": "#3b82f6", "size": 20, "soundEnabled": true, "reasoning": "обоснование"}`;
 
       const response = await this.openai.chat.completions.create({
-        model: 'gpt-5', // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+        model: AI_THERAPIST_MODEL,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
@@ -758,7 +856,7 @@ ${adaptiveRecommendations}
       const aiResponse = JSON.parse(response.choices[0].message.content!);
       
       return createDefaultBLSConfiguration({
-        speed: aiResponse.speed || this.calculateOptimalSpeed(arousalLevel),
+        rateHz: typeof aiResponse.rateHz === 'number' ? clampBLSRate(aiResponse.rateHz) : this.calculateOptimalRate(arousalLevel),
         pattern: aiResponse.pattern || this.selectPattern(valenceLevel, arousalLevel),
         color: aiResponse.color || this.selectColor(emotionData),
         size: aiResponse.size || this.calculateOptimalSize(arousalLevel),
@@ -770,7 +868,7 @@ ${adaptiveRecommendations}
       console.error('AI BLS generation error:', error);
       // Fallback to rule-based algorithm
       return createDefaultBLSConfiguration({
-        speed: this.calculateOptimalSpeed(arousalLevel),
+        rateHz: this.calculateOptimalRate(arousalLevel),
         pattern: this.selectPattern(valenceLevel, arousalLevel),
         color: this.selectColor(emotionData),
         size: this.calculateOptimalSize(arousalLevel),
@@ -859,6 +957,13 @@ ${adaptiveRecommendations}
     let confidence = 0.5;
     
     switch (currentPhase) {
+      case 'history-taking':
+        // Whether the intake is complete is for the clinician to say; only check the patient is settled
+        if (avgArousal < 0.7) {
+          nextPhase = 'preparation';
+          confidence = 0.6;
+        }
+        break;
       case 'preparation':
         if (avgArousal < 0.6 && sudsLevel < 8) {
           nextPhase = 'desensitization';
@@ -1136,11 +1241,11 @@ Valence: ${valence.toFixed(2)} (${valenceDesc})
       transitions: baseConfig.transitions
     };
     
-    // Speed adjustments
+    // Rate adjustments
     if (arousal > 0.8) {
-      adjustments.speed = Math.max(1, 5 - Math.floor(arousal * 4));
+      adjustments.rateHz = clampBLSRate(1 - Math.floor(arousal * 4) * 0.2);
     } else if (arousal < 0.3) {
-      adjustments.speed = Math.min(10, 5 + Math.floor((1 - arousal) * 3));
+      adjustments.rateHz = clampBLSRate(1 + Math.floor((1 - arousal) * 3) * 0.2);
     }
     
     // Color adjustments based on valence
@@ -1184,7 +1289,7 @@ Valence: ${valence.toFixed(2)} (${valenceDesc})
         concerns: []
       },
       adaptiveBLS: createDefaultBLSConfiguration({
-        speed: 5,
+        rateHz: 1,
         pattern: 'horizontal',
         color: '#3b82f6',
         size: 20,
@@ -1230,7 +1335,7 @@ Valence: ${valence.toFixed(2)} (${valenceDesc})
       phase,
       message: 'Продолжайте следить за движущимся объектом',
       suggestedBLS: createDefaultBLSConfiguration({
-        speed: 5,
+        rateHz: 1,
         pattern: 'horizontal',
         color: '#3b82f6',
         size: 20,
@@ -1317,7 +1422,7 @@ Valence: ${valence.toFixed(2)} (${valenceDesc})
       phase: emdrPhase,
       message: 'Продолжайте следить за движущимся объектом',
       suggestedBLS: createDefaultBLSConfiguration({
-        speed: 5,
+        rateHz: 1,
         pattern: 'horizontal',
         color: '#3b82f6',
         size: 20,
@@ -1352,9 +1457,9 @@ Valence: ${valence.toFixed(2)} (${valenceDesc})
     };
   }
 
-  private calculateOptimalSpeed(arousal: number): number {
-    // Higher arousal -> slower speed for calming effect
-    return Math.max(1, Math.min(10, 10 - Math.floor(arousal * 10)));
+  private calculateOptimalRate(arousal: number): number {
+    // Higher arousal -> slower rate for calming effect
+    return clampBLSRate(BLS_RATE_HZ_MAX - Math.floor(arousal * 10) * 0.2);
   }
 
   private selectPattern(valence: number, arousal: number): BLSConfiguration['pattern'] {
@@ -1656,6 +1761,10 @@ ${emotionalIndicators}
     ];
 
     const phaseTechniques: Record<EMDRPhase, string[]> = {
+      'history-taking': [
+        'СБОР АНАМНЕЗА: Выясните, есть ли у клиента место, где он чувствует себя спокойно',
+        '- Отметьте его как ресурс в карте клиента'
+      ],
       'preparation': [
         'ПОДГОТОВКА: Создание базового образа безопасного места',
         '- Опишите это место вслух',
@@ -1726,6 +1835,10 @@ ${emotionalIndicators}
     ];
 
     const phaseTechniques: Record<EMDRPhase, string[]> = {
+      'history-taking': [
+        'СБОР АНАМНЕЗА: Скрининг диссоциативных симптомов',
+        '- Не углубляйтесь в детали травматичных событий'
+      ],
       'preparation': [
         'ПОДГОТОВКА: Обучение базовым техникам заземления'
       ],
@@ -1873,6 +1986,10 @@ ${emotionalIndicators}
     ];
 
     const phaseSpecific: Record<EMDRPhase, string[]> = {
+      'history-taking': [
+        'Сбор анамнеза: "Матрёшка" поможет бережно назвать разные слои истории',
+        'Достаточно заголовков событий, подробности подождут'
+      ],
       'preparation': [
         'Фаза подготовки: Используйте "Русский лес" для создания безопасности',
         'Установите связь с природными образами силы'
@@ -1915,6 +2032,13 @@ ${emotionalIndicators}
    */
   private getEMDRRussianPhrases(phase: EMDRPhase): string[] {
     const basePhrasesMap: Record<EMDRPhase, string[]> = {
+      'history-taking': [
+        '📋 ФРАЗЫ ДЛЯ СБОРА АНАМНЕЗА:',
+        '"Сегодня мы познакомимся с вашей историей, не погружаясь в болезненные подробности."',
+        '"Назовите событие одной фразой — этого сейчас достаточно."',
+        '"Насколько беспокоит вас это воспоминание сегодня, от 0 до 10?"',
+        '"Что или кто помогает вам, когда становится тяжело?"'
+      ],
       'preparation': [
         '📋 ФРАЗЫ ДЛЯ ФАЗЫ ПОДГОТОВКИ:',
         '"Мы начинаем очень бережно. Вы в полной безопасности."',
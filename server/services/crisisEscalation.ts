@@ -0,0 +1,351 @@
+/**
+ * Crisis Escalation
+ * Turns crisis detections into tracked crisis events: the live session is paused, the patient's
+ * therapists are alerted, and an alert nobody acknowledges is escalated to admins.
+ * Every step is appended to the event's audit log for the post-incident report.
+ */
+
+import { z } from 'zod';
+import { storage } from '../storage';
+import { sessionRoomService } from './sessionRoom';
+import type { CrisisEvent, Session } from '../../shared/schema';
+import type {
+  CrisisAuditEntry,
+  CrisisDetection,
+  CrisisReport,
+  CrisisSource,
+  CrisisStatus,
+  EmergencyContact
+} from '../../shared/types';
+
+// How long an alert may stay unacknowledged before it goes up one level
+const DEFAULT_ACK_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_ESCALATION_LEVEL = 2;
+// Emotional snapshots this close to the detection are included in the report
+const REPORT_CONTEXT_WINDOW_MS = 10 * 60 * 1000;
+
+const ACTIVE_STATUSES: CrisisStatus[] = ['open', 'acknowledged', 'escalated'];
+const AWAITING_ACK_STATUSES: CrisisStatus[] = ['open', 'escalated'];
+const RISK_ORDER = ['none', 'low', 'moderate', 'high', 'severe'];
+
+const DEFAULT_EMERGENCY_CONTACTS: EmergencyContact[] = [
+  { name: 'Единый номер экстренных служб', phone: '112', description: 'Круглосуточно, бесплатно' },
+  { name: 'Телефон доверия', phone: '8-800-2000-122', description: 'Бесплатная психологическая помощь' },
+  { name: 'Экстренная психологическая помощь МЧС', phone: '+7 (495) 989-50-50', description: 'Круглосуточно' }
+];
+
+const EmergencyContactsSchema = z.array(z.object({
+  name: z.string().min(1),
+  phone: z.string().min(1),
+  description: z.string().optional()
+})).min(1);
+
+// Who receives a crisis alert on the live update stream
+export interface CrisisRecipients {
+  userIds: string[];
+  includeAdmins: boolean;
+}
+
+type CrisisListener = (crisis: CrisisEvent, recipients: CrisisRecipients) => void;
+
+export interface RaiseCrisisRequest {
+  patientId: string;
+  sessionId?: string | null;
+  source: CrisisSource;
+  detection: CrisisDetection;
+  reportedBy?: string;
+}
+
+function auditEntry(action: CrisisAuditEntry['action'], actorId?: string, details?: string): CrisisAuditEntry {
+  return { at: new Date().toISOString(), action, ...(actorId ? { actorId } : {}), ...(details ? { details } : {}) };
+}
+
+function getAckTimeoutMs(): number {
+  const value = Number(process.env.CRISIS_ACK_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_ACK_TIMEOUT_MS;
+}
+
+export class CrisisEscalationService {
+  private escalationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners: CrisisListener[] = [];
+
+  onCrisisUpdate(callback: CrisisListener): void {
+    this.listeners.push(callback);
+  }
+
+  /**
+   * Opens a crisis event, or folds the detection into the one still active for the patient.
+   * Detections that do not ask for the therapist to be alerted are ignored unless reported manually.
+   */
+  async raise(request: RaiseCrisisRequest): Promise<CrisisEvent | null> {
+    const { patientId, source, detection } = request;
+    if (!detection.monitoring.alertTherapist && source !== 'manual') {
+      return null;
+    }
+
+    const candidate = request.sessionId
+      ? await storage.getSession(request.sessionId)
+      : await storage.getActiveSessionByPatient(patientId);
+    const session = candidate?.patientId === patientId ? candidate : undefined;
+
+    // A crisis still being handled absorbs further detections unless they come from another session
+    const [active] = await storage.getCrisisEvents({ patientId, statuses: ACTIVE_STATUSES });
+    if (active && (!session || !active.sessionId || active.sessionId === session.id)) {
+      return this.redetect(active, request);
+    }
+
+    let crisis = await storage.createCrisisEvent({
+      patientId,
+      sessionId: session?.id ?? null,
+      therapistId: session?.therapistId ?? null,
+      source,
+      riskLevel: detection.riskLevel,
+      triggers: detection.triggers,
+      detection,
+      status: 'open',
+      auditLog: [auditEntry('detected', request.reportedBy, `${source}: ${detection.triggers.join(', ')}`)]
+    });
+    console.log(`🚨 Crisis ${crisis.id} raised for patient ${patientId} (${detection.riskLevel}, ${source})`);
+
+    if (session?.status === 'active') {
+      await storage.updateSession(session.id, { status: 'paused' });
+      crisis = await this.update(crisis, { sessionPaused: true }, auditEntry('session_paused'));
+    }
+    this.syncRoom(crisis, 'patient');
+
+    const therapistIds = await this.getTherapistIds(crisis, session);
+    if (therapistIds.length === 0) {
+      // Nobody to acknowledge it at the first level
+      return this.escalate(crisis.id);
+    }
+
+    crisis = await this.update(crisis, { therapistId: crisis.therapistId ?? therapistIds[0] }, auditEntry('therapist_alerted', undefined, therapistIds.join(', ')));
+    this.notify(crisis, { userIds: therapistIds, includeAdmins: false });
+    this.scheduleEscalation(crisis.id, getAckTimeoutMs());
+    return crisis;
+  }
+
+  async acknowledge(crisisId: string, userId: string): Promise<CrisisEvent | undefined> {
+    const crisis = await storage.getCrisisEvent(crisisId);
+    if (!crisis || !AWAITING_ACK_STATUSES.includes(crisis.status as CrisisStatus)) {
+      return crisis;
+    }
+
+    this.clearEscalation(crisisId);
+    const updated = await this.update(crisis, {
+      status: 'acknowledged',
+      acknowledgedBy: userId,
+      acknowledgedAt: new Date()
+    }, auditEntry('acknowledged', userId));
+
+    this.syncRoom(updated, 'therapist');
+    this.notify(updated, await this.getRecipients(updated));
+    return updated;
+  }
+
+  /**
+   * Closes the crisis. The paused session is set active again only when asked to.
+   */
+  async resolve(crisisId: string, userId: string, options: { notes?: string; resumeSession?: boolean } = {}): Promise<CrisisEvent | undefined> {
+    const crisis = await storage.getCrisisEvent(crisisId);
+    if (!crisis || crisis.status === 'resolved') {
+      return crisis;
+    }
+
+    this.clearEscalation(crisisId);
+    let updated = await this.update(crisis, {
+      status: 'resolved',
+      resolvedBy: userId,
+      resolvedAt: new Date(),
+      resolutionNotes: options.notes ?? null,
+      // Resolving implies the alert was seen
+      ...(crisis.acknowledgedAt ? {} : { acknowledgedBy: userId, acknowledgedAt: new Date() })
+    }, auditEntry('resolved', userId, options.notes));
+
+    if (options.resumeSession && updated.sessionPaused && updated.sessionId) {
+      const session = await storage.getSession(updated.sessionId);
+      if (session?.status === 'paused') {
+        await storage.updateSession(session.id, { status: 'active' });
+        updated = await this.update(updated, {}, auditEntry('session_resumed', userId));
+      }
+    }
+
+    this.syncRoom(updated, 'therapist');
+    this.notify(updated, await this.getRecipients(updated));
+    return updated;
+  }
+
+  async getEvents(filter: { patientId?: string; therapistId?: string; statuses?: string[] }): Promise<CrisisEvent[]> {
+    return storage.getCrisisEvents(filter);
+  }
+
+  async buildReport(crisis: CrisisEvent): Promise<CrisisReport> {
+    const [patient, session] = await Promise.all([
+      storage.getUser(crisis.patientId),
+      crisis.sessionId ? storage.getSession(crisis.sessionId) : Promise.resolve(undefined)
+    ]);
+
+    const detectedAt = crisis.createdAt.getTime();
+    const snapshots = crisis.sessionId ? await storage.getSessionSnapshots(crisis.sessionId) : [];
+    const emotionalContext = snapshots
+      .filter(snapshot => Math.abs(snapshot.timestamp.getTime() - detectedAt) <= REPORT_CONTEXT_WINDOW_MS)
+      .map(snapshot => {
+        const emotion = (snapshot.emotionalSnapshot ?? {}) as { arousal?: number; valence?: number };
+        return {
+          timestamp: snapshot.timestamp,
+          arousal: emotion.arousal ?? 0,
+          valence: emotion.valence ?? 0,
+          stressLevel: snapshot.stressLevel
+        };
+      });
+
+    return {
+      crisis,
+      patient: patient
+        ? { id: patient.id, firstName: patient.firstName, lastName: patient.lastName, username: patient.username }
+        : null,
+      session: session
+        ? {
+            id: session.id,
+            phase: session.phase,
+            status: session.status,
+            startTime: session.startTime,
+            endTime: session.endTime,
+            sudsInitial: session.sudsInitial,
+            sudsFinal: session.sudsFinal
+          }
+        : null,
+      timeline: crisis.auditLog as CrisisAuditEntry[],
+      metrics: {
+        timeToAcknowledgeMs: crisis.acknowledgedAt ? crisis.acknowledgedAt.getTime() - detectedAt : null,
+        timeToResolveMs: crisis.resolvedAt ? crisis.resolvedAt.getTime() - detectedAt : null,
+        escalationLevel: crisis.escalationLevel
+      },
+      emotionalContext
+    };
+  }
+
+  getEmergencyContacts(): EmergencyContact[] {
+    const raw = process.env.CRISIS_EMERGENCY_CONTACTS;
+    if (raw) {
+      try {
+        return EmergencyContactsSchema.parse(JSON.parse(raw));
+      } catch (error) {
+        console.error('⚠️ CRISIS_EMERGENCY_CONTACTS is not a valid contact list, using defaults:', error);
+      }
+    }
+    return DEFAULT_EMERGENCY_CONTACTS;
+  }
+
+  /**
+   * Escalation timers live in memory; re-arm them (and the room pause) for crises left open by a restart
+   */
+  async resumePendingEscalations(): Promise<void> {
+    const pending = await storage.getCrisisEvents({ statuses: ACTIVE_STATUSES });
+    const timeout = getAckTimeoutMs();
+
+    pending.forEach(crisis => {
+      this.syncRoom(crisis, 'patient');
+      if (AWAITING_ACK_STATUSES.includes(crisis.status as CrisisStatus) && crisis.escalationLevel < MAX_ESCALATION_LEVEL) {
+        const since = (crisis.escalatedAt ?? crisis.createdAt).getTime();
+        this.scheduleEscalation(crisis.id, Math.max(0, since + timeout - Date.now()));
+      }
+    });
+
+    if (pending.length > 0) {
+      console.log(`🚨 Resumed ${pending.length} active crisis event(s)`);
+    }
+  }
+
+  private async redetect(crisis: CrisisEvent, request: RaiseCrisisRequest): Promise<CrisisEvent> {
+    const { detection } = request;
+    const triggers = Array.from(new Set([...(crisis.triggers ?? []), ...detection.triggers]));
+    const riskLevel = RISK_ORDER.indexOf(detection.riskLevel) > RISK_ORDER.indexOf(crisis.riskLevel)
+      ? detection.riskLevel
+      : crisis.riskLevel;
+
+    const updated = await this.update(crisis, { triggers, riskLevel }, auditEntry('redetected', request.reportedBy, `${request.source}: ${detection.triggers.join(', ')}`));
+    if (riskLevel !== crisis.riskLevel) {
+      this.syncRoom(updated, 'patient');
+      this.notify(updated, await this.getRecipients(updated));
+    }
+    return updated;
+  }
+
+  private async escalate(crisisId: string): Promise<CrisisEvent | null> {
+    this.escalationTimers.delete(crisisId);
+    const crisis = await storage.getCrisisEvent(crisisId);
+    if (!crisis || !AWAITING_ACK_STATUSES.includes(crisis.status as CrisisStatus)) {
+      return crisis ?? null;
+    }
+
+    const escalationLevel = crisis.escalationLevel + 1;
+    const updated = await this.update(crisis, {
+      status: 'escalated',
+      escalationLevel,
+      escalatedAt: new Date()
+    }, auditEntry('escalated', undefined, `level ${escalationLevel}`));
+    console.warn(`🚨 Crisis ${crisisId} unacknowledged, escalated to level ${escalationLevel}`);
+
+    this.syncRoom(updated, 'patient');
+    this.notify(updated, await this.getRecipients(updated));
+    if (escalationLevel < MAX_ESCALATION_LEVEL) {
+      this.scheduleEscalation(crisisId, getAckTimeoutMs());
+    }
+    return updated;
+  }
+
+  private scheduleEscalation(crisisId: string, delayMs: number): void {
+    this.clearEscalation(crisisId);
+    this.escalationTimers.set(crisisId, setTimeout(() => {
+      this.escalate(crisisId).catch(error => console.error('❌ Crisis escalation failed:', error));
+    }, delayMs));
+  }
+
+  private clearEscalation(crisisId: string): void {
+    clearTimeout(this.escalationTimers.get(crisisId));
+    this.escalationTimers.delete(crisisId);
+  }
+
+  private async update(crisis: CrisisEvent, updates: Partial<CrisisEvent>, entry: CrisisAuditEntry): Promise<CrisisEvent> {
+    const auditLog = [...(crisis.auditLog as CrisisAuditEntry[]), entry];
+    const updated = await storage.updateCrisisEvent(crisis.id, { ...updates, auditLog });
+    return updated ?? { ...crisis, ...updates, auditLog };
+  }
+
+  // The session's therapist first, then everyone with the patient on an active caseload
+  private async getTherapistIds(crisis: CrisisEvent, session?: Session): Promise<string[]> {
+    const assignments = await storage.getCaseloadAssignments({ patientId: crisis.patientId, status: 'active' });
+    const ids = [crisis.therapistId, session?.therapistId, ...assignments.map(assignment => assignment.therapistId)];
+    return Array.from(new Set(ids.filter((id): id is string => !!id)));
+  }
+
+  private async getRecipients(crisis: CrisisEvent): Promise<CrisisRecipients> {
+    return {
+      userIds: await this.getTherapistIds(crisis),
+      includeAdmins: crisis.escalationLevel > 0
+    };
+  }
+
+  private syncRoom(crisis: CrisisEvent, from: 'therapist' | 'patient'): void {
+    if (!crisis.sessionId) return;
+    sessionRoomService.setCrisis(crisis.sessionId, crisis.status === 'resolved' ? null : {
+      id: crisis.id,
+      riskLevel: crisis.riskLevel,
+      status: crisis.status as CrisisStatus,
+      raisedAt: crisis.createdAt.getTime()
+    }, from);
+  }
+
+  private notify(crisis: CrisisEvent, recipients: CrisisRecipients): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(crisis, recipients);
+      } catch (error) {
+        console.error('Crisis listener error:', error);
+      }
+    });
+  }
+}
+
+export const crisisEscalationService = new CrisisEscalationService();
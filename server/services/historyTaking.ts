@@ -0,0 +1,84 @@
+/**
+ * History Taking
+ * Keeps the structured intake of EMDR phase 1 (trauma targets, resources, stabilisation readiness)
+ * and judges from it whether the patient is ready for reprocessing.
+ */
+
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import type { PatientIntake } from '../../shared/schema';
+import type {
+  IntakeResource,
+  IntakeTraumaTarget,
+  ReadinessBlocker,
+  StabilisationReadiness
+} from '../../shared/types';
+
+// Below this the patient needs more resourcing before reprocessing
+const MIN_AFFECT_TOLERANCE = 5;
+
+export interface IntakeUpdate {
+  presentingProblem?: string | null;
+  treatmentGoals?: string[];
+  traumaTargets?: Array<Omit<IntakeTraumaTarget, 'id' | 'status' | 'priority'> & Partial<Pick<IntakeTraumaTarget, 'id' | 'status' | 'priority'>>>;
+  resources?: Array<Omit<IntakeResource, 'id'> & { id?: string }>;
+  stabilisationReadiness?: StabilisationReadiness | null;
+  complete?: boolean; // true finishes history taking, false reopens it
+}
+
+export class HistoryTakingService {
+  async getIntake(patientId: string): Promise<PatientIntake | undefined> {
+    return storage.getPatientIntake(patientId);
+  }
+
+  /**
+   * Fields left out of the update keep their stored values
+   */
+  async saveIntake(patientId: string, recordedBy: string, update: IntakeUpdate): Promise<PatientIntake> {
+    const existing = await storage.getPatientIntake(patientId);
+
+    const traumaTargets = update.traumaTargets?.map((target, index): IntakeTraumaTarget => ({
+      ...target,
+      id: target.id ?? randomUUID(),
+      priority: target.priority ?? index + 1,
+      status: target.status ?? 'pending'
+    }));
+    const resources = update.resources?.map((resource): IntakeResource => ({
+      ...resource,
+      id: resource.id ?? randomUUID()
+    }));
+
+    let completedAt = existing?.completedAt ?? null;
+    if (update.complete === true) {
+      completedAt = completedAt ?? new Date();
+    } else if (update.complete === false) {
+      completedAt = null;
+    }
+
+    return storage.upsertPatientIntake({
+      patientId,
+      recordedBy,
+      presentingProblem: update.presentingProblem !== undefined ? update.presentingProblem : existing?.presentingProblem ?? null,
+      treatmentGoals: update.treatmentGoals ?? existing?.treatmentGoals ?? null,
+      traumaTargets: traumaTargets ?? existing?.traumaTargets ?? [],
+      resources: resources ?? existing?.resources ?? [],
+      stabilisationReadiness: update.stabilisationReadiness !== undefined
+        ? update.stabilisationReadiness
+        : existing?.stabilisationReadiness ?? null,
+      completedAt
+    });
+  }
+
+  getReadinessBlockers(readiness: StabilisationReadiness | null): ReadinessBlocker[] {
+    if (!readiness) return ['not_assessed'];
+
+    const blockers: ReadinessBlocker[] = [];
+    if (readiness.affectTolerance < MIN_AFFECT_TOLERANCE) blockers.push('low_affect_tolerance');
+    if (readiness.dissociationRisk === 'high') blockers.push('dissociation_risk');
+    if (!readiness.currentlySafe) blockers.push('not_safe');
+    if (!readiness.clinicianApproved) blockers.push('no_clinician_approval');
+    return blockers;
+  }
+}
+
+export const historyTakingService = new HistoryTakingService();
@@ -0,0 +1,49 @@
+/**
+ * ICE server configuration for therapist-patient video calls
+ * WEBRTC_ICE_SERVERS (JSON array of RTCIceServer) overrides the individual STUN/TURN variables.
+ */
+
+import { z } from 'zod';
+
+export interface IceServerConfig {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302'];
+
+const IceServersSchema = z.array(z.object({
+  urls: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  username: z.string().optional(),
+  credential: z.string().optional()
+}));
+
+function splitUrls(value: string | undefined): string[] {
+  return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+export function getIceServers(): IceServerConfig[] {
+  const raw = process.env.WEBRTC_ICE_SERVERS;
+  if (raw) {
+    try {
+      return IceServersSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      console.error('⚠️ WEBRTC_ICE_SERVERS is not a valid ICE server list, falling back to STUN/TURN variables:', error);
+    }
+  }
+
+  const stunUrls = splitUrls(process.env.WEBRTC_STUN_URLS);
+  const servers: IceServerConfig[] = [{ urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS }];
+
+  const turnUrls = splitUrls(process.env.WEBRTC_TURN_URLS);
+  if (turnUrls.length > 0) {
+    servers.push({
+      urls: turnUrls,
+      username: process.env.WEBRTC_TURN_USERNAME,
+      credential: process.env.WEBRTC_TURN_CREDENTIAL
+    });
+  }
+
+  return servers;
+}
@@ -0,0 +1,105 @@
+/**
+ * Live Update Stream
+ * Pushes session memory updates and newly generated insights to dashboards over server-sent events.
+ * Every event is delivered only to users who may access the patient it belongs to;
+ * crisis alerts go to the recipients chosen by the escalation service instead.
+ */
+
+import type { Response } from 'express';
+import { sessionMemoryService } from './sessionMemory';
+import { progressAnalyticsService } from './progressAnalytics';
+import { crisisEscalationService } from './crisisEscalation';
+import { checkPatientAccess } from '../accessControl';
+import type { LiveStreamEvent } from '../../shared/types';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+// Caseload changes reach open streams after at most this long
+const ACCESS_CACHE_TTL_MS = 60000;
+
+interface LiveClient {
+  user: Express.User;
+  res: Response;
+  patientId?: string;
+  accessCache: Map<string, { allowed: boolean; expiresAt: number }>;
+}
+
+export class LiveUpdateService {
+  private clients = new Set<LiveClient>();
+
+  constructor() {
+    sessionMemoryService.onMemoryUpdate(update => {
+      this.publish(update.patientId, { type: 'memory_update', update });
+    });
+    progressAnalyticsService.onInsightGenerated(insight => {
+      this.publish(insight.patientId, { type: 'insight', insight });
+    });
+    crisisEscalationService.onCrisisUpdate((crisis, recipients) => {
+      this.publish(crisis.patientId, { type: 'crisis_alert', crisis }, user =>
+        recipients.userIds.includes(user.id) || (recipients.includeAdmins && user.role === 'admin')
+      );
+    });
+  }
+
+  /**
+   * Turns the response into an event stream until the client disconnects.
+   * Pass a patient id to receive only that patient's events.
+   */
+  subscribe(user: Express.User, res: Response, patientId?: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const client: LiveClient = { user, res, patientId, accessCache: new Map() };
+    this.clients.add(client);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      this.clients.delete(client);
+    });
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  // isRecipient, when given, replaces the patient access check
+  private publish(patientId: string, event: LiveStreamEvent, isRecipient?: (user: Express.User) => boolean): void {
+    const payload = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+    this.clients.forEach(client => {
+      if (client.patientId && client.patientId !== patientId) return;
+      if (isRecipient) {
+        if (isRecipient(client.user) && !client.res.writableEnded) {
+          client.res.write(payload);
+        }
+        return;
+      }
+
+      this.canReceive(client, patientId)
+        .then(allowed => {
+          if (allowed && !client.res.writableEnded) {
+            client.res.write(payload);
+          }
+        })
+        .catch(error => console.error('❌ Live update access check failed:', error));
+    });
+  }
+
+  private async canReceive(client: LiveClient, patientId: string): Promise<boolean> {
+    const cached = client.accessCache.get(patientId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.allowed;
+    }
+
+    const decision = await checkPatientAccess(client.user, patientId);
+    client.accessCache.set(patientId, { allowed: decision.allowed, expiresAt: Date.now() + ACCESS_CACHE_TTL_MS });
+    return decision.allowed;
+  }
+}
+
+export const liveUpdateService = new LiveUpdateService();
@@ -0,0 +1,28 @@
+/**
+ * Key material for encrypted client-side session storage
+ * The browser wraps its local data key with this per-user key, so the data can only be
+ * decrypted by the same user on a device that can reach the server.
+ * PERSISTENCE_KEY_SECRET (falling back to SESSION_SECRET) must stay stable across restarts.
+ */
+
+import { createHmac } from 'crypto';
+
+// Stored next to the wrapped data key so a rotated secret is reported rather than read as a wrong key
+const PERSISTENCE_KEY_ID = 'v1';
+
+export interface PersistenceKey {
+  userId: string; // Lets the client check the key is for the user whose data it is about to seal
+  keyId: string;
+  key: string; // base64, 256 bits
+}
+
+export function getPersistenceKey(userId: string): PersistenceKey | null {
+  const secret = process.env.PERSISTENCE_KEY_SECRET || process.env.SESSION_SECRET;
+  if (!secret) return null;
+
+  const key = createHmac('sha256', secret)
+    .update(`emdr-persistence:${PERSISTENCE_KEY_ID}:${userId}`)
+    .digest('base64');
+
+  return { userId, keyId: PERSISTENCE_KEY_ID, key };
+}
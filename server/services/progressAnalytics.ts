@@ -162,9 +162,9 @@ export class ProgressAnalyticsService {
     const riskInsights = await this.generateRiskInsights(patientId);
     insights.push(...riskInsights);
 
-    // Save insights to storage
+    // Save insights to storage and notify subscribers
     for (const insight of insights) {
-      await storage.createMemoryInsight({
+      const saved = await storage.createMemoryInsight({
         patientId,
         insightType: insight.insightType,
         timeScope: insight.timeScope,
@@ -179,6 +179,7 @@ export class ProgressAnalyticsService {
         tags: insight.tags,
         priority: insight.priority
       });
+      this.emitInsight(saved);
     }
 
     return insights;
@@ -1560,6 +1561,16 @@ export class ProgressAnalyticsService {
     }
   }
 
+  private emitInsight(insight: MemoryInsight): void {
+    this.analyticsCallbacks.forEach(callback => {
+      try {
+        callback(insight);
+      } catch (error) {
+        console.error('Insight callback error:', error);
+      }
+    });
+  }
+
   /**
    * Generate deterministic ID for clinical safety (replaces Math.random())
    */
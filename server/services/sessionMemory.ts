@@ -8,9 +8,10 @@ import { storage } from '../storage';
 import type { 
   SessionMemorySnapshot,
   InsertSessionMemorySnapshot,
-  ProgressMetrics,
+  ProgressMetric,
   SessionComparison,
   BreakthroughMoment,
+  InsertBreakthroughMoment,
   MemoryInsight,
   EmotionData,
   EMDRPhase,
@@ -21,8 +22,83 @@ import type {
   GenerateProgressReportRequest,
   ProgressReportResponse,
   SaveSessionMemoryRequest,
-  LiveMemoryUpdate
+  LiveMemoryUpdate,
+  PersonalizedRecommendation
 } from '../../shared/types';
+import type { EmotionCapture, Session } from '../../shared/schema';
+
+// Upper bound of emotion captures read per session for comparisons
+const MAX_COMPARISON_CAPTURES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rolling windows behind each stored progress metric type (null = all time)
+const PROGRESS_WINDOWS: Record<string, number | null> = {
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+  quarterly: 90 * DAY_MS,
+  cumulative: null
+};
+
+// Report time scope -> progress metric type
+const TIME_SCOPE_METRIC_TYPES: Record<string, string> = {
+  session: 'session',
+  week: 'weekly',
+  month: 'monthly',
+  quarter: 'quarterly',
+  all: 'cumulative'
+};
+
+// Breakthrough detection: how far back to look and how long to wait before re-detecting the same kind
+const BREAKTHROUGH_WINDOW_MS = 10 * 60 * 1000;
+const BREAKTHROUGH_COOLDOWN_MS = 5 * 60 * 1000;
+const BREAKTHROUGH_SUDS_DROP = 3;
+const BREAKTHROUGH_VOC_JUMP = 1.5;
+const BREAKTHROUGH_VALENCE_RECOVERY = 0.5;
+const HIGH_AROUSAL = 0.7;
+
+// Phases where a breakthrough carries the most therapeutic weight
+const BREAKTHROUGH_PHASE_WEIGHTS: Record<string, number> = {
+  desensitization: 1,
+  installation: 0.9,
+  'body-scan': 0.8,
+  reevaluation: 0.8
+};
+
+// Point-in-time affect used by the breakthrough detector
+interface AffectPoint {
+  time: number;
+  arousal: number;
+  valence: number;
+  stress: number;
+}
+
+// Shape of the SUDS/VOC progress JSON stored on progress metrics
+interface LevelProgress {
+  initial: number | null;
+  final: number | null;
+  change: number;
+  trend: number;
+  values: number[];
+}
+
+// Aggregated view of a single session used by the comparison engine
+interface SessionProfile {
+  sudsStart: number | null;
+  sudsEnd: number | null;
+  vocStart: number | null;
+  vocEnd: number | null;
+  averageArousal: number;
+  averageValence: number;
+  arousalVolatility: number;
+  averageStress: number;
+  averageStability: number | null;
+  triggerStress: number | null;
+  averageRecoveryTime: number | null;
+  blsEffectiveness: number | null;
+  phaseDurations: Record<string, number>; // minutes per phase
+  sampleCount: number;
+}
 
 export class SessionMemoryService {
   private memoryUpdateCallbacks: ((update: LiveMemoryUpdate) => void)[] = [];
@@ -40,6 +116,7 @@ export class SessionMemoryService {
       sessionId: request.sessionId,
       patientId: request.patientId,
       snapshotType: request.snapshotType as any,
+      timestamp: request.timestamp ? new Date(request.timestamp) : undefined,
       emotionalSnapshot: request.emotionalSnapshot,
       phaseContext: request.phaseContext,
       sudsLevel: request.metadata?.sudsLevel,
@@ -100,7 +177,7 @@ export class SessionMemoryService {
     const breakthroughs = await storage.getBreakthroughsByPatient(request.patientId, 50);
 
     return {
-      sessions: sessions.filter(s => s !== undefined) as any[],
+      sessions: sessions.filter(s => s !== undefined && s.patientId === request.patientId) as any[],
       snapshots,
       metrics,
       comparisons,
@@ -127,6 +204,7 @@ export class SessionMemoryService {
 
     if (!comparison) {
       comparison = await this.generateSessionComparison(
+        request.patientId,
         request.baselineSessionId,
         request.compareSessionId,
         request.comparisonType || 'consecutive'
@@ -332,70 +410,815 @@ export class SessionMemoryService {
   }
 
   private async detectBreakthroughMoments(snapshot: SessionMemorySnapshot): Promise<void> {
-    // Detect significant emotional shifts that indicate breakthroughs
-    // This would involve complex analysis of emotional patterns
-    console.log('🎯 Analyzing for breakthrough moments...', snapshot.id);
+    const now = snapshot.timestamp.getTime();
+    const windowStart = now - BREAKTHROUGH_WINDOW_MS;
+
+    const [sessionSnapshots, captures, existing] = await Promise.all([
+      storage.getSessionSnapshots(snapshot.sessionId),
+      storage.getEmotionCaptures(snapshot.sessionId, 200),
+      storage.getBreakthroughMoments(snapshot.sessionId)
+    ]);
+
+    const previous = sessionSnapshots.filter(s =>
+      s.id !== snapshot.id && s.timestamp.getTime() >= windowStart && s.timestamp.getTime() < now
+    );
+    const affect: AffectPoint[] = [
+      ...previous.map(s => this.toAffectPoint(s.timestamp, s.emotionalSnapshot as EmotionData)),
+      ...captures
+        .filter(c => c.timestamp.getTime() >= windowStart && c.timestamp.getTime() < now)
+        .map(c => this.toAffectPoint(c.timestamp, c))
+    ].sort((a, b) => a.time - b.time);
+    const current = this.toAffectPoint(snapshot.timestamp, snapshot.emotionalSnapshot as EmotionData);
+
+    const recentlyDetected = (momentType: string) => existing.some(b =>
+      b.momentType === momentType && now - b.timestamp.getTime() < BREAKTHROUGH_COOLDOWN_MS
+    );
+    const phaseWeight = BREAKTHROUGH_PHASE_WEIGHTS[snapshot.phaseContext] ?? 0.6;
+    const detected: InsertBreakthroughMoment[] = [];
+
+    // Sharp SUDS drop from the highest level in the window
+    const sudsPeak = previous
+      .filter(s => s.sudsLevel !== null)
+      .reduce<SessionMemorySnapshot | null>((peak, s) => !peak || s.sudsLevel! > peak.sudsLevel! ? s : peak, null);
+    if (sudsPeak && snapshot.sudsLevel !== null && !recentlyDetected('emotional_release')) {
+      const drop = sudsPeak.sudsLevel! - snapshot.sudsLevel;
+      if (drop >= BREAKTHROUGH_SUDS_DROP) {
+        const intensity = this.clamp01(drop / 10);
+        detected.push(this.createBreakthroughRecord(snapshot, sudsPeak, current, 'suds_drop', {
+          momentType: 'emotional_release',
+          description: `Резкое снижение SUD с ${sudsPeak.sudsLevel} до ${snapshot.sudsLevel}`,
+          intensity,
+          significanceLevel: this.clamp01((intensity + phaseWeight) / 2 + (snapshot.sudsLevel <= 2 ? 0.1 : 0)),
+          sudsBefore: sudsPeak.sudsLevel
+        }));
+      }
+    }
+
+    // Valence recovery after a high-arousal negative peak
+    const distressPeak = affect
+      .filter(p => p.arousal >= HIGH_AROUSAL && p.valence < 0)
+      .reduce<AffectPoint | null>((peak, p) => !peak || p.stress > peak.stress ? p : peak, null);
+    if (distressPeak && !recentlyDetected('memory_integration')) {
+      const recovery = current.valence - distressPeak.valence;
+      if (recovery >= BREAKTHROUGH_VALENCE_RECOVERY && current.arousal < distressPeak.arousal) {
+        const intensity = this.clamp01(recovery / 2 + (distressPeak.arousal - current.arousal) / 2);
+        detected.push(this.createBreakthroughRecord(snapshot, distressPeak, current, 'valence_recovery', {
+          momentType: 'memory_integration',
+          description: 'Восстановление эмоционального фона после пика возбуждения',
+          intensity,
+          significanceLevel: this.clamp01((intensity + phaseWeight) / 2)
+        }));
+      }
+    }
+
+    // VOC jump from the lowest level in the window
+    const vocLow = previous
+      .filter(s => s.vocLevel !== null)
+      .reduce<SessionMemorySnapshot | null>((low, s) => !low || s.vocLevel! < low.vocLevel! ? s : low, null);
+    if (vocLow && snapshot.vocLevel !== null && !recentlyDetected('cognitive_shift')) {
+      const jump = snapshot.vocLevel - vocLow.vocLevel!;
+      if (jump >= BREAKTHROUGH_VOC_JUMP) {
+        const intensity = this.clamp01(jump / 6);
+        detected.push(this.createBreakthroughRecord(snapshot, vocLow, current, 'voc_jump', {
+          momentType: 'cognitive_shift',
+          description: `Рост VOC с ${vocLow.vocLevel} до ${snapshot.vocLevel}`,
+          intensity,
+          significanceLevel: this.clamp01((intensity + phaseWeight) / 2 + (snapshot.vocLevel >= 6 ? 0.1 : 0))
+        }));
+      }
+    }
+
+    for (const record of detected) {
+      const breakthrough = await storage.createBreakthroughMoment(record);
+      this.triggerMemoryUpdate({
+        sessionId: snapshot.sessionId,
+        patientId: snapshot.patientId,
+        timestamp: breakthrough.timestamp,
+        updateType: 'breakthrough_detected',
+        data: breakthrough,
+        priority: (breakthrough.significanceLevel ?? 0) >= 0.8 ? 'high' : 'medium',
+        requiresAction: false
+      });
+    }
+  }
+
+  private toAffectPoint(timestamp: Date, emotion: { arousal: number; valence: number }): AffectPoint {
+    return {
+      time: timestamp.getTime(),
+      arousal: emotion.arousal,
+      valence: emotion.valence,
+      stress: this.calculateStressLevel(emotion as EmotionData)
+    };
+  }
+
+  private createBreakthroughRecord(
+    snapshot: SessionMemorySnapshot,
+    before: SessionMemorySnapshot | AffectPoint,
+    after: AffectPoint,
+    rule: 'suds_drop' | 'valence_recovery' | 'voc_jump',
+    details: Pick<InsertBreakthroughMoment, 'momentType' | 'description' | 'intensity' | 'significanceLevel' | 'sudsBefore'>
+  ): InsertBreakthroughMoment {
+    const beforeAffect = 'time' in before
+      ? before
+      : this.toAffectPoint(before.timestamp, before.emotionalSnapshot as EmotionData);
+    const sudsBefore = details.sudsBefore ?? ('sudsLevel' in before ? before.sudsLevel : null);
+
+    return {
+      sessionId: snapshot.sessionId,
+      patientId: snapshot.patientId,
+      phaseContext: snapshot.phaseContext,
+      emotionalBefore: { arousal: beforeAffect.arousal, valence: beforeAffect.valence, stress: beforeAffect.stress },
+      emotionalAfter: { arousal: after.arousal, valence: after.valence, stress: after.stress },
+      sudsBefore,
+      sudsAfter: snapshot.sudsLevel,
+      triggerEvent: snapshot.triggerEvents?.[0] ?? null,
+      duration: Math.round((after.time - beforeAffect.time) / 1000),
+      therapeuticImpact: sudsBefore !== null && snapshot.sudsLevel !== null
+        ? this.clamp01((sudsBefore - snapshot.sudsLevel) / 10)
+        : null,
+      followUpNeeded: (details.significanceLevel ?? 0) >= 0.8,
+      aiAnalysis: {
+        rule,
+        vocBefore: 'vocLevel' in before ? before.vocLevel : null,
+        vocAfter: snapshot.vocLevel
+      },
+      ...details
+    };
   }
 
   private async updateEmotionalPatterns(snapshot: SessionMemorySnapshot): Promise<void> {
-    // Update or create emotional patterns based on this snapshot
-    console.log('📊 Updating emotional patterns...', snapshot.id);
+    const triggers = snapshot.triggerEvents ?? [];
+    if (triggers.length === 0) return;
+
+    const emotion = snapshot.emotionalSnapshot as EmotionData;
+    const patterns = await storage.getEmotionalPatterns(snapshot.patientId, true);
+
+    // One trigger_response pattern per distinct trigger, counted on every recurrence
+    for (const trigger of triggers) {
+      const known = patterns.find(p => p.patternType === 'trigger_response' && p.patternName === trigger);
+      if (known) {
+        await storage.updatePatternOccurrence(known.id);
+        continue;
+      }
+
+      await storage.createEmotionalPattern({
+        patientId: snapshot.patientId,
+        patternType: 'trigger_response',
+        patternName: trigger,
+        description: `Реакция на триггер «${trigger}»`,
+        firstObserved: snapshot.timestamp,
+        lastObserved: snapshot.timestamp,
+        patternData: {
+          phase: snapshot.phaseContext,
+          stressLevel: snapshot.stressLevel,
+          sudsLevel: snapshot.sudsLevel
+        },
+        triggerConditions: { trigger },
+        typicalDuration: snapshot.recoveryTime ? Math.round(snapshot.recoveryTime / 1000) : null,
+        emotionalSignature: { arousal: emotion.arousal, valence: emotion.valence },
+        riskLevel: (snapshot.stressLevel ?? 0) > 0.7 ? 'high' : 'medium'
+      });
+    }
   }
 
   private async getSessionsInTimeRange(patientId: string, timeRange?: { start: Date; end: Date }): Promise<any[]> {
-    // This would be implemented to filter sessions by time range
-    return [];
+    return await storage.getSessionsByPatient(patientId, timeRange);
   }
 
   private async generateSessionComparison(
+    patientId: string,
     baselineSessionId: string, 
     compareSessionId: string, 
     comparisonType: string
   ): Promise<SessionComparison> {
-    // Generate detailed comparison between two sessions
-    throw new Error('Session comparison generation not yet implemented');
+    const [baselineSession, compareSession] = await Promise.all([
+      storage.getSession(baselineSessionId),
+      storage.getSession(compareSessionId)
+    ]);
+    
+    if (!baselineSession || !compareSession) {
+      throw new Error('Session not found');
+    }
+    if (baselineSession.patientId !== patientId || compareSession.patientId !== patientId) {
+      throw new Error('Sessions do not belong to this patient');
+    }
+
+    const [baseline, compare] = await Promise.all([
+      this.buildSessionProfile(baselineSession),
+      this.buildSessionProfile(compareSession)
+    ]);
+
+    const sudsDelta = this.levelDelta(baseline.sudsEnd ?? baseline.sudsStart, compare.sudsEnd ?? compare.sudsStart);
+    const vocDelta = this.levelDelta(baseline.vocEnd ?? baseline.vocStart, compare.vocEnd ?? compare.vocStart);
+    const stabilityImprovement = baseline.averageStability !== null && compare.averageStability !== null
+      ? compare.averageStability - baseline.averageStability
+      : null;
+    const triggerSensitivity = baseline.triggerStress !== null && compare.triggerStress !== null
+      ? compare.triggerStress - baseline.triggerStress
+      : null;
+    const copingImprovement = baseline.averageRecoveryTime && compare.averageRecoveryTime !== null
+      ? Math.max(-1, Math.min(1, (baseline.averageRecoveryTime - compare.averageRecoveryTime) / baseline.averageRecoveryTime))
+      : null;
+    const blsEffectivenessChange = baseline.blsEffectiveness !== null && compare.blsEffectiveness !== null
+      ? compare.blsEffectiveness - baseline.blsEffectiveness
+      : null;
+
+    const emotionalDelta = {
+      arousal: compare.averageArousal - baseline.averageArousal,
+      valence: compare.averageValence - baseline.averageValence,
+      volatility: compare.arousalVolatility - baseline.arousalVolatility,
+      stress: compare.averageStress - baseline.averageStress
+    };
+
+    // Ratio < 1 means the phase took less time in the compared session
+    const phaseChanges: Record<string, number> = {};
+    Object.keys(compare.phaseDurations).forEach(phase => {
+      const before = baseline.phaseDurations[phase];
+      if (before > 0) {
+        phaseChanges[phase] = compare.phaseDurations[phase] / before;
+      }
+    });
+    const ratios = Object.values(phaseChanges);
+    const phaseEfficiency = {
+      baseline: baseline.phaseDurations,
+      compare: compare.phaseDurations,
+      changes: phaseChanges,
+      overall: ratios.length > 0 ? ratios.reduce((a, b) => a + b, 0) / ratios.length : null
+    };
+
+    const significantChanges: string[] = [];
+    const improvementAreas: string[] = [];
+    const concernAreas: string[] = [];
+
+    if (sudsDelta <= -2) {
+      significantChanges.push(`SUD снизился на ${Math.abs(sudsDelta).toFixed(1)}`);
+      improvementAreas.push('Снижение субъективного дистресса');
+    } else if (sudsDelta >= 2) {
+      significantChanges.push(`SUD вырос на ${sudsDelta.toFixed(1)}`);
+      concernAreas.push('Рост субъективного дистресса');
+    }
+    if (vocDelta >= 1) {
+      improvementAreas.push('Укрепление позитивного убеждения');
+    } else if (vocDelta <= -1) {
+      concernAreas.push('Ослабление позитивного убеждения');
+    }
+    if (stabilityImprovement !== null && Math.abs(stabilityImprovement) >= 0.1) {
+      (stabilityImprovement > 0 ? improvementAreas : concernAreas).push(
+        stabilityImprovement > 0 ? 'Эмоциональная стабильность' : 'Снижение эмоциональной стабильности'
+      );
+    }
+    if (triggerSensitivity !== null && Math.abs(triggerSensitivity) >= 0.1) {
+      significantChanges.push(`Реакция на триггеры ${triggerSensitivity < 0 ? 'ослабла' : 'усилилась'}`);
+      (triggerSensitivity < 0 ? improvementAreas : concernAreas).push(
+        triggerSensitivity < 0 ? 'Снижение чувствительности к триггерам' : 'Повышенная чувствительность к триггерам'
+      );
+    }
+    if (copingImprovement !== null && Math.abs(copingImprovement) >= 0.2) {
+      (copingImprovement > 0 ? improvementAreas : concernAreas).push(
+        copingImprovement > 0 ? 'Более быстрое восстановление после дистресса' : 'Замедленное восстановление после дистресса'
+      );
+    }
+    if (blsEffectivenessChange !== null && blsEffectivenessChange <= -0.15) {
+      concernAreas.push('Снижение эффективности BLS');
+    }
+
+    // Confidence grows with the amount of data behind both profiles
+    const minSamples = Math.min(baseline.sampleCount, compare.sampleCount);
+    const hasLevels = baseline.sudsEnd !== null && compare.sudsEnd !== null;
+    const confidenceScore = Math.min(1, minSamples / 30) * 0.7 + (hasLevels ? 0.3 : 0);
+
+    return await storage.createSessionComparison({
+      patientId,
+      baselineSessionId,
+      compareSessionId,
+      comparisonType,
+      emotionalDelta,
+      sudsDelta,
+      vocDelta,
+      stabilityImprovement,
+      triggerSensitivity,
+      copingImprovement,
+      phaseEfficiency,
+      blsEffectivenessChange,
+      significantChanges,
+      improvementAreas,
+      concernAreas,
+      confidenceScore
+    });
   }
 
-  private async generateComparisonRecommendations(comparison: SessionComparison): Promise<any[]> {
-    return [];
+  private async buildSessionProfile(session: Session): Promise<SessionProfile> {
+    const [snapshots, captures] = await Promise.all([
+      storage.getSessionSnapshots(session.id),
+      storage.getEmotionCaptures(session.id, MAX_COMPARISON_CAPTURES)
+    ]);
+    const orderedCaptures = [...captures].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const sudsLevels = snapshots.map(s => s.sudsLevel).filter((v): v is number => v !== null);
+    const vocLevels = snapshots.map(s => s.vocLevel).filter((v): v is number => v !== null);
+
+    // Prefer raw captures for affect, fall back to the emotion data stored with snapshots
+    const affectSamples: Array<{ arousal: number; valence: number }> = orderedCaptures.length > 0
+      ? orderedCaptures
+      : snapshots.map(s => s.emotionalSnapshot as EmotionData);
+    const arousals = affectSamples.map(e => e.arousal);
+
+    const stabilityScores = snapshots.map(s => s.stabilityScore).filter((v): v is number => v !== null);
+    const stressLevels = snapshots.map(s => s.stressLevel).filter((v): v is number => v !== null);
+    const triggerStress = snapshots
+      .filter(s => s.snapshotType === 'trigger_event' || (s.triggerEvents?.length ?? 0) > 0)
+      .map(s => s.stressLevel)
+      .filter((v): v is number => v !== null);
+    const recoveryTimes = snapshots.map(s => s.recoveryTime).filter((v): v is number => v !== null && v > 0);
+    const blsScores = snapshots.map(s => s.blsEffectiveness).filter((v): v is number => v !== null);
+
+    return {
+      sudsStart: session.sudsInitial ?? sudsLevels[0] ?? null,
+      sudsEnd: session.sudsFinal ?? sudsLevels[sudsLevels.length - 1] ?? null,
+      vocStart: session.vocInitial ?? vocLevels[0] ?? null,
+      vocEnd: session.vocFinal ?? vocLevels[vocLevels.length - 1] ?? null,
+      averageArousal: this.mean(arousals) ?? 0,
+      averageValence: this.mean(affectSamples.map(e => e.valence)) ?? 0,
+      arousalVolatility: this.standardDeviation(arousals),
+      averageStress: this.mean(stressLevels) ?? this.mean(affectSamples.map(e => this.calculateStressLevel(e as EmotionData))) ?? 0,
+      averageStability: this.mean(stabilityScores) ?? this.mean(affectSamples.map(e => this.calculateStabilityScore(e as EmotionData))),
+      triggerStress: this.mean(triggerStress),
+      averageRecoveryTime: this.mean(recoveryTimes),
+      blsEffectiveness: this.mean(blsScores),
+      phaseDurations: this.calculatePhaseDurations(snapshots, orderedCaptures),
+      sampleCount: affectSamples.length
+    };
+  }
+
+  private calculatePhaseDurations(snapshots: SessionMemorySnapshot[], captures: EmotionCapture[]): Record<string, number> {
+    const timeline = [
+      ...snapshots.map(s => ({ time: s.timestamp.getTime(), phase: s.phaseContext })),
+      ...captures
+        .filter(c => c.phaseContext)
+        .map(c => ({ time: c.timestamp.getTime(), phase: c.phaseContext as string }))
+    ].sort((a, b) => a.time - b.time);
+
+    const durations: Record<string, number> = {};
+    for (let i = 0; i < timeline.length - 1; i++) {
+      const { time, phase } = timeline[i];
+      durations[phase] = (durations[phase] || 0) + (timeline[i + 1].time - time) / 60000;
+    }
+    return durations;
+  }
+
+  private levelDelta(before: number | null, after: number | null): number {
+    return before !== null && after !== null ? after - before : 0;
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  }
+
+  private standardDeviation(values: number[]): number {
+    const average = this.mean(values);
+    if (average === null || values.length < 2) return 0;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length);
+  }
+
+  private async generateComparisonRecommendations(comparison: SessionComparison): Promise<PersonalizedRecommendation[]> {
+    const recommendations: PersonalizedRecommendation[] = [];
+
+    if (comparison.sudsDelta >= 2) {
+      recommendations.push({
+        type: 'grounding',
+        priority: 'high',
+        message: 'Дистресс вырос по сравнению с базовой сессией - начните следующую сессию с ресурсных техник',
+        instructions: ['Повторить технику «безопасного места»', 'Проверить стабилизацию перед десенсибилизацией']
+      });
+    }
+    if ((comparison.triggerSensitivity ?? 0) >= 0.1) {
+      recommendations.push({
+        type: 'safety',
+        priority: 'medium',
+        message: 'Чувствительность к триггерам усилилась - уменьшите интенсивность экспозиции',
+        instructions: ['Работать более короткими сетами BLS', 'Чаще проверять уровень SUD']
+      });
+    }
+    if ((comparison.stabilityImprovement ?? 0) <= -0.1) {
+      recommendations.push({
+        type: 'breathing',
+        priority: 'medium',
+        message: 'Эмоциональная стабильность снизилась - добавьте дыхательные упражнения между сетами',
+        duration: 120,
+        instructions: ['Дыхание 4-7-8 между сетами', 'Контроль телесных ощущений']
+      });
+    }
+    if ((comparison.blsEffectivenessChange ?? 0) <= -0.15) {
+      recommendations.push({
+        type: 'bls-adjustment',
+        priority: 'low',
+        message: 'Эффективность BLS снизилась - попробуйте другой паттерн или скорость',
+        instructions: ['Сменить паттерн движения', 'Подобрать скорость по реакции пациента']
+      });
+    }
+
+    return recommendations;
   }
 
   private async generateComparisonInsights(comparison: SessionComparison): Promise<any[]> {
     return [];
   }
 
-  private async identifyTrends(patientId: string, comparison: SessionComparison): Promise<any> {
-    return { shortTerm: [], longTerm: [] };
+  private async identifyTrends(patientId: string, comparison: SessionComparison): Promise<{ shortTerm: string[]; longTerm: string[] }> {
+    const shortTerm = [
+      ...(comparison.improvementAreas ?? []).map(area => `Улучшение: ${area}`),
+      ...(comparison.concernAreas ?? []).map(area => `Внимание: ${area}`)
+    ];
+
+    // Long-term direction from all stored comparisons of this patient
+    const history = await storage.getSessionComparisons(patientId);
+    const longTerm: string[] = [];
+    if (history.length >= 3) {
+      const averageSuds = this.mean(history.map(c => c.sudsDelta)) ?? 0;
+      const averageVoc = this.mean(history.map(c => c.vocDelta)) ?? 0;
+      longTerm.push(averageSuds < 0 ? 'SUD устойчиво снижается' : 'SUD не снижается в динамике');
+      longTerm.push(averageVoc > 0 ? 'VOC устойчиво растет' : 'VOC не растет в динамике');
+    }
+
+    return { shortTerm, longTerm };
   }
 
-  private async calculateProgressMetrics(patientId: string, timeScope: string): Promise<ProgressMetrics> {
-    // Calculate comprehensive progress metrics
-    throw new Error('Progress metrics calculation not yet implemented');
+  private async calculateProgressMetrics(patientId: string, timeScope: string): Promise<ProgressMetric> {
+    const sessions = await storage.getSessionsByPatient(patientId);
+    const requestedType = TIME_SCOPE_METRIC_TYPES[timeScope] || 'cumulative';
+    if (sessions.length === 0) {
+      return this.createEmptyProgressMetric(patientId, requestedType);
+    }
+
+    const snapshots = (await storage.getSnapshotsByPatient(patientId))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const breakthroughs = await storage.getBreakthroughsByPatient(patientId, 500);
+
+    // Weekly, monthly and cumulative rows are always kept current, plus whatever the report asked for
+    const metricTypes = Array.from(new Set(['weekly', 'monthly', 'cumulative', requestedType]));
+
+    let requested: ProgressMetric | undefined;
+    for (const metricType of metricTypes) {
+      const metric = await this.refreshProgressMetric(patientId, metricType, sessions, snapshots, breakthroughs);
+      if (metricType === requestedType) {
+        requested = metric;
+      }
+    }
+
+    return requested!;
   }
 
-  private async generateVisualizations(patientId: string, metrics: ProgressMetrics): Promise<any> {
-    return { charts: [], heatmaps: [], timelines: [] };
+  /**
+   * Report for a patient without sessions yet; not stored, so the first session is measured from scratch
+   */
+  private async createEmptyProgressMetric(patientId: string, metricType: string): Promise<ProgressMetric> {
+    const [assignment] = await storage.getCaseloadAssignments({ patientId, status: 'active' });
+    const now = new Date();
+
+    return {
+      id: `empty-${patientId}-${metricType}`,
+      patientId,
+      therapistId: assignment?.therapistId ?? '',
+      sessionId: null,
+      metricType,
+      timeWindow: `${now.toISOString()}/${now.toISOString()}`,
+      sudsProgress: this.calculateLevelProgress([], []),
+      vocProgress: this.calculateLevelProgress([], []),
+      emotionalStability: { average: null, trend: 0, min: null, max: null, samples: 0 },
+      triggerPatterns: { triggerCounts: {}, triggerEvents: 0, averageTriggerStress: null, averageRecoveryTime: null },
+      calmingTechniques: { bls: { averageEffectiveness: null, trend: 0, samples: 0 } },
+      phaseProgression: { sessionsPerPhase: {}, currentPhase: null, completedSessions: 0, cancelledSessions: 0, totalSessions: 0 },
+      breakthroughIndicators: { breakthroughCount: 0, largestSudsDrop: null, averageSignificance: null },
+      regressionRisk: null,
+      treatmentEffectiveness: null,
+      nextSessionPredictions: { expectedSuds: null, expectedVoc: null, basedOnSessions: 0 },
+      calculatedAt: now,
+      isValid: true
+    };
   }
 
-  private async generateProgressRecommendations(metrics: ProgressMetrics, insights: MemoryInsight[]): Promise<any[]> {
-    return [];
+  /**
+   * Return the stored metric of this type if no newer data exists, otherwise recalculate it
+   * and mark the previous rows invalid
+   */
+  private async refreshProgressMetric(
+    patientId: string,
+    metricType: string,
+    allSessions: Session[],
+    allSnapshots: SessionMemorySnapshot[],
+    allBreakthroughs: BreakthroughMoment[]
+  ): Promise<ProgressMetric> {
+    const now = Date.now();
+    const latestSession = allSessions[allSessions.length - 1];
+
+    let windowStart: number;
+    let sessions: Session[];
+    if (metricType === 'session') {
+      windowStart = latestSession.startTime.getTime();
+      sessions = [latestSession];
+    } else {
+      const windowLength = PROGRESS_WINDOWS[metricType] ?? null;
+      windowStart = windowLength === null ? 0 : now - windowLength;
+      sessions = allSessions.filter(session => session.startTime.getTime() >= windowStart);
+    }
+    const sessionIds = new Set(sessions.map(session => session.id));
+    const snapshots = metricType === 'session'
+      ? allSnapshots.filter(snapshot => sessionIds.has(snapshot.sessionId))
+      : allSnapshots.filter(snapshot => snapshot.timestamp.getTime() >= windowStart);
+    const breakthroughs = allBreakthroughs.filter(b => b.timestamp.getTime() >= windowStart);
+
+    const latestDataTime = Math.max(
+      ...allSessions.map(session => (session.endTime ?? session.startTime).getTime()),
+      ...allSnapshots.map(snapshot => snapshot.timestamp.getTime())
+    );
+
+    const existing = await storage.getLatestProgressMetric(patientId, metricType);
+    const windowRolled = metricType !== 'cumulative' && metricType !== 'session' &&
+      !!existing && now - existing.calculatedAt.getTime() > DAY_MS;
+    if (existing?.isValid && existing.calculatedAt.getTime() >= latestDataTime && !windowRolled) {
+      return existing;
+    }
+
+    await storage.invalidateProgressMetrics(patientId, metricType);
+
+    const sudsProgress = this.calculateLevelProgress(
+      sessions.map(session => [session.sudsInitial, session.sudsFinal]),
+      snapshots.map(snapshot => snapshot.sudsLevel)
+    );
+    const vocProgress = this.calculateLevelProgress(
+      sessions.map(session => [session.vocInitial, session.vocFinal]),
+      snapshots.map(snapshot => snapshot.vocLevel)
+    );
+
+    const stabilityValues = snapshots.map(s => s.stabilityScore).filter((v): v is number => v !== null);
+    const emotionalStability = {
+      average: this.mean(stabilityValues),
+      trend: this.calculateTrend(stabilityValues),
+      min: stabilityValues.length > 0 ? Math.min(...stabilityValues) : null,
+      max: stabilityValues.length > 0 ? Math.max(...stabilityValues) : null,
+      samples: stabilityValues.length
+    };
+
+    const triggerCounts: Record<string, number> = {};
+    snapshots.forEach(snapshot => {
+      (snapshot.triggerEvents ?? []).forEach(trigger => {
+        triggerCounts[trigger] = (triggerCounts[trigger] || 0) + 1;
+      });
+    });
+    const triggerSnapshots = snapshots.filter(s => s.snapshotType === 'trigger_event' || (s.triggerEvents?.length ?? 0) > 0);
+    const triggerPatterns = {
+      triggerCounts,
+      triggerEvents: triggerSnapshots.length,
+      averageTriggerStress: this.mean(triggerSnapshots.map(s => s.stressLevel).filter((v): v is number => v !== null)),
+      averageRecoveryTime: this.mean(snapshots.map(s => s.recoveryTime).filter((v): v is number => v !== null && v > 0))
+    };
+
+    const blsValues = snapshots.map(s => s.blsEffectiveness).filter((v): v is number => v !== null);
+    const calmingTechniques = {
+      bls: {
+        averageEffectiveness: this.mean(blsValues),
+        trend: this.calculateTrend(blsValues),
+        samples: blsValues.length
+      }
+    };
+
+    const sessionsPerPhase: Record<string, number> = {};
+    sessions.forEach(session => {
+      sessionsPerPhase[session.phase] = (sessionsPerPhase[session.phase] || 0) + 1;
+    });
+    const phaseProgression = {
+      sessionsPerPhase,
+      currentPhase: sessions.length > 0 ? sessions[sessions.length - 1].phase : latestSession.phase,
+      completedSessions: sessions.filter(session => session.status === 'completed').length,
+      cancelledSessions: sessions.filter(session => session.status === 'cancelled').length,
+      totalSessions: sessions.length
+    };
+
+    const sudsDrops = breakthroughs
+      .filter(b => b.sudsBefore !== null && b.sudsAfter !== null)
+      .map(b => b.sudsBefore! - b.sudsAfter!);
+    const breakthroughIndicators = {
+      breakthroughCount: breakthroughs.length,
+      largestSudsDrop: sudsDrops.length > 0 ? Math.max(...sudsDrops) : null,
+      averageSignificance: this.mean(breakthroughs.map(b => b.significanceLevel).filter((v): v is number => v !== null))
+    };
+
+    // Regression risk rises with worsening SUDS and stability trends and with unresolved distress
+    const lastSuds = sudsProgress.final;
+    const regressionRisk = this.clamp01(
+      0.2 +
+      Math.max(0, sudsProgress.trend) * 0.3 +
+      Math.max(0, -emotionalStability.trend) * 0.3 +
+      (lastSuds !== null && lastSuds >= 7 ? 0.2 : 0) -
+      (breakthroughs.length > 0 ? 0.1 : 0)
+    );
+
+    // Treatment effectiveness combines SUDS reduction (0-10), VOC gain (1-7) and stability
+    const sudsScore = sudsProgress.initial !== null && sudsProgress.final !== null
+      ? this.clamp01((sudsProgress.initial - sudsProgress.final) / Math.max(1, sudsProgress.initial))
+      : null;
+    const vocScore = vocProgress.initial !== null && vocProgress.final !== null
+      ? this.clamp01((vocProgress.final - vocProgress.initial) / Math.max(1, 7 - vocProgress.initial))
+      : null;
+    const effectivenessParts = [sudsScore, vocScore, emotionalStability.average].filter((v): v is number => v !== null);
+    const treatmentEffectiveness = effectivenessParts.length > 0 ? this.mean(effectivenessParts) : null;
+
+    const nextSessionPredictions = {
+      expectedSuds: lastSuds !== null ? Math.max(0, Math.min(10, lastSuds + sudsProgress.trend)) : null,
+      expectedVoc: vocProgress.final !== null ? Math.max(1, Math.min(7, vocProgress.final + vocProgress.trend)) : null,
+      basedOnSessions: sessions.length
+    };
+
+    return await storage.createProgressMetric({
+      patientId,
+      therapistId: latestSession.therapistId,
+      sessionId: metricType === 'session' ? latestSession.id : null,
+      metricType,
+      timeWindow: metricType === 'session'
+        ? latestSession.id
+        : `${new Date(windowStart || allSessions[0].startTime.getTime()).toISOString()}/${new Date(now).toISOString()}`,
+      sudsProgress,
+      vocProgress,
+      emotionalStability,
+      triggerPatterns,
+      calmingTechniques,
+      phaseProgression,
+      breakthroughIndicators,
+      regressionRisk,
+      treatmentEffectiveness,
+      nextSessionPredictions
+    });
+  }
+
+  /**
+   * Session start/end levels when recorded, otherwise the levels captured in snapshots
+   */
+  private calculateLevelProgress(sessionLevels: Array<[number | null, number | null]>, snapshotLevels: Array<number | null>): LevelProgress {
+    const perSession = sessionLevels
+      .map(([initial, final]) => final ?? initial)
+      .filter((v): v is number => v !== null);
+    const values = perSession.length > 0
+      ? perSession
+      : snapshotLevels.filter((v): v is number => v !== null);
+
+    const firstRecorded = sessionLevels.find(([initial, final]) => (initial ?? final) !== null);
+    const initial = firstRecorded ? (firstRecorded[0] ?? firstRecorded[1]) : values[0] ?? null;
+    const final = values.length > 0 ? values[values.length - 1] : null;
+
+    return {
+      initial,
+      final,
+      change: initial !== null && final !== null ? final - initial : 0,
+      trend: this.calculateTrend(values),
+      values
+    };
+  }
+
+  private clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+
+  private async generateVisualizations(patientId: string, metrics: ProgressMetric): Promise<any> {
+    const suds = metrics.sudsProgress as LevelProgress;
+    const voc = metrics.vocProgress as LevelProgress;
+    const phases = metrics.phaseProgression as { sessionsPerPhase: Record<string, number> };
+    const triggers = metrics.triggerPatterns as { triggerCounts: Record<string, number> };
+    const breakthroughs = (await storage.getBreakthroughsByPatient(patientId, 50))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      charts: [
+        { type: 'line', metric: 'suds', title: 'SUD по сессиям', data: suds.values.map((value, index) => ({ x: index + 1, y: value })) },
+        { type: 'line', metric: 'voc', title: 'VOC по сессиям', data: voc.values.map((value, index) => ({ x: index + 1, y: value })) }
+      ],
+      heatmaps: [
+        { metric: 'phases', title: 'Сессии по фазам', data: phases.sessionsPerPhase },
+        { metric: 'triggers', title: 'Частота триггеров', data: triggers.triggerCounts }
+      ],
+      timelines: breakthroughs.map(b => ({
+        timestamp: b.timestamp,
+        type: b.momentType,
+        phase: b.phaseContext,
+        description: b.description,
+        significance: b.significanceLevel
+      }))
+    };
+  }
+
+  private async generateProgressRecommendations(metrics: ProgressMetric, insights: MemoryInsight[]): Promise<PersonalizedRecommendation[]> {
+    const suds = metrics.sudsProgress as LevelProgress;
+    const voc = metrics.vocProgress as LevelProgress;
+    const stability = metrics.emotionalStability as { average: number | null; trend: number };
+    const recommendations: PersonalizedRecommendation[] = [];
+
+    if (suds.trend > 0) {
+      recommendations.push({
+        type: 'grounding',
+        priority: 'high',
+        message: 'SUD растет от сессии к сессии - усильте стабилизацию перед переработкой',
+        instructions: ['Вернуться к ресурсным техникам', 'Пересмотреть выбор целевого воспоминания']
+      });
+    }
+    if (stability.average !== null && stability.average < 0.4) {
+      recommendations.push({
+        type: 'breathing',
+        priority: 'medium',
+        message: 'Низкая эмоциональная стабильность - добавьте регуляцию между сетами',
+        duration: 120,
+        instructions: ['Дыхательные упражнения между сетами', 'Короткие сеты BLS']
+      });
+    }
+    if (voc.values.length >= 2 && voc.trend <= 0 && suds.final !== null && suds.final <= 2) {
+      recommendations.push({
+        type: 'phase-transition',
+        priority: 'medium',
+        message: 'Дистресс снижен, но VOC не растет - уделите больше времени инсталляции',
+        instructions: ['Проверить формулировку позитивного убеждения', 'Дополнительные сеты в фазе инсталляции']
+      });
+    }
+
+    // Actionable high-priority insights are surfaced as they are
+    insights
+      .filter(insight => insight.actionable && (insight.priority === 'high' || insight.priority === 'critical'))
+      .forEach(insight => {
+        (insight.recommendations ?? []).forEach(message => {
+          recommendations.push({
+            type: 'safety',
+            priority: insight.priority === 'critical' ? 'urgent' : 'high',
+            message,
+            instructions: []
+          });
+        });
+      });
+
+    return recommendations;
   }
 
-  private async assessRisks(patientId: string, metrics: ProgressMetrics): Promise<any> {
+  private async assessRisks(patientId: string, metrics: ProgressMetric): Promise<any> {
+    const suds = metrics.sudsProgress as LevelProgress;
+    const stability = metrics.emotionalStability as { average: number | null; trend: number };
+    const phases = metrics.phaseProgression as { cancelledSessions: number; totalSessions: number };
+    const factors: string[] = [];
+
+    const crisisSnapshots = await storage.getSnapshotsByType(patientId, 'crisis_alert');
+    const recentCrises = crisisSnapshots.filter(s => Date.now() - s.timestamp.getTime() < 30 * DAY_MS).length;
+    const crisisRisk = this.clamp01(recentCrises * 0.2 + (suds.final !== null && suds.final >= 8 ? 0.2 : 0));
+
+    const sessions = await storage.getSessionsByPatient(patientId);
+    const lastSession = sessions[sessions.length - 1];
+    const daysSinceLastSession = lastSession ? (Date.now() - lastSession.startTime.getTime()) / DAY_MS : 0;
+    const cancellationRate = phases.totalSessions > 0 ? phases.cancelledSessions / phases.totalSessions : 0;
+    const dropoutRisk = this.clamp01(cancellationRate * 0.6 + Math.min(1, daysSinceLastSession / 60) * 0.4);
+
+    if (suds.trend > 0) factors.push('SUD растет между сессиями');
+    if (stability.trend < 0) factors.push('Эмоциональная стабильность снижается');
+    if (recentCrises > 0) factors.push(`Кризисных эпизодов за 30 дней: ${recentCrises}`);
+    if (cancellationRate > 0.3) factors.push('Частые отмены сессий');
+    if (daysSinceLastSession > 21) factors.push(`Нет сессий ${Math.floor(daysSinceLastSession)} дней`);
+
     return {
-      regressionRisk: 0.1,
-      crisisRisk: 0.05,
-      dropoutRisk: 0.08,
-      factors: []
+      regressionRisk: metrics.regressionRisk ?? 0,
+      crisisRisk,
+      dropoutRisk,
+      factors
     };
   }
 
-  private async generateProgressSummary(metrics: ProgressMetrics, insights: MemoryInsight[]): Promise<any> {
+  private async generateProgressSummary(metrics: ProgressMetric, insights: MemoryInsight[]): Promise<any> {
+    const suds = metrics.sudsProgress as LevelProgress;
+    const voc = metrics.vocProgress as LevelProgress;
+    const breakthroughs = metrics.breakthroughIndicators as { breakthroughCount: number };
+    const phases = metrics.phaseProgression as { totalSessions: number };
+    const keyAchievements: string[] = [];
+    const concernAreas: string[] = [];
+    const nextSteps: string[] = [];
+
+    if (suds.change < 0) keyAchievements.push(`SUD снизился с ${suds.initial} до ${suds.final}`);
+    if (suds.change > 0) concernAreas.push(`SUD вырос с ${suds.initial} до ${suds.final}`);
+    if (voc.change > 0) keyAchievements.push(`VOC вырос с ${voc.initial} до ${voc.final}`);
+    if (voc.change < 0) concernAreas.push(`VOC снизился с ${voc.initial} до ${voc.final}`);
+    if (breakthroughs.breakthroughCount > 0) keyAchievements.push(`Прорывных моментов: ${breakthroughs.breakthroughCount}`);
+    if ((metrics.regressionRisk ?? 0) >= 0.5) concernAreas.push('Повышенный риск регресса');
+
+    insights
+      .filter(insight => insight.priority === 'high' || insight.priority === 'critical')
+      .forEach(insight => concernAreas.push(...(insight.tags ?? []).slice(0, 1)));
+
+    if (phases.totalSessions === 0) {
+      nextSteps.push('Провести первую сессию и зафиксировать исходные SUD и VOC');
+    } else if (suds.final !== null && suds.final > 2) {
+      nextSteps.push('Продолжить десенсибилизацию до SUD 0-2');
+    } else if (voc.final !== null && voc.final < 6) {
+      nextSteps.push('Укрепить позитивное убеждение до VOC 6-7');
+    } else {
+      nextSteps.push('Перейти к сканированию тела и следующей цели');
+    }
+
     return {
-      overallProgress: 0.7,
-      keyAchievements: [],
-      concernAreas: [],
-      nextSteps: []
+      overallProgress: metrics.treatmentEffectiveness ?? 0,
+      keyAchievements,
+      concernAreas,
+      nextSteps
     };
   }
 
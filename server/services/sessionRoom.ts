@@ -0,0 +1,314 @@
+/**
+ * Live Session Room
+ * Relays therapist commands (BLS, phase, instructions) to the patient and patient answers
+ * (SUDS/VOC, emotion summaries) back to the therapist, keeping the authoritative room state.
+ */
+
+import { WebSocket } from 'ws';
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { Session } from '../../shared/schema';
+import { BLS_RATE_HZ_MAX, BLS_RATE_HZ_MIN, SESSION_ROOM_PHASES } from '../../shared/types';
+import type {
+  SessionRoomRole,
+  SessionRoomState,
+  SessionRoomClientMessage,
+  SessionRoomServerMessage
+} from '../../shared/types';
+
+// Messages per socket per second before the socket is throttled (ICE candidates arrive in bursts)
+const MESSAGE_RATE_LIMIT = 50;
+// SDP offers with audio and video are the largest messages
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const PhaseSchema = z.enum(SESSION_ROOM_PHASES);
+
+const BLSConfigSchema = z.object({
+  rateHz: z.number().min(BLS_RATE_HZ_MIN).max(BLS_RATE_HZ_MAX).optional(),
+  pattern: z.enum([
+    'horizontal', 'vertical', 'diagonal', 'circle', '3d-wave', 'cube3d', 'spiral3d', 'helix3d',
+    'lemniscate3d', 'lissajous3d', 'sphere3d', 'infinity3d', 'wave3d', 'butterfly3d', 'DNA3d'
+  ]).optional(),
+  color: z.string().max(32).optional(),
+  secondaryColor: z.string().max(32).optional(),
+  size: z.number().min(5).max(100).optional(),
+  soundEnabled: z.boolean().optional()
+}).strict();
+
+const ClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('bls_start'), config: BLSConfigSchema.optional() }),
+  z.object({ type: z.literal('bls_stop') }),
+  z.object({ type: z.literal('bls_config'), config: BLSConfigSchema }),
+  z.object({ type: z.literal('phase_change'), phase: PhaseSchema }),
+  z.object({ type: z.literal('instruction'), text: z.string().min(1).max(2000), expects: z.enum(['suds', 'voc']).optional() }),
+  z.object({ type: z.literal('suds_response'), value: z.number().int().min(0).max(10) }),
+  z.object({ type: z.literal('voc_response'), value: z.number().min(1).max(7) }),
+  z.object({
+    type: z.literal('emotion_summary'),
+    summary: z.object({
+      arousal: z.number().min(-1).max(1),
+      valence: z.number().min(-1).max(1),
+      stress: z.number().min(0).max(1).optional(),
+      dominantEmotion: z.string().max(50).optional()
+    })
+  }),
+  z.object({
+    type: z.literal('rtc_signal'),
+    signal: z.discriminatedUnion('kind', [
+      z.object({
+        kind: z.literal('description'),
+        description: z.object({ type: z.enum(['offer', 'answer', 'pranswer', 'rollback']), sdp: z.string().max(60000).optional() })
+      }),
+      z.object({
+        kind: z.literal('ice'),
+        candidate: z.object({
+          candidate: z.string().max(1000),
+          sdpMid: z.string().max(100).nullable().optional(),
+          sdpMLineIndex: z.number().int().nullable().optional(),
+          usernameFragment: z.string().max(256).nullable().optional()
+        })
+      }),
+      z.object({ kind: z.literal('hangup') })
+    ])
+  }),
+  z.object({ type: z.literal('ping'), sentAt: z.number() })
+]);
+
+const THERAPIST_MESSAGES = new Set<SessionRoomClientMessage['type']>(['bls_start', 'bls_stop', 'bls_config', 'phase_change', 'instruction']);
+const PATIENT_MESSAGES = new Set<SessionRoomClientMessage['type']>(['suds_response', 'voc_response', 'emotion_summary']);
+
+interface RoomMember {
+  role: SessionRoomRole;
+  userId: string;
+  windowStart: number;
+  windowCount: number;
+}
+
+interface Room {
+  state: SessionRoomState;
+  members: Map<WebSocket, RoomMember>;
+  seq: number;
+}
+
+export class SessionRoomService {
+  private rooms = new Map<string, Room>();
+  // Kept outside the rooms so a crisis raised while nobody is connected still shows on join
+  private crises = new Map<string, NonNullable<SessionRoomState['crisis']>>();
+
+  /**
+   * Therapist of the session (or an admin) controls the room; the session's patient follows it
+   */
+  getRole(user: Express.User, session: Session): SessionRoomRole | null {
+    if (user.id === session.patientId) return 'patient';
+    if (user.id === session.therapistId || user.role === 'admin' || user.role === 'therapist') return 'therapist';
+    return null;
+  }
+
+  join(ws: WebSocket, user: Express.User, session: Session, role: SessionRoomRole): void {
+    const room = this.getOrCreateRoom(session);
+    room.members.set(ws, { role, userId: user.id, windowStart: Date.now(), windowCount: 0 });
+    room.state.participants[role] = true;
+
+    this.send(ws, { type: 'room_state', role, state: room.state });
+    this.broadcast(room, 'participant_joined', role);
+    console.log(`🛋️ Session room ${session.id}: ${role} joined (${room.members.size} connected)`);
+
+    ws.on('message', (data: Buffer) => {
+      this.handleMessage(session.id, ws, data).catch(error => {
+        console.error('❌ Session room message error:', error);
+        this.send(ws, { type: 'error', message: 'Failed to process message' });
+      });
+    });
+
+    ws.on('close', () => this.leave(session.id, ws));
+    ws.on('error', error => console.error(`❌ Session room socket error (${session.id}):`, error));
+  }
+
+  getRoomState(sessionId: string): SessionRoomState | null {
+    return this.rooms.get(sessionId)?.state ?? null;
+  }
+
+  /**
+   * Shows (or clears) a crisis in the room; an active crisis stops BLS on the patient's screen
+   */
+  setCrisis(sessionId: string, crisis: SessionRoomState['crisis'], from: SessionRoomRole): void {
+    if (crisis) {
+      this.crises.set(sessionId, crisis);
+    } else {
+      this.crises.delete(sessionId);
+    }
+
+    const room = this.rooms.get(sessionId);
+    if (!room) return;
+    room.state.crisis = crisis;
+    if (crisis) {
+      room.state.blsActive = false;
+    }
+    this.broadcast(room, 'crisis_update', from);
+  }
+
+  private getOrCreateRoom(session: Session): Room {
+    let room = this.rooms.get(session.id);
+    if (!room) {
+      room = {
+        state: {
+          sessionId: session.id,
+          phase: PhaseSchema.safeParse(session.phase).success ? session.phase as SessionRoomState['phase'] : 'waiting',
+          blsActive: false,
+          blsConfig: {},
+          currentSet: 0,
+          instruction: null,
+          participants: { therapist: false, patient: false },
+          lastSuds: null,
+          lastVoc: null,
+          lastEmotion: null,
+          crisis: this.crises.get(session.id) ?? null
+        },
+        members: new Map(),
+        seq: 0
+      };
+      this.rooms.set(session.id, room);
+    }
+    return room;
+  }
+
+  private async handleMessage(sessionId: string, ws: WebSocket, data: Buffer): Promise<void> {
+    const room = this.rooms.get(sessionId);
+    const member = room?.members.get(ws);
+    if (!room || !member) return;
+
+    if (data.length > MAX_MESSAGE_BYTES) {
+      return this.send(ws, { type: 'error', message: 'Message too large' });
+    }
+
+    const now = Date.now();
+    if (now - member.windowStart >= 1000) {
+      member.windowStart = now;
+      member.windowCount = 0;
+    }
+    if (++member.windowCount > MESSAGE_RATE_LIMIT) {
+      return this.send(ws, { type: 'error', message: 'Rate limit exceeded' });
+    }
+
+    let message: SessionRoomClientMessage;
+    try {
+      const parsed = ClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      if (!parsed.success) {
+        return this.send(ws, { type: 'error', message: `Invalid message: ${parsed.error.errors[0]?.message}` });
+      }
+      message = parsed.data;
+    } catch {
+      return this.send(ws, { type: 'error', message: 'Message must be JSON' });
+    }
+
+    if (message.type === 'ping') {
+      return this.send(ws, { type: 'pong', sentAt: message.sentAt, serverTime: now });
+    }
+    if (message.type === 'rtc_signal') {
+      return this.relaySignal(room, member.role, { type: 'rtc_signal', from: member.role, signal: message.signal });
+    }
+    if (THERAPIST_MESSAGES.has(message.type) && member.role !== 'therapist') {
+      return this.send(ws, { type: 'error', message: `Only the therapist can send ${message.type}` });
+    }
+    if (PATIENT_MESSAGES.has(message.type) && member.role !== 'patient') {
+      return this.send(ws, { type: 'error', message: `Only the patient can send ${message.type}` });
+    }
+
+    const state = room.state;
+    switch (message.type) {
+      case 'bls_start':
+        if (state.crisis) {
+          return this.send(ws, { type: 'error', message: 'Resolve the crisis before resuming BLS' });
+        }
+        state.blsConfig = { ...state.blsConfig, ...message.config };
+        if (!state.blsActive) state.currentSet++;
+        state.blsActive = true;
+        break;
+      case 'bls_stop':
+        state.blsActive = false;
+        break;
+      case 'bls_config':
+        state.blsConfig = { ...state.blsConfig, ...message.config };
+        break;
+      case 'phase_change':
+        state.phase = message.phase;
+        if (message.phase !== 'waiting') {
+          await storage.updateSession(sessionId, { phase: message.phase });
+        }
+        break;
+      case 'instruction':
+        state.instruction = { text: message.text, expects: message.expects, sentAt: now };
+        break;
+      case 'suds_response':
+        state.lastSuds = { value: message.value, at: now };
+        await this.recordRating(sessionId, 'suds', message.value);
+        break;
+      case 'voc_response':
+        state.lastVoc = { value: message.value, at: now };
+        await this.recordRating(sessionId, 'voc', message.value);
+        break;
+      case 'emotion_summary':
+        state.lastEmotion = { ...message.summary, timestamp: now };
+        break;
+    }
+
+    this.broadcast(room, message.type, member.role);
+  }
+
+  // The first rating of a session is the initial value, later ones move the final value
+  private async recordRating(sessionId: string, scale: 'suds' | 'voc', value: number): Promise<void> {
+    const session = await storage.getSession(sessionId);
+    if (!session) return;
+
+    if (scale === 'suds') {
+      await storage.updateSession(sessionId, session.sudsInitial === null ? { sudsInitial: value } : { sudsFinal: value });
+    } else {
+      await storage.updateSession(sessionId, session.vocInitial === null ? { vocInitial: value } : { vocFinal: value });
+    }
+  }
+
+  private leave(sessionId: string, ws: WebSocket): void {
+    const room = this.rooms.get(sessionId);
+    const member = room?.members.get(ws);
+    if (!room || !member) return;
+
+    room.members.delete(ws);
+    room.state.participants[member.role] = Array.from(room.members.values()).some(m => m.role === member.role);
+
+    if (room.members.size === 0) {
+      // Nothing left to sync; the phase is already persisted on the session
+      this.rooms.delete(sessionId);
+    } else {
+      this.broadcast(room, 'participant_left', member.role);
+    }
+    console.log(`🛋️ Session room ${sessionId}: ${member.role} left (${room.members.size} connected)`);
+  }
+
+  private broadcast(room: Room, event: Extract<SessionRoomServerMessage, { type: 'room_event' }>['event'], from: SessionRoomRole): void {
+    room.seq++;
+    const message: SessionRoomServerMessage = { type: 'room_event', event, from, seq: room.seq, serverTime: Date.now(), state: room.state };
+    const payload = JSON.stringify(message);
+    room.members.forEach((_member, socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    });
+  }
+
+  // Signalling is point-to-point: it goes to the other role only and does not touch the room state
+  private relaySignal(room: Room, from: SessionRoomRole, message: SessionRoomServerMessage): void {
+    room.members.forEach((member, socket) => {
+      if (member.role !== from) {
+        this.send(socket, message);
+      }
+    });
+  }
+
+  private send(ws: WebSocket, message: SessionRoomServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const sessionRoomService = new SessionRoomService();
@@ -0,0 +1,239 @@
+/**
+ * Offline Session Sync
+ * Applies operations the session conductor queued while offline: session state goes to
+ * emdr_sessions, emotion snapshots to emotion_captures and SUD/VOC ratings to session memory snapshots.
+ * Each idempotency key is applied at most once; when an upload is older than what the server
+ * already has, the newer server state wins field by field and the operation is reported as merged.
+ */
+
+import { storage } from '../storage';
+import { sessionMemoryService } from './sessionMemory';
+import { checkPatientAccess } from '../accessControl';
+import type { Session } from '../../shared/schema';
+import type {
+  EmotionCaptureOperation,
+  EmotionData,
+  RatingUpdateOperation,
+  SessionSyncOperation,
+  SessionUpsertOperation,
+  SyncOperationResult
+} from '../../shared/types';
+
+const TERMINAL_STATUSES = ['completed', 'cancelled'];
+const ACTIVE_CRISIS_STATUSES = ['open', 'acknowledged', 'escalated'];
+
+type EmotionSources = { face?: unknown; voice?: unknown; combined?: boolean };
+
+function captureSource(emotionData: EmotionData): string {
+  const sources = (emotionData as EmotionData & { sources?: EmotionSources }).sources;
+  if (sources?.combined) return 'combined';
+  return sources?.voice && !sources.face ? 'voice' : 'face';
+}
+
+export class SessionSyncService {
+  /**
+   * Applies a batch in order, since later operations refer to sessions created by earlier ones
+   */
+  async applyBatch(user: Express.User, operations: SessionSyncOperation[]): Promise<SyncOperationResult[]> {
+    const results: SyncOperationResult[] = [];
+    for (const operation of operations) {
+      results.push(await this.applyOperation(user, operation));
+    }
+    return results;
+  }
+
+  private async applyOperation(user: Express.User, operation: SessionSyncOperation): Promise<SyncOperationResult> {
+    const recorded = await storage.getSyncOperation(user.id, operation.idempotencyKey);
+    if (recorded) {
+      return recorded.result as SyncOperationResult;
+    }
+
+    let result: SyncOperationResult;
+    try {
+      result = await this.execute(user, operation);
+    } catch (error) {
+      console.error(`❌ Sync operation ${operation.type} failed:`, error);
+      // Not recorded, so the client keeps it and retries
+      return { idempotencyKey: operation.idempotencyKey, status: 'deferred', error: 'Failed to apply operation' };
+    }
+
+    // Deferred operations have not happened yet and must run again on retry
+    if (result.status !== 'deferred') {
+      await storage.createSyncOperation({
+        userId: user.id,
+        idempotencyKey: operation.idempotencyKey,
+        operationType: operation.type,
+        clientSessionId: operation.clientSessionId,
+        sessionId: result.sessionId ?? null,
+        result
+      });
+    }
+    return result;
+  }
+
+  private async execute(user: Express.User, operation: SessionSyncOperation): Promise<SyncOperationResult> {
+    const patientId = operation.patientId ?? user.id;
+    const decision = await checkPatientAccess(user, patientId);
+    if (!decision.allowed) {
+      return { idempotencyKey: operation.idempotencyKey, status: 'rejected', error: decision.error };
+    }
+
+    const session = await storage.getSessionByClientId(patientId, operation.clientSessionId);
+
+    if (operation.type === 'session_upsert') {
+      return session
+        ? this.mergeSession(session, operation)
+        : this.createSession(user, patientId, operation);
+    }
+
+    if (!session) {
+      return { idempotencyKey: operation.idempotencyKey, status: 'deferred', error: 'Session has not been synced yet' };
+    }
+
+    return operation.type === 'emotion_capture'
+      ? this.recordEmotion(session, operation)
+      : this.recordRating(session, operation);
+  }
+
+  private async createSession(user: Express.User, patientId: string, operation: SessionUpsertOperation): Promise<SyncOperationResult> {
+    const { payload } = operation;
+    const therapistId = await this.resolveTherapist(user, patientId, payload.therapistId);
+
+    // Applies once a therapist takes the patient on
+    if (!therapistId) {
+      return { idempotencyKey: operation.idempotencyKey, status: 'deferred', error: 'No therapist is assigned to this patient' };
+    }
+
+    const session = await storage.createSession({
+      patientId,
+      therapistId,
+      startTime: new Date(payload.startTime),
+      endTime: payload.endTime ? new Date(payload.endTime) : null,
+      phase: payload.phase,
+      status: payload.status,
+      notes: null,
+      sudsInitial: payload.sudsInitial ?? null,
+      sudsFinal: null,
+      vocInitial: payload.vocInitial ?? null,
+      vocFinal: null,
+      clientSessionId: operation.clientSessionId,
+      clientUpdatedAt: new Date(operation.clientTimestamp)
+    });
+
+    return { idempotencyKey: operation.idempotencyKey, status: 'applied', sessionId: session.id };
+  }
+
+  private async mergeSession(session: Session, operation: SessionUpsertOperation): Promise<SyncOperationResult> {
+    const { payload } = operation;
+    const updates: Partial<Session> = {};
+    let merged = false;
+
+    // Ratings given before the session was first synced only ever fill gaps
+    if (session.sudsInitial === null && payload.sudsInitial !== undefined) updates.sudsInitial = payload.sudsInitial;
+    if (session.vocInitial === null && payload.vocInitial !== undefined) updates.vocInitial = payload.vocInitial;
+
+    const stale = this.isStale(session, operation.clientTimestamp);
+    const finished = TERMINAL_STATUSES.includes(session.status);
+    const heldByCrisis = session.status === 'paused' && payload.status === 'active' && await this.hasActiveCrisis(session);
+
+    if (stale || finished || heldByCrisis) {
+      merged = session.phase !== payload.phase || session.status !== payload.status;
+      if (!session.endTime && payload.endTime && !finished) {
+        updates.endTime = new Date(payload.endTime);
+      }
+    } else {
+      updates.phase = payload.phase;
+      updates.status = payload.status;
+      updates.endTime = payload.endTime ? new Date(payload.endTime) : session.endTime;
+      updates.clientUpdatedAt = new Date(operation.clientTimestamp);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await storage.updateSession(session.id, updates);
+    }
+
+    return { idempotencyKey: operation.idempotencyKey, status: merged ? 'merged' : 'applied', sessionId: session.id };
+  }
+
+  private async recordEmotion(session: Session, operation: EmotionCaptureOperation): Promise<SyncOperationResult> {
+    const { emotionData, phase, blsConfig } = operation.payload;
+
+    await storage.createEmotionCapture({
+      sessionId: session.id,
+      patientId: session.patientId,
+      timestamp: new Date(emotionData.timestamp || operation.clientTimestamp),
+      source: captureSource(emotionData),
+      arousal: emotionData.arousal,
+      valence: emotionData.valence,
+      affects: emotionData.affects,
+      basicEmotions: emotionData.basicEmotions,
+      blsConfig: blsConfig ?? null,
+      phaseContext: phase
+    });
+
+    return { idempotencyKey: operation.idempotencyKey, status: 'applied', sessionId: session.id };
+  }
+
+  private async recordRating(session: Session, operation: RatingUpdateOperation): Promise<SyncOperationResult> {
+    const { scale, value, phase, emotionData } = operation.payload;
+    const stale = this.isStale(session, operation.clientTimestamp);
+    const updates: Partial<Session> = {};
+
+    if (scale === 'sud') {
+      if (session.sudsInitial === null) updates.sudsInitial = value;
+      if (!stale) updates.sudsFinal = value;
+    } else {
+      if (session.vocInitial === null) updates.vocInitial = value;
+      if (!stale) updates.vocFinal = value;
+    }
+    if (!stale) {
+      updates.clientUpdatedAt = new Date(operation.clientTimestamp);
+    }
+    // A stale rating on a session whose initial value is already set changes nothing on the session
+    if (Object.keys(updates).length > 0) {
+      await storage.updateSession(session.id, updates);
+    }
+
+    // The rating is part of the session's history even when a newer one is already current
+    await sessionMemoryService.saveSessionData({
+      sessionId: session.id,
+      patientId: session.patientId,
+      snapshotType: 'progress_milestone',
+      emotionalSnapshot: emotionData,
+      phaseContext: phase,
+      timestamp: operation.clientTimestamp,
+      metadata: {
+        ...(scale === 'sud' ? { sudsLevel: value } : { vocLevel: value }),
+        triggerEvents: [`${scale}_rating`]
+      }
+    });
+
+    return { idempotencyKey: operation.idempotencyKey, status: stale ? 'merged' : 'applied', sessionId: session.id };
+  }
+
+  // Older than the newest change already synced, e.g. from a second device that was offline longer
+  private isStale(session: Session, clientTimestamp: number): boolean {
+    return !!session.clientUpdatedAt && clientTimestamp < session.clientUpdatedAt.getTime();
+  }
+
+  // A crisis pause is lifted by the therapist, not by a client coming back online
+  private async hasActiveCrisis(session: Session): Promise<boolean> {
+    const crises = await storage.getCrisisEvents({ sessionId: session.id, statuses: ACTIVE_CRISIS_STATUSES });
+    return crises.length > 0;
+  }
+
+  // The client's choice of therapist only stands when that therapist has the patient on their caseload
+  private async resolveTherapist(user: Express.User, patientId: string, requested?: string): Promise<string | null> {
+    if (requested && await storage.getActiveCaseloadAssignment(requested, patientId)) {
+      return requested;
+    }
+    return user.role === 'therapist' ? user.id : this.findCaseloadTherapist(patientId);
+  }
+
+  private async findCaseloadTherapist(patientId: string): Promise<string | null> {
+    const assignments = await storage.getCaseloadAssignments({ patientId, status: 'active' });
+    return assignments[0]?.therapistId ?? null;
+  }
+}
+
+export const sessionSyncService = new SessionSyncService();
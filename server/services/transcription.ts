@@ -0,0 +1,481 @@
+/**
+ * Transcription Service
+ * Multipart audio upload parsing, WAV/WebM/OGG validation and
+ * pluggable batch transcription backends
+ */
+
+import OpenAI, { toFile } from 'openai';
+import { randomUUID } from 'crypto';
+import type {
+  STTLanguage,
+  STTSegmentResult,
+  STTTranscriptionResult,
+  STTWordResult
+} from '../../shared/types';
+
+export const MAX_AUDIO_UPLOAD_BYTES = 25 * 1024 * 1024; // Whisper API limit
+export const MAX_AUDIO_DURATION_SECONDS = 300;
+
+// Whisper reports detected languages by English name
+const LANGUAGE_CODES: Record<string, STTLanguage> = {
+  english: 'en', russian: 'ru', spanish: 'es', french: 'fr', german: 'de',
+  italian: 'it', portuguese: 'pt', chinese: 'zh', japanese: 'ja', korean: 'ko'
+};
+
+// Container metadata is expected near the start of WebM files
+const WEBM_HEADER_SCAN_BYTES = 64 * 1024;
+
+// Matroska element ids, marker bits included
+const EBML_SEGMENT = 0x18538067;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_BLOCK = 0xa1;
+const EBML_SIMPLE_BLOCK = 0xa3;
+
+export type AudioFormat = 'wav' | 'webm' | 'ogg';
+
+const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg'
+};
+
+export interface MultipartFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface AudioUpload {
+  data: Buffer;
+  format: AudioFormat;
+  mimeType: string;
+  filename: string;
+  durationSeconds: number;
+}
+
+export interface TranscriptionOptions {
+  language?: STTLanguage;
+  prompt?: string;
+  temperature?: number;
+}
+
+// Provider-neutral output, timings in seconds
+export interface TranscriptionOutput {
+  text: string;
+  language: string;
+  duration: number;
+  words: Array<{ word: string; start: number; end: number; confidence: number }>;
+  segments: Array<{ text: string; start: number; end: number; confidence: number }>;
+  raw?: unknown;
+}
+
+export interface TranscriptionBackend {
+  readonly name: string;
+  isAvailable(): boolean;
+  transcribe(audio: AudioUpload, options: TranscriptionOptions): Promise<TranscriptionOutput>;
+}
+
+/**
+ * Parse a buffered multipart/form-data body into text fields and files
+ */
+export function parseMultipartForm(body: Buffer, contentType: string): {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+} | null {
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  const boundary = boundaryMatch?.[1] ?? boundaryMatch?.[2];
+  if (!boundary) return null;
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields: Record<string, string> = {};
+  const files: MultipartFile[] = [];
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) return null;
+
+  while (position !== -1) {
+    const partStart = position + delimiter.length;
+    // Closing delimiter is followed by "--"
+    if (body.subarray(partStart, partStart + 2).toString() === '--') break;
+
+    const next = body.indexOf(delimiter, partStart);
+    if (next === -1) return null;
+
+    // Part is "\r\n<headers>\r\n\r\n<data>\r\n"
+    const part = body.subarray(partStart + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) return null;
+
+    const headers = part.subarray(0, headerEnd).toString('utf8');
+    const data = part.subarray(headerEnd + 4);
+    const name = headers.match(/name="([^"]*)"/i)?.[1];
+    const filename = headers.match(/filename="([^"]*)"/i)?.[1];
+    const partType = headers.match(/content-type:\s*([^\r\n]+)/i)?.[1]?.trim();
+
+    if (name !== undefined) {
+      if (filename !== undefined) {
+        files.push({ field: name, filename, contentType: partType || 'application/octet-stream', data });
+      } else {
+        fields[name] = data.toString('utf8');
+      }
+    }
+
+    position = next;
+  }
+
+  return { fields, files };
+}
+
+/**
+ * Validate an uploaded file as WAV, WebM or OGG audio within size and duration limits
+ */
+export function validateAudioUpload(file: MultipartFile):
+  | { valid: true; audio: AudioUpload }
+  | { valid: false; status: number; error: string } {
+  if (file.data.length === 0) {
+    return { valid: false, status: 400, error: 'Audio file is empty' };
+  }
+  if (file.data.length > MAX_AUDIO_UPLOAD_BYTES) {
+    return { valid: false, status: 413, error: `Audio file exceeds ${MAX_AUDIO_UPLOAD_BYTES} bytes` };
+  }
+
+  // Content is checked by signature, the declared type is not trusted
+  const format = detectAudioFormat(file.data);
+  if (!format) {
+    return { valid: false, status: 415, error: 'Unsupported audio format. Expected WAV, WebM or OGG' };
+  }
+
+  const durationSeconds = format === 'wav' ? readWavDuration(file.data)
+    : format === 'ogg' ? readOggDuration(file.data)
+    : readWebmDuration(file.data);
+
+  if (format === 'wav' && durationSeconds === null) {
+    return { valid: false, status: 400, error: 'Malformed WAV header' };
+  }
+  // Without a duration the length limit could not be enforced
+  if (durationSeconds === null) {
+    return { valid: false, status: 400, error: `Could not read the ${format.toUpperCase()} audio duration` };
+  }
+  if (durationSeconds > MAX_AUDIO_DURATION_SECONDS) {
+    return { valid: false, status: 413, error: `Audio duration exceeds ${MAX_AUDIO_DURATION_SECONDS} seconds` };
+  }
+
+  return {
+    valid: true,
+    audio: {
+      data: file.data,
+      format,
+      mimeType: AUDIO_MIME_TYPES[format],
+      filename: file.filename || `audio.${format}`,
+      durationSeconds
+    }
+  };
+}
+
+export function detectAudioFormat(data: Buffer): AudioFormat | null {
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm';
+  }
+  if (data.length >= 4 && data.toString('ascii', 0, 4) === 'OggS') {
+    return 'ogg';
+  }
+  return null;
+}
+
+// data chunk size / byte rate from the fmt chunk
+function readWavDuration(data: Buffer): number | null {
+  let offset = 12;
+  let byteRate: number | null = null;
+
+  while (offset + 8 <= data.length) {
+    const chunkId = data.toString('ascii', offset, offset + 4);
+    const chunkSize = data.readUInt32LE(offset + 4);
+    const chunkData = offset + 8;
+
+    if (chunkId === 'fmt ' && chunkData + 12 <= data.length) {
+      byteRate = data.readUInt32LE(chunkData + 8);
+    } else if (chunkId === 'data') {
+      if (!byteRate) return null;
+      // Streaming writers leave the size unset; fall back to the bytes present
+      const dataBytes = Math.min(chunkSize, data.length - chunkData);
+      return dataBytes / byteRate;
+    }
+
+    offset = chunkData + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+// Last page granule position over the stream sample rate
+function readOggDuration(data: Buffer): number | null {
+  const segmentCount = data[26];
+  const payload = 27 + (segmentCount ?? 0);
+  if (payload + 16 > data.length) return null;
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (data.toString('ascii', payload, payload + 8) === 'OpusHead') {
+    sampleRate = 48000; // Opus granule positions are always 48 kHz
+    preSkip = data.readUInt16LE(payload + 10);
+  } else if (data.toString('ascii', payload + 1, payload + 7) === 'vorbis') {
+    sampleRate = data.readUInt32LE(payload + 12);
+  } else {
+    return null;
+  }
+
+  const lastPage = data.lastIndexOf('OggS');
+  if (lastPage === -1 || lastPage + 14 > data.length || sampleRate === 0) return null;
+  const granule = Number(data.readBigInt64LE(lastPage + 6));
+  if (granule < 0) return null;
+
+  return Math.max(0, granule - preSkip) / sampleRate;
+}
+
+// Segment Info Duration element scaled by TimecodeScale; live recordings such as MediaRecorder output
+// omit it, so the duration is then taken from the last block's timecode
+function readWebmDuration(data: Buffer): number | null {
+  const header = data.subarray(0, WEBM_HEADER_SCAN_BYTES);
+
+  let timecodeScale = 1_000_000;
+  const scaleId = header.indexOf(Buffer.from([0x2a, 0xd7, 0xb1]));
+  if (scaleId !== -1 && scaleId + 4 <= header.length) {
+    const length = header[scaleId + 3] & 0x7f;
+    if (length > 0 && length <= 6 && scaleId + 4 + length <= header.length) {
+      timecodeScale = header.readUIntBE(scaleId + 4, length);
+    }
+  }
+
+  let duration: number | null = null;
+  const durationId = header.indexOf(Buffer.from([0x44, 0x89]));
+  if (durationId !== -1 && durationId + 3 <= header.length) {
+    const sizeByte = header[durationId + 2];
+    const valueStart = durationId + 3;
+    if (sizeByte === 0x84 && valueStart + 4 <= header.length) {
+      duration = header.readFloatBE(valueStart);
+    } else if (sizeByte === 0x88 && valueStart + 8 <= header.length) {
+      duration = header.readDoubleBE(valueStart);
+    }
+  }
+  duration ??= readWebmLastBlockTimecode(data);
+  if (duration === null) return null;
+
+  const seconds = (duration * timecodeScale) / 1e9;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Walk the EBML elements and return the latest block timecode (cluster timecode plus the block's
+ * relative one), in TimecodeScale units; null when no block is found
+ */
+function readWebmLastBlockTimecode(data: Buffer): number | null {
+  let offset = 0;
+  let clusterTimecode = 0;
+  let latest: number | null = null;
+
+  while (offset < data.length) {
+    const id = readEbmlVint(data, offset, true);
+    if (!id) break;
+    const size = readEbmlVint(data, offset + id.length, false);
+    if (!size) break;
+    const dataStart = offset + id.length + size.length;
+
+    // Enter containers instead of skipping them; live recordings leave their size unknown
+    if (id.value === EBML_SEGMENT || id.value === EBML_CLUSTER || id.value === EBML_BLOCK_GROUP) {
+      if (id.value === EBML_CLUSTER) clusterTimecode = 0;
+      offset = dataStart;
+      continue;
+    }
+    if (size.value === null || dataStart + size.value > data.length) break;
+
+    if (id.value === EBML_CLUSTER_TIMECODE && size.value > 0 && size.value <= 6) {
+      clusterTimecode = data.readUIntBE(dataStart, size.value);
+    } else if (id.value === EBML_SIMPLE_BLOCK || id.value === EBML_BLOCK) {
+      const track = readEbmlVint(data, dataStart, false);
+      if (track && dataStart + track.length + 2 <= data.length) {
+        const timecode = clusterTimecode + data.readInt16BE(dataStart + track.length);
+        latest = Math.max(latest ?? 0, timecode);
+      }
+    }
+
+    offset = dataStart + size.value;
+  }
+
+  return latest;
+}
+
+// EBML variable-length integer; ids keep their marker bits, sizes with all value bits set are unknown (null)
+function readEbmlVint(data: Buffer, offset: number, isId: boolean): { value: number | null; length: number } | null {
+  if (offset >= data.length) return null;
+  const first = data[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > (isId ? 4 : 8) || offset + length > data.length) return null;
+
+  let value = isId ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    allOnes = allOnes && data[offset + i] === 0xff;
+  }
+  return { value: !isId && allOnes ? null : value, length };
+}
+
+/**
+ * OpenAI Whisper via the audio transcriptions API
+ */
+export class OpenAIWhisperBackend implements TranscriptionBackend {
+  readonly name = 'openai-whisper';
+  private openai: OpenAI | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async transcribe(audio: AudioUpload, options: TranscriptionOptions): Promise<TranscriptionOutput> {
+    if (!this.openai) {
+      this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const response = await this.openai.audio.transcriptions.create({
+      file: await toFile(audio.data, audio.filename, { type: audio.mimeType }),
+      model: 'whisper-1',
+      response_format: 'verbose_json',
+      timestamp_granularities: ['word', 'segment'],
+      ...(options.language && options.language !== 'auto' ? { language: options.language } : {}),
+      ...(options.prompt ? { prompt: options.prompt } : {}),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {})
+    });
+
+    const segments = (response.segments ?? []).map(segment => ({
+      text: segment.text.trim(),
+      start: segment.start,
+      end: segment.end,
+      // Mean token probability, discounted by the no-speech estimate
+      confidence: Math.max(0, Math.min(1, Math.exp(segment.avg_logprob) * (1 - segment.no_speech_prob)))
+    }));
+
+    return {
+      text: response.text,
+      language: response.language,
+      duration: response.duration,
+      words: (response.words ?? []).map(word => ({
+        word: word.word,
+        start: word.start,
+        end: word.end,
+        // Whisper has no per-word score; use the enclosing segment's
+        confidence: segments.find(segment => word.start >= segment.start && word.start < segment.end)?.confidence ?? 0.9
+      })),
+      segments,
+      raw: response
+    };
+  }
+}
+
+/**
+ * Offline backend for development and tests, describes the upload instead of transcribing it
+ */
+export class LocalStubTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'local-stub';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async transcribe(audio: AudioUpload, options: TranscriptionOptions): Promise<TranscriptionOutput> {
+    const duration = audio.durationSeconds;
+    const text = `stub transcription of ${audio.format} audio ${duration.toFixed(1)} seconds`;
+    const tokens = text.split(' ');
+    const step = tokens.length > 0 ? duration / tokens.length : 0;
+
+    return {
+      text,
+      language: options.language && options.language !== 'auto' ? options.language : 'en',
+      duration,
+      words: tokens.map((word, index) => ({
+        word,
+        start: index * step,
+        end: (index + 1) * step,
+        confidence: 1
+      })),
+      segments: [{ text, start: 0, end: duration, confidence: 1 }]
+    };
+  }
+}
+
+const transcriptionBackends: Record<string, TranscriptionBackend> = {
+  openai: new OpenAIWhisperBackend(),
+  stub: new LocalStubTranscriptionBackend()
+};
+
+/**
+ * Backend selected by STT_BACKEND ('openai' by default, 'stub' for offline use)
+ */
+export function getTranscriptionBackend(): TranscriptionBackend | undefined {
+  return transcriptionBackends[process.env.STT_BACKEND || 'openai'];
+}
+
+/**
+ * Map backend output to the shared STT result shape
+ */
+export function toTranscriptionResult(
+  output: TranscriptionOutput,
+  audio: AudioUpload,
+  backend: TranscriptionBackend,
+  startedAt: number
+): STTTranscriptionResult {
+  const finishedAt = Date.now();
+  const reported = output.language.toLowerCase();
+  const language = LANGUAGE_CODES[reported]
+    ?? Object.values(LANGUAGE_CODES).find(code => code === reported)
+    ?? 'en';
+
+  const words: STTWordResult[] = output.words.map(word => ({
+    word: word.word,
+    startTime: word.start,
+    endTime: word.end,
+    confidence: word.confidence
+  }));
+  const segments: STTSegmentResult[] = output.segments.map(segment => ({
+    text: segment.text,
+    startTime: segment.start,
+    endTime: segment.end,
+    confidence: segment.confidence,
+    type: 'sentence',
+    punctuation: true
+  }));
+
+  const confidence = segments.length > 0
+    ? segments.reduce((sum, segment) => sum + segment.confidence * (segment.endTime - segment.startTime), 0) /
+      Math.max(1e-6, segments.reduce((sum, segment) => sum + (segment.endTime - segment.startTime), 0))
+    : 0;
+
+  return {
+    id: randomUUID(),
+    timestamp: finishedAt,
+    text: output.text,
+    language,
+    confidence: Math.max(0, Math.min(1, confidence)),
+    isFinal: true,
+    words,
+    segments,
+    provider: 'openai-whisper',
+    providerData: { backend: backend.name, format: audio.format, response: output.raw },
+    audioQuality: {
+      snr: 0, // not measured server-side
+      clarity: Math.max(0, Math.min(1, confidence)),
+      duration: output.duration || audio.durationSeconds
+    },
+    processing: {
+      latency: finishedAt - startedAt,
+      processingTime: finishedAt - startedAt,
+      queueTime: 0
+    }
+  };
+}
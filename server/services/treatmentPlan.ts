@@ -0,0 +1,228 @@
+/**
+ * Treatment Plan
+ * Orders the targets a patient reprocesses over many sessions (past memories, present triggers,
+ * future templates), tracks their SUD/VOC from baseline to latest and picks the target each session works on.
+ */
+
+import { storage } from '../storage';
+import { historyTakingService } from './historyTaking';
+import type { TreatmentTarget } from '../../shared/schema';
+import type {
+  IntakeTargetTimeframe,
+  IntakeTraumaTarget,
+  StabilisationReadiness,
+  TreatmentTargetMemory,
+  TreatmentTargetOutcome,
+  TreatmentTargetSelection
+} from '../../shared/types';
+
+// Resolved means SUD 0-1, VOC 6-7 and a clear body scan
+const RESOLVED_MAX_SUD = 1;
+const RESOLVED_MIN_VOC = 6;
+const TIMEFRAME_ORDER: IntakeTargetTimeframe[] = ['past', 'present', 'future'];
+// A session ended or dropped before the target was resolved; picked up before new targets
+const RESUMABLE_STATUSES = ['in-process', 'incomplete'];
+
+export type TreatmentTargetInput = Pick<TreatmentTarget, 'timeframe' | 'description'> &
+  Partial<Pick<TreatmentTarget, 'touchstoneId' | 'negativeCognition' | 'positiveCognition' | 'baselineSud' | 'baselineVoc'>>;
+
+export type TreatmentTargetUpdate = Partial<TreatmentTargetInput & Pick<TreatmentTarget, 'status' | 'latestSud' | 'latestVoc'>>;
+
+export class TreatmentPlanService {
+  async getPlan(patientId: string): Promise<TreatmentTarget[]> {
+    return storage.getTreatmentTargets(patientId);
+  }
+
+  async addTarget(patientId: string, input: TreatmentTargetInput): Promise<TreatmentTarget> {
+    const plan = await storage.getTreatmentTargets(patientId);
+    return storage.createTreatmentTarget({
+      ...input,
+      patientId,
+      position: this.nextPosition(plan),
+      status: 'pending'
+    });
+  }
+
+  async updateTarget(target: TreatmentTarget, update: TreatmentTargetUpdate): Promise<TreatmentTarget | undefined> {
+    const updates: Partial<TreatmentTarget> = { ...update };
+    if (update.status) {
+      updates.resolvedAt = update.status === 'resolved' ? target.resolvedAt ?? new Date() : null;
+    }
+    return storage.updateTreatmentTarget(target.id, updates);
+  }
+
+  /**
+   * Targets linked to the removed one lose their touchstone link
+   */
+  async removeTarget(target: TreatmentTarget): Promise<void> {
+    await storage.deleteTreatmentTarget(target.id);
+    const linked = (await storage.getTreatmentTargets(target.patientId))
+      .filter(candidate => candidate.touchstoneId === target.id);
+    for (const candidate of linked) {
+      await storage.updateTreatmentTarget(candidate.id, { touchstoneId: null });
+    }
+  }
+
+  /**
+   * Returns null unless targetIds lists every target of the plan exactly once
+   */
+  async reorder(patientId: string, targetIds: string[]): Promise<TreatmentTarget[] | null> {
+    const plan = await storage.getTreatmentTargets(patientId);
+    const planIds = new Set(plan.map(target => target.id));
+    if (targetIds.length !== plan.length || new Set(targetIds).size !== targetIds.length || !targetIds.every(id => planIds.has(id))) {
+      return null;
+    }
+
+    for (let index = 0; index < targetIds.length; index++) {
+      await storage.updateTreatmentTarget(targetIds[index], { position: index + 1 });
+    }
+    return storage.getTreatmentTargets(patientId);
+  }
+
+  // A touchstone is an earlier, past target of the same plan
+  async isValidTouchstone(patientId: string, targetId: string | null, touchstoneId: string): Promise<boolean> {
+    if (touchstoneId === targetId) return false;
+    const touchstone = await storage.getTreatmentTarget(touchstoneId);
+    return !!touchstone && touchstone.patientId === patientId && touchstone.timeframe === 'past';
+  }
+
+  /**
+   * Adds intake targets that are not in the plan yet; targets already planned keep their plan state
+   */
+  async importFromIntake(patientId: string): Promise<TreatmentTarget[]> {
+    const intake = await storage.getPatientIntake(patientId);
+    const plan = await storage.getTreatmentTargets(patientId);
+    if (!intake) return plan;
+
+    const planned = new Set(plan.map(target => target.intakeTargetId).filter(Boolean));
+    let position = this.nextPosition(plan);
+    const added = this.orderIntakeTargets(intake.traumaTargets as IntakeTraumaTarget[])
+      .filter(target => !planned.has(target.id));
+
+    for (const target of added) {
+      await storage.createTreatmentTarget({
+        patientId,
+        intakeTargetId: target.id,
+        position: position++,
+        timeframe: target.timeframe,
+        description: target.description,
+        negativeCognition: target.negativeCognition ?? null,
+        positiveCognition: target.positiveCognition ?? null,
+        baselineSud: target.sudEstimate ?? null,
+        status: target.status === 'processed' ? 'resolved' : 'pending',
+        resolvedAt: target.status === 'processed' ? new Date() : null
+      });
+    }
+
+    return added.length > 0 ? storage.getTreatmentTargets(patientId) : plan;
+  }
+
+  /**
+   * Next session: finish history taking, keep stabilising, resume an unfinished target or assess the next one
+   */
+  async selectNextTarget(patientId: string): Promise<TreatmentTargetSelection> {
+    const intake = await storage.getPatientIntake(patientId);
+    if (!intake) {
+      return { recommendedPhase: 'history-taking', reason: 'no_intake', blockers: [], target: null, targetMemory: null };
+    }
+    if (!intake.completedAt) {
+      return { recommendedPhase: 'history-taking', reason: 'intake_incomplete', blockers: [], target: null, targetMemory: null };
+    }
+
+    const blockers = historyTakingService.getReadinessBlockers(intake.stabilisationReadiness as StabilisationReadiness | null);
+    if (blockers.length > 0) {
+      return { recommendedPhase: 'preparation', reason: 'not_ready', blockers, target: null, targetMemory: null };
+    }
+
+    const plan = await storage.getTreatmentTargets(patientId);
+
+    // An incomplete target is reevaluated at the start of the next session, then reprocessing continues
+    const unfinished = plan.find(target => RESUMABLE_STATUSES.includes(target.status));
+    if (unfinished) {
+      return {
+        recommendedPhase: 'reevaluation',
+        reason: 'target_incomplete',
+        blockers: [],
+        target: unfinished,
+        targetMemory: this.toTargetMemory(unfinished)
+      };
+    }
+
+    const next = plan.find(target => target.status === 'pending');
+    if (!next) {
+      return { recommendedPhase: 'reevaluation', reason: 'all_targets_resolved', blockers: [], target: null, targetMemory: null };
+    }
+
+    return {
+      recommendedPhase: 'assessment',
+      reason: 'target_selected',
+      blockers: [],
+      target: next,
+      targetMemory: this.toTargetMemory(next)
+    };
+  }
+
+  /**
+   * Marks the target as worked on by a session; a retried start, even after the session ended, changes nothing
+   */
+  async startTarget(target: TreatmentTarget, sessionId: string): Promise<TreatmentTarget | undefined> {
+    if (target.lastSessionId === sessionId) {
+      return target;
+    }
+    return storage.updateTreatmentTarget(target.id, {
+      status: 'in-process',
+      sessionCount: target.sessionCount + 1,
+      lastSessionId: sessionId,
+      resolvedAt: null
+    });
+  }
+
+  /**
+   * Records where reprocessing left the target at the end of a session
+   */
+  async recordOutcome(target: TreatmentTarget, outcome: TreatmentTargetOutcome): Promise<TreatmentTarget | undefined> {
+    const resolved = outcome.sud <= RESOLVED_MAX_SUD &&
+      outcome.voc >= RESOLVED_MIN_VOC &&
+      outcome.bodyScanClear !== false;
+
+    return storage.updateTreatmentTarget(target.id, {
+      baselineSud: target.baselineSud ?? outcome.initialSud ?? null,
+      baselineVoc: target.baselineVoc ?? outcome.initialVoc ?? null,
+      latestSud: outcome.sud,
+      latestVoc: outcome.voc,
+      status: resolved ? 'resolved' : 'incomplete',
+      resolvedAt: resolved ? target.resolvedAt ?? new Date() : null,
+      // Counts sessions that never reported their start, e.g. while offline
+      sessionCount: target.lastSessionId === outcome.sessionId ? target.sessionCount : target.sessionCount + 1,
+      lastSessionId: outcome.sessionId
+    });
+  }
+
+  private toTargetMemory(target: TreatmentTarget): TreatmentTargetMemory {
+    const sud = target.latestSud ?? target.baselineSud ?? 10;
+    return {
+      id: target.id,
+      description: target.description,
+      initialSUD: sud,
+      currentSUD: sud,
+      currentVOC: target.latestVoc ?? target.baselineVoc ?? 1,
+      negativeBeliefs: target.negativeCognition ? [target.negativeCognition] : [],
+      positiveBeliefs: target.positiveCognition ? [target.positiveCognition] : []
+    };
+  }
+
+  private nextPosition(plan: TreatmentTarget[]): number {
+    return plan.reduce((max, target) => Math.max(max, target.position), 0) + 1;
+  }
+
+  // Past before present before future; within a timeframe by priority, then the most disturbing first
+  private orderIntakeTargets(targets: IntakeTraumaTarget[]): IntakeTraumaTarget[] {
+    return [...targets].sort((a, b) =>
+      TIMEFRAME_ORDER.indexOf(a.timeframe) - TIMEFRAME_ORDER.indexOf(b.timeframe) ||
+      a.priority - b.priority ||
+      (b.sudEstimate ?? 0) - (a.sudEstimate ?? 0)
+    );
+  }
+}
+
+export const treatmentPlanService = new TreatmentPlanService();
@@ -0,0 +1,394 @@
+/**
+ * Server-side Text-to-Speech Provider Registry
+ * Google Cloud, ElevenLabs and a local espeak-compatible engine behind one interface,
+ * with per-provider health, rate limits and automatic fallback
+ */
+
+import { spawn } from 'child_process';
+
+export type ServerTTSProviderId = 'google-cloud' | 'elevenlabs' | 'local';
+
+const DEFAULT_FALLBACK_ORDER: ServerTTSProviderId[] = ['google-cloud', 'elevenlabs', 'local'];
+
+// Upstream requests per minute, shared by all users of a provider
+const PROVIDER_RATE_LIMITS: Record<ServerTTSProviderId, number> = {
+  'google-cloud': 300,
+  elevenlabs: 30,
+  local: 60
+};
+
+// Consecutive failures before a provider is skipped for the cooldown period
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+const LOCAL_TTS_TIMEOUT_MS = 15000;
+const LOCAL_TTS_PROBE_TIMEOUT_MS = 3000;
+const LOCAL_TTS_SAMPLE_RATE = 22050;
+const LOCAL_TTS_BASE_WPM = 175;
+
+const ELEVENLABS_DEFAULT_VOICE_ID = 'EXAVITQu4vr4xnSDxMaL';
+const ELEVENLABS_DEFAULT_MODEL_ID = 'eleven_multilingual_v2';
+
+// Google Cloud request shape, used as the common request format for every provider
+export interface ServerTTSRequest {
+  input: { text?: string; ssml?: string };
+  voice: { languageCode: string; name: string; ssmlGender: 'FEMALE' | 'MALE' | 'NEUTRAL' };
+  audioConfig: {
+    audioEncoding: 'LINEAR16' | 'MP3' | 'OGG_OPUS' | 'MULAW' | 'ALAW';
+    speakingRate?: number;
+    pitch?: number;
+    volumeGainDb?: number;
+    sampleRateHertz?: number;
+    effectsProfileId?: string[];
+  };
+  enableTimePointing?: string[];
+}
+
+export interface ServerTTSProviderOptions {
+  elevenlabs?: { voiceId?: string; modelId?: string };
+}
+
+export interface ServerTTSResult {
+  audioContent: string; // Base64 encoded audio
+  audioConfig: { audioEncoding: string; sampleRateHertz: number };
+  timepoints?: Array<{ markName: string; timeSeconds: number }>;
+}
+
+export interface ServerTTSProvider {
+  readonly id: ServerTTSProviderId;
+  isConfigured(): boolean;
+  synthesize(request: ServerTTSRequest, options: ServerTTSProviderOptions): Promise<ServerTTSResult>;
+}
+
+export interface TTSAttempt {
+  provider: ServerTTSProviderId;
+  status: 'ok' | 'skipped' | 'failed';
+  reason?: string;
+  latency?: number;
+}
+
+interface ProviderState {
+  windowStart: number;
+  windowCount: number;
+  consecutiveFailures: number;
+  circuitOpenUntil: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+  requests: number;
+  errors: number;
+  totalLatency: number;
+}
+
+/**
+ * Google Cloud Text-to-Speech REST API
+ */
+export class GoogleCloudServerTTSProvider implements ServerTTSProvider {
+  readonly id = 'google-cloud' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_CLOUD_TTS_KEY;
+  }
+
+  async synthesize(request: ServerTTSRequest): Promise<ServerTTSResult> {
+    const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${process.env.GOOGLE_CLOUD_TTS_KEY}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(`Google Cloud TTS API error: ${response.status} ${errorData?.error?.message || response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      audioContent: result.audioContent,
+      audioConfig: {
+        audioEncoding: request.audioConfig.audioEncoding,
+        sampleRateHertz: request.audioConfig.sampleRateHertz || 24000
+      },
+      timepoints: result.timepoints
+    };
+  }
+}
+
+/**
+ * ElevenLabs text-to-speech, always returned as MP3
+ */
+export class ElevenLabsServerTTSProvider implements ServerTTSProvider {
+  readonly id = 'elevenlabs' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.ELEVENLABS_API_KEY;
+  }
+
+  async synthesize(request: ServerTTSRequest, options: ServerTTSProviderOptions): Promise<ServerTTSResult> {
+    const voiceId = options.elevenlabs?.voiceId || process.env.ELEVENLABS_DEFAULT_VOICE_ID || ELEVENLABS_DEFAULT_VOICE_ID;
+    const text = request.input.text ?? stripSSML(request.input.ssml ?? '');
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': process.env.ELEVENLABS_API_KEY || '',
+        'Content-Type': 'application/json',
+        'Accept': 'audio/mpeg'
+      },
+      body: JSON.stringify({
+        text,
+        model_id: options.elevenlabs?.modelId || ELEVENLABS_DEFAULT_MODEL_ID,
+        voice_settings: { stability: 0.8, similarity_boost: 0.9, use_speaker_boost: true }
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(`ElevenLabs synthesis error: ${response.status} ${errorData?.detail?.message || errorData?.detail || response.statusText}`);
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer());
+    return {
+      audioContent: audio.toString('base64'),
+      audioConfig: { audioEncoding: 'MP3', sampleRateHertz: 44100 }
+    };
+  }
+}
+
+/**
+ * Offline engine using an espeak-ng compatible command (LOCAL_TTS_COMMAND, default espeak-ng)
+ */
+export class LocalServerTTSProvider implements ServerTTSProvider {
+  readonly id = 'local' as const;
+  private commandAvailable = false; // Set by probe(), cleared when the command fails to start
+
+  private get command(): string {
+    return process.env.LOCAL_TTS_COMMAND || 'espeak-ng';
+  }
+
+  isConfigured(): boolean {
+    return this.commandAvailable;
+  }
+
+  /**
+   * Checks in the background whether the command runs; called once at startup
+   */
+  probe(): Promise<boolean> {
+    return new Promise(resolve => {
+      const child = spawn(this.command, ['--version'], { stdio: 'ignore' });
+      const timer = setTimeout(() => child.kill(), LOCAL_TTS_PROBE_TIMEOUT_MS);
+      const finish = (available: boolean) => {
+        clearTimeout(timer);
+        this.commandAvailable = available;
+        resolve(available);
+      };
+
+      child.on('error', () => finish(false));
+      child.on('close', code => finish(code === 0));
+    });
+  }
+
+  async synthesize(request: ServerTTSRequest): Promise<ServerTTSResult> {
+    const isSSML = !request.input.text && !!request.input.ssml;
+    const text = request.input.text ?? request.input.ssml ?? '';
+    const wordsPerMinute = Math.round(LOCAL_TTS_BASE_WPM * (request.audioConfig.speakingRate ?? 1));
+    // espeak pitch is 0-99 around 50; map roughly 2.5 units per semitone
+    const pitch = Math.round(Math.max(0, Math.min(99, 50 + (request.audioConfig.pitch ?? 0) * 2.5)));
+
+    const args = [
+      '--stdout',
+      '--stdin',
+      '-v', espeakVoice(request.voice.languageCode, request.voice.ssmlGender),
+      '-s', String(wordsPerMinute),
+      '-p', String(pitch),
+      ...(isSSML ? ['-m'] : [])
+    ];
+
+    const audio = await new Promise<Buffer>((resolve, reject) => {
+      const child = spawn(this.command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`Local TTS timed out after ${LOCAL_TTS_TIMEOUT_MS}ms`));
+      }, LOCAL_TTS_TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', error => {
+        clearTimeout(timer);
+        this.commandAvailable = false;
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0 && chunks.length > 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`Local TTS exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.end(text);
+    });
+
+    return {
+      audioContent: audio.toString('base64'),
+      audioConfig: { audioEncoding: 'LINEAR16', sampleRateHertz: LOCAL_TTS_SAMPLE_RATE }
+    };
+  }
+}
+
+/**
+ * Holds providers with their rate windows and circuit state and picks one per request
+ */
+export class TTSProviderRegistry {
+  private providers = new Map<ServerTTSProviderId, ServerTTSProvider>();
+  private states = new Map<ServerTTSProviderId, ProviderState>();
+
+  register(provider: ServerTTSProvider): void {
+    this.providers.set(provider.id, provider);
+    this.states.set(provider.id, {
+      windowStart: Date.now(),
+      windowCount: 0,
+      consecutiveFailures: 0,
+      circuitOpenUntil: 0,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+      requests: 0,
+      errors: 0,
+      totalLatency: 0
+    });
+  }
+
+  /**
+   * Fallback order from TTS_FALLBACK_ORDER (comma separated), limited to registered providers
+   */
+  getFallbackOrder(): ServerTTSProviderId[] {
+    const configured = (process.env.TTS_FALLBACK_ORDER || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter((id): id is ServerTTSProviderId => this.providers.has(id as ServerTTSProviderId));
+    return configured.length > 0 ? configured : DEFAULT_FALLBACK_ORDER.filter(id => this.providers.has(id));
+  }
+
+  async synthesize(
+    preference: ServerTTSProviderId | 'auto',
+    request: ServerTTSRequest,
+    options: ServerTTSProviderOptions = {}
+  ): Promise<{ provider: ServerTTSProviderId; result: ServerTTSResult; attempts: TTSAttempt[] } | { attempts: TTSAttempt[] }> {
+    const order = preference === 'auto' ? this.getFallbackOrder() : [preference];
+    const attempts: TTSAttempt[] = [];
+
+    for (const id of order) {
+      const provider = this.providers.get(id);
+      const state = this.states.get(id);
+      if (!provider || !state) {
+        attempts.push({ provider: id, status: 'skipped', reason: 'not registered' });
+        continue;
+      }
+
+      const unavailable = this.unavailableReason(provider, state);
+      if (unavailable) {
+        attempts.push({ provider: id, status: 'skipped', reason: unavailable });
+        continue;
+      }
+
+      state.windowCount++;
+      state.requests++;
+      const startTime = Date.now();
+
+      try {
+        const result = await provider.synthesize(request, options);
+        const latency = Date.now() - startTime;
+        state.consecutiveFailures = 0;
+        state.lastSuccessAt = Date.now();
+        state.totalLatency += latency;
+        attempts.push({ provider: id, status: 'ok', latency });
+        return { provider: id, result, attempts };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        state.errors++;
+        state.consecutiveFailures++;
+        state.lastError = message;
+        state.lastErrorAt = Date.now();
+        if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+          state.circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+        }
+        console.error(`❌ TTS provider ${id} failed:`, message);
+        attempts.push({ provider: id, status: 'failed', reason: message, latency: Date.now() - startTime });
+      }
+    }
+
+    return { attempts };
+  }
+
+  getHealth() {
+    const now = Date.now();
+    return Object.fromEntries(Array.from(this.providers.values()).map(provider => {
+      const state = this.states.get(provider.id)!;
+      this.rollWindow(state, now);
+      const configured = provider.isConfigured();
+      const circuitOpen = state.circuitOpenUntil > now;
+      const successes = state.requests - state.errors;
+
+      return [provider.id, {
+        configured,
+        available: configured && !circuitOpen && state.windowCount < PROVIDER_RATE_LIMITS[provider.id],
+        circuit: circuitOpen ? 'open' : 'closed',
+        circuitOpenUntil: circuitOpen ? new Date(state.circuitOpenUntil).toISOString() : null,
+        consecutiveFailures: state.consecutiveFailures,
+        lastError: state.lastError,
+        lastErrorAt: state.lastErrorAt ? new Date(state.lastErrorAt).toISOString() : null,
+        lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : null,
+        rateLimit: {
+          limit: PROVIDER_RATE_LIMITS[provider.id],
+          used: state.windowCount,
+          resetsAt: new Date(state.windowStart + RATE_WINDOW_MS).toISOString()
+        },
+        requests: state.requests,
+        errors: state.errors,
+        avgLatency: successes > 0 ? Math.round(state.totalLatency / successes) : 0
+      }];
+    }));
+  }
+
+  private unavailableReason(provider: ServerTTSProvider, state: ProviderState): string | null {
+    const now = Date.now();
+    if (!provider.isConfigured()) return 'not configured';
+    if (state.circuitOpenUntil > now) return `circuit open after ${state.consecutiveFailures} failures`;
+    this.rollWindow(state, now);
+    if (state.windowCount >= PROVIDER_RATE_LIMITS[provider.id]) return 'provider rate limit reached';
+    return null;
+  }
+
+  private rollWindow(state: ProviderState, now: number): void {
+    if (now - state.windowStart >= RATE_WINDOW_MS) {
+      state.windowStart = now;
+      state.windowCount = 0;
+    }
+  }
+}
+
+function stripSSML(ssml: string): string {
+  return ssml.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// espeak voices are language codes with an optional +variant
+function espeakVoice(languageCode: string, gender: ServerTTSRequest['voice']['ssmlGender']): string {
+  const [language, region] = languageCode.toLowerCase().split('-');
+  const base = language === 'en' && region ? `en-${region}` : language;
+  return gender === 'FEMALE' ? `${base}+f3` : base;
+}
+
+export const ttsProviderRegistry = new TTSProviderRegistry();
+ttsProviderRegistry.register(new GoogleCloudServerTTSProvider());
+ttsProviderRegistry.register(new ElevenLabsServerTTSProvider());
+const localTTSProvider = new LocalServerTTSProvider();
+ttsProviderRegistry.register(localTTSProvider);
+localTTSProvider.probe().then(available => {
+  if (!available) console.log('ℹ️ Local TTS command not available, the local provider is disabled');
+});
@@ -17,6 +17,26 @@ import {
   type InsertMemoryInsight,
   type EmotionalPatternAnalysis,
   type InsertEmotionalPatternAnalysis,
+  type SessionNote,
+  type InsertSessionNote,
+  type CaseloadAssignment,
+  type InsertCaseloadAssignment,
+  type CrisisEvent,
+  type InsertCrisisEvent,
+  type SyncOperation,
+  type InsertSyncOperation,
+  type PatientIntake,
+  type InsertPatientIntake,
+  type TreatmentTarget,
+  type InsertTreatmentTarget,
+  type AdaptiveRuleSet,
+  type InsertAdaptiveRuleSet,
+  type BLSConfiguration,
+  type InsertBLSConfiguration,
+  type TherapeuticMemory,
+  type InsertTherapeuticMemory,
+  type AITherapySession,
+  type InsertAITherapySession,
   users,
   emdrSessions,
   emotionCaptures,
@@ -25,11 +45,22 @@ import {
   sessionComparisons,
   breakthroughMoments,
   memoryInsights,
-  emotionalPatternAnalysis
+  emotionalPatternAnalysis,
+  sessionNotes,
+  caseloadAssignments,
+  crisisEvents,
+  syncOperations,
+  patientIntakes,
+  treatmentTargets,
+  adaptiveRuleSets,
+  blsConfigurations,
+  therapeuticMemory,
+  aiTherapySessions
 } from "@shared/schema";
+import type { AIInterventionLogEntry } from "../shared/types";
 import { randomUUID } from "crypto";
 import { db } from './db';
-import { eq, desc, and, count, sql } from 'drizzle-orm';
+import { eq, desc, asc, and, or, gt, gte, lte, isNull, inArray, count, sql } from 'drizzle-orm';
 
 // modify the interface with any CRUD methods
 // you might need
@@ -39,6 +70,7 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>; // Alias for getUser
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: { id: string; email: string; firstName: string; lastName: string; profileImageUrl: string }): Promise<User>;
   
@@ -46,6 +78,8 @@ export interface IStorage {
   createSession(session: InsertSession): Promise<Session>;
   getSession(id: string): Promise<Session | undefined>;
   getActiveSessionByPatient(patientId: string): Promise<Session | undefined>;
+  getSessionByClientId(patientId: string, clientSessionId: string): Promise<Session | undefined>;
+  getSessionsByPatient(patientId: string, timeRange?: { start: Date; end: Date }): Promise<Session[]>;
   updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined>;
   
   // Emotion capture methods
@@ -53,6 +87,67 @@ export interface IStorage {
   getEmotionCaptures(sessionId: string, limit?: number): Promise<EmotionCapture[]>;
   getLatestEmotionCapture(sessionId: string): Promise<EmotionCapture | undefined>;
   
+  // Session note methods
+  createSessionNote(note: InsertSessionNote): Promise<SessionNote>;
+  getSessionNote(id: string): Promise<SessionNote | undefined>;
+  getSessionNotes(sessionId: string, options?: { phase?: string; includePrivate?: boolean }): Promise<SessionNote[]>;
+  updateSessionNote(id: string, updates: Partial<SessionNote>): Promise<SessionNote | undefined>;
+  deleteSessionNote(id: string): Promise<boolean>;
+  
+  // Caseload assignment methods
+  createCaseloadAssignment(assignment: InsertCaseloadAssignment): Promise<CaseloadAssignment>;
+  getCaseloadAssignment(id: string): Promise<CaseloadAssignment | undefined>;
+  getCaseloadAssignments(filter: { therapistId?: string; patientId?: string; status?: string }): Promise<CaseloadAssignment[]>;
+  getActiveCaseloadAssignment(therapistId: string, patientId: string): Promise<CaseloadAssignment | undefined>;
+  updateCaseloadAssignment(id: string, updates: Partial<CaseloadAssignment>): Promise<CaseloadAssignment | undefined>;
+  
+  // Crisis event methods
+  createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent>;
+  getCrisisEvent(id: string): Promise<CrisisEvent | undefined>;
+  getCrisisEvents(filter: { patientId?: string; therapistId?: string; sessionId?: string; statuses?: string[] }): Promise<CrisisEvent[]>;
+  updateCrisisEvent(id: string, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined>;
+  
+  // Offline sync idempotency ledger
+  getSyncOperation(userId: string, idempotencyKey: string): Promise<SyncOperation | undefined>;
+  createSyncOperation(operation: InsertSyncOperation): Promise<SyncOperation>;
+  
+  // Patient intake methods (one history-taking record per patient)
+  getPatientIntake(patientId: string): Promise<PatientIntake | undefined>;
+  upsertPatientIntake(intake: InsertPatientIntake): Promise<PatientIntake>;
+  
+  // Treatment plan methods (targets in plan order)
+  createTreatmentTarget(target: InsertTreatmentTarget): Promise<TreatmentTarget>;
+  getTreatmentTarget(id: string): Promise<TreatmentTarget | undefined>;
+  getTreatmentTargets(patientId: string): Promise<TreatmentTarget[]>;
+  updateTreatmentTarget(id: string, updates: Partial<TreatmentTarget>): Promise<TreatmentTarget | undefined>;
+  deleteTreatmentTarget(id: string): Promise<boolean>;
+  
+  // Adaptive BLS rule set methods (therapistId is null for the clinic-wide set)
+  getAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<AdaptiveRuleSet | undefined>;
+  saveAdaptiveRuleSet(ruleSet: InsertAdaptiveRuleSet): Promise<AdaptiveRuleSet>;
+  deleteAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<boolean>;
+  
+  // BLS configuration preset methods
+  createBLSConfiguration(preset: InsertBLSConfiguration): Promise<BLSConfiguration>;
+  getBLSConfiguration(id: string): Promise<BLSConfiguration | undefined>;
+  getBLSConfigurationsByCreator(userId: string): Promise<BLSConfiguration[]>;
+  getPublicBLSConfigurations(): Promise<BLSConfiguration[]>;
+  deleteBLSConfiguration(id: string): Promise<boolean>;
+  
+  // Therapeutic memory methods (one record per patient-therapist pair)
+  getTherapeuticMemory(patientId: string, therapistId: string): Promise<TherapeuticMemory | undefined>;
+  getTherapeuticMemoriesByPatient(patientId: string): Promise<TherapeuticMemory[]>;
+  // Reads and writes in one step, so concurrent updates to the same record are applied one after another
+  updateTherapeuticMemory(
+    patientId: string,
+    therapistId: string,
+    update: (existing: TherapeuticMemory | undefined) => InsertTherapeuticMemory
+  ): Promise<TherapeuticMemory>;
+  
+  // AI therapy log methods (one log per session, interventions appended in call order)
+  getAITherapySession(sessionId: string): Promise<AITherapySession | undefined>;
+  appendAIIntervention(log: InsertAITherapySession, intervention: AIInterventionLogEntry): Promise<AITherapySession>;
+  
   // === SESSION MEMORY & PROGRESS SYSTEM ===
   
   // Session Memory Snapshots
@@ -66,6 +161,7 @@ export interface IStorage {
   getProgressMetrics(patientId: string, metricType?: string): Promise<ProgressMetric[]>;
   getLatestProgressMetric(patientId: string, metricType: string): Promise<ProgressMetric | undefined>;
   updateProgressMetric(id: string, updates: Partial<ProgressMetric>): Promise<ProgressMetric | undefined>;
+  invalidateProgressMetrics(patientId: string, metricType: string): Promise<number>;
   
   // Session Comparisons
   createSessionComparison(comparison: InsertSessionComparison): Promise<SessionComparison>;
@@ -100,6 +196,16 @@ export class MemStorage implements IStorage {
   private sessions: Map<string, Session>;
   private emotionCaptures: Map<string, EmotionCapture>;
   private sessionEmotions: Map<string, string[]>; // sessionId -> emotionIds
+  private sessionNotes: Map<string, SessionNote>;
+  private caseloadAssignments: Map<string, CaseloadAssignment>;
+  private crisisEvents: Map<string, CrisisEvent>;
+  private syncOperations: Map<string, SyncOperation>; // `${userId}:${idempotencyKey}` -> operation
+  private patientIntakes: Map<string, PatientIntake>; // patientId -> intake
+  private treatmentTargets: Map<string, TreatmentTarget>;
+  private adaptiveRuleSets: Map<string, AdaptiveRuleSet>; // `${scope}:${therapistId ?? ''}` -> rule set
+  private blsConfigurations: Map<string, BLSConfiguration>;
+  private therapeuticMemories: Map<string, TherapeuticMemory>; // `${patientId}:${therapistId}` -> memory
+  private aiTherapySessions: Map<string, AITherapySession>; // sessionId -> AI therapy log
   
   // === SESSION MEMORY & PROGRESS SYSTEM ===
   private sessionSnapshots: Map<string, SessionMemorySnapshot>;
@@ -124,6 +230,16 @@ export class MemStorage implements IStorage {
     this.sessions = new Map();
     this.emotionCaptures = new Map();
     this.sessionEmotions = new Map();
+    this.sessionNotes = new Map();
+    this.caseloadAssignments = new Map();
+    this.crisisEvents = new Map();
+    this.syncOperations = new Map();
+    this.patientIntakes = new Map();
+    this.treatmentTargets = new Map();
+    this.adaptiveRuleSets = new Map();
+    this.blsConfigurations = new Map();
+    this.therapeuticMemories = new Map();
+    this.aiTherapySessions = new Map();
     
     // Initialize memory system maps
     this.sessionSnapshots = new Map();
@@ -159,6 +275,12 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email === email,
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const user: User = { 
@@ -169,7 +291,7 @@ export class MemStorage implements IStorage {
       firstName: insertUser.firstName ?? null,
       lastName: insertUser.lastName ?? null,
       profileImageUrl: null,
-      password: null, // For OIDC users
+      password: insertUser.password ?? null, // Null for OIDC users
       specialization: null,
       licenseNumber: null,
       clinicalLevel: null,
@@ -232,6 +354,8 @@ export class MemStorage implements IStorage {
       sudsFinal: session.sudsFinal ?? null,
       vocInitial: session.vocInitial ?? null,
       vocFinal: session.vocFinal ?? null,
+      clientSessionId: session.clientSessionId ?? null,
+      clientUpdatedAt: session.clientUpdatedAt ?? null,
       createdAt: new Date()
     };
     this.sessions.set(id, newSession);
@@ -248,6 +372,19 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getSessionByClientId(patientId: string, clientSessionId: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find(
+      (session) => session.patientId === patientId && session.clientSessionId === clientSessionId
+    );
+  }
+  
+  async getSessionsByPatient(patientId: string, timeRange?: { start: Date; end: Date }): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.patientId === patientId)
+      .filter(session => !timeRange || (session.startTime >= timeRange.start && session.startTime <= timeRange.end))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
   async updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined> {
     const session = this.sessions.get(id);
     if (session) {
@@ -265,7 +402,7 @@ export class MemStorage implements IStorage {
       id,
       patientId: emotion.patientId,
       sessionId: emotion.sessionId,
-      timestamp: new Date(),
+      timestamp: emotion.timestamp ?? new Date(),
       source: emotion.source,
       arousal: emotion.arousal,
       valence: emotion.valence,
@@ -304,6 +441,390 @@ export class MemStorage implements IStorage {
     return this.emotionCaptures.get(lastId);
   }
   
+  // Session note methods
+  async createSessionNote(note: InsertSessionNote): Promise<SessionNote> {
+    const id = randomUUID();
+    const newNote: SessionNote = {
+      id,
+      sessionId: note.sessionId,
+      authorId: note.authorId,
+      timestamp: new Date(),
+      phase: note.phase,
+      content: note.content,
+      emotionalState: note.emotionalState ?? null,
+      sudsLevel: note.sudsLevel ?? null,
+      vocLevel: note.vocLevel ?? null,
+      isPrivate: note.isPrivate ?? false
+    };
+    this.sessionNotes.set(id, newNote);
+    return newNote;
+  }
+  
+  async getSessionNote(id: string): Promise<SessionNote | undefined> {
+    return this.sessionNotes.get(id);
+  }
+  
+  async getSessionNotes(sessionId: string, options: { phase?: string; includePrivate?: boolean } = {}): Promise<SessionNote[]> {
+    const includePrivate = options.includePrivate ?? true;
+    return Array.from(this.sessionNotes.values())
+      .filter(note => note.sessionId === sessionId)
+      .filter(note => !options.phase || note.phase === options.phase)
+      .filter(note => includePrivate || !note.isPrivate)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  
+  async updateSessionNote(id: string, updates: Partial<SessionNote>): Promise<SessionNote | undefined> {
+    const note = this.sessionNotes.get(id);
+    if (note) {
+      const updatedNote = { ...note, ...updates };
+      this.sessionNotes.set(id, updatedNote);
+      return updatedNote;
+    }
+    return undefined;
+  }
+  
+  async deleteSessionNote(id: string): Promise<boolean> {
+    return this.sessionNotes.delete(id);
+  }
+  
+  // Caseload assignment methods
+  async createCaseloadAssignment(assignment: InsertCaseloadAssignment): Promise<CaseloadAssignment> {
+    const id = randomUUID();
+    const newAssignment: CaseloadAssignment = {
+      id,
+      therapistId: assignment.therapistId,
+      patientId: assignment.patientId,
+      startDate: assignment.startDate ?? new Date(),
+      endDate: assignment.endDate ?? null,
+      status: assignment.status ?? 'active',
+      notes: assignment.notes ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.caseloadAssignments.set(id, newAssignment);
+    return newAssignment;
+  }
+  
+  async getCaseloadAssignment(id: string): Promise<CaseloadAssignment | undefined> {
+    return this.caseloadAssignments.get(id);
+  }
+  
+  async getCaseloadAssignments(filter: { therapistId?: string; patientId?: string; status?: string }): Promise<CaseloadAssignment[]> {
+    return Array.from(this.caseloadAssignments.values())
+      .filter(assignment => !filter.therapistId || assignment.therapistId === filter.therapistId)
+      .filter(assignment => !filter.patientId || assignment.patientId === filter.patientId)
+      .filter(assignment => !filter.status || assignment.status === filter.status)
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+  }
+  
+  async getActiveCaseloadAssignment(therapistId: string, patientId: string): Promise<CaseloadAssignment | undefined> {
+    const now = Date.now();
+    return Array.from(this.caseloadAssignments.values()).find(assignment =>
+      assignment.therapistId === therapistId &&
+      assignment.patientId === patientId &&
+      assignment.status === 'active' &&
+      assignment.startDate.getTime() <= now &&
+      (!assignment.endDate || assignment.endDate.getTime() > now)
+    );
+  }
+  
+  async updateCaseloadAssignment(id: string, updates: Partial<CaseloadAssignment>): Promise<CaseloadAssignment | undefined> {
+    const assignment = this.caseloadAssignments.get(id);
+    if (assignment) {
+      const updatedAssignment = { ...assignment, ...updates, updatedAt: new Date() };
+      this.caseloadAssignments.set(id, updatedAssignment);
+      return updatedAssignment;
+    }
+    return undefined;
+  }
+  
+  // Crisis event methods
+  async createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent> {
+    const id = randomUUID();
+    const newEvent: CrisisEvent = {
+      id,
+      patientId: event.patientId,
+      sessionId: event.sessionId ?? null,
+      therapistId: event.therapistId ?? null,
+      source: event.source,
+      riskLevel: event.riskLevel,
+      triggers: event.triggers ?? null,
+      detection: event.detection,
+      status: event.status ?? 'open',
+      escalationLevel: event.escalationLevel ?? 0,
+      sessionPaused: event.sessionPaused ?? false,
+      acknowledgedBy: event.acknowledgedBy ?? null,
+      acknowledgedAt: event.acknowledgedAt ?? null,
+      escalatedAt: event.escalatedAt ?? null,
+      resolvedBy: event.resolvedBy ?? null,
+      resolvedAt: event.resolvedAt ?? null,
+      resolutionNotes: event.resolutionNotes ?? null,
+      auditLog: event.auditLog ?? [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.crisisEvents.set(id, newEvent);
+    return newEvent;
+  }
+  
+  async getCrisisEvent(id: string): Promise<CrisisEvent | undefined> {
+    return this.crisisEvents.get(id);
+  }
+  
+  async getCrisisEvents(filter: { patientId?: string; therapistId?: string; sessionId?: string; statuses?: string[] }): Promise<CrisisEvent[]> {
+    return Array.from(this.crisisEvents.values())
+      .filter(event => !filter.patientId || event.patientId === filter.patientId)
+      .filter(event => !filter.therapistId || event.therapistId === filter.therapistId)
+      .filter(event => !filter.sessionId || event.sessionId === filter.sessionId)
+      .filter(event => !filter.statuses || filter.statuses.includes(event.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async updateCrisisEvent(id: string, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    const event = this.crisisEvents.get(id);
+    if (event) {
+      const updatedEvent = { ...event, ...updates, updatedAt: new Date() };
+      this.crisisEvents.set(id, updatedEvent);
+      return updatedEvent;
+    }
+    return undefined;
+  }
+  
+  // Offline sync idempotency ledger
+  async getSyncOperation(userId: string, idempotencyKey: string): Promise<SyncOperation | undefined> {
+    return this.syncOperations.get(`${userId}:${idempotencyKey}`);
+  }
+  
+  async createSyncOperation(operation: InsertSyncOperation): Promise<SyncOperation> {
+    const newOperation: SyncOperation = {
+      id: randomUUID(),
+      userId: operation.userId,
+      idempotencyKey: operation.idempotencyKey,
+      operationType: operation.operationType,
+      clientSessionId: operation.clientSessionId,
+      sessionId: operation.sessionId ?? null,
+      result: operation.result,
+      createdAt: new Date()
+    };
+    this.syncOperations.set(`${operation.userId}:${operation.idempotencyKey}`, newOperation);
+    return newOperation;
+  }
+  
+  // Patient intake methods
+  async getPatientIntake(patientId: string): Promise<PatientIntake | undefined> {
+    return this.patientIntakes.get(patientId);
+  }
+  
+  async upsertPatientIntake(intake: InsertPatientIntake): Promise<PatientIntake> {
+    const existing = this.patientIntakes.get(intake.patientId);
+    const now = new Date();
+    const saved: PatientIntake = {
+      id: existing?.id ?? randomUUID(),
+      patientId: intake.patientId,
+      recordedBy: intake.recordedBy,
+      presentingProblem: intake.presentingProblem ?? null,
+      treatmentGoals: intake.treatmentGoals ?? null,
+      traumaTargets: intake.traumaTargets ?? [],
+      resources: intake.resources ?? [],
+      stabilisationReadiness: intake.stabilisationReadiness ?? null,
+      completedAt: intake.completedAt ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.patientIntakes.set(intake.patientId, saved);
+    return saved;
+  }
+  
+  // Treatment plan methods
+  async createTreatmentTarget(target: InsertTreatmentTarget): Promise<TreatmentTarget> {
+    const id = randomUUID();
+    const newTarget: TreatmentTarget = {
+      id,
+      patientId: target.patientId,
+      intakeTargetId: target.intakeTargetId ?? null,
+      position: target.position,
+      timeframe: target.timeframe,
+      description: target.description,
+      touchstoneId: target.touchstoneId ?? null,
+      negativeCognition: target.negativeCognition ?? null,
+      positiveCognition: target.positiveCognition ?? null,
+      baselineSud: target.baselineSud ?? null,
+      baselineVoc: target.baselineVoc ?? null,
+      latestSud: target.latestSud ?? null,
+      latestVoc: target.latestVoc ?? null,
+      status: target.status ?? 'pending',
+      sessionCount: target.sessionCount ?? 0,
+      lastSessionId: target.lastSessionId ?? null,
+      resolvedAt: target.resolvedAt ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.treatmentTargets.set(id, newTarget);
+    return newTarget;
+  }
+  
+  async getTreatmentTarget(id: string): Promise<TreatmentTarget | undefined> {
+    return this.treatmentTargets.get(id);
+  }
+  
+  async getTreatmentTargets(patientId: string): Promise<TreatmentTarget[]> {
+    return Array.from(this.treatmentTargets.values())
+      .filter(target => target.patientId === patientId)
+      .sort((a, b) => a.position - b.position);
+  }
+  
+  async updateTreatmentTarget(id: string, updates: Partial<TreatmentTarget>): Promise<TreatmentTarget | undefined> {
+    const target = this.treatmentTargets.get(id);
+    if (target) {
+      const updatedTarget = { ...target, ...updates, updatedAt: new Date() };
+      this.treatmentTargets.set(id, updatedTarget);
+      return updatedTarget;
+    }
+    return undefined;
+  }
+  
+  async deleteTreatmentTarget(id: string): Promise<boolean> {
+    return this.treatmentTargets.delete(id);
+  }
+  
+  // Adaptive BLS rule set methods
+  async getAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<AdaptiveRuleSet | undefined> {
+    return this.adaptiveRuleSets.get(`${scope}:${therapistId ?? ''}`);
+  }
+  
+  async saveAdaptiveRuleSet(ruleSet: InsertAdaptiveRuleSet): Promise<AdaptiveRuleSet> {
+    const key = `${ruleSet.scope}:${ruleSet.therapistId ?? ''}`;
+    const existing = this.adaptiveRuleSets.get(key);
+    const now = new Date();
+    const saved: AdaptiveRuleSet = {
+      id: existing?.id ?? randomUUID(),
+      scope: ruleSet.scope,
+      therapistId: ruleSet.therapistId ?? null,
+      name: ruleSet.name,
+      rules: ruleSet.rules ?? [],
+      updatedBy: ruleSet.updatedBy,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.adaptiveRuleSets.set(key, saved);
+    return saved;
+  }
+  
+  async deleteAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<boolean> {
+    return this.adaptiveRuleSets.delete(`${scope}:${therapistId ?? ''}`);
+  }
+  
+  // BLS configuration preset methods
+  async createBLSConfiguration(preset: InsertBLSConfiguration): Promise<BLSConfiguration> {
+    const id = randomUUID();
+    const newPreset: BLSConfiguration = {
+      id,
+      name: preset.name,
+      description: preset.description ?? null,
+      rateHz: preset.rateHz ?? 1,
+      pattern: preset.pattern ?? 'horizontal',
+      color: preset.color ?? '#3b82f6',
+      size: preset.size ?? 20,
+      soundEnabled: preset.soundEnabled ?? true,
+      adaptiveMode: preset.adaptiveMode ?? false,
+      config: preset.config ?? null,
+      createdBy: preset.createdBy ?? null,
+      isPublic: preset.isPublic ?? false,
+      createdAt: new Date()
+    };
+    this.blsConfigurations.set(id, newPreset);
+    return newPreset;
+  }
+  
+  async getBLSConfiguration(id: string): Promise<BLSConfiguration | undefined> {
+    return this.blsConfigurations.get(id);
+  }
+  
+  async getBLSConfigurationsByCreator(userId: string): Promise<BLSConfiguration[]> {
+    return Array.from(this.blsConfigurations.values())
+      .filter(preset => preset.createdBy === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getPublicBLSConfigurations(): Promise<BLSConfiguration[]> {
+    return Array.from(this.blsConfigurations.values())
+      .filter(preset => preset.isPublic)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async deleteBLSConfiguration(id: string): Promise<boolean> {
+    return this.blsConfigurations.delete(id);
+  }
+  
+  // Therapeutic memory methods
+  async getTherapeuticMemory(patientId: string, therapistId: string): Promise<TherapeuticMemory | undefined> {
+    return this.therapeuticMemories.get(`${patientId}:${therapistId}`);
+  }
+  
+  async getTherapeuticMemoriesByPatient(patientId: string): Promise<TherapeuticMemory[]> {
+    return Array.from(this.therapeuticMemories.values())
+      .filter(memory => memory.patientId === patientId)
+      .sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime());
+  }
+  
+  async updateTherapeuticMemory(
+    patientId: string,
+    therapistId: string,
+    update: (existing: TherapeuticMemory | undefined) => InsertTherapeuticMemory
+  ): Promise<TherapeuticMemory> {
+    const key = `${patientId}:${therapistId}`;
+    const existing = this.therapeuticMemories.get(key);
+    const memory = update(existing);
+    const now = new Date();
+    const saved: TherapeuticMemory = {
+      id: existing?.id ?? randomUUID(),
+      patientId,
+      therapistId,
+      sessionCount: memory.sessionCount ?? existing?.sessionCount ?? 0,
+      keyThemes: memory.keyThemes ?? existing?.keyThemes ?? null,
+      progressMetrics: memory.progressMetrics ?? existing?.progressMetrics ?? {},
+      adaptivePreferences: memory.adaptivePreferences ?? existing?.adaptivePreferences ?? {},
+      emotionalPatterns: memory.emotionalPatterns ?? existing?.emotionalPatterns ?? {},
+      treatmentPlan: memory.treatmentPlan ?? existing?.treatmentPlan ?? null,
+      lastSessionId: memory.lastSessionId ?? existing?.lastSessionId ?? null,
+      lastUpdated: now,
+      createdAt: existing?.createdAt ?? now
+    };
+    this.therapeuticMemories.set(key, saved);
+    return saved;
+  }
+  
+  // AI therapy log methods
+  async getAITherapySession(sessionId: string): Promise<AITherapySession | undefined> {
+    return this.aiTherapySessions.get(sessionId);
+  }
+  
+  async appendAIIntervention(log: InsertAITherapySession, intervention: AIInterventionLogEntry): Promise<AITherapySession> {
+    const existing = this.aiTherapySessions.get(log.sessionId);
+    const emotionCaptureIds = Array.from(new Set([
+      ...(existing?.emotionCaptureIds ?? []),
+      ...(log.emotionCaptureIds ?? [])
+    ]));
+    const saved: AITherapySession = {
+      id: existing?.id ?? randomUUID(),
+      sessionId: log.sessionId,
+      therapistId: log.therapistId,
+      patientId: log.patientId,
+      startTime: existing?.startTime ?? new Date(),
+      endTime: log.endTime ?? existing?.endTime ?? null,
+      aiModel: log.aiModel ?? existing?.aiModel ?? 'gpt-4',
+      interventions: [...((existing?.interventions as AIInterventionLogEntry[]) ?? []), intervention],
+      emotionCaptureIds,
+      sudsChange: log.sudsChange ?? existing?.sudsChange ?? null,
+      vocChange: log.vocChange ?? existing?.vocChange ?? null,
+      emotionalShift: log.emotionalShift ?? existing?.emotionalShift ?? null,
+      notes: log.notes ?? existing?.notes ?? null,
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.aiTherapySessions.set(log.sessionId, saved);
+    return saved;
+  }
+  
   // === SESSION MEMORY & PROGRESS SYSTEM IMPLEMENTATION ===
   
   // Session Memory Snapshots
@@ -314,7 +835,7 @@ export class MemStorage implements IStorage {
       sessionId: snapshot.sessionId,
       patientId: snapshot.patientId,
       snapshotType: snapshot.snapshotType as any,
-      timestamp: new Date(),
+      timestamp: snapshot.timestamp ?? new Date(),
       emotionalSnapshot: snapshot.emotionalSnapshot,
       phaseContext: snapshot.phaseContext,
       sudsLevel: snapshot.sudsLevel ?? null,
@@ -438,6 +959,17 @@ export class MemStorage implements IStorage {
     return undefined;
   }
   
+  async invalidateProgressMetrics(patientId: string, metricType: string): Promise<number> {
+    let invalidated = 0;
+    Array.from(this.progressMetrics.values()).forEach(metric => {
+      if (metric.patientId === patientId && metric.metricType === metricType && metric.isValid) {
+        this.progressMetrics.set(metric.id, { ...metric, isValid: false });
+        invalidated++;
+      }
+    });
+    return invalidated;
+  }
+  
   // Session Comparisons
   async createSessionComparison(comparison: InsertSessionComparison): Promise<SessionComparison> {
     const id = randomUUID();
@@ -736,6 +1268,11 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email));
+    return result[0];
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const result = await db.insert(users).values(insertUser).returning();
     return result[0];
@@ -793,6 +1330,29 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
+  async getSessionByClientId(patientId: string, clientSessionId: string): Promise<Session | undefined> {
+    const result = await db.select()
+      .from(emdrSessions)
+      .where(and(
+        eq(emdrSessions.patientId, patientId),
+        eq(emdrSessions.clientSessionId, clientSessionId)
+      ));
+    return result[0];
+  }
+  
+  async getSessionsByPatient(patientId: string, timeRange?: { start: Date; end: Date }): Promise<Session[]> {
+    const conditions = [eq(emdrSessions.patientId, patientId)];
+    if (timeRange) {
+      conditions.push(gte(emdrSessions.startTime, timeRange.start));
+      conditions.push(lte(emdrSessions.startTime, timeRange.end));
+    }
+    
+    return await db.select()
+      .from(emdrSessions)
+      .where(and(...conditions))
+      .orderBy(asc(emdrSessions.startTime));
+  }
+  
   async updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined> {
     const result = await db.update(emdrSessions)
       .set(updates)
@@ -825,6 +1385,361 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
+  // Session note methods
+  async createSessionNote(note: InsertSessionNote): Promise<SessionNote> {
+    const result = await db.insert(sessionNotes).values(note).returning();
+    return result[0];
+  }
+  
+  async getSessionNote(id: string): Promise<SessionNote | undefined> {
+    const result = await db.select().from(sessionNotes).where(eq(sessionNotes.id, id));
+    return result[0];
+  }
+  
+  async getSessionNotes(sessionId: string, options: { phase?: string; includePrivate?: boolean } = {}): Promise<SessionNote[]> {
+    const conditions = [eq(sessionNotes.sessionId, sessionId)];
+    if (options.phase) {
+      conditions.push(eq(sessionNotes.phase, options.phase));
+    }
+    if (options.includePrivate === false) {
+      conditions.push(eq(sessionNotes.isPrivate, false));
+    }
+    
+    return await db.select()
+      .from(sessionNotes)
+      .where(and(...conditions))
+      .orderBy(asc(sessionNotes.timestamp));
+  }
+  
+  async updateSessionNote(id: string, updates: Partial<SessionNote>): Promise<SessionNote | undefined> {
+    const result = await db.update(sessionNotes)
+      .set(updates)
+      .where(eq(sessionNotes.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteSessionNote(id: string): Promise<boolean> {
+    const result = await db.delete(sessionNotes)
+      .where(eq(sessionNotes.id, id))
+      .returning({ id: sessionNotes.id });
+    return result.length > 0;
+  }
+  
+  // Caseload assignment methods
+  async createCaseloadAssignment(assignment: InsertCaseloadAssignment): Promise<CaseloadAssignment> {
+    const result = await db.insert(caseloadAssignments).values(assignment).returning();
+    return result[0];
+  }
+  
+  async getCaseloadAssignment(id: string): Promise<CaseloadAssignment | undefined> {
+    const result = await db.select().from(caseloadAssignments).where(eq(caseloadAssignments.id, id));
+    return result[0];
+  }
+  
+  async getCaseloadAssignments(filter: { therapistId?: string; patientId?: string; status?: string }): Promise<CaseloadAssignment[]> {
+    const conditions = [];
+    if (filter.therapistId) {
+      conditions.push(eq(caseloadAssignments.therapistId, filter.therapistId));
+    }
+    if (filter.patientId) {
+      conditions.push(eq(caseloadAssignments.patientId, filter.patientId));
+    }
+    if (filter.status) {
+      conditions.push(eq(caseloadAssignments.status, filter.status));
+    }
+    
+    return await db.select()
+      .from(caseloadAssignments)
+      .where(and(...conditions))
+      .orderBy(desc(caseloadAssignments.startDate));
+  }
+  
+  async getActiveCaseloadAssignment(therapistId: string, patientId: string): Promise<CaseloadAssignment | undefined> {
+    const now = new Date();
+    const result = await db.select()
+      .from(caseloadAssignments)
+      .where(and(
+        eq(caseloadAssignments.therapistId, therapistId),
+        eq(caseloadAssignments.patientId, patientId),
+        eq(caseloadAssignments.status, 'active'),
+        lte(caseloadAssignments.startDate, now),
+        or(isNull(caseloadAssignments.endDate), gt(caseloadAssignments.endDate, now))
+      ))
+      .limit(1);
+    return result[0];
+  }
+  
+  async updateCaseloadAssignment(id: string, updates: Partial<CaseloadAssignment>): Promise<CaseloadAssignment | undefined> {
+    const result = await db.update(caseloadAssignments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(caseloadAssignments.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // Crisis event methods
+  async createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent> {
+    const result = await db.insert(crisisEvents).values(event).returning();
+    return result[0];
+  }
+  
+  async getCrisisEvent(id: string): Promise<CrisisEvent | undefined> {
+    const result = await db.select().from(crisisEvents).where(eq(crisisEvents.id, id));
+    return result[0];
+  }
+  
+  async getCrisisEvents(filter: { patientId?: string; therapistId?: string; sessionId?: string; statuses?: string[] }): Promise<CrisisEvent[]> {
+    const conditions = [];
+    if (filter.patientId) {
+      conditions.push(eq(crisisEvents.patientId, filter.patientId));
+    }
+    if (filter.therapistId) {
+      conditions.push(eq(crisisEvents.therapistId, filter.therapistId));
+    }
+    if (filter.sessionId) {
+      conditions.push(eq(crisisEvents.sessionId, filter.sessionId));
+    }
+    if (filter.statuses) {
+      conditions.push(inArray(crisisEvents.status, filter.statuses));
+    }
+    
+    return await db.select()
+      .from(crisisEvents)
+      .where(and(...conditions))
+      .orderBy(desc(crisisEvents.createdAt));
+  }
+  
+  async updateCrisisEvent(id: string, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    const result = await db.update(crisisEvents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(crisisEvents.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // Offline sync idempotency ledger
+  async getSyncOperation(userId: string, idempotencyKey: string): Promise<SyncOperation | undefined> {
+    const result = await db.select()
+      .from(syncOperations)
+      .where(and(
+        eq(syncOperations.userId, userId),
+        eq(syncOperations.idempotencyKey, idempotencyKey)
+      ));
+    return result[0];
+  }
+  
+  async createSyncOperation(operation: InsertSyncOperation): Promise<SyncOperation> {
+    // A concurrent retry may have recorded the same key first; keep that record
+    const result = await db.insert(syncOperations)
+      .values(operation)
+      .onConflictDoNothing({ target: [syncOperations.userId, syncOperations.idempotencyKey] })
+      .returning();
+    return result[0] ?? (await this.getSyncOperation(operation.userId, operation.idempotencyKey))!;
+  }
+  
+  // Patient intake methods
+  async getPatientIntake(patientId: string): Promise<PatientIntake | undefined> {
+    const result = await db.select().from(patientIntakes).where(eq(patientIntakes.patientId, patientId));
+    return result[0];
+  }
+  
+  async upsertPatientIntake(intake: InsertPatientIntake): Promise<PatientIntake> {
+    const result = await db.insert(patientIntakes)
+      .values(intake)
+      .onConflictDoUpdate({
+        target: patientIntakes.patientId,
+        set: { ...intake, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+  
+  // Treatment plan methods
+  async createTreatmentTarget(target: InsertTreatmentTarget): Promise<TreatmentTarget> {
+    const result = await db.insert(treatmentTargets).values(target).returning();
+    return result[0];
+  }
+  
+  async getTreatmentTarget(id: string): Promise<TreatmentTarget | undefined> {
+    const result = await db.select().from(treatmentTargets).where(eq(treatmentTargets.id, id));
+    return result[0];
+  }
+  
+  async getTreatmentTargets(patientId: string): Promise<TreatmentTarget[]> {
+    return await db.select()
+      .from(treatmentTargets)
+      .where(eq(treatmentTargets.patientId, patientId))
+      .orderBy(asc(treatmentTargets.position));
+  }
+  
+  async updateTreatmentTarget(id: string, updates: Partial<TreatmentTarget>): Promise<TreatmentTarget | undefined> {
+    const result = await db.update(treatmentTargets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(treatmentTargets.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteTreatmentTarget(id: string): Promise<boolean> {
+    const result = await db.delete(treatmentTargets)
+      .where(eq(treatmentTargets.id, id))
+      .returning({ id: treatmentTargets.id });
+    return result.length > 0;
+  }
+  
+  // Adaptive BLS rule set methods
+  async getAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<AdaptiveRuleSet | undefined> {
+    const result = await db.select()
+      .from(adaptiveRuleSets)
+      .where(and(
+        eq(adaptiveRuleSets.scope, scope),
+        therapistId ? eq(adaptiveRuleSets.therapistId, therapistId) : isNull(adaptiveRuleSets.therapistId)
+      ));
+    return result[0];
+  }
+  
+  // The clinic row has a null therapistId, which the unique index cannot conflict on
+  async saveAdaptiveRuleSet(ruleSet: InsertAdaptiveRuleSet): Promise<AdaptiveRuleSet> {
+    const existing = await this.getAdaptiveRuleSet(ruleSet.scope, ruleSet.therapistId ?? null);
+    if (existing) {
+      const result = await db.update(adaptiveRuleSets)
+        .set({ ...ruleSet, updatedAt: new Date() })
+        .where(eq(adaptiveRuleSets.id, existing.id))
+        .returning();
+      return result[0];
+    }
+    const result = await db.insert(adaptiveRuleSets).values(ruleSet).returning();
+    return result[0];
+  }
+  
+  async deleteAdaptiveRuleSet(scope: string, therapistId: string | null): Promise<boolean> {
+    const result = await db.delete(adaptiveRuleSets)
+      .where(and(
+        eq(adaptiveRuleSets.scope, scope),
+        therapistId ? eq(adaptiveRuleSets.therapistId, therapistId) : isNull(adaptiveRuleSets.therapistId)
+      ))
+      .returning({ id: adaptiveRuleSets.id });
+    return result.length > 0;
+  }
+  
+  // BLS configuration preset methods
+  async createBLSConfiguration(preset: InsertBLSConfiguration): Promise<BLSConfiguration> {
+    const result = await db.insert(blsConfigurations).values(preset).returning();
+    return result[0];
+  }
+  
+  async getBLSConfiguration(id: string): Promise<BLSConfiguration | undefined> {
+    const result = await db.select().from(blsConfigurations).where(eq(blsConfigurations.id, id));
+    return result[0];
+  }
+  
+  async getBLSConfigurationsByCreator(userId: string): Promise<BLSConfiguration[]> {
+    return await db.select()
+      .from(blsConfigurations)
+      .where(eq(blsConfigurations.createdBy, userId))
+      .orderBy(desc(blsConfigurations.createdAt));
+  }
+  
+  async getPublicBLSConfigurations(): Promise<BLSConfiguration[]> {
+    return await db.select()
+      .from(blsConfigurations)
+      .where(eq(blsConfigurations.isPublic, true))
+      .orderBy(desc(blsConfigurations.createdAt));
+  }
+  
+  async deleteBLSConfiguration(id: string): Promise<boolean> {
+    const result = await db.delete(blsConfigurations)
+      .where(eq(blsConfigurations.id, id))
+      .returning({ id: blsConfigurations.id });
+    return result.length > 0;
+  }
+  
+  // Therapeutic memory methods
+  async getTherapeuticMemory(patientId: string, therapistId: string): Promise<TherapeuticMemory | undefined> {
+    const result = await db.select()
+      .from(therapeuticMemory)
+      .where(and(
+        eq(therapeuticMemory.patientId, patientId),
+        eq(therapeuticMemory.therapistId, therapistId)
+      ));
+    return result[0];
+  }
+  
+  async getTherapeuticMemoriesByPatient(patientId: string): Promise<TherapeuticMemory[]> {
+    return await db.select()
+      .from(therapeuticMemory)
+      .where(eq(therapeuticMemory.patientId, patientId))
+      .orderBy(desc(therapeuticMemory.lastUpdated));
+  }
+  
+  async updateTherapeuticMemory(
+    patientId: string,
+    therapistId: string,
+    update: (existing: TherapeuticMemory | undefined) => InsertTherapeuticMemory
+  ): Promise<TherapeuticMemory> {
+    return await db.transaction(async (tx) => {
+      // The lock also covers the first insert, when there is no row to lock yet
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`therapeutic_memory:${patientId}:${therapistId}`}))`);
+      
+      const [existing] = await tx.select()
+        .from(therapeuticMemory)
+        .where(and(
+          eq(therapeuticMemory.patientId, patientId),
+          eq(therapeuticMemory.therapistId, therapistId)
+        ));
+      const memory = { ...update(existing), patientId, therapistId };
+      
+      if (existing) {
+        const result = await tx.update(therapeuticMemory)
+          .set({ ...memory, lastUpdated: new Date() })
+          .where(eq(therapeuticMemory.id, existing.id))
+          .returning();
+        return result[0];
+      }
+      const result = await tx.insert(therapeuticMemory).values(memory).returning();
+      return result[0];
+    });
+  }
+  
+  // AI therapy log methods
+  async getAITherapySession(sessionId: string): Promise<AITherapySession | undefined> {
+    const result = await db.select()
+      .from(aiTherapySessions)
+      .where(eq(aiTherapySessions.sessionId, sessionId))
+      .orderBy(asc(aiTherapySessions.createdAt))
+      .limit(1);
+    return result[0];
+  }
+  
+  async appendAIIntervention(log: InsertAITherapySession, intervention: AIInterventionLogEntry): Promise<AITherapySession> {
+    const existing = await this.getAITherapySession(log.sessionId);
+    if (!existing) {
+      const result = await db.insert(aiTherapySessions)
+        .values({ ...log, interventions: [intervention] })
+        .returning();
+      return result[0];
+    }
+    
+    const emotionCaptureIds = Array.from(new Set([
+      ...(existing.emotionCaptureIds ?? []),
+      ...(log.emotionCaptureIds ?? [])
+    ]));
+    
+    // Append in SQL so concurrent calls do not drop each other's interventions
+    const result = await db.update(aiTherapySessions)
+      .set({
+        aiModel: log.aiModel ?? existing.aiModel,
+        interventions: sql`${aiTherapySessions.interventions} || ${JSON.stringify([intervention])}::jsonb`,
+        emotionCaptureIds,
+        sudsChange: log.sudsChange ?? existing.sudsChange,
+        vocChange: log.vocChange ?? existing.vocChange
+      })
+      .where(eq(aiTherapySessions.id, existing.id))
+      .returning();
+    return result[0];
+  }
+  
   // === SESSION MEMORY & PROGRESS SYSTEM ===
   
   // Session Memory Snapshots
@@ -905,6 +1820,18 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
+  async invalidateProgressMetrics(patientId: string, metricType: string): Promise<number> {
+    const result = await db.update(progressMetrics)
+      .set({ isValid: false })
+      .where(and(
+        eq(progressMetrics.patientId, patientId),
+        eq(progressMetrics.metricType, metricType),
+        eq(progressMetrics.isValid, true)
+      ))
+      .returning({ id: progressMetrics.id });
+    return result.length;
+  }
+  
   // Session Comparisons
   async createSessionComparison(comparison: InsertSessionComparison): Promise<SessionComparison> {
     const result = await db.insert(sessionComparisons).values(comparison).returning();
@@ -0,0 +1,589 @@
+/**
+ * Adaptive BLS rule DSL
+ * Validation, loading and evaluation of serialisable adaptive rule sets, plus the built-in
+ * rule set the AdaptiveController ships with.
+ *
+ * Arousal and valence conditions compare the raw EmotionData values; affect thresholds
+ * compare the affects98 intensities in EmotionData.affects.
+ */
+
+import { z } from "zod";
+import { affects98 } from "./emotionAffects";
+import { BLS_RATE_HZ_MAX, BLS_RATE_HZ_MIN, migrateLegacyBLSSpeed } from "./types";
+import type {
+  AdaptiveRuleCondition,
+  AdaptiveRuleMetric,
+  AdaptiveRuleSetDefinition,
+  AdaptiveRuleTrend,
+  EMDRPhase,
+  EmotionData
+} from "./types";
+
+const MAX_CONDITION_DEPTH = 6;
+
+const metricConditionSchema = z.object({
+  type: z.enum(['arousal', 'valence']),
+  compare: z.enum(['above', 'atLeast', 'below', 'atMost']),
+  value: z.number().min(-1).max(1)
+}).strict();
+
+const affectConditionSchema = z.object({
+  type: z.literal('affect'),
+  affects: z.array(z.string().refine(name => name in affects98, name => ({ message: `Unknown affect '${name}'` })))
+    .min(1)
+    .max(20),
+  above: z.number().min(0).max(100)
+}).strict();
+
+const phaseConditionSchema = z.object({
+  type: z.literal('phase'),
+  phases: z.array(z.enum(['history-taking', 'preparation', 'assessment', 'desensitization', 'installation', 'body-scan', 'closure', 'reevaluation', 'integration'])).min(1)
+}).strict();
+
+const trendConditionSchema = z.object({
+  type: z.literal('trend'),
+  metric: z.enum(['arousal', 'valence']),
+  direction: z.enum(['rising', 'falling', 'stable'])
+}).strict();
+
+const conditionSchema: z.ZodType<AdaptiveRuleCondition> = z.lazy(() => z.union([
+  metricConditionSchema,
+  affectConditionSchema,
+  phaseConditionSchema,
+  trendConditionSchema,
+  z.object({
+    type: z.enum(['all', 'any']),
+    conditions: z.array(conditionSchema).min(1).max(20)
+  }).strict(),
+  z.object({
+    type: z.literal('not'),
+    condition: conditionSchema
+  }).strict()
+]));
+
+const adaptationsSchema = z.object({
+  rateHz: z.number().min(BLS_RATE_HZ_MIN).max(BLS_RATE_HZ_MAX).optional(),
+  pattern: z.enum([
+    'horizontal', 'vertical', 'diagonal', 'circle', '3d-wave',
+    'cube3d', 'spiral3d', 'helix3d', 'lemniscate3d', 'lissajous3d',
+    'sphere3d', 'infinity3d', 'wave3d', 'butterfly3d', 'DNA3d'
+  ]).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb color').optional(),
+  secondaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb color').optional(),
+  audio: z.object({
+    enabled: z.boolean(),
+    audioType: z.enum(['binaural-beats', 'white-noise', 'nature-sounds', 'sacred-geometry', 'singing-bowls', 'simple-tone']),
+    binauralFrequency: z.number().min(0.5).max(40),
+    binauralType: z.enum(['delta', 'theta', 'alpha', 'beta', 'gamma']),
+    spatialAudio: z.boolean(),
+    panIntensity: z.number().min(0).max(1),
+    volume: z.number().min(0).max(1),
+    reverbEnabled: z.boolean(),
+    filterEnabled: z.boolean()
+  }).partial().strict().optional(),
+  haptics: z.object({
+    enabled: z.boolean(),
+    pattern: z.enum(['pulse', 'wave', 'heartbeat', 'breathing', 'custom']),
+    intensity: z.number().min(0).max(1),
+    syncWithMovement: z.boolean(),
+    syncWithAudio: z.boolean(),
+    duration: z.number().int().min(10).max(60000),
+    interval: z.number().int().min(10).max(60000),
+    customPattern: z.array(z.number().int().min(0).max(10000)).max(50)
+  }).partial().strict().optional(),
+  rendering3D: z.object({
+    enabled: z.boolean(),
+    antialias: z.boolean(),
+    shadows: z.boolean(),
+    lighting: z.enum(['basic', 'ambient', 'dramatic', 'therapeutic']),
+    cameraType: z.enum(['perspective', 'orthographic']),
+    fieldOfView: z.number().min(10).max(150),
+    cameraDistance: z.number().min(1).max(100),
+    bloomEffect: z.boolean(),
+    blurBackground: z.boolean(),
+    particleEffects: z.boolean()
+  }).partial().strict().optional(),
+  transitions: z.object({
+    enabled: z.boolean(),
+    duration: z.number().int().min(0).max(30000),
+    easing: z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out', 'therapeutic']),
+    morphing: z.boolean(),
+    crossfade: z.boolean()
+  }).partial().strict().optional()
+}).strict();
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Use 1-64 letters, digits, dashes or underscores'),
+  condition: conditionSchema,
+  adaptations: adaptationsSchema,
+  priority: z.number().int().min(0).max(1000),
+  therapeutic: z.string().min(1).max(500),
+  enabled: z.boolean()
+}).strict();
+
+export const adaptiveRuleSetSchema = z.object({
+  name: z.string().min(1).max(100),
+  rules: z.array(ruleSchema).max(200)
+}).strict().superRefine((ruleSet, ctx) => {
+  const seen = new Set<string>();
+  ruleSet.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id '${rule.id}'` });
+    }
+    seen.add(rule.id);
+    if (conditionDepth(rule.condition) > MAX_CONDITION_DEPTH) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'condition'], message: `Conditions nest at most ${MAX_CONDITION_DEPTH} levels deep` });
+    }
+  });
+});
+
+function conditionDepth(condition: AdaptiveRuleCondition): number {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return 1 + Math.max(...condition.conditions.map(conditionDepth));
+    case 'not':
+      return 1 + conditionDepth(condition.condition);
+    default:
+      return 1;
+  }
+}
+
+export interface AdaptiveRuleSetValidation {
+  ruleSet: AdaptiveRuleSetDefinition | null;
+  errors: string[]; // "path: message", empty when valid
+}
+
+/**
+ * Rule sets saved before the BLS rate was in Hz set a 1-10 `speed` in their adaptations
+ */
+function migrateAdaptiveRuleSet(input: unknown): unknown {
+  if (!input || typeof input !== 'object' || !Array.isArray((input as { rules?: unknown }).rules)) return input;
+
+  const ruleSet = input as { rules: unknown[] };
+  return {
+    ...ruleSet,
+    rules: ruleSet.rules.map(rule => rule && typeof rule === 'object' && 'adaptations' in rule
+      ? { ...rule, adaptations: migrateLegacyBLSSpeed((rule as { adaptations: unknown }).adaptations) }
+      : rule)
+  };
+}
+
+/**
+ * Validate an untrusted rule set, e.g. from storage or the editor; legacy speeds are migrated first
+ */
+export function validateAdaptiveRuleSet(input: unknown): AdaptiveRuleSetValidation {
+  const result = adaptiveRuleSetSchema.safeParse(migrateAdaptiveRuleSet(input));
+  if (result.success) {
+    return { ruleSet: result.data as AdaptiveRuleSetDefinition, errors: [] };
+  }
+  return {
+    ruleSet: null,
+    errors: result.error.errors.map(issue => `${issue.path.join('.') || 'ruleSet'}: ${issue.message}`)
+  };
+}
+
+/**
+ * Load a rule set from exported JSON text
+ */
+export function loadAdaptiveRuleSet(json: string): AdaptiveRuleSetValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { ruleSet: null, errors: [`ruleSet: Invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+  return validateAdaptiveRuleSet(parsed);
+}
+
+export interface AdaptiveRuleContext {
+  emotion: EmotionData;
+  phase: EMDRPhase;
+  trend: (metric: AdaptiveRuleMetric) => AdaptiveRuleTrend;
+}
+
+export function evaluateAdaptiveRuleCondition(condition: AdaptiveRuleCondition, context: AdaptiveRuleContext): boolean {
+  switch (condition.type) {
+    case 'arousal':
+    case 'valence': {
+      const value = context.emotion[condition.type];
+      switch (condition.compare) {
+        case 'above': return value > condition.value;
+        case 'atLeast': return value >= condition.value;
+        case 'below': return value < condition.value;
+        case 'atMost': return value <= condition.value;
+      }
+      return false;
+    }
+    case 'affect':
+      return condition.affects.some(name => context.emotion.affects[name] > condition.above);
+    case 'phase':
+      return condition.phases.includes(context.phase);
+    case 'trend':
+      return context.trend(condition.metric) === condition.direction;
+    case 'all':
+      return condition.conditions.every(child => evaluateAdaptiveRuleCondition(child, context));
+    case 'any':
+      return condition.conditions.some(child => evaluateAdaptiveRuleCondition(child, context));
+    case 'not':
+      return !evaluateAdaptiveRuleCondition(condition.condition, context);
+  }
+}
+
+/**
+ * Built-in rules mapping the 98 affects to therapeutic BLS settings
+ */
+export const DEFAULT_ADAPTIVE_RULE_SET: AdaptiveRuleSetDefinition = {
+  name: 'Built-in rules',
+  rules: [
+    // Crisis and safety rules - highest priority
+    {
+      id: 'crisis-extreme-distress',
+      condition: { type: 'all', conditions: [
+        { type: 'arousal', compare: 'above', value: 0.9 },
+        { type: 'valence', compare: 'below', value: 0.2 }
+      ] },
+      adaptations: {
+        rateHz: 0.2,
+        pattern: 'horizontal',
+        color: '#1e293b', // Dark grounding
+        audio: { enabled: false },
+        haptics: {
+          enabled: true,
+          pattern: 'breathing',
+          intensity: 0.1,
+          duration: 6000,
+          interval: 8000,
+          syncWithMovement: false,
+          syncWithAudio: false
+        },
+        rendering3D: { enabled: false } // Fallback to 2D
+      },
+      priority: 100,
+      therapeutic: 'CRISIS: Extreme distress - minimal stimulation, basic grounding, emergency stabilization',
+      enabled: true
+    },
+    {
+      id: 'panic-attack',
+      condition: { type: 'all', conditions: [
+        { type: 'affect', affects: ['Afraid', 'Alarmed', 'Scared'], above: 25 },
+        { type: 'arousal', compare: 'above', value: 0.8 }
+      ] },
+      adaptations: {
+        rateHz: 0.2,
+        pattern: 'circle',
+        color: '#475569', // Stable gray-blue
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'alpha', binauralFrequency: 8, volume: 0.3, spatialAudio: false }
+      },
+      priority: 95,
+      therapeutic: 'Panic attack detected - slow circles with deep alpha waves for immediate stabilization',
+      enabled: true
+    },
+    {
+      id: 'trauma-severe',
+      condition: { type: 'all', conditions: [
+        { type: 'arousal', compare: 'above', value: 0.85 },
+        { type: 'valence', compare: 'below', value: 0.25 }
+      ] },
+      adaptations: {
+        rateHz: 0.4,
+        pattern: 'horizontal',
+        color: '#60a5fa', // Calming blue
+        audio: { enabled: true, audioType: 'nature-sounds', volume: 0.3, spatialAudio: false },
+        haptics: { enabled: false }
+      },
+      priority: 90,
+      therapeutic: 'Severe trauma activation - basic bilateral with nature sounds for safety',
+      enabled: true
+    },
+
+    // High arousal states
+    {
+      id: 'anger-rage',
+      condition: { type: 'affect', affects: ['Angry', 'Hostile', 'Hateful', 'Frustrated'], above: 15 },
+      adaptations: {
+        rateHz: 0.6,
+        pattern: 'horizontal', // Linear movement for discharge
+        color: '#64748b', // Cool gray to calm
+        audio: { enabled: true, audioType: 'white-noise', volume: 0.4 },
+        haptics: { enabled: true, pattern: 'wave', intensity: 0.3, syncWithMovement: true }
+      },
+      priority: 80,
+      therapeutic: 'Anger discharge - linear movement with white noise for emotional regulation',
+      enabled: true
+    },
+    {
+      id: 'excitement-elation',
+      condition: { type: 'affect', affects: ['Excited', 'Elated', 'Enthusiastic', 'Passionate'], above: 12 },
+      adaptations: {
+        rateHz: 1.6,
+        pattern: 'spiral3d',
+        color: '#f59e0b', // Energetic orange
+        secondaryColor: '#dc2626', // Red accent
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'beta', binauralFrequency: 20, volume: 0.7, spatialAudio: true },
+        rendering3D: { lighting: 'dramatic', particleEffects: true, bloomEffect: true }
+      },
+      priority: 40,
+      therapeutic: 'High positive energy - dynamic 3D patterns to channel and focus excitement',
+      enabled: true
+    },
+    {
+      id: 'anxiety-worry',
+      condition: { type: 'affect', affects: ['Anxious', 'Worried', 'Tense', 'Strained'], above: 15 },
+      adaptations: {
+        rateHz: 0.4,
+        pattern: 'circle',
+        color: '#3b82f6', // Calming blue
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'alpha', binauralFrequency: 10, volume: 0.4 },
+        haptics: { enabled: true, pattern: 'breathing', intensity: 0.2, duration: 4000, interval: 6000 }
+      },
+      priority: 75,
+      therapeutic: 'Anxiety regulation - slow circles with breathing pattern for grounding',
+      enabled: true
+    },
+
+    // Low arousal states
+    {
+      id: 'depression-despair',
+      condition: { type: 'affect', affects: ['Depressed', 'Hopeless', 'Miserable', 'Dejected'], above: 15 },
+      adaptations: {
+        rateHz: 0.8,
+        pattern: 'helix3d', // Upward spiral
+        color: '#f97316', // Warm orange
+        secondaryColor: '#fbbf24', // Gold
+        audio: { enabled: true, audioType: 'sacred-geometry', volume: 0.5 },
+        haptics: { enabled: true, pattern: 'heartbeat', intensity: 0.4 }
+      },
+      priority: 70,
+      therapeutic: 'Depression support - upward helix with warm colors for gentle activation',
+      enabled: true
+    },
+    {
+      id: 'boredom-disengagement',
+      condition: { type: 'affect', affects: ['Bored', 'Indifferent', 'Tired', 'Sleepy'], above: 12 },
+      adaptations: {
+        rateHz: 1.2,
+        pattern: 'lissajous3d',
+        color: '#8b5cf6', // Engaging purple
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'beta', binauralFrequency: 15 },
+        haptics: { enabled: true, pattern: 'pulse', intensity: 0.5, syncWithMovement: true }
+      },
+      priority: 60,
+      therapeutic: 'Engagement activation - complex patterns with beta waves for alertness',
+      enabled: true
+    },
+    {
+      id: 'peaceful-calm',
+      condition: { type: 'affect', affects: ['Peaceful', 'Calm', 'Tranquil', 'Relaxed'], above: 12 },
+      adaptations: {
+        rateHz: 0.6,
+        pattern: 'wave3d',
+        color: '#10b981', // Peaceful green
+        audio: { enabled: true, audioType: 'nature-sounds', volume: 0.3 },
+        haptics: { enabled: true, pattern: 'breathing', intensity: 0.2 }
+      },
+      priority: 30,
+      therapeutic: 'Peaceful state - maintaining calm with gentle wave patterns',
+      enabled: true
+    },
+
+    // Positive emotions
+    {
+      id: 'joy-happiness',
+      condition: { type: 'affect', affects: ['Happy', 'Joyful', 'Delighted', 'Light-hearted'], above: 12 },
+      adaptations: {
+        rateHz: 1.4,
+        pattern: 'butterfly3d',
+        color: '#fbbf24', // Bright yellow
+        secondaryColor: '#f59e0b', // Orange
+        audio: { enabled: true, audioType: 'sacred-geometry', volume: 0.6 },
+        rendering3D: { lighting: 'dramatic', bloomEffect: true, particleEffects: true }
+      },
+      priority: 35,
+      therapeutic: 'Joy celebration - beautiful butterfly patterns to amplify positive emotions',
+      enabled: true
+    },
+    {
+      id: 'love-compassion',
+      condition: { type: 'affect', affects: ['Amorous', 'Compassionate', 'Friendly'], above: 10 },
+      adaptations: {
+        rateHz: 0.8,
+        pattern: 'DNA3d',
+        color: '#ec4899', // Love pink
+        secondaryColor: '#a855f7', // Purple
+        audio: { enabled: true, audioType: 'singing-bowls', volume: 0.5 },
+        haptics: { enabled: true, pattern: 'heartbeat', intensity: 0.4 }
+      },
+      priority: 25,
+      therapeutic: 'Love and connection - DNA helix with heart resonance',
+      enabled: true
+    },
+    {
+      id: 'confidence-success',
+      condition: { type: 'affect', affects: ['Confident', 'Successful', 'Courageous', 'Ambitious'], above: 12 },
+      adaptations: {
+        rateHz: 1.2,
+        pattern: 'cube3d',
+        color: '#7c3aed', // Royal purple
+        secondaryColor: '#f59e0b', // Gold
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'beta', binauralFrequency: 18 }
+      },
+      priority: 30,
+      therapeutic: 'Confidence building - structured cube patterns with beta waves',
+      enabled: true
+    },
+    {
+      id: 'hope-inspiration',
+      condition: { type: 'affect', affects: ['Hopeful', 'Inspired', 'Eager', 'Determined'], above: 10 },
+      adaptations: {
+        rateHz: 1.4,
+        pattern: 'helix3d',
+        color: '#f59e0b', // Gold
+        secondaryColor: '#dc2626', // Red energy
+        audio: { enabled: true, audioType: 'sacred-geometry', volume: 0.6 }
+      },
+      priority: 20,
+      therapeutic: 'Hope and determination - upward helix for positive momentum',
+      enabled: true
+    },
+
+    // Negative emotions
+    {
+      id: 'sadness-grief',
+      condition: { type: 'affect', affects: ['Sad', 'Gloomy', 'Melancholic', 'Lonely'], above: 15 },
+      adaptations: {
+        rateHz: 0.8,
+        pattern: 'spiral3d',
+        color: '#f97316', // Warm orange for comfort
+        secondaryColor: '#fbbf24', // Yellow hope
+        audio: { enabled: true, audioType: 'nature-sounds', volume: 0.4 },
+        haptics: { enabled: true, pattern: 'heartbeat', intensity: 0.3 }
+      },
+      priority: 65,
+      therapeutic: 'Sadness comfort - gentle upward spirals with warm colors for healing',
+      enabled: true
+    },
+    {
+      id: 'shame-guilt',
+      condition: { type: 'affect', affects: ['Ashamed', 'Feel guilt', 'Embarrassed'], above: 10 },
+      adaptations: {
+        rateHz: 1,
+        pattern: 'infinity3d',
+        color: '#10b981', // Healing green
+        secondaryColor: '#3b82f6', // Calming blue
+        audio: { enabled: true, audioType: 'singing-bowls', volume: 0.4 },
+        rendering3D: { lighting: 'therapeutic', bloomEffect: true }
+      },
+      priority: 55,
+      therapeutic: 'Shame healing - infinity patterns for self-forgiveness and renewal',
+      enabled: true
+    },
+    {
+      id: 'fear-terror',
+      condition: { type: 'affect', affects: ['Afraid', 'Scared', 'Startled', 'Distressed'], above: 15 },
+      adaptations: {
+        rateHz: 0.4,
+        pattern: 'circle',
+        color: '#3b82f6', // Safe blue
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'alpha', binauralFrequency: 10, volume: 0.4 },
+        haptics: { enabled: true, pattern: 'breathing', intensity: 0.2 },
+        rendering3D: { shadows: false, particleEffects: false }
+      },
+      priority: 80,
+      therapeutic: 'Fear containment - safe circular patterns with alpha waves for calming',
+      enabled: true
+    },
+    {
+      id: 'disgust-revulsion',
+      condition: { type: 'affect', affects: ['Disgusted', 'Bitter', 'Uncomfortable'], above: 12 },
+      adaptations: {
+        rateHz: 0.8,
+        pattern: 'horizontal',
+        color: '#6b7280', // Neutral gray
+        audio: { enabled: true, audioType: 'white-noise', volume: 0.3 }
+      },
+      priority: 50,
+      therapeutic: 'Disgust processing - neutral patterns for emotional detoxification',
+      enabled: true
+    },
+
+    // Specific affects
+    {
+      id: 'curiosity-interest',
+      condition: { type: 'affect', affects: ['Curious', 'Interested', 'Attentive'], above: 12 },
+      adaptations: {
+        rateHz: 1.2,
+        pattern: 'lissajous3d',
+        color: '#8b5cf6', // Purple creativity
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'beta', binauralFrequency: 16 }
+      },
+      priority: 25,
+      therapeutic: 'Curiosity engagement - complex patterns to enhance focused attention',
+      enabled: true
+    },
+    {
+      id: 'contemplation',
+      condition: { type: 'affect', affects: ['Pensive', 'Serious', 'Reverent', 'Solemn'], above: 12 },
+      adaptations: {
+        rateHz: 0.6,
+        pattern: 'sphere3d',
+        color: '#7c3aed', // Deep purple wisdom
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'theta', binauralFrequency: 6 }
+      },
+      priority: 40,
+      therapeutic: 'Deep contemplation - spherical wholeness with theta waves for insight',
+      enabled: true
+    },
+    {
+      id: 'surprise-astonishment',
+      condition: { type: 'affect', affects: ['Astonished', 'Taken aback'], above: 10 },
+      adaptations: {
+        rateHz: 1,
+        pattern: 'lemniscate3d',
+        color: '#f59e0b', // Bright orange
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'alpha', binauralFrequency: 12 },
+        transitions: { enabled: true, duration: 3000, morphing: true }
+      },
+      priority: 45,
+      therapeutic: 'Surprise integration - figure-8 patterns for processing unexpected experiences',
+      enabled: true
+    },
+    {
+      id: 'dissociation',
+      condition: { type: 'all', conditions: [
+        { type: 'affect', affects: ['Indifferent', 'Apathetic', 'Languid'], above: 15 },
+        { type: 'arousal', compare: 'below', value: 0.2 }
+      ] },
+      adaptations: {
+        rateHz: 1.2,
+        pattern: 'cube3d',
+        color: '#dc2626', // Alert red
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'theta', binauralFrequency: 5 },
+        haptics: { enabled: true, pattern: 'pulse', intensity: 0.6, syncWithMovement: true }
+      },
+      priority: 85,
+      therapeutic: 'Dissociation grounding - structured patterns with haptic feedback for reconnection',
+      enabled: true
+    },
+
+    // Optimal processing window
+    {
+      id: 'optimal-processing',
+      condition: { type: 'all', conditions: [
+        { type: 'arousal', compare: 'atLeast', value: 0.4 },
+        { type: 'arousal', compare: 'atMost', value: 0.7 },
+        { type: 'valence', compare: 'atLeast', value: 0.3 },
+        { type: 'valence', compare: 'atMost', value: 0.7 }
+      ] },
+      adaptations: {
+        rateHz: 1,
+        pattern: 'lemniscate3d',
+        color: '#3b82f6',
+        audio: { enabled: true, audioType: 'binaural-beats', binauralType: 'alpha', binauralFrequency: 10, volume: 0.5, spatialAudio: true }
+      },
+      priority: 50,
+      therapeutic: 'Optimal processing window - balanced stimulation for effective integration',
+      enabled: true
+    }
+  ]
+};
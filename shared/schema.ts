@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, real, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, real, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -46,8 +46,12 @@ export const emdrSessions = pgTable("emdr_sessions", {
   sudsFinal: integer("suds_final"),
   vocInitial: real("voc_initial"),
   vocFinal: real("voc_final"),
+  clientSessionId: varchar("client_session_id"), // Id generated by the offline-first client, set for synced sessions
+  clientUpdatedAt: timestamp("client_updated_at"), // Client time of the newest synced change, for conflict resolution
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
-});
+}, (table) => ({
+  clientSessionIdx: uniqueIndex("emdr_sessions_client_session_idx").on(table.patientId, table.clientSessionId),
+}));
 
 // Emotion Captures table for storing real-time emotion data
 export const emotionCaptures = pgTable("emotion_captures", {
@@ -96,6 +100,7 @@ export const therapeuticMemory = pgTable("therapeutic_memory", {
   adaptivePreferences: jsonb("adaptive_preferences").notNull().default('{}'), // Patient's BLS preferences
   emotionalPatterns: jsonb("emotional_patterns").notNull().default('{}'), // Patterns in emotional responses
   treatmentPlan: text("treatment_plan"),
+  lastSessionId: varchar("last_session_id"), // Newest session counted into sessionCount and the averages
   lastUpdated: timestamp("last_updated").notNull().default(sql`now()`),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => ({
@@ -107,16 +112,19 @@ export const blsConfigurations = pgTable("bls_configurations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
-  speed: integer("speed").notNull().default(5),
+  rateHz: real("rate_hz").notNull().default(1), // Passes per second; rows from before Hz keep their speed in config
   pattern: text("pattern").notNull().default('horizontal'),
   color: text("color").notNull().default('#3b82f6'),
   size: integer("size").notNull().default(20),
   soundEnabled: boolean("sound_enabled").notNull().default(true),
   adaptiveMode: boolean("adaptive_mode").notNull().default(false),
+  config: jsonb("config"), // Full BLSConfiguration including audio/haptics/3D sub-configs
   createdBy: varchar("created_by").references(() => users.id),
   isPublic: boolean("is_public").notNull().default(false),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
-});
+}, (table) => ({
+  createdByIdx: index("bls_configurations_created_by_idx").on(table.createdBy),
+}));
 
 // Session Notes table for detailed session documentation
 export const sessionNotes = pgTable("session_notes", {
@@ -134,6 +142,120 @@ export const sessionNotes = pgTable("session_notes", {
   sessionIdx: index("session_notes_session_idx").on(table.sessionId),
 }));
 
+// Caseload Assignments - which therapist treats which patient, and for what period
+export const caseloadAssignments = pgTable("caseload_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  therapistId: varchar("therapist_id").notNull().references(() => users.id),
+  patientId: varchar("patient_id").notNull().references(() => users.id),
+  startDate: timestamp("start_date").notNull().default(sql`now()`),
+  endDate: timestamp("end_date"), // Null while the assignment is open-ended
+  status: text("status").notNull().default('active'), // 'active', 'paused', 'ended'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  therapistIdx: index("caseload_assignments_therapist_idx").on(table.therapistId),
+  patientIdx: index("caseload_assignments_patient_idx").on(table.patientId),
+}));
+
+// Crisis Events - detected patient crises with therapist alerting, escalation and an audit trail
+export const crisisEvents = pgTable("crisis_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id),
+  sessionId: varchar("session_id").references(() => emdrSessions.id), // Null when no session was active
+  therapistId: varchar("therapist_id").references(() => users.id), // Therapist alerted first
+  source: text("source").notNull(), // 'ai_analysis', 'voice_ai', 'conductor', 'manual'
+  riskLevel: text("risk_level").notNull(), // 'low', 'moderate', 'high', 'severe'
+  triggers: text("triggers").array(),
+  detection: jsonb("detection").notNull(), // CrisisDetection as reported by the detector
+  status: text("status").notNull().default('open'), // 'open', 'acknowledged', 'escalated', 'resolved'
+  escalationLevel: integer("escalation_level").notNull().default(0), // 0 = assigned therapists, 1+ = admins too
+  sessionPaused: boolean("session_paused").notNull().default(false),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  escalatedAt: timestamp("escalated_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionNotes: text("resolution_notes"),
+  auditLog: jsonb("audit_log").notNull().default('[]'), // CrisisAuditEntry[] in order
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  patientIdx: index("crisis_events_patient_idx").on(table.patientId),
+  therapistIdx: index("crisis_events_therapist_idx").on(table.therapistId),
+  statusIdx: index("crisis_events_status_idx").on(table.status),
+}));
+
+// Sync Operations - idempotency ledger for operations uploaded by offline clients
+export const syncOperations = pgTable("sync_operations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  idempotencyKey: varchar("idempotency_key").notNull(), // Chosen by the client, unique per user
+  operationType: text("operation_type").notNull(), // 'session_upsert', 'emotion_capture', 'rating_update'
+  clientSessionId: varchar("client_session_id").notNull(),
+  sessionId: varchar("session_id").references(() => emdrSessions.id),
+  result: jsonb("result").notNull(), // SyncOperationResult returned to the client, replayed on retries
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  userKeyIdx: uniqueIndex("sync_operations_user_key_idx").on(table.userId, table.idempotencyKey),
+}));
+
+// Patient Intakes - structured history taking (EMDR phase 1), one record per patient
+export const patientIntakes = pgTable("patient_intakes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id),
+  recordedBy: varchar("recorded_by").notNull().references(() => users.id), // Clinician who last edited the intake
+  presentingProblem: text("presenting_problem"),
+  treatmentGoals: text("treatment_goals").array(),
+  traumaTargets: jsonb("trauma_targets").notNull().default('[]'), // IntakeTraumaTarget[]
+  resources: jsonb("resources").notNull().default('[]'), // IntakeResource[]
+  stabilisationReadiness: jsonb("stabilisation_readiness"), // StabilisationReadiness, null until assessed
+  completedAt: timestamp("completed_at"), // History taking finished; targets can still be added later
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  patientIdx: uniqueIndex("patient_intakes_patient_idx").on(table.patientId),
+}));
+
+// Treatment Targets - a patient's treatment plan, the targets reprocessed across sessions in plan order
+export const treatmentTargets = pgTable("treatment_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => users.id),
+  intakeTargetId: varchar("intake_target_id"), // IntakeTraumaTarget the target was planned from, if any
+  position: integer("position").notNull(), // Order in the plan, lowest is reprocessed first
+  timeframe: text("timeframe").notNull(), // 'past', 'present', 'future'
+  description: text("description").notNull(),
+  touchstoneId: varchar("touchstone_id"), // Earliest related memory in this plan the target is linked to
+  negativeCognition: text("negative_cognition"),
+  positiveCognition: text("positive_cognition"),
+  baselineSud: integer("baseline_sud"), // 0-10, first rating before reprocessing
+  baselineVoc: integer("baseline_voc"), // 1-7
+  latestSud: integer("latest_sud"),
+  latestVoc: integer("latest_voc"),
+  status: text("status").notNull().default('pending'), // 'pending', 'in-process', 'incomplete', 'resolved'
+  sessionCount: integer("session_count").notNull().default(0),
+  lastSessionId: varchar("last_session_id"), // Conductor session that last worked on the target
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  patientIdx: index("treatment_targets_patient_idx").on(table.patientId),
+}));
+
+// Adaptive Rule Sets - therapist-editable rules mapping emotion readings to BLS settings
+export const adaptiveRuleSets = pgTable("adaptive_rule_sets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // 'therapist', 'clinic'
+  therapistId: varchar("therapist_id").references(() => users.id), // Null for the clinic-wide set
+  name: text("name").notNull(),
+  rules: jsonb("rules").notNull().default('[]'), // AdaptiveRuleDefinition[]
+  updatedBy: varchar("updated_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  scopeTherapistIdx: uniqueIndex("adaptive_rule_sets_scope_therapist_idx").on(table.scope, table.therapistId),
+}));
+
 // === REVOLUTIONARY SESSION MEMORY & PROGRESS SYSTEM ===
 
 // Session Memory Snapshots - Comprehensive emotional data snapshots for each session
@@ -310,6 +432,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   firstName: true,
   lastName: true,
+  password: true, // Hashed, local accounts only
 });
 
 export const insertSessionSchema = createInsertSchema(emdrSessions).omit({
@@ -317,9 +440,9 @@ export const insertSessionSchema = createInsertSchema(emdrSessions).omit({
   createdAt: true,
 });
 
+// timestamp stays insertable so synced captures keep the time they were taken
 export const insertEmotionCaptureSchema = createInsertSchema(emotionCaptures).omit({
   id: true,
-  timestamp: true,
 });
 
 export const insertAITherapySessionSchema = createInsertSchema(aiTherapySessions).omit({
@@ -343,11 +466,45 @@ export const insertSessionNoteSchema = createInsertSchema(sessionNotes).omit({
   timestamp: true,
 });
 
+export const insertCaseloadAssignmentSchema = createInsertSchema(caseloadAssignments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCrisisEventSchema = createInsertSchema(crisisEvents).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSyncOperationSchema = createInsertSchema(syncOperations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPatientIntakeSchema = createInsertSchema(patientIntakes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTreatmentTargetSchema = createInsertSchema(treatmentTargets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAdaptiveRuleSetSchema = createInsertSchema(adaptiveRuleSets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // === INSERT SCHEMAS FOR MEMORY & PROGRESS SYSTEM ===
 
 export const insertSessionMemorySnapshotSchema = createInsertSchema(sessionMemorySnapshots).omit({
   id: true,
-  timestamp: true,
   createdAt: true,
 });
 
@@ -399,6 +556,24 @@ export type BLSConfiguration = typeof blsConfigurations.$inferSelect;
 export type InsertSessionNote = z.infer<typeof insertSessionNoteSchema>;
 export type SessionNote = typeof sessionNotes.$inferSelect;
 
+export type InsertCaseloadAssignment = z.infer<typeof insertCaseloadAssignmentSchema>;
+export type CaseloadAssignment = typeof caseloadAssignments.$inferSelect;
+
+export type InsertCrisisEvent = z.infer<typeof insertCrisisEventSchema>;
+export type CrisisEvent = typeof crisisEvents.$inferSelect;
+
+export type InsertSyncOperation = z.infer<typeof insertSyncOperationSchema>;
+export type SyncOperation = typeof syncOperations.$inferSelect;
+
+export type InsertPatientIntake = z.infer<typeof insertPatientIntakeSchema>;
+export type PatientIntake = typeof patientIntakes.$inferSelect;
+
+export type InsertTreatmentTarget = z.infer<typeof insertTreatmentTargetSchema>;
+export type TreatmentTarget = typeof treatmentTargets.$inferSelect;
+
+export type InsertAdaptiveRuleSet = z.infer<typeof insertAdaptiveRuleSetSchema>;
+export type AdaptiveRuleSet = typeof adaptiveRuleSets.$inferSelect;
+
 // === TYPE EXPORTS FOR MEMORY & PROGRESS SYSTEM ===
 
 export type InsertSessionMemorySnapshot = z.infer<typeof insertSessionMemorySnapshotSchema>;
@@ -12,6 +12,8 @@ import type {
   BreakthroughMoment,
   MemoryInsight,
   EmotionalPatternAnalysis,
+  CrisisEvent,
+  TreatmentTarget,
   InsertSessionMemorySnapshot,
   InsertProgressMetric,
   InsertSessionComparison,
@@ -23,16 +25,17 @@ import type {
 // Type aliases for compatibility
 export type EmotionalPattern = EmotionalPatternAnalysis;
 
-// EMDR Phase types - Complete 8-phase protocol
+// EMDR Phase types - Standard 8-phase protocol
 export type EMDRPhase = 
-  | 'preparation'      // Phase 1: Client preparation and stabilization
-  | 'assessment'       // Phase 2: Assessment and target identification  
-  | 'desensitization'  // Phase 3: Desensitization and reprocessing
-  | 'installation'     // Phase 4: Installation of positive cognition
-  | 'body-scan'        // Phase 5: Body scan
-  | 'closure'          // Phase 6: Closure
-  | 'reevaluation'     // Phase 7: Reevaluation
-  | 'integration';     // Phase 8: Integration and stabilization
+  | 'history-taking'   // Phase 1: Client history and treatment planning
+  | 'preparation'      // Phase 2: Client preparation and stabilization
+  | 'assessment'       // Phase 3: Assessment and target identification  
+  | 'desensitization'  // Phase 4: Desensitization and reprocessing
+  | 'installation'     // Phase 5: Installation of positive cognition
+  | 'body-scan'        // Phase 6: Body scan
+  | 'closure'          // Phase 7: Closure
+  | 'reevaluation'     // Phase 8: Reevaluation
+  | 'integration';     // Not a protocol phase: future template and lifestyle integration
 
 // === Revolutionary Voice & Multimodal Emotion Analysis ===
 
@@ -668,6 +671,25 @@ export interface BLSTransitionConfig {
   crossfade: boolean; // Audio crossfading during transitions
 }
 
+// Set Sequencing - desensitisation runs in sets of passes, each followed by a pause for the check-in
+export interface BLSSetSequenceConfig {
+  enabled: boolean; // Continuous stimulation when false
+  passesPerSet: number; // Full left-right-left passes before the set stops
+  pauseDuration: number; // ms between sets
+  maxPasses: number; // Sequence stops after this many passes in total; 0 runs until stopped
+  waitForCheckIn: boolean; // Next set starts only once the check-in SUDS is recorded
+}
+
+// Auditory-only BLS - alternating left/right taps for patients working with their eyes closed
+export interface BLSAuditoryConfig {
+  enabled: boolean; // Replaces the visual stimulus when true
+  waveform: 'click' | 'sine' | 'square' | 'triangle';
+  toneFrequency: number; // Hz pitch of the tone waveforms
+  clickDuration: number; // ms per tap
+  volume: number; // 0-1
+  balance: number; // -1 (left ear only) to 1 (right ear only), 0 = equal
+}
+
 // === DEFAULT CONFIG FACTORIES ===
 // These factory functions create complete BLS config objects with sensible defaults
 // Used to prevent TypeScript errors when creating partial configurations
@@ -739,12 +761,41 @@ export function createDefaultBLSTransitionConfig(overrides: Partial<BLSTransitio
   };
 }
 
+/**
+ * Creates a complete BLSSetSequenceConfig with sensible defaults
+ */
+export function createDefaultBLSSetSequenceConfig(overrides: Partial<BLSSetSequenceConfig> = {}): BLSSetSequenceConfig {
+  return {
+    enabled: false,
+    passesPerSet: 24,
+    pauseDuration: 15000,
+    maxPasses: 0,
+    waitForCheckIn: true,
+    ...overrides
+  };
+}
+
+/**
+ * Creates a complete BLSAuditoryConfig with sensible defaults
+ */
+export function createDefaultBLSAuditoryConfig(overrides: Partial<BLSAuditoryConfig> = {}): BLSAuditoryConfig {
+  return {
+    enabled: false,
+    waveform: 'click',
+    toneFrequency: 440,
+    clickDuration: 50,
+    volume: 0.6,
+    balance: 0,
+    ...overrides
+  };
+}
+
 /**
  * Creates a complete BLSConfiguration with sensible defaults
  */
 export function createDefaultBLSConfiguration(overrides: Partial<BLSConfiguration> = {}): BLSConfiguration {
   return {
-    speed: 5,
+    rateHz: 1,
     pattern: 'horizontal',
     color: '#3b82f6',
     size: 20,
@@ -762,10 +813,36 @@ export function createDefaultBLSConfiguration(overrides: Partial<BLSConfiguratio
   };
 }
 
+// BLS rate in Hz, one Hz being one full left-right-left pass per second
+export const BLS_RATE_HZ_MIN = 0.2;
+export const BLS_RATE_HZ_MAX = 2;
+
+// Configurations saved before the rate was in Hz carry a 1-10 speed, 0.2 Hz per step
+export function legacyBLSSpeedToHz(speed: number): number {
+  return Math.round(speed * 0.2 * 100) / 100;
+}
+
+// Supported range, to 0.01 Hz so computed rates do not carry float noise
+export function clampBLSRate(hz: number): number {
+  return Math.round(Math.max(BLS_RATE_HZ_MIN, Math.min(BLS_RATE_HZ_MAX, hz)) * 100) / 100;
+}
+
+/**
+ * Replace a legacy 1-10 `speed` with `rateHz`, for stored presets, rule sets and sessions.
+ * Anything that already has a rateHz, or no speed, is returned unchanged.
+ */
+export function migrateLegacyBLSSpeed<T>(config: T): T {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return config;
+
+  const { speed, ...rest } = config as Record<string, unknown>;
+  if (typeof speed !== 'number' || 'rateHz' in rest) return config;
+  return { ...rest, rateHz: legacyBLSSpeedToHz(speed) } as T;
+}
+
 // Main BLS Configuration - Revolutionary 3D System
 export interface BLSConfiguration {
   // Core Settings
-  speed: number; // 1-10 speed scale
+  rateHz: number; // Passes per second, BLS_RATE_HZ_MIN to BLS_RATE_HZ_MAX
   pattern: BLSPattern;
   color: string; // Primary color (hex)
   secondaryColor?: string; // Secondary color for gradients
@@ -776,6 +853,8 @@ export interface BLSConfiguration {
   haptics: BLSHapticsConfig;
   rendering3D: BLS3DConfig;
   transitions: BLSTransitionConfig;
+  sets?: BLSSetSequenceConfig; // Continuous stimulation when absent
+  auditory?: BLSAuditoryConfig; // Visual stimulation when absent
   
   // Adaptive Intelligence
   adaptiveMode: boolean; // AI-driven adaptation
@@ -833,7 +912,7 @@ export interface TherapeuticMemory {
   };
   adaptivePreferences: {
     preferredBLSPattern: string;
-    optimalSpeed: number;
+    optimalRateHz: number;
     effectiveColors: string[];
   };
 }
@@ -1057,6 +1136,18 @@ export interface AIEmotionResponse {
   };
 }
 
+// Logged AI intervention - one entry of ai_therapy_sessions.interventions
+export interface AIInterventionLogEntry {
+  id: string;
+  type: 'chat' | 'voice' | 'guidance' | 'emotion-response';
+  timestamp: number;
+  phase: EMDRPhase;
+  aiModel: string;
+  patientMessage?: string; // Patient input that triggered the intervention (chat/voice only)
+  response: AITherapistMessage | AISessionGuidance | AIEmotionResponse;
+  emotionCaptureId?: string; // Latest emotion capture at the time of the call
+}
+
 // 98 Emotional States Mapping
 export interface EmotionalState98 {
   primaryAffects: Array<{
@@ -1239,6 +1330,7 @@ export interface SaveSessionMemoryRequest {
   snapshotType: string;
   emotionalSnapshot: EmotionData;
   phaseContext: EMDRPhase;
+  timestamp?: number; // When the moment happened, if not now (e.g. synced offline data)
   metadata?: {
     sudsLevel?: number;
     vocLevel?: number;
@@ -1325,6 +1417,81 @@ export interface ProgressReportResponse {
   };
 }
 
+// === AFFECT ANALYTICS TYPES ===
+
+// How a derived analytics payload was computed
+export interface AnalyticsProvenance {
+  method: string;
+  sources: Array<{ table: 'emotion_captures' | 'session_memory_snapshots'; records: number }>;
+  window: { from: Date | null; to: Date | null };
+  generatedAt: Date;
+  notes: string[];
+}
+
+export type AffectBand = 'ultra_slow' | 'slow' | 'moderate' | 'fast';
+
+export interface AffectNode {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  activity: number; // 0-1, window mean normalized over the analyzed range
+  size: number;
+  color: string;
+}
+
+export interface AffectLink {
+  from: string;
+  to: string;
+  correlation: number; // Pearson r, -1 to 1
+  strength: number; // |r|
+  type: 'positive' | 'negative';
+  significant: boolean;
+}
+
+// Correlation graph over one window of emotion captures
+export interface AffectPattern {
+  id: string;
+  name: string;
+  timestamp: Date;
+  sampleCount: number;
+  nodes: AffectNode[];
+  links: AffectLink[];
+  activity: number; // mean arousal in the window
+  coherence: number; // mean |r| across signal pairs
+}
+
+// Relative spectral power of an affect signal in one sliding window
+export interface AffectSpectrumPoint {
+  timestamp: Date;
+  signal: 'arousal' | 'valence';
+  band: AffectBand;
+  frequency: number; // dominant frequency inside the band, Hz
+  amplitude: number; // share of total window power, 0-1
+}
+
+export interface MetricForecast {
+  metric: string;
+  currentValue: number;
+  history: Array<{ date: Date; value: number }>;
+  predictedValues: Array<{
+    date: Date;
+    value: number;
+    confidence: number;
+    range: { min: number; max: number };
+  }>;
+  trend: 'improving' | 'stable' | 'declining';
+  confidence: number;
+  factors: string[];
+  regression: {
+    slopePerDay: number;
+    intercept: number;
+    rSquared: number;
+    residualStdError: number;
+    sampleCount: number;
+  };
+}
+
 // === LIVE MEMORY INTEGRATION TYPES ===
 
 // For real-time memory updates during sessions
@@ -1339,6 +1506,12 @@ export interface LiveMemoryUpdate {
   aiRecommendations?: string[];
 }
 
+// Events on the /api/live/updates server-sent event stream
+export type LiveStreamEvent =
+  | { type: 'memory_update'; update: LiveMemoryUpdate }
+  | { type: 'insight'; insight: MemoryInsight }
+  | { type: 'crisis_alert'; crisis: CrisisEvent };
+
 // Memory-enhanced AI context
 export interface MemoryEnhancedAIContext extends AIChatContext {
   historicalPatterns: EmotionalPattern[];
@@ -1362,6 +1535,301 @@ export interface MemoryBasedRecommendation extends PersonalizedRecommendation {
   };
 }
 
+// === CRISIS ESCALATION TYPES ===
+
+export type CrisisSource = 'ai_analysis' | 'voice_ai' | 'conductor' | 'manual';
+export type CrisisStatus = 'open' | 'acknowledged' | 'escalated' | 'resolved';
+
+// One step in the handling of a crisis event, appended to crisis_events.audit_log
+export interface CrisisAuditEntry {
+  at: string; // ISO timestamp
+  action: 'detected' | 'redetected' | 'session_paused' | 'therapist_alerted' | 'escalated' | 'acknowledged' | 'resolved' | 'session_resumed';
+  actorId?: string; // User who acted; absent for automatic steps
+  details?: string;
+}
+
+// Local emergency services shown to the patient during a crisis
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+  description?: string;
+}
+
+// Post-incident report for one crisis event
+export interface CrisisReport {
+  crisis: CrisisEvent;
+  patient: { id: string; firstName: string | null; lastName: string | null; username: string | null } | null;
+  session: Pick<Session, 'id' | 'phase' | 'status' | 'startTime' | 'endTime' | 'sudsInitial' | 'sudsFinal'> | null;
+  timeline: CrisisAuditEntry[];
+  metrics: {
+    timeToAcknowledgeMs: number | null;
+    timeToResolveMs: number | null;
+    escalationLevel: number;
+  };
+  // Emotional snapshots recorded around the time of the crisis
+  emotionalContext: Array<{ timestamp: Date; arousal: number; valence: number; stressLevel: number | null }>;
+}
+
+// === OFFLINE SESSION SYNC TYPES ===
+
+// Operations queued by the client while offline and uploaded to /api/sync/batch in order.
+// The idempotency key makes retries safe: the server replays the stored result instead of applying twice.
+interface SyncOperationBase {
+  idempotencyKey: string;
+  clientSessionId: string;
+  patientId?: string; // Defaults to the signed-in user
+  clientTimestamp: number; // When the change happened on the client
+}
+
+export interface SessionUpsertOperation extends SyncOperationBase {
+  type: 'session_upsert';
+  payload: {
+    therapistId?: string; // Defaults to the patient's caseload therapist
+    startTime: number;
+    endTime?: number;
+    phase: EMDRPhase;
+    status: 'active' | 'paused' | 'completed' | 'cancelled';
+    sudsInitial?: number;
+    vocInitial?: number;
+  };
+}
+
+export interface EmotionCaptureOperation extends SyncOperationBase {
+  type: 'emotion_capture';
+  payload: {
+    emotionData: EmotionData;
+    phase: EMDRPhase;
+    blsConfig?: Partial<BLSConfiguration>;
+  };
+}
+
+export interface RatingUpdateOperation extends SyncOperationBase {
+  type: 'rating_update';
+  payload: {
+    scale: 'sud' | 'voc';
+    value: number;
+    phase: EMDRPhase;
+    emotionData: EmotionData; // Emotional state when the rating was given
+  };
+}
+
+export type SessionSyncOperation = SessionUpsertOperation | EmotionCaptureOperation | RatingUpdateOperation;
+
+// applied: stored as sent; merged: stored, but newer server state won some fields;
+// deferred: cannot apply yet (e.g. its session is not synced), retry later; rejected: will never apply
+export type SyncOperationStatus = 'applied' | 'merged' | 'deferred' | 'rejected';
+
+export interface SyncOperationResult {
+  idempotencyKey: string;
+  status: SyncOperationStatus;
+  sessionId?: string; // Server session the client session maps to
+  error?: string;
+}
+
+export interface SyncBatchResponse {
+  results: SyncOperationResult[];
+  serverTime: number;
+}
+
+// === HISTORY TAKING TYPES ===
+
+// Structured intake gathered in phase 1 and kept per patient in patient_intakes.
+// Targets follow the three-pronged protocol: past memories, then present triggers, then future templates.
+export type IntakeTargetTimeframe = 'past' | 'present' | 'future';
+export type IntakeTargetStatus = 'pending' | 'processed';
+
+export interface IntakeTraumaTarget {
+  id: string;
+  description: string;
+  timeframe: IntakeTargetTimeframe;
+  ageAtEvent?: number;
+  sudEstimate?: number; // 0-10, as rated at intake
+  negativeCognition?: string;
+  positiveCognition?: string;
+  priority: number; // 1 is reprocessed first within its timeframe
+  status: IntakeTargetStatus;
+}
+
+export type IntakeResourceType = 'safe_place' | 'support_person' | 'coping_skill' | 'resource_figure' | 'other';
+
+export interface IntakeResource {
+  id: string;
+  type: IntakeResourceType;
+  description: string;
+  strength?: number; // 0-10, how well it settles the patient
+}
+
+// Clinician's view of whether the patient is stable enough for reprocessing
+export interface StabilisationReadiness {
+  affectTolerance: number; // 0-10
+  dissociationRisk: 'low' | 'moderate' | 'high';
+  currentlySafe: boolean; // No ongoing danger, self-harm or substance crisis
+  supportSystem: boolean;
+  clinicianApproved: boolean;
+  notes?: string;
+}
+
+export type ReadinessBlocker = 'not_assessed' | 'low_affect_tolerance' | 'dissociation_risk' | 'not_safe' | 'no_clinician_approval';
+
+// === TREATMENT PLAN TYPES ===
+
+// Targets a patient reprocesses over many sessions, kept in treatment_targets and seeded from the intake.
+// 'in-process' while a session works on the target, 'incomplete' when it ended before resolution.
+export type TreatmentTargetStatus = 'pending' | 'in-process' | 'incomplete' | 'resolved';
+
+// Ratings at the end of a session that reprocessed the target
+export interface TreatmentTargetOutcome {
+  sessionId: string;
+  sud: number; // 0-10
+  voc: number; // 1-7
+  bodyScanClear?: boolean;
+  // Session's opening ratings; fill the baseline of a target that has none yet
+  initialSud?: number;
+  initialVoc?: number;
+}
+
+// Seed for the conductor's TargetMemory
+export interface TreatmentTargetMemory {
+  id: string;
+  description: string;
+  initialSUD: number;
+  currentSUD: number;
+  currentVOC: number;
+  negativeBeliefs: string[];
+  positiveBeliefs: string[];
+}
+
+// Where the next session should start and with which target
+export interface TreatmentTargetSelection {
+  recommendedPhase: EMDRPhase;
+  reason: 'no_intake' | 'intake_incomplete' | 'not_ready' | 'target_incomplete' | 'target_selected' | 'all_targets_resolved';
+  blockers: ReadinessBlocker[];
+  target: TreatmentTarget | null;
+  targetMemory: TreatmentTargetMemory | null;
+}
+
+// === ADAPTIVE BLS RULE TYPES ===
+
+// Serialisable rules the AdaptiveController uses to map emotion readings to BLS settings.
+// Stored per therapist or clinic-wide in adaptive_rule_sets; the built-in set applies when neither exists.
+export type AdaptiveRuleMetric = 'arousal' | 'valence';
+export type AdaptiveRuleComparison = 'above' | 'atLeast' | 'below' | 'atMost';
+export type AdaptiveRuleTrend = 'rising' | 'falling' | 'stable';
+
+export type AdaptiveRuleCondition =
+  | { type: AdaptiveRuleMetric; compare: AdaptiveRuleComparison; value: number }
+  | { type: 'affect'; affects: string[]; above: number } // Any of the named affects98 intensities above the threshold
+  | { type: 'phase'; phases: EMDRPhase[] }
+  | { type: 'trend'; metric: AdaptiveRuleMetric; direction: AdaptiveRuleTrend } // Over the controller's recent readings
+  | { type: 'all' | 'any'; conditions: AdaptiveRuleCondition[] }
+  | { type: 'not'; condition: AdaptiveRuleCondition };
+
+// Sub-configs are completed from their defaults when the rule applies
+export interface AdaptiveRuleAdaptations {
+  rateHz?: number;
+  pattern?: BLSPattern;
+  color?: string;
+  secondaryColor?: string;
+  audio?: Partial<BLSAudioConfig>;
+  haptics?: Partial<BLSHapticsConfig>;
+  rendering3D?: Partial<BLS3DConfig>;
+  transitions?: Partial<BLSTransitionConfig>;
+}
+
+export interface AdaptiveRuleDefinition {
+  id: string;
+  condition: AdaptiveRuleCondition;
+  adaptations: AdaptiveRuleAdaptations;
+  priority: number; // Higher wins; 100 and above applies at once, without hysteresis
+  therapeutic: string; // Therapeutic reasoning shown with the adaptation
+  enabled: boolean;
+}
+
+export interface AdaptiveRuleSetDefinition {
+  name: string;
+  rules: AdaptiveRuleDefinition[];
+}
+
+export type AdaptiveRuleSetScope = 'therapist' | 'clinic';
+
+// Rule set that applies to a user: their therapist's, else the clinic's, else the built-in one
+export interface EffectiveAdaptiveRuleSet {
+  source: AdaptiveRuleSetScope | 'default';
+  ruleSet: AdaptiveRuleSetDefinition;
+  updatedAt: string | null;
+}
+
+// === LIVE SESSION ROOM TYPES ===
+
+// Therapist-patient channel on the /session-room WebSocket, one room per EMDR session
+export type SessionRoomRole = 'therapist' | 'patient';
+export type SessionRoomPhase = EMDRPhase | 'waiting';
+
+// Order the room moves through: the 8 protocol phases between waiting and integration
+export const SESSION_ROOM_PHASES = [
+  'waiting', 'history-taking', 'preparation', 'assessment', 'desensitization',
+  'installation', 'body-scan', 'closure', 'reevaluation', 'integration'
+] as const satisfies readonly SessionRoomPhase[];
+
+// Subset of BLSConfiguration the therapist controls remotely
+export type SessionRoomBLSConfig = Partial<Pick<BLSConfiguration, 'rateHz' | 'pattern' | 'color' | 'secondaryColor' | 'size' | 'soundEnabled'>>;
+
+export interface SessionRoomInstruction {
+  text: string;
+  expects?: 'suds' | 'voc'; // Patient is asked to answer on this scale
+  sentAt: number;
+}
+
+export interface SessionRoomEmotionSummary {
+  arousal: number; // -1 to 1
+  valence: number; // -1 to 1
+  stress?: number; // 0-1
+  dominantEmotion?: string;
+  timestamp: number;
+}
+
+export interface SessionRoomState {
+  sessionId: string;
+  phase: SessionRoomPhase;
+  blsActive: boolean;
+  blsConfig: SessionRoomBLSConfig;
+  currentSet: number; // Incremented each time BLS starts
+  instruction: SessionRoomInstruction | null;
+  participants: Record<SessionRoomRole, boolean>;
+  lastSuds: { value: number; at: number } | null;
+  lastVoc: { value: number; at: number } | null;
+  lastEmotion: SessionRoomEmotionSummary | null;
+  // Crisis that paused the session; stays set until resolved
+  crisis: { id: string; riskLevel: string; status: CrisisStatus; raisedAt: number } | null;
+}
+
+// WebRTC signalling relayed verbatim to the other side of the room
+export type SessionRoomRTCSignal =
+  | { kind: 'description'; description: { type: 'offer' | 'answer' | 'pranswer' | 'rollback'; sdp?: string } }
+  | { kind: 'ice'; candidate: { candidate: string; sdpMid?: string | null; sdpMLineIndex?: number | null; usernameFragment?: string | null } }
+  | { kind: 'hangup' };
+
+// Messages sent by clients
+export type SessionRoomClientMessage =
+  | { type: 'bls_start'; config?: SessionRoomBLSConfig }
+  | { type: 'bls_stop' }
+  | { type: 'bls_config'; config: SessionRoomBLSConfig }
+  | { type: 'phase_change'; phase: SessionRoomPhase }
+  | { type: 'instruction'; text: string; expects?: 'suds' | 'voc' }
+  | { type: 'suds_response'; value: number }
+  | { type: 'voc_response'; value: number }
+  | { type: 'emotion_summary'; summary: Omit<SessionRoomEmotionSummary, 'timestamp'> }
+  | { type: 'rtc_signal'; signal: SessionRoomRTCSignal }
+  | { type: 'ping'; sentAt: number };
+
+// Messages sent by the server; every room event carries the updated state
+export type SessionRoomServerMessage =
+  | { type: 'room_state'; role: SessionRoomRole; state: SessionRoomState }
+  | { type: 'room_event'; event: Exclude<SessionRoomClientMessage['type'], 'rtc_signal' | 'ping'> | 'participant_joined' | 'participant_left' | 'crisis_update'; from: SessionRoomRole; seq: number; serverTime: number; state: SessionRoomState }
+  | { type: 'rtc_signal'; from: SessionRoomRole; signal: SessionRoomRTCSignal }
+  | { type: 'pong'; sentAt: number; serverTime: number }
+  | { type: 'error'; message: string };
+
 // === TEXT-TO-SPEECH (TTS) SYSTEM ===
 
 // TTS Provider Types
@@ -1888,6 +2356,7 @@ export interface ElevenLabsTTSProvider {
       };
       // Context-based voice mapping
       contextMapping: {
+        'history-taking': string; // Voice ID for history-taking phase
         preparation: string; // Voice ID for preparation phase
         assessment: string; // Voice ID for assessment phase
         desensitization: string; // Voice ID for desensitization phase